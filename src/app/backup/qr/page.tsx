@@ -533,6 +533,7 @@ export default function BackupQRPage() {
                     includeTransactions: true,
                     includeSecurityAudit: true,
                     includeWatchedAddresses: true,
+                    includeInvoices: true,
                     overwriteExisting: false,
                 },
                 (step, progress) => {
@@ -6,6 +6,7 @@ import './vendor-prefixes.css';
 import { WalletProvider } from '@/contexts/WalletContext';
 import { SecurityProvider } from '@/contexts/SecurityContext';
 import { NotificationProvider } from '@/contexts/NotificationContext';
+import { CurrencyProvider } from '@/contexts/CurrencyContext';
 import { Toaster } from '@/components/ui/sonner';
 import dynamic from 'next/dynamic';
 import ClientErrorBoundary from '@/components/ClientErrorBoundary';
@@ -14,6 +15,8 @@ const ServiceWorkerRegistrar = dynamic(() => import('@/components/ServiceWorkerR
 
 import ElectrumManagerWrapper from '@/components/ElectrumManagerWrapper';
 import ClientWatchedAddressWrapper from '@/components/ClientWatchedAddressWrapper';
+import ScheduledPaymentMonitor from '@/components/ScheduledPaymentMonitor';
+import InvoiceMonitor from '@/components/InvoiceMonitor';
 
 const inter = Inter({ subsets: ['latin'] });
 
@@ -115,10 +118,14 @@ export default function RootLayout({ children }: { children: React.ReactNode })
             <Toaster position="top-right" closeButton />
             <SecurityProvider>
               <WalletProvider>
-                <NotificationProvider>
-                  {children}
-                  <ClientWatchedAddressWrapper />
-                </NotificationProvider>
+                <CurrencyProvider>
+                  <NotificationProvider>
+                    {children}
+                    <ClientWatchedAddressWrapper />
+                    <ScheduledPaymentMonitor />
+                    <InvoiceMonitor />
+                  </NotificationProvider>
+                </CurrencyProvider>
               </WalletProvider>
             </SecurityProvider>
           </ClientErrorBoundary>
@@ -165,6 +165,7 @@ export default function OnboardingPage() {
             includeTransactions: true,
             includeSecurityAudit: true,
             includeWatchedAddresses: true,
+            includeInvoices: true,
             overwriteExisting: false,
         });
 
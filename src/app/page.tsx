@@ -13,21 +13,27 @@ import {
     Copy,
     HelpCircle,
     Server,
+    Coins,
 } from 'lucide-react';
 import { useWallet } from '@/contexts/WalletContext';
 import { useSecurity } from '@/contexts/SecurityContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
 import { useState, useEffect, useRef } from 'react';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import SendForm from '@/components/SendForm';
 import ReceiveContent from '@/components/ReceiveContent';
 import WalletSettingsDashboard from '@/components/WalletSettingsDashboard';
 import { TransactionHistory } from '@/components/TransactionHistory';
 import ConnectionStatus from '@/components/ConnectionStatus';
+import AssetList from '@/components/AssetList';
+import FrozenBalance from '@/components/FrozenBalance';
 import ThemeSwitcher from '@/components/ThemeSwitcher';
 import GradientBackground from '@/components/GradientBackground';
 import WelcomeDialog from '@/components/WelcomeDialog';
 import AboutModal from '@/components/AboutModal';
 import { AppLayout } from '@/components/AppLayout';
+import { PaymentUriService } from '@/services/wallet/PaymentUriService';
+import { QRScanResult } from '@/types/addressBook';
 import { toast } from 'sonner';
 
 import { Button } from '@/components/ui/button';
@@ -36,14 +42,17 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 export default function Home() {
     const router = useRouter();
+    const searchParams = useSearchParams();
     const { wallet, balance, address, isLoading, processingProgress, updateBalance } = useWallet();
     const { lockWallet, isLocked } = useSecurity();
+    const { formatFiatValue } = useCurrency();
     const [activeTab, setActiveTab] = useState<'send' | 'receive' | 'history'>('send');
     const [isRefreshing, setIsRefreshing] = useState(false);
     const [showWelcomeDialog, setShowWelcomeDialog] = useState(false);
     const [showAboutModal, setShowAboutModal] = useState(false);
     const [copiedAddress, setCopiedAddress] = useState<string | null>(null);
     const [termsAccepted, setTermsAccepted] = useState<boolean | null>(null);
+    const [paymentRequest, setPaymentRequest] = useState<QRScanResult | null>(null);
 
     const fullRefreshRequestedRef = useRef(false);
 
@@ -59,6 +68,32 @@ export default function Home() {
         }
     }, [router]);
 
+    // Payment links opened through the web+avian: protocol handler arrive as /?pay=<uri>
+    useEffect(() => {
+        const link = searchParams.get('pay');
+        if (!link) return;
+
+        try {
+            const request = PaymentUriService.toScanResult(PaymentUriService.parse(link));
+            setPaymentRequest(request);
+            setActiveTab('send');
+            const title = request.label
+                ? `Payment Request: ${request.label}`
+                : 'Payment Link Opened';
+            toast.success(title, {
+                description: request.amount
+                    ? `${request.amount} AVN to ${request.address}`
+                    : request.address,
+            });
+        } catch (error) {
+            toast.error('Invalid payment link', {
+                description: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
+
+        router.replace('/');
+    }, [searchParams, router]);
+
     // Check if wallet exists on initial load - only after terms are accepted
     useEffect(() => {
         const checkWalletExists = async () => {
@@ -95,6 +130,8 @@ export default function Home() {
         return avnBalance;
     };
 
+    const fiatBalance = formatFiatValue(balance / 100000000);
+
     const formatAddress = (address: string) => {
         if (!address) return '';
         return `${address.slice(0, 8)}...${address.slice(-8)}`;
@@ -264,6 +301,10 @@ export default function Home() {
                                 </>
                             )}
                         </div>
+                        {fiatBalance && !isLoading && (
+                            <div className="text-sm md:text-base text-white/80 -mt-1 mb-2">≈ {fiatBalance}</div>
+                        )}
+                        <FrozenBalance className="text-xs md:text-sm text-white/80 -mt-1 mb-2" />
                         <div className="text-xs md:text-sm font-mono flex items-center space-x-1 text-white/90">
                             <span className="truncate max-w-[180px] sm:max-w-[220px] md:max-w-[300px]">
                                 {address ? address : 'No wallet loaded'}
@@ -338,7 +379,7 @@ export default function Home() {
                     <Card className="mt-2">
                         <CardContent className="p-0">
                             <TabsContent value="send" className="m-0">
-                                <SendForm />
+                                <SendForm paymentRequest={paymentRequest} />
                             </TabsContent>
                             <TabsContent value="receive" className="m-0">
                                 <ReceiveContent address={address || ''} />
@@ -350,6 +391,19 @@ export default function Home() {
                     </Card>
                 </Tabs>
 
+                {/* Assets */}
+                <Card className="mb-6">
+                    <CardHeader className="py-3 px-4">
+                        <CardTitle className="text-base flex items-center">
+                            <Coins className="h-4 w-4 mr-2" />
+                            Assets
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="px-4 pb-4">
+                        <AssetList onSend={() => setActiveTab('send')} />
+                    </CardContent>
+                </Card>
+
                 {/* Connection Status */}
                 <Card>
                     <CardContent className="p-0">
@@ -397,6 +451,10 @@ export default function Home() {
                                 </>
                             )}
                         </div>
+                        {fiatBalance && !isLoading && (
+                            <div className="text-base text-white/80 -mt-1 mb-2">≈ {fiatBalance}</div>
+                        )}
+                        <FrozenBalance className="text-sm text-white/80 -mt-1 mb-2" />
                         <div className="text-sm font-mono flex items-center space-x-1 text-white/90">
                             <span className="truncate max-w-[300px]">
                                 {address ? address : 'No wallet loaded'}
@@ -445,7 +503,7 @@ export default function Home() {
                                 <CardTitle className="text-lg">Send AVN</CardTitle>
                             </CardHeader>
                             <CardContent className="p-0 pt-2">
-                                <SendForm />
+                                <SendForm paymentRequest={paymentRequest} />
                             </CardContent>
                         </Card>
                     </div>
@@ -463,6 +521,19 @@ export default function Home() {
                         </Card>
                     </div>
 
+                    {/* Assets - Full width */}
+                    <div className="col-span-12">
+                        <Card className="h-full rounded-t-md">
+                            <CardHeader className="py-3 px-4 bg-gradient-to-r from-avian-400 via-avian-700 to-avian-400 text-white flex items-center rounded-t-md">
+                                <Coins className="h-5 w-5 mr-2 flex-shrink-0" />
+                                <CardTitle className="text-lg">Assets</CardTitle>
+                            </CardHeader>
+                            <CardContent className="p-4">
+                                <AssetList />
+                            </CardContent>
+                        </Card>
+                    </div>
+
                     {/* Transaction History - Full width bottom */}
                     <div className="col-span-12">
                         <Card className="h-full rounded-t-md">
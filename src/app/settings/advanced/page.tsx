@@ -2,7 +2,20 @@
 
 import React, { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { Bug, Code, Eye, Trash2 } from 'lucide-react';
+import {
+    Banknote,
+    Bug,
+    CalendarClock,
+    Code,
+    Coins,
+    Eye,
+    PenLine,
+    ReceiptText,
+    Server,
+    Tag,
+    Trash2,
+    Users,
+} from 'lucide-react';
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import MessageUtilities from '@/components/MessageUtilities';
@@ -40,6 +53,41 @@ export default function AdvancedSettingsPage() {
             icon: Code,
             action: () => setActiveSection('messages'),
         },
+        {
+            id: 'currency' as const,
+            title: 'Display Currency',
+            description: 'Choose the fiat currency balances and transactions are valued in',
+            icon: Banknote,
+            action: () => router.push('/settings/currency'),
+        },
+        {
+            id: 'labels' as const,
+            title: 'Labels',
+            description: 'Import and export address, transaction and coin labels (BIP329)',
+            icon: Tag,
+            action: () => router.push('/settings/labels'),
+        },
+        {
+            id: 'scheduled' as const,
+            title: 'Scheduled Payments',
+            description: 'Set up recurring payments and the limit they may sign on their own',
+            icon: CalendarClock,
+            action: () => router.push('/settings/scheduled-payments'),
+        },
+        {
+            id: 'invoices' as const,
+            title: 'Payment Requests',
+            description: 'Create invoices with an amount and expiry, and see when they are paid',
+            icon: ReceiptText,
+            action: () => router.push('/settings/invoices'),
+        },
+        {
+            id: 'servers' as const,
+            title: 'Electrum Servers',
+            description: 'Add your own servers, set their priority and check their health',
+            icon: Server,
+            action: () => router.push('/settings/servers'),
+        },
         {
             id: 'watched' as const,
             title: 'Watched Addresses',
@@ -47,6 +95,27 @@ export default function AdvancedSettingsPage() {
             icon: Eye,
             action: () => router.push('/settings/watched-addresses'),
         },
+        {
+            id: 'offline' as const,
+            title: 'Offline Signing',
+            description: 'Export unsigned transactions and sign them on an air-gapped device',
+            icon: PenLine,
+            action: () => router.push('/settings/offline-signing'),
+        },
+        {
+            id: 'assets' as const,
+            title: 'Issue Assets',
+            description: 'Create assets, sub-assets and unique tokens, or reissue assets you own',
+            icon: Coins,
+            action: () => router.push('/settings/asset-issuance'),
+        },
+        {
+            id: 'multisig' as const,
+            title: 'Multisig Wallets',
+            description: 'Create m-of-n shared wallets and co-sign their transactions',
+            icon: Users,
+            action: () => router.push('/settings/multisig'),
+        },
         {
             id: 'datawipe' as const,
             title: 'Reset Application',
@@ -0,0 +1,20 @@
+'use client';
+
+import React from 'react';
+import { AppLayout } from '@/components/AppLayout';
+import AssetIssuancePanel from '@/components/AssetIssuancePanel';
+
+export default function AssetIssuancePage() {
+    return (
+        <AppLayout
+            headerProps={{
+                title: 'Issue Assets',
+                showBackButton: true
+            }}
+        >
+            <div className="max-w-screen-2xl">
+                <AssetIssuancePanel />
+            </div>
+        </AppLayout>
+    );
+}
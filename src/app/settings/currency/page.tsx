@@ -0,0 +1,20 @@
+'use client';
+
+import React from 'react';
+import { AppLayout } from '@/components/AppLayout';
+import CurrencySettings from '@/components/CurrencySettings';
+
+export default function CurrencySettingsPage() {
+    return (
+        <AppLayout
+            headerProps={{
+                title: 'Display Currency',
+                showBackButton: true
+            }}
+        >
+            <div className="max-w-screen-2xl">
+                <CurrencySettings />
+            </div>
+        </AppLayout>
+    );
+}
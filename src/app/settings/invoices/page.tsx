@@ -0,0 +1,20 @@
+'use client';
+
+import React from 'react';
+import { AppLayout } from '@/components/AppLayout';
+import InvoicesPanel from '@/components/InvoicesPanel';
+
+export default function InvoicesPage() {
+    return (
+        <AppLayout
+            headerProps={{
+                title: 'Payment Requests',
+                showBackButton: true
+            }}
+        >
+            <div className="max-w-screen-2xl">
+                <InvoicesPanel />
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,20 @@
+'use client';
+
+import React from 'react';
+import { AppLayout } from '@/components/AppLayout';
+import LabelSettings from '@/components/LabelSettings';
+
+export default function LabelSettingsPage() {
+    return (
+        <AppLayout
+            headerProps={{
+                title: 'Labels',
+                showBackButton: true
+            }}
+        >
+            <div className="max-w-screen-2xl">
+                <LabelSettings />
+            </div>
+        </AppLayout>
+    );
+}
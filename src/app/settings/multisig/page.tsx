@@ -0,0 +1,20 @@
+'use client';
+
+import React from 'react';
+import { AppLayout } from '@/components/AppLayout';
+import MultisigPanel from '@/components/MultisigPanel';
+
+export default function MultisigPage() {
+    return (
+        <AppLayout
+            headerProps={{
+                title: 'Multisig Wallets',
+                showBackButton: true
+            }}
+        >
+            <div className="max-w-screen-2xl">
+                <MultisigPanel />
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,20 @@
+'use client';
+
+import React from 'react';
+import { AppLayout } from '@/components/AppLayout';
+import OfflineSigningPanel from '@/components/OfflineSigningPanel';
+
+export default function OfflineSigningPage() {
+    return (
+        <AppLayout
+            headerProps={{
+                title: 'Offline Signing',
+                showBackButton: true
+            }}
+        >
+            <div className="max-w-screen-2xl">
+                <OfflineSigningPanel />
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,20 @@
+'use client';
+
+import React from 'react';
+import { AppLayout } from '@/components/AppLayout';
+import ScheduledPaymentsPanel from '@/components/ScheduledPaymentsPanel';
+
+export default function ScheduledPaymentsPage() {
+    return (
+        <AppLayout
+            headerProps={{
+                title: 'Scheduled Payments',
+                showBackButton: true
+            }}
+        >
+            <div className="max-w-screen-2xl">
+                <ScheduledPaymentsPanel />
+            </div>
+        </AppLayout>
+    );
+}
@@ -0,0 +1,20 @@
+'use client';
+
+import React from 'react';
+import { AppLayout } from '@/components/AppLayout';
+import ElectrumServerManager from '@/components/ElectrumServerManager';
+
+export default function ElectrumServersPage() {
+    return (
+        <AppLayout
+            headerProps={{
+                title: 'Electrum Servers',
+                showBackButton: true
+            }}
+        >
+            <div className="max-w-screen-2xl">
+                <ElectrumServerManager />
+            </div>
+        </AppLayout>
+    );
+}
@@ -2,7 +2,8 @@
 
 import React, { useState, useEffect } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { Wallet, Plus, Settings, Eye, EyeOff, Lock, Unlock, Key, FileText, Hash, Copy, AlertTriangle, HardDrive } from 'lucide-react';
+import { Wallet, Plus, Settings, Eye, EyeOff, Lock, Unlock, Key, FileText, Hash, Copy, AlertTriangle, HardDrive, Share2, KeyRound } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
 import { useWallet } from '@/contexts/WalletContext';
 import { useSecurity } from '@/contexts/SecurityContext';
 import { toast } from 'sonner';
@@ -15,18 +16,21 @@ import { Badge } from '@/components/ui/badge';
 import { WalletManager } from '@/components/WalletManager';
 import DerivedAddressesPanel from '@/components/DerivedAddressesPanel';
 import AuthenticationDialog from '@/components/AuthenticationDialog';
+import ChangePasswordDialog from '@/components/ChangePasswordDialog';
 import { AppLayout } from '@/components/AppLayout';
 import { HeaderActions } from '@/components/HeaderActions';
 import { StorageService } from '@/services/core/StorageService';
 import RouteGuard from '@/components/RouteGuard';
+import { AddressDiscoveryState } from '@/types/addressDiscovery';
 
 export default function WalletSettingsPage() {
     const router = useRouter();
     const searchParams = useSearchParams();
-    const { exportPrivateKey, isEncrypted, encryptWallet, decryptWallet, exportMnemonic, address: currentWalletAddress } = useWallet();
+    const { exportPrivateKey, isEncrypted, encryptWallet, decryptWallet, exportMnemonic, exportAccountXpub, address: currentWalletAddress, wallet } = useWallet();
     const { requireAuth } = useSecurity();
-    const [activeSection, setActiveSection] = useState<'wallets' | 'addresses' | 'recovery' | 'privatekey' | 'encryption' | 'hdconfig' | null>(null);
+    const [activeSection, setActiveSection] = useState<'wallets' | 'addresses' | 'recovery' | 'privatekey' | 'xpub' | 'encryption' | 'hdconfig' | null>(null);
     const [showAuthDialog, setShowAuthDialog] = useState(false);
+    const [showChangePassword, setShowChangePassword] = useState(false);
     const [exportedPrivateKey, setExportedPrivateKey] = useState<string>('');
     const [showPrivateKey, setShowPrivateKey] = useState(false);
     const [isExportingPrivateKey, setIsExportingPrivateKey] = useState(false);
@@ -42,15 +46,25 @@ export default function WalletSettingsPage() {
     const [isExportingPassphrase, setIsExportingPassphrase] = useState(false);
     const [hasBip39Passphrase, setHasBip39Passphrase] = useState(false);
 
+    // Account xpub export state
+    const [exportedXpub, setExportedXpub] = useState<string>('');
+    const [isExportingXpub, setIsExportingXpub] = useState(false);
+
     // HD wallet address count state
     const [addressCount, setAddressCount] = useState<number>(5);
 
+    // HD address discovery state
+    const [gapLimit, setGapLimit] = useState<number>(20);
+    const [discoveryState, setDiscoveryState] = useState<AddressDiscoveryState | null>(null);
+    const [discoveryProgress, setDiscoveryProgress] = useState<{ scanned: number; used: number } | null>(null);
+    const [hdWalletBalance, setHdWalletBalance] = useState<number | null>(null);
+
     // Check for section parameter in URL
     useEffect(() => {
         const section = searchParams.get('section');
         if (section === 'wallets' || section === 'addresses' || section === 'recovery' ||
-            section === 'privatekey' || section === 'encryption' || section === 'hdconfig') {
-            setActiveSection(section as 'wallets' | 'addresses' | 'recovery' | 'privatekey' | 'encryption' | 'hdconfig');
+            section === 'privatekey' || section === 'xpub' || section === 'encryption' || section === 'hdconfig') {
+            setActiveSection(section as 'wallets' | 'addresses' | 'recovery' | 'privatekey' | 'xpub' | 'encryption' | 'hdconfig');
         }
     }, [searchParams]);
 
@@ -74,6 +88,25 @@ export default function WalletSettingsPage() {
         loadAddressCountPreference();
     }, [currentWalletAddress]); // Re-run when wallet changes
 
+    // Load gap limit and the last discovery result for the current wallet
+    useEffect(() => {
+        const loadDiscoveryState = async () => {
+            setHdWalletBalance(null);
+            if (!currentWalletAddress) {
+                setDiscoveryState(null);
+                return;
+            }
+
+            try {
+                setGapLimit(await StorageService.getGapLimit());
+                setDiscoveryState(await StorageService.getAddressDiscoveryState(currentWalletAddress));
+            } catch (error) {
+                setDiscoveryState(null);
+            }
+        };
+        loadDiscoveryState();
+    }, [currentWalletAddress]);
+
     // Reset exported data when wallet changes
     useEffect(() => {
         if (currentWalletAddress) {
@@ -85,6 +118,7 @@ export default function WalletSettingsPage() {
             setExportedPassphrase('');
             setShowPassphrase(false);
             setHasBip39Passphrase(false);
+            setExportedXpub('');
         }
     }, [currentWalletAddress]);
 
@@ -290,6 +324,50 @@ export default function WalletSettingsPage() {
         }
     };
 
+    const handleExportXpub = async () => {
+        try {
+            setIsExportingXpub(true);
+
+            let password: string | undefined;
+            if (isEncrypted) {
+                const authResult = await requireAuth('Please authenticate to export the account xpub');
+
+                if (!authResult.success || !authResult.password) {
+                    toast.error('Authentication failed', {
+                        description: 'You must authenticate to export the xpub',
+                    });
+                    return;
+                }
+                password = authResult.password;
+            }
+
+            const xpub = await exportAccountXpub(password);
+            setExportedXpub(xpub);
+            toast.success('Xpub exported', {
+                description: 'Your account extended public key has been exported',
+            });
+        } catch (error: any) {
+            toast.error('Export failed', {
+                description: error.message || 'Failed to export xpub',
+            });
+        } finally {
+            setIsExportingXpub(false);
+        }
+    };
+
+    const handleCopyXpub = async () => {
+        try {
+            await navigator.clipboard.writeText(exportedXpub);
+            toast.success('Copied to clipboard', {
+                description: 'Xpub copied successfully',
+            });
+        } catch (error) {
+            toast.error('Copy failed', {
+                description: 'Could not copy xpub to clipboard',
+            });
+        }
+    };
+
     const handleAddressCountChange = async (newCount: number) => {
         try {
             await StorageService.setChangeAddressCount(newCount);
@@ -300,6 +378,52 @@ export default function WalletSettingsPage() {
         }
     };
 
+    const handleGapLimitChange = async (newGapLimit: number) => {
+        try {
+            await StorageService.setGapLimit(newGapLimit);
+            setGapLimit(newGapLimit);
+        } catch (error) {
+            toast.error('Failed to save gap limit');
+        }
+    };
+
+    const handleDiscoverAddresses = async () => {
+        if (!wallet) return;
+
+        try {
+            let password: string | undefined;
+            if (isEncrypted) {
+                const authResult = await requireAuth('Please authenticate to scan your HD wallet addresses', true);
+
+                if (!authResult.success || !authResult.password) {
+                    toast.error('Authentication failed', {
+                        description: 'You must authenticate to scan addresses',
+                    });
+                    return;
+                }
+                password = authResult.password;
+            }
+
+            setDiscoveryProgress({ scanned: 0, used: 0 });
+            const state = await wallet.discoverHDAddresses(password, (scanned, used) =>
+                setDiscoveryProgress({ scanned, used })
+            );
+            setDiscoveryState(state);
+            setHdWalletBalance(await wallet.getHDWalletBalance(true));
+
+            const usedCount = state.accounts.reduce((sum, account) => sum + account.addresses.length, 0);
+            toast.success('Address discovery complete', {
+                description: `Found ${usedCount} used address${usedCount === 1 ? '' : 'es'} in ${state.accounts.length} account${state.accounts.length === 1 ? '' : 's'}`,
+            });
+        } catch (error: any) {
+            toast.error('Address discovery failed', {
+                description: error.message || 'Failed to scan HD wallet addresses',
+            });
+        } finally {
+            setDiscoveryProgress(null);
+        }
+    };
+
     const sections = [
         {
             id: 'wallets' as const,
@@ -329,10 +453,17 @@ export default function WalletSettingsPage() {
             icon: Key,
             action: () => setActiveSection('privatekey'),
         },
+        {
+            id: 'xpub' as const,
+            title: 'Export Xpub',
+            description: 'Share your account\'s extended public key with a watch-only wallet',
+            icon: Share2,
+            action: () => setActiveSection('xpub'),
+        },
         {
             id: 'encryption' as const,
             title: 'Wallet Encryption',
-            description: 'Encrypt or decrypt your wallet',
+            description: 'Encrypt, decrypt or change the password of your wallet',
             icon: Lock,
             action: () => setActiveSection('encryption'),
         },
@@ -752,14 +883,24 @@ export default function WalletSettingsPage() {
                                 </div>
 
                                 {isEncrypted ? (
-                                    <Button
-                                        onClick={() => handleWalletAction('decrypt')}
-                                        variant="destructive"
-                                        className="w-full"
-                                    >
-                                        <Unlock className="w-4 h-4 mr-2" />
-                                        Remove Encryption
-                                    </Button>
+                                    <>
+                                        <Button
+                                            onClick={() => setShowChangePassword(true)}
+                                            variant="outline"
+                                            className="w-full"
+                                        >
+                                            <KeyRound className="w-4 h-4 mr-2" />
+                                            Change Password
+                                        </Button>
+                                        <Button
+                                            onClick={() => handleWalletAction('decrypt')}
+                                            variant="destructive"
+                                            className="w-full"
+                                        >
+                                            <Unlock className="w-4 h-4 mr-2" />
+                                            Remove Encryption
+                                        </Button>
+                                    </>
                                 ) : (
                                     <Button
                                         onClick={() => handleWalletAction('encrypt')}
@@ -783,6 +924,91 @@ export default function WalletSettingsPage() {
             );
         }
 
+        if (activeSection === 'xpub') {
+            return (
+                <Card>
+                    <CardHeader className="pb-3 sm:pb-6">
+                        <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+                            <Share2 className="w-4 h-4 sm:w-5 sm:h-5" />
+                            Export Xpub
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="px-3 sm:px-6 pb-4 sm:pb-6">
+                        <div className="space-y-4">
+                            <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-700 rounded-lg p-3 sm:p-4">
+                                <div className="flex items-start gap-2 sm:gap-3">
+                                    <div className="w-4 h-4 sm:w-5 sm:h-5 rounded-full bg-amber-500 flex items-center justify-center flex-shrink-0 mt-0.5">
+                                        <AlertTriangle className="w-2.5 h-2.5 sm:w-3 sm:h-3 text-white" />
+                                    </div>
+                                    <div className="min-w-0 flex-1">
+                                        <h4 className="font-medium text-amber-800 dark:text-amber-200 mb-1 text-sm sm:text-base">
+                                            Privacy Notice
+                                        </h4>
+                                        <p className="text-xs sm:text-sm text-amber-700 dark:text-amber-300">
+                                            The xpub cannot spend your funds, but it reveals every address and transaction of this account. Only share it with wallets you control.
+                                        </p>
+                                    </div>
+                                </div>
+                            </div>
+
+                            {!exportedXpub ? (
+                                <div className="space-y-3">
+                                    <p className="text-xs sm:text-sm text-muted-foreground">
+                                        Export the extended public key of account 0. Import it as a watch-only wallet on another device to track balances and create unsigned transactions.
+                                    </p>
+                                    <Button
+                                        onClick={handleExportXpub}
+                                        disabled={isExportingXpub}
+                                        className="w-full"
+                                    >
+                                        {isExportingXpub ? (
+                                            <>
+                                                <div className="w-4 h-4 mr-2 animate-spin rounded-full border-2 border-white border-t-transparent" />
+                                                Exporting...
+                                            </>
+                                        ) : (
+                                            <>
+                                                <Share2 className="w-4 h-4 mr-2" />
+                                                Export Xpub
+                                            </>
+                                        )}
+                                    </Button>
+                                </div>
+                            ) : (
+                                <div className="space-y-4">
+                                    <div className="flex justify-center p-4 bg-white rounded-lg">
+                                        <QRCodeSVG value={exportedXpub} size={220} level="M" />
+                                    </div>
+                                    <div className="bg-muted/50 border rounded-lg p-4">
+                                        <div className="font-mono text-sm break-all">
+                                            {exportedXpub}
+                                        </div>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <Button
+                                            onClick={handleCopyXpub}
+                                            variant="secondary"
+                                            className="flex-1"
+                                        >
+                                            <Copy className="w-4 h-4 mr-2" />
+                                            Copy to Clipboard
+                                        </Button>
+                                        <Button
+                                            onClick={() => setExportedXpub('')}
+                                            variant="outline"
+                                            className="flex-1"
+                                        >
+                                            Clear
+                                        </Button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    </CardContent>
+                </Card>
+            );
+        }
+
         if (activeSection === 'hdconfig') {
             return (
                 <Card>
@@ -860,6 +1086,72 @@ export default function WalletSettingsPage() {
                                     Shows both receiving and change addresses. Receiving addresses are used for incoming transactions, while change addresses handle leftover funds from outgoing transactions.
                                 </p>
                             </div>
+
+                            <div className="space-y-4 border-t border-gray-200 dark:border-gray-700 pt-4">
+                                <Label htmlFor="hdGapLimit" className="text-sm sm:text-base">Address Discovery Gap Limit</Label>
+                                <div className="flex-1">
+                                    <Slider
+                                        id="hdGapLimit"
+                                        min={1}
+                                        max={100}
+                                        step={1}
+                                        value={[gapLimit]}
+                                        onValueChange={(value) => handleGapLimitChange(value[0])}
+                                        className="mt-2"
+                                    />
+                                    <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                                        <span>1</span>
+                                        <span className="font-medium text-primary">{gapLimit}</span>
+                                        <span>100</span>
+                                    </div>
+                                </div>
+                                <p className="text-xs sm:text-sm text-muted-foreground">
+                                    Discovery scans each receiving and change chain, and each account, until this many consecutive addresses have never been used. Raise it if a restored wallet is missing funds.
+                                </p>
+
+                                <Button
+                                    onClick={handleDiscoverAddresses}
+                                    disabled={!!discoveryProgress}
+                                    variant="secondary"
+                                    className="w-full"
+                                >
+                                    {discoveryProgress ? (
+                                        <>
+                                            <div className="w-4 h-4 mr-2 animate-spin rounded-full border-2 border-current border-t-transparent" />
+                                            Scanned {discoveryProgress.scanned} addresses ({discoveryProgress.used} used)...
+                                        </>
+                                    ) : (
+                                        <>
+                                            <Hash className="w-4 h-4 mr-2" />
+                                            Discover Used Addresses
+                                        </>
+                                    )}
+                                </Button>
+
+                                {discoveryState && (
+                                    <div className="bg-muted/50 border rounded-lg p-3 sm:p-4 space-y-2 text-xs sm:text-sm">
+                                        {discoveryState.accounts.map((account) => (
+                                            <div key={account.account} className="flex justify-between gap-2">
+                                                <span className="font-medium">Account {account.account}</span>
+                                                <span className="text-muted-foreground">
+                                                    Receive: {account.highestReceiveIndex >= 0 ? `up to #${account.highestReceiveIndex}` : 'unused'}
+                                                    {' · '}
+                                                    Change: {account.highestChangeIndex >= 0 ? `up to #${account.highestChangeIndex}` : 'unused'}
+                                                </span>
+                                            </div>
+                                        ))}
+                                        {hdWalletBalance !== null && (
+                                            <div className="flex justify-between gap-2 border-t pt-2">
+                                                <span className="font-medium">Total HD wallet balance</span>
+                                                <span>{(hdWalletBalance / 100000000).toFixed(8)} AVN</span>
+                                            </div>
+                                        )}
+                                        <p className="text-muted-foreground">
+                                            Last scanned {new Date(discoveryState.discoveredAt).toLocaleString()} with a gap limit of {discoveryState.gapLimit}
+                                        </p>
+                                    </div>
+                                )}
+                            </div>
                         </div>
                     </CardContent>
                 </Card>
@@ -904,6 +1196,7 @@ export default function WalletSettingsPage() {
                         activeSection === 'addresses' ? 'Derived Addresses' :
                             activeSection === 'recovery' ? 'Export Recovery Phrase' :
                                 activeSection === 'privatekey' ? 'Export Private Key' :
+                                    activeSection === 'xpub' ? 'Export Xpub' :
                                     activeSection === 'encryption' ? 'Wallet Encryption' :
                                         activeSection === 'hdconfig' ? 'HD Wallet Config' :
                                             'Wallet Management',
@@ -927,6 +1220,11 @@ export default function WalletSettingsPage() {
                     title="Wallet Encryption"
                     message="Authentication required to modify wallet encryption"
                 />
+
+                <ChangePasswordDialog
+                    isOpen={showChangePassword}
+                    onClose={() => setShowChangePassword(false)}
+                />
             </AppLayout>
         </RouteGuard>
     );
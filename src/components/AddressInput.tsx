@@ -1,8 +1,9 @@
 'use client';
 
-import { useState } from 'react';
+import { toast } from 'sonner';
 import { Input } from '@/components/ui/input';
 import AddressBookButton from './AddressBookButton';
+import { PaymentUriService } from '@/services/wallet/PaymentUriService';
 import { QRScanResult } from '@/types/addressBook';
 
 interface AddressInputProps {
@@ -24,6 +25,26 @@ export default function AddressInput({
   disabled = false,
   error = false,
 }: AddressInputProps) {
+  // A pasted avian: payment link fills in the address, and the amount where the form takes one
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const text = e.clipboardData.getData('text');
+    if (!PaymentUriService.isPaymentUri(text)) return;
+
+    e.preventDefault();
+    try {
+      const result = PaymentUriService.toScanResult(PaymentUriService.parse(text));
+      if (onPaymentRequest && (result.amount || result.label || result.message)) {
+        onPaymentRequest(result);
+      } else {
+        onChange(result.address);
+      }
+    } catch (error) {
+      toast.error('Invalid payment link', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
   return (
     <div className="relative">
       <Input
@@ -31,6 +52,7 @@ export default function AddressInput({
         placeholder={placeholder}
         value={value}
         onChange={(e) => onChange(e.target.value)}
+        onPaste={handlePaste}
         className={`pr-20 font-mono ${error ? 'border-red-500' : ''} ${className}`}
         disabled={disabled}
       />
@@ -0,0 +1,349 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Coins, AlertCircle, Flame } from 'lucide-react';
+import { toast } from 'sonner';
+import { useWallet } from '@/contexts/WalletContext';
+import { useSecurity } from '@/contexts/SecurityContext';
+import { AssetService } from '@/services/wallet/AssetService';
+import { AssetIssuePreview, AssetIssueRequest, AssetIssueType } from '@/types/assets';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const formatAVN = (satoshis: number) => `${(satoshis / 100000000).toFixed(8)} AVN`;
+
+const ISSUE_TYPES: Array<{ value: AssetIssueType; title: string; description: string }> = [
+  { value: 'root', title: 'New asset', description: 'A new top-level asset, e.g. MYTOKEN' },
+  {
+    value: 'sub',
+    title: 'Sub-asset',
+    description: 'An asset under one you own, e.g. MYTOKEN/GOLD',
+  },
+  {
+    value: 'unique',
+    title: 'Unique asset',
+    description: 'A one-of-a-kind token under one you own, e.g. MYTOKEN#001',
+  },
+  { value: 'reissue', title: 'Reissue', description: 'Add supply to or update an asset you own' },
+];
+
+export default function AssetIssuancePanel() {
+  const { wallet, isEncrypted, isWatchOnly, isConnected, issueAsset } = useWallet();
+  const { requireAuth } = useSecurity();
+  const [issueType, setIssueType] = useState<AssetIssueType>('root');
+  const [ownedAssets, setOwnedAssets] = useState<string[]>([]); // Assets we hold the owner token of
+  const [parent, setParent] = useState('');
+  const [name, setName] = useState(''); // Root name, sub-asset child name or unique tag
+  const [amount, setAmount] = useState('');
+  const [units, setUnits] = useState(0);
+  const [reissuable, setReissuable] = useState(true);
+  const [preview, setPreview] = useState<AssetIssuePreview | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!wallet || !isConnected) return;
+
+    wallet
+      .getAssetBalances()
+      .then((balances) =>
+        setOwnedAssets(
+          balances
+            .filter((balance) => balance.name.endsWith('!'))
+            .map((balance) => balance.name.slice(0, -1)),
+        ),
+      )
+      .catch(() => setOwnedAssets([]));
+  }, [wallet, isConnected]);
+
+  const needsParent = issueType !== 'root';
+  const fullName =
+    issueType === 'root'
+      ? name
+      : issueType === 'sub'
+        ? `${parent}/${name}`
+        : issueType === 'unique'
+          ? `${parent}#${name}`
+          : parent;
+
+  const request: AssetIssueRequest =
+    issueType === 'unique'
+      ? {
+          type: issueType,
+          name: fullName,
+          amount: AssetService.ASSET_UNIT,
+          units: 0,
+          reissuable: false,
+        }
+      : {
+          type: issueType,
+          name: fullName,
+          amount: AssetService.toUnits(parseFloat(amount) || 0),
+          units,
+          reissuable,
+        };
+
+  const nameError =
+    (needsParent && !parent) || (issueType !== 'reissue' && !name)
+      ? null
+      : AssetService.getNameError(fullName, issueType);
+  const requestError = AssetService.getIssueError(request);
+  const actionLabel = issueType === 'reissue' ? 'Reissue' : 'Create';
+
+  // Any change to the request invalidates the previewed burn and fee
+  useEffect(() => {
+    setPreview(null);
+    setError('');
+  }, [issueType, parent, name, amount, units, reissuable]);
+
+  const changeType = (value: string) => {
+    setIssueType(value as AssetIssueType);
+    setName('');
+    setAmount('');
+    setUnits(value === 'reissue' ? -1 : 0);
+  };
+
+  const handlePreview = async () => {
+    if (!wallet) return;
+
+    setError('');
+    setIsWorking(true);
+    try {
+      setPreview(await wallet.estimateAssetIssue(request));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to prepare issuance');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleIssue = async () => {
+    if (!preview) return;
+
+    setError('');
+    setIsWorking(true);
+    try {
+      let password: string | undefined;
+      if (isEncrypted) {
+        const authResult = await requireAuth(
+          `Authenticate to create ${fullName}, burning ${formatAVN(preview.burnAmount)}`,
+        );
+        if (!authResult.success || !authResult.password) {
+          setError('Authentication required to issue asset');
+          return;
+        }
+        password = authResult.password;
+      }
+
+      const txid = await issueAsset(request, password);
+      toast.success(issueType === 'reissue' ? 'Asset reissued' : 'Asset created', {
+        description: `${fullName} in transaction ${txid.slice(0, 16)}...`,
+      });
+      setName('');
+      setAmount('');
+      setPreview(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to issue asset');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Coins className="w-5 h-5" />
+          Issue Assets
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Create assets, sub-assets and unique tokens, or add supply to an asset you own. Each
+          issuance burns AVN in addition to the network fee.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isWatchOnly && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>Watch-only wallets cannot issue assets.</AlertDescription>
+          </Alert>
+        )}
+
+        <RadioGroup value={issueType} onValueChange={changeType} className="space-y-2">
+          {ISSUE_TYPES.map((type) => (
+            <div key={type.value} className="flex items-center space-x-2">
+              <RadioGroupItem value={type.value} id={`issue-${type.value}`} />
+              <Label htmlFor={`issue-${type.value}`} className="cursor-pointer">
+                <span className="font-medium">{type.title}</span>
+                <span className="text-xs text-muted-foreground ml-2">
+                  {formatAVN(AssetService.BURN[type.value].amount)} burn
+                </span>
+                <p className="text-xs text-muted-foreground">{type.description}</p>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        {needsParent && (
+          <div className="space-y-2">
+            <Label htmlFor="issueParent">
+              {issueType === 'reissue' ? 'Asset' : 'Parent Asset'}
+            </Label>
+            <Select value={parent} onValueChange={setParent}>
+              <SelectTrigger id="issueParent">
+                <SelectValue
+                  placeholder={
+                    ownedAssets.length > 0 ? 'Select an asset you own' : 'No owner tokens found'
+                  }
+                />
+              </SelectTrigger>
+              <SelectContent>
+                {ownedAssets.map((asset) => (
+                  <SelectItem key={asset} value={asset}>
+                    {asset}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Owning an asset means holding its owner token ({parent || 'NAME'}!). The token is
+              spent and returned to you in the same transaction.
+            </p>
+          </div>
+        )}
+
+        {issueType !== 'reissue' && (
+          <div className="space-y-2">
+            <Label htmlFor="issueName">
+              {issueType === 'root' ? 'Asset Name' : issueType === 'sub' ? 'Sub-asset Name' : 'Tag'}
+            </Label>
+            <Input
+              id="issueName"
+              value={name}
+              onChange={(e) =>
+                setName(issueType === 'unique' ? e.target.value : e.target.value.toUpperCase())
+              }
+              placeholder={issueType === 'unique' ? '001' : 'MYTOKEN'}
+              className="font-mono"
+            />
+            {needsParent && parent && name && (
+              <p className="text-xs text-muted-foreground font-mono">{fullName}</p>
+            )}
+            {nameError && <p className="text-xs text-red-600 dark:text-red-400">{nameError}</p>}
+          </div>
+        )}
+
+        {issueType !== 'unique' && (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="issueAmount">
+                  {issueType === 'reissue' ? 'Additional Supply' : 'Supply'}
+                </Label>
+                <Input
+                  id="issueAmount"
+                  type="number"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="1000"
+                  min="0"
+                  step={Math.pow(10, -Math.max(0, units))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="issueUnits">Decimal Places</Label>
+                <Select
+                  value={String(units)}
+                  onValueChange={(value) => setUnits(parseInt(value, 10))}
+                >
+                  <SelectTrigger id="issueUnits">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {issueType === 'reissue' && <SelectItem value="-1">Keep current</SelectItem>}
+                    {Array.from({ length: AssetService.MAX_UNITS + 1 }, (_, i) => (
+                      <SelectItem key={i} value={String(i)}>
+                        {i}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="issueReissuable"
+                checked={reissuable}
+                onCheckedChange={(checked) => setReissuable(checked as boolean)}
+              />
+              <Label htmlFor="issueReissuable" className="text-sm cursor-pointer">
+                Reissuable (allow more supply and decimal places later)
+              </Label>
+            </div>
+          </>
+        )}
+
+        {preview && (
+          <div className="rounded-md border p-3 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="flex items-center text-muted-foreground">
+                <Flame className="h-4 w-4 mr-1 text-orange-500" />
+                Burn fee
+              </span>
+              <span className="font-medium">{formatAVN(preview.burnAmount)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Network fee</span>
+              <span className="font-medium">{formatAVN(preview.fee)}</span>
+            </div>
+            <div className="flex justify-between border-t pt-1">
+              <span className="text-muted-foreground">Total</span>
+              <span className="font-medium">{formatAVN(preview.burnAmount + preview.fee)}</span>
+            </div>
+            <p className="text-xs text-muted-foreground pt-1">
+              {preview.size} bytes, {preview.inputCount} input
+              {preview.inputCount === 1 ? '' : 's'}. The burn is sent to{' '}
+              <span className="font-mono break-all">{preview.burnAddress}</span> and cannot be
+              recovered.
+              {preview.ownerToken && ` Owner token ${preview.ownerToken} is returned to you.`}
+            </p>
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {preview ? (
+          <Button onClick={handleIssue} disabled={isWorking || isWatchOnly} className="w-full">
+            {isWorking ? 'Issuing...' : `Burn ${formatAVN(preview.burnAmount)} and ${actionLabel}`}
+          </Button>
+        ) : (
+          <Button
+            onClick={handlePreview}
+            disabled={isWorking || isWatchOnly || !isConnected || !!requestError}
+            className="w-full"
+          >
+            {isWorking ? 'Preparing...' : 'Preview Burn and Fee'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Coins, RefreshCw, Send } from 'lucide-react';
+import { useWallet } from '@/contexts/WalletContext';
+import { AssetService } from '@/services/wallet/AssetService';
+import { AssetBalance } from '@/types/assets';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+
+interface AssetListProps {
+  onSend?: (assetName: string) => void; // Called after the send form has been told to use the asset
+}
+
+export default function AssetList({ onSend }: AssetListProps) {
+  const { wallet, address, balance, isConnected } = useWallet();
+  const [assets, setAssets] = useState<AssetBalance[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadAssets = useCallback(async () => {
+    if (!wallet || !address) return;
+
+    setIsLoading(true);
+    try {
+      setAssets(await wallet.getAssetBalances());
+    } catch (error) {
+      toast.error('Failed to load assets', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [wallet, address]);
+
+  // Reload whenever the AVN balance changes, which also covers incoming asset transfers
+  useEffect(() => {
+    if (isConnected) {
+      loadAssets();
+    }
+  }, [loadAssets, balance, isConnected]);
+
+  useEffect(() => {
+    window.addEventListener('wallet-switched', loadAssets);
+    return () => window.removeEventListener('wallet-switched', loadAssets);
+  }, [loadAssets]);
+
+  const handleSend = (assetName: string) => {
+    window.dispatchEvent(new CustomEvent('select-send-asset', { detail: { assetName } }));
+    onSend?.(assetName);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {assets.length === 1 ? '1 asset' : `${assets.length} assets`} held by this wallet
+        </p>
+        <Button variant="ghost" size="sm" onClick={loadAssets} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      {assets.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-6 text-center">
+          <Coins className="h-8 w-8 text-muted-foreground mb-2" />
+          <p className="text-sm text-muted-foreground">
+            {isLoading
+              ? 'Loading assets...'
+              : 'No assets yet. Assets sent to your address will appear here.'}
+          </p>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-200 dark:divide-gray-700 border rounded-md">
+          {assets.map((asset) => (
+            <div key={asset.name} className="flex items-center justify-between p-3 gap-3">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{asset.name}</p>
+                {asset.unconfirmed !== 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {asset.unconfirmed > 0 ? '+' : '-'}
+                    {AssetService.formatAmount(Math.abs(asset.unconfirmed))} pending
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-3 flex-shrink-0">
+                <span className="font-mono text-sm">
+                  {AssetService.formatAmount(asset.confirmed + asset.unconfirmed)}
+                </span>
+                <Button variant="outline" size="sm" onClick={() => handleSend(asset.name)}>
+                  <Send className="h-3 w-3 mr-1" />
+                  Send
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
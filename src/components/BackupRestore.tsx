@@ -22,6 +22,7 @@ export function BackupRestore() {
         includeWallets: true,
         includeAddressBook: true,
         includeSettings: true,
+        includeInvoices: true,
         overwriteExisting: false,
     });
 
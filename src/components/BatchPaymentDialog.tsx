@@ -0,0 +1,444 @@
+'use client';
+
+import { useState, useRef, ChangeEvent } from 'react';
+import { Users, AlertCircle, Plus, X, FileUp, ClipboardPaste } from 'lucide-react';
+import { toast } from 'sonner';
+import { useMediaQuery } from '@/hooks/use-media-query';
+import { useWallet } from '@/contexts/WalletContext';
+import { useSecurity } from '@/contexts/SecurityContext';
+import { BatchPaymentService } from '@/services/wallet/BatchPaymentService';
+import { LabelService } from '@/services/wallet/LabelService';
+import { BatchPaymentPreview, BatchRecipient } from '@/types/batchPayment';
+import AddressInput from './AddressInput';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+// Form values are kept as strings so inputs can be cleared
+interface RecipientRow {
+  id: number;
+  address: string;
+  amount: string;
+  label: string;
+}
+
+interface BatchPaymentDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  feeRate: number; // sat/byte, as picked in the send form
+  onSent?: (txid: string) => void;
+}
+
+const formatAVN = (satoshis: number) => (satoshis / 100000000).toFixed(8);
+
+export default function BatchPaymentDialog({
+  isOpen,
+  onClose,
+  feeRate,
+  onSent,
+}: BatchPaymentDialogProps) {
+  const isMobile = useMediaQuery('(max-width: 768px)');
+  const { wallet, isEncrypted, sendBatchTransaction } = useWallet();
+  const { requireAuth } = useSecurity();
+  const nextId = useRef(1);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const newRow = (recipient?: BatchRecipient): RecipientRow => ({
+    id: nextId.current++,
+    address: recipient?.address || '',
+    amount: recipient ? formatAVN(recipient.amount).replace(/\.?0+$/, '') : '',
+    label: recipient?.label || '',
+  });
+
+  const [rows, setRows] = useState<RecipientRow[]>(() => [newRow()]);
+  const [showPaste, setShowPaste] = useState(false);
+  const [pasteText, setPasteText] = useState('');
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [preview, setPreview] = useState<BatchPaymentPreview | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  // Rows left completely empty are ignored
+  const filledRows = rows.filter((row) => row.address.trim() || row.amount.trim());
+  const recipients: BatchRecipient[] = filledRows.map((row) => ({
+    address: row.address.trim(),
+    amount: BatchPaymentService.parseAmount(row.amount) ?? NaN,
+    ...(row.label.trim() && { label: row.label.trim() }),
+  }));
+  const rowErrors = new Map<number, string>();
+  filledRows.forEach((row, i) => {
+    const problem = BatchPaymentService.validateRecipient(recipients[i]);
+    if (problem) rowErrors.set(row.id, problem);
+  });
+  const total = BatchPaymentService.getTotal(recipients.filter((r) => !isNaN(r.amount)));
+  const canReview =
+    recipients.length > 0 &&
+    recipients.length <= BatchPaymentService.MAX_RECIPIENTS &&
+    rowErrors.size === 0;
+
+  const reset = () => {
+    setRows([newRow()]);
+    setShowPaste(false);
+    setPasteText('');
+    setImportErrors([]);
+    setPreview(null);
+    setError('');
+  };
+
+  const handleClose = () => {
+    if (isWorking) return;
+    reset();
+    onClose();
+  };
+
+  const updateRow = (id: number, field: keyof Omit<RecipientRow, 'id'>, value: string) => {
+    setRows((previous) =>
+      previous.map((row) => (row.id === id ? { ...row, [field]: value } : row)),
+    );
+  };
+
+  const removeRow = (id: number) => {
+    setRows((previous) =>
+      previous.length > 1 ? previous.filter((row) => row.id !== id) : [newRow()],
+    );
+  };
+
+  // Imported recipients replace empty rows and are added after the others
+  const addRecipients = (imported: BatchRecipient[], errors: string[]) => {
+    setImportErrors(errors);
+    if (imported.length === 0) {
+      if (errors.length === 0) setError('No recipients found');
+      return;
+    }
+    setError('');
+    setRows((previous) => [
+      ...previous.filter((row) => row.address.trim() || row.amount.trim()),
+      ...imported.map(newRow),
+    ]);
+  };
+
+  const handlePaste = () => {
+    const { recipients: imported, errors } = BatchPaymentService.parseCSV(pasteText);
+    addRecipients(imported, errors);
+    if (imported.length > 0) {
+      setPasteText('');
+      setShowPaste(false);
+    }
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const { recipients: imported, errors } = await BatchPaymentService.readFile(file);
+      addRecipients(imported, errors);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    }
+  };
+
+  const handleReview = async () => {
+    if (!wallet || !canReview) return;
+
+    setIsWorking(true);
+    setError('');
+    try {
+      const estimate = await wallet.estimateBatchTransactionFee(recipients, { feeRate });
+      setPreview({
+        recipients,
+        total,
+        fee: estimate.fee,
+        feeRate: estimate.feeRate,
+        size: estimate.size,
+        inputCount: estimate.inputCount,
+        change: estimate.change,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to prepare payment');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!preview) return;
+
+    setIsWorking(true);
+    setError('');
+    try {
+      let password: string | undefined;
+      if (isEncrypted) {
+        const authResult = await requireAuth(
+          `Authenticate to pay ${formatAVN(preview.total)} AVN to ${preview.recipients.length} recipients (network fee ${formatAVN(preview.fee)} AVN)`,
+        );
+        if (!authResult.success || !authResult.password) {
+          setError('Authentication required to send transaction');
+          return;
+        }
+        password = authResult.password;
+      }
+
+      const txid = await sendBatchTransaction(preview.recipients, password, {
+        feeRate: preview.feeRate,
+      });
+
+      // Outputs are in recipient order, so each label names its output
+      for (let i = 0; i < preview.recipients.length; i++) {
+        const label = preview.recipients[i].label;
+        if (label) await LabelService.setLabel('output', LabelService.outputRef(txid, i), label);
+      }
+
+      toast.success('Batch payment sent', {
+        description: `${preview.recipients.length} recipients paid in one transaction`,
+      });
+      onSent?.(txid);
+      reset();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send batch payment');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const renderRecipients = () => (
+    <div className="space-y-3">
+      <div className="space-y-3 max-h-[40vh] overflow-y-auto pr-1">
+        {rows.map((row, index) => (
+          <div key={row.id} className="space-y-2 rounded-lg border p-3">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs text-muted-foreground">Recipient {index + 1}</Label>
+              <button
+                type="button"
+                onClick={() => removeRow(row.id)}
+                className="p-0.5 text-muted-foreground hover:text-foreground"
+                aria-label={`Remove recipient ${index + 1}`}
+                disabled={isWorking}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            <AddressInput
+              value={row.address}
+              onChange={(value) => updateRow(row.id, 'address', value)}
+              className="text-sm"
+              disabled={isWorking}
+              error={
+                !!row.address.trim() && !BatchPaymentService.isValidAddress(row.address.trim())
+              }
+            />
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min="0"
+                step="0.00000001"
+                placeholder="Amount (AVN)"
+                value={row.amount}
+                onChange={(e) => updateRow(row.id, 'amount', e.target.value)}
+                className="w-40"
+                disabled={isWorking}
+                aria-label={`Amount for recipient ${index + 1}`}
+              />
+              <Input
+                placeholder="Label (optional)"
+                value={row.label}
+                onChange={(e) => updateRow(row.id, 'label', e.target.value)}
+                disabled={isWorking}
+                aria-label={`Label for recipient ${index + 1}`}
+              />
+            </div>
+            {rowErrors.has(row.id) && (
+              <p className="text-xs text-red-600 dark:text-red-400">{rowErrors.get(row.id)}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setRows((previous) => [...previous, newRow()])}
+          disabled={isWorking || rows.length >= BatchPaymentService.MAX_RECIPIENTS}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Recipient
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setShowPaste(!showPaste)}
+          disabled={isWorking}
+        >
+          <ClipboardPaste className="w-4 h-4 mr-1" />
+          Paste CSV
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isWorking}
+        >
+          <FileUp className="w-4 h-4 mr-1" />
+          Import CSV
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.txt"
+          className="hidden"
+          onChange={handleFile}
+        />
+      </div>
+
+      {showPaste && (
+        <div className="space-y-2">
+          <Textarea
+            value={pasteText}
+            onChange={(e) => setPasteText(e.target.value)}
+            placeholder={'address,amount,label\nR...,1.5,Alice'}
+            rows={4}
+            className="font-mono text-xs"
+          />
+          <Button size="sm" onClick={handlePaste} disabled={!pasteText.trim()}>
+            Add Recipients
+          </Button>
+        </div>
+      )}
+
+      {importErrors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            <p>Some lines were skipped:</p>
+            <ul className="list-disc pl-4 text-xs">
+              {importErrors.slice(0, 5).map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+              {importErrors.length > 5 && <li>and {importErrors.length - 5} more</li>}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <p className="text-sm text-muted-foreground">
+        {recipients.length} recipient{recipients.length === 1 ? '' : 's'}, {formatAVN(total)} AVN in
+        total. The fee is shown on the next step.
+      </p>
+    </div>
+  );
+
+  const renderReview = (review: BatchPaymentPreview) => (
+    <div className="space-y-3">
+      <div className="max-h-[40vh] overflow-y-auto rounded-lg border divide-y">
+        {review.recipients.map((recipient, index) => (
+          <div key={index} className="flex items-start justify-between gap-3 p-3 text-sm">
+            <div className="min-w-0">
+              {recipient.label && <div className="font-medium">{recipient.label}</div>}
+              <div className="font-mono text-xs break-all text-muted-foreground">
+                {recipient.address}
+              </div>
+            </div>
+            <div className="font-medium whitespace-nowrap">{formatAVN(recipient.amount)} AVN</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Recipients</span>
+          <span>{formatAVN(review.total)} AVN</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Network fee</span>
+          <span>{formatAVN(review.fee)} AVN</span>
+        </div>
+        <div className="flex justify-between font-medium">
+          <span>Total</span>
+          <span>{formatAVN(review.total + review.fee)} AVN</span>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {review.size} bytes, {review.inputCount} input{review.inputCount === 1 ? '' : 's'} at{' '}
+          {review.feeRate} sat/byte
+          {review.change > 0 && `, ${formatAVN(review.change)} AVN returned as change`}
+        </p>
+      </div>
+    </div>
+  );
+
+  const renderContent = () => (
+    <div className="space-y-4">
+      {preview ? renderReview(preview) : renderRecipients()}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex sm:justify-end gap-2 mt-4">
+        <Button
+          variant="outline"
+          onClick={preview ? () => setPreview(null) : handleClose}
+          disabled={isWorking}
+          className="sm:w-auto flex-1 sm:flex-initial"
+        >
+          {preview ? 'Back' : 'Cancel'}
+        </Button>
+        {preview ? (
+          <Button
+            onClick={handleSend}
+            disabled={isWorking}
+            className="sm:w-auto flex-1 sm:flex-initial"
+          >
+            {isWorking ? 'Sending...' : 'Confirm & Send'}
+          </Button>
+        ) : (
+          <Button
+            onClick={handleReview}
+            disabled={isWorking || !canReview}
+            className="sm:w-auto flex-1 sm:flex-initial"
+          >
+            {isWorking ? 'Preparing...' : 'Review Payment'}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
+  if (isMobile) {
+    return (
+      <Drawer open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+        <DrawerContent>
+          <DrawerHeader>
+            <DrawerTitle className="flex items-center">
+              <Users className="w-5 h-5 mr-2" />
+              {preview ? 'Review Batch Payment' : 'Send to Many'}
+            </DrawerTitle>
+          </DrawerHeader>
+          <div className="px-4 pb-4">{renderContent()}</div>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Users className="w-5 h-5 mr-2" />
+            {preview ? 'Review Batch Payment' : 'Send to Many'}
+          </DialogTitle>
+        </DialogHeader>
+        {renderContent()}
+      </DialogContent>
+    </Dialog>
+  );
+}
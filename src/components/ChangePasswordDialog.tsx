@@ -0,0 +1,200 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { KeyRound, AlertCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useMediaQuery } from '@/hooks/use-media-query';
+import { useWallet } from '@/contexts/WalletContext';
+import { StorageService } from '@/services/core/StorageService';
+import { WalletService } from '@/services/wallet/WalletService';
+import PasswordStrengthChecker, { PasswordStrength } from '@/components/PasswordStrength';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+interface ChangePasswordDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function ChangePasswordDialog({ isOpen, onClose }: ChangePasswordDialogProps) {
+  const isMobile = useMediaQuery('(max-width: 768px)');
+  const { changePassword } = useWallet();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [passwordStrength, setPasswordStrength] = useState<PasswordStrength | null>(null);
+  const [allWallets, setAllWallets] = useState(false);
+  const [encryptedWalletCount, setEncryptedWalletCount] = useState(0);
+  const [isChanging, setIsChanging] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setCurrentPassword('');
+    setNewPassword('');
+    setConfirmPassword('');
+    setAllWallets(false);
+    setError('');
+    StorageService.getAllWallets()
+      .then((wallets) =>
+        setEncryptedWalletCount(wallets.filter(WalletService.isPasswordProtected).length),
+      )
+      .catch(() => setEncryptedWalletCount(0));
+  }, [isOpen]);
+
+  const handleStrengthChange = useCallback((strength: PasswordStrength) => {
+    setPasswordStrength(strength);
+  }, []);
+
+  const handleChange = async () => {
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+    if (newPassword.length < 8) {
+      setError('Password must be at least 8 characters long');
+      return;
+    }
+    if (passwordStrength === 'weak') {
+      setError('Please use a stronger password for better security');
+      return;
+    }
+
+    setIsChanging(true);
+    setError('');
+    try {
+      const count = await changePassword(currentPassword, newPassword, { allWallets });
+      toast.success('Password changed', {
+        description:
+          count === 1
+            ? 'Your wallet is now protected with the new password'
+            : `${count} wallets are now protected with the new password`,
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change password');
+    } finally {
+      setIsChanging(false);
+    }
+  };
+
+  const renderContent = () => (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="currentPassword">Current password</Label>
+        <Input
+          id="currentPassword"
+          type="password"
+          autoComplete="current-password"
+          value={currentPassword}
+          onChange={(e) => setCurrentPassword(e.target.value)}
+          disabled={isChanging}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="newPassword">New password</Label>
+        <Input
+          id="newPassword"
+          type="password"
+          autoComplete="new-password"
+          value={newPassword}
+          onChange={(e) => setNewPassword(e.target.value)}
+          disabled={isChanging}
+        />
+        <PasswordStrengthChecker
+          password={newPassword}
+          onStrengthChange={handleStrengthChange}
+          showSuggestions={false}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="confirmNewPassword">Confirm new password</Label>
+        <Input
+          id="confirmNewPassword"
+          type="password"
+          autoComplete="new-password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          disabled={isChanging}
+        />
+      </div>
+
+      {encryptedWalletCount > 1 && (
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="changeAllWallets"
+            checked={allWallets}
+            onCheckedChange={(checked) => setAllWallets(checked as boolean)}
+            disabled={isChanging}
+          />
+          <Label htmlFor="changeAllWallets" className="text-sm cursor-pointer">
+            Use the new password for all {encryptedWalletCount} encrypted wallets
+          </Label>
+        </div>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex sm:justify-end gap-2 mt-4">
+        <Button
+          variant="outline"
+          onClick={onClose}
+          disabled={isChanging}
+          className="sm:w-auto flex-1 sm:flex-initial"
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={handleChange}
+          disabled={isChanging || !currentPassword || !newPassword || !confirmPassword}
+          className="sm:w-auto flex-1 sm:flex-initial"
+        >
+          {isChanging ? 'Re-encrypting...' : 'Change Password'}
+        </Button>
+      </div>
+    </div>
+  );
+
+  if (isMobile) {
+    return (
+      <Drawer open={isOpen} onOpenChange={(open) => !open && !isChanging && onClose()}>
+        <DrawerContent>
+          <DrawerHeader>
+            <DrawerTitle className="flex items-center">
+              <KeyRound className="w-5 h-5 mr-2" />
+              Change Password
+            </DrawerTitle>
+          </DrawerHeader>
+          <div className="px-4 pb-4 overflow-y-auto">{renderContent()}</div>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isChanging && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <KeyRound className="w-5 h-5 mr-2" />
+            Change Password
+          </DialogTitle>
+        </DialogHeader>
+        {renderContent()}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useState } from 'react';
+import { Banknote, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { PriceService } from '@/services/data/PriceService';
+import { FiatCurrency } from '@/types/price';
+
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+export default function CurrencySettings() {
+  const { currency, price, change24h, lastUpdated, setCurrency, refreshPrice } = useCurrency();
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const handleCurrencyChange = async (value: string) => {
+    try {
+      await setCurrency(value as FiatCurrency);
+      toast.success('Display currency updated', {
+        description: `Values are now shown in ${value}`,
+      });
+    } catch (err) {
+      toast.error('Failed to change currency', {
+        description: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    try {
+      await refreshPrice();
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Banknote className="w-5 h-5" />
+          Display Currency
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Balances, amounts and transaction history show their value in this currency. Past
+          transactions are valued at the AVN price on the day they happened.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="displayCurrency">Currency</Label>
+          <Select value={currency} onValueChange={handleCurrencyChange}>
+            <SelectTrigger id="displayCurrency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PriceService.CURRENCIES.map((supported) => (
+                <SelectItem key={supported.code} value={supported.code}>
+                  {supported.code} - {supported.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between rounded-lg border p-3">
+          <div>
+            <p className="text-sm text-muted-foreground">Current AVN price</p>
+            <p className="text-base font-medium">
+              {price !== null ? PriceService.formatPrice(price, currency) : 'Unknown'}
+              {price !== null && change24h !== null && (
+                <span
+                  className={`ml-2 text-xs ${change24h >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}
+                >
+                  {change24h >= 0 ? '+' : ''}
+                  {change24h.toFixed(2)}% (24h)
+                </span>
+              )}
+            </p>
+            {lastUpdated && (
+              <p className="text-xs text-muted-foreground">
+                Updated: {lastUpdated.toLocaleTimeString()}
+              </p>
+            )}
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={handleRefresh}
+            disabled={isRefreshing}
+            aria-label="Refresh price"
+          >
+            <RefreshCw className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -469,20 +469,25 @@ export default function DerivedAddressesPanel() {
             // Set isExpanded to true to show the panel when we have data
             setIsExpanded(true);
 
-            // Use centralized authentication dialog with autoLogin to use stored password if available
-            const authResult = await requireAuth('Please authenticate to view derived addresses', true);
+            // Xpub wallets derive public addresses only, so no password is needed
+            let password = '';
+            if (!isXpubWallet) {
+                // Use centralized authentication dialog with autoLogin to use stored password if available
+                const authResult = await requireAuth('Please authenticate to view derived addresses', true);
 
-            if (!authResult.success || !authResult.password) {
-                // Authentication was canceled or failed in the dialog
+                if (!authResult.success || !authResult.password) {
+                    // Authentication was canceled or failed in the dialog
 
-                setIsLoading(false);
-                return;
+                    setIsLoading(false);
+                    return;
+                }
+                password = authResult.password;
             }
 
             try {
                 // Call method to derive receiving addresses (path index 0)
                 const receivingAddresses = await deriveCurrentWalletAddresses(
-                    authResult.password,
+                    password,
                     accountIndex,
                     addressCount,
                     'p2pkh', // Hardcoded to legacy address type
@@ -492,7 +497,7 @@ export default function DerivedAddressesPanel() {
 
                 // Call method to derive change addresses (path index 1)
                 const changeAddresses = await deriveCurrentWalletAddresses(
-                    authResult.password,
+                    password,
                     accountIndex,
                     addressCount,
                     'p2pkh', // Hardcoded to legacy address type
@@ -676,6 +681,7 @@ export default function DerivedAddressesPanel() {
 
     // State to track if the current wallet is HD-compatible
     const [isHdWallet, setIsHdWallet] = useState<boolean>(false);
+    const [isXpubWallet, setIsXpubWallet] = useState<boolean>(false);
 
     // Check if the current wallet is HD-compatible using StorageService
     useEffect(() => {
@@ -687,13 +693,14 @@ export default function DerivedAddressesPanel() {
             }
 
             try {
-                // Check if there's a stored mnemonic for this wallet
-                const storedMnemonic = await StorageService.getMnemonic();
+                // Check if there's a stored mnemonic or xpub for this wallet
+                const walletData = await StorageService.getActiveWallet();
 
-                // A wallet is HD-compatible if it has a stored mnemonic
-                const hasHdCapabilities = !!storedMnemonic;
+                // A wallet is HD-compatible if it has a stored mnemonic or an account xpub
+                const hasHdCapabilities = !!walletData?.mnemonic || !!walletData?.xpub;
 
                 setIsHdWallet(hasHdCapabilities);
+                setIsXpubWallet(!!walletData?.xpub);
 
                 // If this wallet isn't HD-compatible and we have addresses loaded, reset them
                 if (!hasHdCapabilities && addresses.length > 0) {
@@ -732,7 +739,7 @@ export default function DerivedAddressesPanel() {
                         This wallet was not created with HD (hierarchical deterministic) capabilities.
                     </p>
                     <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
-                        Only wallets created with a seed phrase support derived addresses.
+                        Only wallets created with a seed phrase or xpub support derived addresses.
                     </p>
                 </div>
             </div>
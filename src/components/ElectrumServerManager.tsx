@@ -0,0 +1,299 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Server,
+  Plus,
+  Pencil,
+  Trash2,
+  ArrowUp,
+  ArrowDown,
+  Activity,
+  RotateCcw,
+  AlertCircle,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { useWallet } from '@/contexts/WalletContext';
+import { ElectrumService } from '@/services/core/ElectrumService';
+import { ElectrumServer, ElectrumServerStatus } from '@/types/electrum';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+// Short summary of what the wallet knows about a server's health
+function HealthSummary({ status }: { status: ElectrumServerStatus }) {
+  const { health } = status;
+  if (health.lastChecked === null) {
+    return <span className="text-xs text-muted-foreground">Not checked yet</span>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+      <span>{health.latency !== null ? `${health.latency} ms` : 'No response'}</span>
+      {health.heightLag !== null && (
+        <span className={health.heightLag > 0 ? 'text-orange-600 dark:text-orange-400' : ''}>
+          {health.heightLag > 0 ? `${health.heightLag} blocks behind` : 'In sync'}
+        </span>
+      )}
+      {health.protocolVersion && <span>Protocol {health.protocolVersion}</span>}
+      {health.serverVersion && <span>{health.serverVersion}</span>}
+      {health.failures > 0 && (
+        <span className="text-red-600 dark:text-red-400">
+          {health.failures} failure{health.failures === 1 ? '' : 's'}
+          {health.lastError && `: ${health.lastError}`}
+        </span>
+      )}
+    </div>
+  );
+}
+
+export default function ElectrumServerManager() {
+  const { wallet, isConnected, isLoading, selectElectrumServer, updateElectrumServers } =
+    useWallet();
+  const [statuses, setStatuses] = useState<ElectrumServerStatus[]>([]);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null); // -1 adds a server
+  const [url, setUrl] = useState('');
+  const [region, setRegion] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState('');
+
+  const refresh = useCallback(() => {
+    if (wallet) setStatuses(wallet.getElectrumServerStatuses());
+  }, [wallet]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, isConnected]);
+
+  const servers = statuses.map((status) => status.server);
+
+  const save = async (updated: ElectrumServer[] | null) => {
+    setError('');
+    try {
+      await updateElectrumServers(updated);
+      refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save servers');
+    }
+  };
+
+  const startEdit = (index: number) => {
+    setEditingIndex(index);
+    setUrl(index >= 0 ? statuses[index].url : '');
+    setRegion(index >= 0 ? statuses[index].server.region || '' : '');
+    setError('');
+  };
+
+  const handleSaveServer = async () => {
+    if (editingIndex === null) return;
+
+    let server: ElectrumServer;
+    try {
+      server = ElectrumService.parseServerUrl(url, region.trim() || undefined);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid server URL');
+      return;
+    }
+
+    const serverUrl = ElectrumService.formatServerUrl(server);
+    if (statuses.some((status, index) => index !== editingIndex && status.url === serverUrl)) {
+      setError('This server is already in the list');
+      return;
+    }
+
+    await save(
+      editingIndex === -1
+        ? [...servers, server]
+        : servers.map((existing, index) => (index === editingIndex ? server : existing)),
+    );
+    setEditingIndex(null);
+  };
+
+  const handleRemove = async (index: number) => {
+    if (servers.length === 1) {
+      setError('Keep at least one server');
+      return;
+    }
+    await save(servers.filter((_, i) => i !== index));
+  };
+
+  const handleMove = async (index: number, offset: number) => {
+    const reordered = [...servers];
+    const [server] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, server);
+    await save(reordered);
+  };
+
+  const handleCheck = async () => {
+    if (!wallet) return;
+
+    setIsChecking(true);
+    try {
+      setStatuses(await wallet.checkElectrumServers());
+    } catch (err) {
+      toast.error('Health check failed', {
+        description: err instanceof Error ? err.message : 'Unknown error',
+      });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleUse = async (index: number) => {
+    try {
+      await selectElectrumServer(index);
+      refresh();
+      toast.success('Server selected', { description: statuses[index].url });
+    } catch (err) {
+      toast.error('Server selection failed', {
+        description: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Server className="w-5 h-5" />
+          Electrum Servers
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Servers are tried in this order. If the connection fails, the wallet switches to the
+          healthiest server based on latency, recent failures and how far behind the chain tip each
+          one is.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {statuses.map((status, index) => (
+            <div key={status.url} className="rounded-lg border p-3 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-sm break-all">{status.url}</span>
+                    {status.isCurrent && (
+                      <Badge variant={isConnected ? 'default' : 'secondary'}>
+                        {isConnected ? 'Connected' : 'Selected'}
+                      </Badge>
+                    )}
+                  </div>
+                  {status.server.region && (
+                    <span className="text-xs text-muted-foreground">{status.server.region}</span>
+                  )}
+                </div>
+                <div className="flex shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleMove(index, -1)}
+                    disabled={index === 0 || isLoading}
+                    aria-label="Move up"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleMove(index, 1)}
+                    disabled={index === statuses.length - 1 || isLoading}
+                    aria-label="Move down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => startEdit(index)}
+                    aria-label="Edit server"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleRemove(index)}
+                    disabled={isLoading}
+                    aria-label="Remove server"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <HealthSummary status={status} />
+                {!status.isCurrent && (
+                  <Button variant="outline" size="sm" onClick={() => handleUse(index)}>
+                    Use
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {editingIndex !== null && (
+          <div className="rounded-lg border p-3 space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="serverUrl">Server URL</Label>
+              <Input
+                id="serverUrl"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="wss://electrum.example.com:50003"
+                className="font-mono"
+              />
+              <p className="text-xs text-muted-foreground">
+                Browsers can only reach wss:// and ws:// servers. tcp:// and tls:// servers need a
+                local proxy.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="serverRegion">Label (optional)</Label>
+              <Input
+                id="serverRegion"
+                value={region}
+                onChange={(e) => setRegion(e.target.value)}
+                placeholder="Home node"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleSaveServer} disabled={!url.trim() || isLoading}>
+                {editingIndex === -1 ? 'Add Server' : 'Save'}
+              </Button>
+              <Button variant="outline" onClick={() => setEditingIndex(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => startEdit(-1)} disabled={editingIndex === -1}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Server
+          </Button>
+          <Button variant="outline" onClick={handleCheck} disabled={isChecking}>
+            <Activity className="w-4 h-4 mr-2" />
+            {isChecking ? 'Checking...' : 'Check Health'}
+          </Button>
+          <Button variant="outline" onClick={() => save(null)} disabled={isLoading}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Restore Defaults
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
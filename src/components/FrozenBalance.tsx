@@ -0,0 +1,38 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Snowflake } from 'lucide-react';
+import { useWallet } from '@/contexts/WalletContext';
+import { walletLogger } from '@/lib/Logger';
+
+/**
+ * The part of the balance in frozen coins, which sends never spend. Hidden when nothing is frozen.
+ */
+export default function FrozenBalance({ className = '' }: { className?: string }) {
+  const { wallet, balance } = useWallet();
+  const [frozen, setFrozen] = useState(0);
+
+  useEffect(() => {
+    if (!wallet) return;
+
+    const load = () => {
+      wallet
+        .getFrozenBalance()
+        .then(setFrozen)
+        .catch((error) => walletLogger.error('Failed to load frozen balance:', error));
+    };
+    load();
+    window.addEventListener('labels-updated', load);
+    return () => window.removeEventListener('labels-updated', load);
+    // Reload when the balance changes, as frozen coins may have been spent or received
+  }, [wallet, balance]);
+
+  if (frozen <= 0) return null;
+
+  return (
+    <div className={`flex items-center gap-1 ${className}`}>
+      <Snowflake className="w-3 h-3" />
+      {(frozen / 100000000).toFixed(8)} AVN frozen
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ReceiptText, Copy, CheckCircle, AlertCircle } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
+import { toast } from 'sonner';
+import { useMediaQuery } from '@/hooks/use-media-query';
+import { useWallet } from '@/contexts/WalletContext';
+import { useSecurity } from '@/contexts/SecurityContext';
+import { InvoiceService } from '@/services/wallet/InvoiceService';
+import { BatchPaymentService } from '@/services/wallet/BatchPaymentService';
+import { Invoice } from '@/types/invoices';
+import InvoiceStatusBadge from './InvoiceStatusBadge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface InvoiceDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  invoice?: Invoice | null; // The request to show; a new one is created when not given
+}
+
+export default function InvoiceDialog({ isOpen, onClose, invoice }: InvoiceDialogProps) {
+  const isMobile = useMediaQuery('(max-width: 768px)');
+  const { wallet } = useWallet();
+  const { requireAuth } = useSecurity();
+  const [amount, setAmount] = useState('');
+  const [label, setLabel] = useState('');
+  const [message, setMessage] = useState('');
+  const [expiry, setExpiry] = useState('24h');
+  const [created, setCreated] = useState<Invoice | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setAmount('');
+    setLabel('');
+    setMessage('');
+    setExpiry('24h');
+    setCreated(null);
+    setCopied(false);
+    setError('');
+  }, [isOpen]);
+
+  // Keep the status of a request created here up to date while it is shown
+  useEffect(() => {
+    if (!created) return;
+
+    const handleUpdate = async () => {
+      const invoices = await InvoiceService.getInvoices(created.walletAddress);
+      const latest = invoices.find((saved) => saved.id === created.id);
+      if (latest) setCreated(latest);
+    };
+    window.addEventListener('invoices-updated', handleUpdate);
+    return () => window.removeEventListener('invoices-updated', handleUpdate);
+  }, [created]);
+
+  const shown = invoice || created;
+
+  const handleCreate = async () => {
+    if (!wallet) return;
+
+    const sats = BatchPaymentService.parseAmount(amount);
+    if (!sats) {
+      setError('Enter an amount of up to 8 decimal places');
+      return;
+    }
+
+    setIsCreating(true);
+    setError('');
+    try {
+      // Encrypted HD wallets need the password once to derive fresh addresses
+      let password: string | undefined;
+      if (await InvoiceService.needsPassword()) {
+        const authResult = await requireAuth(
+          'Authenticate to bind the request to a fresh address',
+          true,
+        );
+        password = authResult.success ? authResult.password : undefined;
+      }
+
+      const duration = InvoiceService.EXPIRY_OPTIONS.find(
+        (option) => option.id === expiry,
+      )?.duration;
+      const invoice = await InvoiceService.createInvoice(
+        { amount: sats, label, message, expiresIn: duration },
+        wallet,
+        password,
+      );
+      setCreated(invoice);
+      toast.success('Payment request created', {
+        description: `${(invoice.amount / 100000000).toFixed(8)} AVN`,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create payment request');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!shown) return;
+
+    try {
+      await navigator.clipboard.writeText(InvoiceService.getPaymentUri(shown));
+      toast.success('Payment link copied!');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      toast.error('Failed to copy payment link', {
+        description: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  };
+
+  const renderRequest = (request: Invoice) => {
+    const uri = InvoiceService.getPaymentUri(request);
+
+    return (
+      <div className="space-y-4">
+        <div className="flex justify-center">
+          <div className="bg-white p-3 rounded-md border">
+            <QRCodeSVG value={uri} size={224} bgColor="#FFFFFF" fgColor="#1f2937" level="M" />
+          </div>
+        </div>
+
+        <div className="text-center space-y-1">
+          <div className="text-lg font-semibold">{(request.amount / 100000000).toFixed(8)} AVN</div>
+          {request.label && <div className="text-sm font-medium">{request.label}</div>}
+          {request.message && (
+            <div className="text-sm text-muted-foreground">{request.message}</div>
+          )}
+          <div className="flex justify-center">
+            <InvoiceStatusBadge invoice={request} />
+          </div>
+        </div>
+
+        <div className="flex items-center bg-muted rounded-lg p-3">
+          <div className="flex-1 text-xs font-mono break-all">{uri}</div>
+          <Button
+            onClick={handleCopy}
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 ml-1 rounded-full"
+            aria-label="Copy payment link"
+          >
+            {copied ? (
+              <CheckCircle className="w-4 h-4 text-green-500" />
+            ) : (
+              <Copy className="w-4 h-4" />
+            )}
+          </Button>
+        </div>
+
+        <div className="text-xs text-muted-foreground space-y-1">
+          {request.addressPath && <p>Fresh receive address ({request.addressPath})</p>}
+          <p>
+            {request.expiresAt
+              ? `Expires ${new Date(request.expiresAt).toLocaleString()}`
+              : 'Does not expire'}
+          </p>
+        </div>
+
+        <div className="flex sm:justify-end gap-2 mt-4">
+          <Button onClick={onClose} className="sm:w-auto flex-1 sm:flex-initial">
+            Done
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderForm = () => (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="invoiceAmount">Amount (AVN)</Label>
+        <Input
+          id="invoiceAmount"
+          type="number"
+          min="0"
+          step="any"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          disabled={isCreating}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="invoiceLabel">Label</Label>
+        <Input
+          id="invoiceLabel"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Your name or shop, shown to the payer"
+          disabled={isCreating}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="invoiceMessage">Message</Label>
+        <Input
+          id="invoiceMessage"
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder="e.g. Order 42"
+          disabled={isCreating}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="invoiceExpiry">Expires after</Label>
+        <Select value={expiry} onValueChange={setExpiry} disabled={isCreating}>
+          <SelectTrigger id="invoiceExpiry" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {InvoiceService.EXPIRY_OPTIONS.map((option) => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex sm:justify-end gap-2 mt-4">
+        <Button
+          variant="outline"
+          onClick={onClose}
+          disabled={isCreating}
+          className="sm:w-auto flex-1 sm:flex-initial"
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={handleCreate}
+          disabled={isCreating || !wallet}
+          className="sm:w-auto flex-1 sm:flex-initial"
+        >
+          {isCreating ? 'Creating...' : 'Create Request'}
+        </Button>
+      </div>
+    </div>
+  );
+
+  const renderContent = () => (shown ? renderRequest(shown) : renderForm());
+  const title = shown ? 'Payment Request' : 'Request a Payment';
+
+  if (isMobile) {
+    return (
+      <Drawer open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <DrawerContent>
+          <DrawerHeader>
+            <DrawerTitle className="flex items-center">
+              <ReceiptText className="w-5 h-5 mr-2" />
+              {title}
+            </DrawerTitle>
+          </DrawerHeader>
+          <div className="px-4 pb-4 overflow-y-auto">{renderContent()}</div>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <ReceiptText className="w-5 h-5 mr-2" />
+            {title}
+          </DialogTitle>
+        </DialogHeader>
+        {renderContent()}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import { useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { useWallet } from '@/contexts/WalletContext';
+import { InvoiceService } from '@/services/wallet/InvoiceService';
+import { walletLogger } from '@/lib/Logger';
+import { Invoice } from '@/types/invoices';
+
+const CHECK_INTERVAL = 60000; // Catch expiries and missed notifications every minute
+
+/**
+ * Watches the addresses of the active wallet's open payment requests while the app is open
+ */
+export default function InvoiceMonitor() {
+  const { address, isConnected } = useWallet();
+
+  const announce = useCallback((changed: Invoice[]) => {
+    for (const invoice of changed) {
+      const name = invoice.label || invoice.message || 'Payment request';
+      const received = `${(invoice.received / 100000000).toFixed(8)} AVN received`;
+
+      if (invoice.status === 'paid') {
+        toast.success('Payment request paid', { description: `${name}: ${received}` });
+      } else if (invoice.status === 'overpaid') {
+        toast.success('Payment request overpaid', { description: `${name}: ${received}` });
+      } else if (invoice.status === 'underpaid') {
+        toast.warning('Payment request partly paid', { description: `${name}: ${received}` });
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!address || !isConnected) return;
+
+    const watch = () => {
+      InvoiceService.watchInvoices(address, announce).catch((error) => {
+        walletLogger.error('Failed to watch payment requests:', error);
+      });
+    };
+    const check = async () => {
+      try {
+        announce(await InvoiceService.refreshInvoices(address));
+      } catch (error) {
+        walletLogger.error('Failed to check payment requests:', error);
+      }
+    };
+
+    check().then(watch);
+    const interval = setInterval(check, CHECK_INTERVAL);
+    // New requests are subscribed to, settled and deleted ones are dropped
+    window.addEventListener('invoices-updated', watch);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('invoices-updated', watch);
+      InvoiceService.unwatchAll();
+    };
+  }, [address, isConnected, announce]);
+
+  return null;
+}
@@ -0,0 +1,23 @@
+import { Invoice, InvoiceStatus } from '@/types/invoices';
+
+const STATUS_STYLES: Record<InvoiceStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400',
+  paid: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400',
+  overpaid: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400',
+  underpaid: 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400',
+  expired: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+};
+
+export default function InvoiceStatusBadge({ invoice }: { invoice: Invoice }) {
+  // Payments still in the mempool are shown as such until they confirm
+  const unconfirmed = invoice.payments.some((payment) => payment.height <= 0);
+
+  return (
+    <span
+      className={`px-2 py-0.5 rounded-full text-xs capitalize ${STATUS_STYLES[invoice.status]}`}
+    >
+      {invoice.status}
+      {unconfirmed && ' (unconfirmed)'}
+    </span>
+  );
+}
@@ -0,0 +1,198 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ReceiptText, Plus, QrCode, RefreshCw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useWallet } from '@/contexts/WalletContext';
+import { InvoiceService } from '@/services/wallet/InvoiceService';
+import { Invoice, InvoiceStatus } from '@/types/invoices';
+import InvoiceDialog from './InvoiceDialog';
+import InvoiceStatusBadge from './InvoiceStatusBadge';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+// Select items can't have an empty value
+const ALL_STATUSES = 'all';
+
+const STATUS_OPTIONS: Array<{ id: InvoiceStatus | typeof ALL_STATUSES; name: string }> = [
+  { id: ALL_STATUSES, name: 'All requests' },
+  { id: 'pending', name: 'Pending' },
+  { id: 'paid', name: 'Paid' },
+  { id: 'underpaid', name: 'Underpaid' },
+  { id: 'overpaid', name: 'Overpaid' },
+  { id: 'expired', name: 'Expired' },
+];
+
+export default function InvoicesPanel() {
+  const { address, isConnected } = useWallet();
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [statusFilter, setStatusFilter] = useState<string>(ALL_STATUSES);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!address) return;
+    setInvoices(await InvoiceService.getInvoices(address));
+  }, [address]);
+
+  useEffect(() => {
+    load().catch(() => {});
+    const handleUpdate = () => {
+      load().catch(() => {});
+    };
+    window.addEventListener('invoices-updated', handleUpdate);
+    return () => window.removeEventListener('invoices-updated', handleUpdate);
+  }, [load]);
+
+  const openDialog = (invoice: Invoice | null) => {
+    setSelectedId(invoice?.id || null);
+    setShowDialog(true);
+  };
+
+  const handleRefresh = async () => {
+    if (!address) return;
+
+    setIsRefreshing(true);
+    try {
+      const changed = await InvoiceService.refreshInvoices(address);
+      toast.success('Payment requests checked', {
+        description:
+          changed.length > 0
+            ? `${changed.length} request${changed.length === 1 ? '' : 's'} updated`
+            : 'No new payments',
+      });
+    } catch (err) {
+      toast.error('Failed to check payment requests', {
+        description: err instanceof Error ? err.message : 'Unknown error',
+      });
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const handleDelete = async (invoice: Invoice) => {
+    try {
+      await InvoiceService.deleteInvoice(invoice.id);
+      toast.success('Payment request deleted');
+    } catch (err) {
+      toast.error('Failed to delete payment request', {
+        description: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  };
+
+  const filtered =
+    statusFilter === ALL_STATUSES
+      ? invoices
+      : invoices.filter((invoice) => invoice.status === statusFilter);
+  const selected = invoices.find((invoice) => invoice.id === selectedId) || null;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ReceiptText className="w-5 h-5" />
+            Payment Requests
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Each request gets its own receive address where the wallet can derive one. Payments to
+            it are tracked while the app is open.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="flex-1" aria-label="Filter by status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STATUS_OPTIONS.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={handleRefresh}
+              disabled={!address || !isConnected || isRefreshing}
+            >
+              <RefreshCw className={`w-4 h-4 mr-2 ${isRefreshing ? 'animate-spin' : ''}`} />
+              Check
+            </Button>
+          </div>
+
+          {filtered.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              {invoices.length === 0 ? 'No payment requests yet' : 'No requests with this status'}
+            </p>
+          ) : (
+            <div className="divide-y rounded-lg border">
+              {filtered.map((invoice) => (
+                <div key={invoice.id} className="flex items-center justify-between gap-3 p-3">
+                  <div className="min-w-0 space-y-0.5">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">
+                        {invoice.label || invoice.message || 'Payment request'}
+                      </span>
+                      <InvoiceStatusBadge invoice={invoice} />
+                    </div>
+                    <div className="text-sm">
+                      {(invoice.amount / 100000000).toFixed(8)} AVN
+                      {invoice.received > 0 &&
+                        ` · ${(invoice.received / 100000000).toFixed(8)} received`}
+                    </div>
+                    <div className="text-xs text-muted-foreground font-mono truncate">
+                      {invoice.address}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      Created {new Date(invoice.createdAt).toLocaleString()}
+                      {invoice.expiresAt &&
+                        ` · Expires ${new Date(invoice.expiresAt).toLocaleString()}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => openDialog(invoice)}
+                      aria-label="Show payment request"
+                    >
+                      <QrCode className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(invoice)}
+                      aria-label="Delete payment request"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <Button onClick={() => openDialog(null)} disabled={!address} className="w-full">
+            <Plus className="w-4 h-4 mr-2" />
+            Request a Payment
+          </Button>
+        </CardContent>
+      </Card>
+
+      <InvoiceDialog isOpen={showDialog} onClose={() => setShowDialog(false)} invoice={selected} />
+    </div>
+  );
+}
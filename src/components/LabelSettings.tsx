@@ -0,0 +1,144 @@
+'use client';
+
+import { useState, useEffect, useRef, ChangeEvent } from 'react';
+import { Download, FileUp, Tag } from 'lucide-react';
+import { toast } from 'sonner';
+import { LabelService } from '@/services/wallet/LabelService';
+import { LabelType } from '@/types/labels';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+
+const TYPE_NAMES: Partial<Record<LabelType, string>> = {
+  addr: 'Addresses',
+  tx: 'Transactions',
+  output: 'Coins',
+};
+
+export default function LabelSettings() {
+  const [counts, setCounts] = useState<Partial<Record<LabelType, number>>>({});
+  const [isBusy, setIsBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadCounts = async () => {
+    const byType: Partial<Record<LabelType, number>> = {};
+    (await LabelService.getLabels()).forEach((record) => {
+      byType[record.type] = (byType[record.type] || 0) + 1;
+    });
+    setCounts(byType);
+  };
+
+  useEffect(() => {
+    loadCounts().catch(() => {});
+    const handleUpdate = () => {
+      loadCounts().catch(() => {});
+    };
+    window.addEventListener('labels-updated', handleUpdate);
+    return () => window.removeEventListener('labels-updated', handleUpdate);
+  }, []);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    try {
+      const count = await LabelService.downloadFile();
+      toast.success('Labels exported', {
+        description: `${count} label${count === 1 ? '' : 's'} saved in BIP329 format`,
+      });
+    } catch (err) {
+      toast.error('Failed to export labels', {
+        description: err instanceof Error ? err.message : 'Unknown error',
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsBusy(true);
+    try {
+      const { imported, hidden, skipped } = await LabelService.readFile(file);
+      if (imported + hidden === 0) {
+        toast.error('No labels imported', {
+          description: 'The file contains no valid BIP329 label records',
+        });
+        return;
+      }
+      toast.success('Labels imported', {
+        description:
+          `${imported} label${imported === 1 ? '' : 's'} imported` +
+          (hidden > 0
+            ? `, ${hidden} hidden by existing wallet names, contact names or memos`
+            : '') +
+          (skipped > 0 ? `, ${skipped} invalid line${skipped === 1 ? '' : 's'} skipped` : ''),
+      });
+    } catch (err) {
+      toast.error('Failed to import labels', {
+        description: err instanceof Error ? err.message : 'Unknown error',
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const otherCount = Object.entries(counts)
+    .filter(([type]) => !TYPE_NAMES[type as LabelType])
+    .reduce((sum, [, count]) => sum + (count || 0), 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tag className="w-5 h-5" />
+          Labels
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Labels name your addresses, transactions and coins. They include address book names,
+          wallet names, watched address labels and transaction memos, and can be moved to other
+          wallets as a BIP329 JSONL file. Imported labels replace existing ones for the same
+          address, transaction or coin.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {(Object.keys(TYPE_NAMES) as LabelType[]).map((type) => (
+            <div key={type} className="rounded-lg border p-3 text-center">
+              <div className="text-xl font-semibold">{counts[type] || 0}</div>
+              <div className="text-xs text-muted-foreground">{TYPE_NAMES[type]}</div>
+            </div>
+          ))}
+          <div className="rounded-lg border p-3 text-center">
+            <div className="text-xl font-semibold">{otherCount}</div>
+            <div className="text-xs text-muted-foreground">Other</div>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button onClick={handleExport} disabled={isBusy} className="flex-1">
+            <Download className="w-4 h-4 mr-2" />
+            Export Labels
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isBusy}
+            className="flex-1"
+          >
+            <FileUp className="w-4 h-4 mr-2" />
+            Import Labels
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".jsonl,.json,.txt"
+            className="hidden"
+            onChange={handleFile}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
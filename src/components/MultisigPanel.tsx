@@ -0,0 +1,634 @@
+'use client';
+
+import { useState, useEffect, useRef, ChangeEvent } from 'react';
+import {
+  Users,
+  FileDown,
+  FileUp,
+  QrCode,
+  Camera,
+  Copy,
+  PenLine,
+  Send,
+  Plus,
+  Trash2,
+  AlertCircle,
+} from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
+import { toast } from 'sonner';
+import { useWallet } from '@/contexts/WalletContext';
+import { useSecurity } from '@/contexts/SecurityContext';
+import { BackupService } from '@/services/core/BackupService';
+import { MultisigService } from '@/services/wallet/MultisigService';
+import { WalletData } from '@/services/wallet/WalletService';
+import { MultisigCosigner, MultisigProposal } from '@/types/multisig';
+import QRScannerModal from './QRScannerModal';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const QR_FRAME_INTERVAL_MS = 1200;
+const NO_LOCAL_WALLET = 'none';
+
+const formatAVN = (satoshis: number) => `${(satoshis / 100000000).toFixed(8)} AVN`;
+
+// File, clipboard and animated QR export of a proposal
+function ProposalExport({ proposal }: { proposal: MultisigProposal }) {
+  const [showQR, setShowQR] = useState(false);
+  const [frame, setFrame] = useState(0);
+  const chunks = MultisigService.toQRChunks(proposal);
+
+  useEffect(() => {
+    if (!showQR || chunks.length < 2) return;
+
+    const interval = setInterval(() => {
+      setFrame((current) => (current + 1) % chunks.length);
+    }, QR_FRAME_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [showQR, chunks.length]);
+
+  const copyToClipboard = async () => {
+    await navigator.clipboard.writeText(MultisigService.encode(proposal));
+    toast.success('Copied to clipboard');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={() => MultisigService.downloadFile(proposal)}>
+          <FileDown className="w-4 h-4 mr-2" />
+          Download File
+        </Button>
+        <Button variant="outline" onClick={copyToClipboard}>
+          <Copy className="w-4 h-4 mr-2" />
+          Copy
+        </Button>
+        <Button variant="outline" onClick={() => setShowQR(!showQR)}>
+          <QrCode className="w-4 h-4 mr-2" />
+          {showQR ? 'Hide QR' : 'Show QR'}
+        </Button>
+      </div>
+
+      {showQR && (
+        <div className="flex flex-col items-center gap-2 p-4 bg-white rounded-lg">
+          <QRCodeSVG value={chunks[frame % chunks.length]} size={280} level="L" />
+          <span className="text-xs text-gray-600">
+            {chunks.length > 1
+              ? `Frame ${(frame % chunks.length) + 1} of ${chunks.length} - keep scanning until all frames are read`
+              : 'Single QR code'}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Paste, file and multi-frame QR import of a proposal
+function ProposalImport({ onLoad }: { onLoad: (proposal: MultisigProposal) => void }) {
+  const [text, setText] = useState('');
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [scannedChunks, setScannedChunks] = useState<string[]>([]);
+  const [expectedChunks, setExpectedChunks] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const load = (loader: () => Promise<MultisigProposal> | MultisigProposal) => {
+    Promise.resolve()
+      .then(loader)
+      .then((proposal) => {
+        setText('');
+        onLoad(proposal);
+      })
+      .catch((error) => {
+        toast.error('Could not read proposal', {
+          description: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+  };
+
+  const handleFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      load(() => MultisigService.readFile(file));
+    }
+    event.target.value = '';
+  };
+
+  const handleScan = (data: string) => {
+    const chunkInfo = BackupService.getQRChunkInfo(data);
+    if (!chunkInfo) {
+      // Single QR code with the whole proposal
+      load(() => MultisigService.decode(data));
+      return;
+    }
+
+    const chunks = scannedChunks.some((chunk) => chunk === data)
+      ? scannedChunks
+      : [...scannedChunks, data];
+    setScannedChunks(chunks);
+    setExpectedChunks(chunkInfo.totalChunks);
+
+    if (chunks.length >= chunkInfo.totalChunks) {
+      load(() => MultisigService.fromQRChunks(chunks));
+      setScannedChunks([]);
+      setExpectedChunks(null);
+    } else {
+      // Keep scanning until every frame has been read
+      setIsScannerOpen(true);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Paste a proposal (AVIAN_MULTISIG_TX:...)"
+        className="font-mono text-xs min-h-[100px]"
+      />
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="outline"
+          onClick={() => load(() => MultisigService.decode(text))}
+          disabled={!text.trim()}
+        >
+          Load
+        </Button>
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <FileUp className="w-4 h-4 mr-2" />
+          Open File
+        </Button>
+        <Button variant="outline" onClick={() => setIsScannerOpen(true)}>
+          <Camera className="w-4 h-4 mr-2" />
+          Scan QR
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".txt,.json"
+          className="hidden"
+          onChange={handleFile}
+        />
+      </div>
+      {expectedChunks !== null && (
+        <p className="text-xs text-muted-foreground">
+          Scanned {scannedChunks.length} of {expectedChunks} QR frames
+        </p>
+      )}
+
+      <QRScannerModal
+        isOpen={isScannerOpen}
+        onClose={() => setIsScannerOpen(false)}
+        onScan={(result) => handleScan(result.address)}
+        mode="any"
+        title="Scan Multisig Proposal"
+      />
+    </div>
+  );
+}
+
+export default function MultisigPanel() {
+  const { wallet, address, isConnected, reloadActiveWallet, finalizeMultisigProposal } =
+    useWallet();
+  const { requireAuth } = useSecurity();
+  const [activeTab, setActiveTab] = useState<'create' | 'spend'>('create');
+  const [wallets, setWallets] = useState<WalletData[]>([]);
+  const activeWallet = wallets.find((candidate) => candidate.address === address);
+  const multisig = activeWallet?.multisig;
+
+  // Create
+  const [name, setName] = useState('');
+  const [threshold, setThreshold] = useState(2);
+  const [localWalletAddress, setLocalWalletAddress] = useState(NO_LOCAL_WALLET);
+  const [cosigners, setCosigners] = useState<MultisigCosigner[]>([{ name: '', xpub: '' }]);
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Spend
+  const [toAddress, setToAddress] = useState('');
+  const [amount, setAmount] = useState('');
+  const [proposal, setProposal] = useState<MultisigProposal | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!wallet) return;
+
+    wallet
+      .getAllWallets()
+      .then(setWallets)
+      .catch(() => setWallets([]));
+  }, [wallet, address]);
+
+  useEffect(() => {
+    if (multisig) setActiveTab('spend');
+  }, [multisig]);
+
+  const hdWallets = wallets.filter((candidate) => !!candidate.mnemonic);
+  const localWallet = hdWallets.find((candidate) => candidate.address === localWalletAddress);
+  const cosignerCount = cosigners.length + (localWallet ? 1 : 0);
+  const signingWallet = multisig
+    ? wallets.find((candidate) => candidate.address === multisig.localWalletAddress)
+    : activeWallet;
+
+  const changeTab = (tab: string) => {
+    setActiveTab(tab as 'create' | 'spend');
+    setError('');
+  };
+
+  const updateCosigner = (index: number, field: keyof MultisigCosigner, value: string) => {
+    setCosigners(cosigners.map((c, i) => (i === index ? { ...c, [field]: value } : c)));
+  };
+
+  // Ask for the password of an encrypted wallet whose recovery phrase is needed
+  const authenticateFor = async (signer: WalletData | undefined, reason: string) => {
+    if (!signer?.isEncrypted) return { success: true, password: undefined };
+
+    const authResult = await requireAuth(reason);
+    if (!authResult.success || !authResult.password) {
+      return { success: false, password: undefined };
+    }
+    return { success: true, password: authResult.password };
+  };
+
+  const handleCreate = async () => {
+    if (!wallet) return;
+
+    setError('');
+    setIsCreating(true);
+    try {
+      const auth = await authenticateFor(
+        localWallet,
+        `Authenticate to add ${localWallet?.name} as a cosigner`,
+      );
+      if (!auth.success) {
+        setError('Authentication required to derive the cosigner key');
+        return;
+      }
+
+      const newWallet = await wallet.createMultisigWallet({
+        name: name.trim(),
+        threshold,
+        cosigners,
+        localWalletAddress: localWallet?.address,
+        password: auth.password,
+        makeActive: true,
+      });
+
+      await reloadActiveWallet();
+      window.dispatchEvent(new CustomEvent('wallet-created'));
+      setName('');
+      setCosigners([{ name: '', xpub: '' }]);
+      toast.success('Multisig wallet created', {
+        description: `${newWallet.name} (${threshold} of ${cosignerCount}) at ${newWallet.address}`,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create multisig wallet');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handlePropose = async () => {
+    if (!wallet) return;
+
+    setError('');
+    setIsWorking(true);
+    try {
+      setProposal(
+        await wallet.buildMultisigProposal(
+          toAddress.trim(),
+          Math.round(parseFloat(amount) * 100000000),
+        ),
+      );
+      setToAddress('');
+      setAmount('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to build proposal');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSign = async () => {
+    if (!wallet || !proposal) return;
+
+    setError('');
+    setIsWorking(true);
+    try {
+      const auth = await authenticateFor(
+        signingWallet,
+        `Authenticate to co-sign a multisig payment with a fee of ${formatAVN(proposal.fee)}`,
+      );
+      if (!auth.success) {
+        setError('Authentication required to sign proposal');
+        return;
+      }
+
+      const signed = await wallet.signMultisigProposal(proposal, auth.password);
+      setProposal(signed);
+      toast.success('Proposal signed', {
+        description: MultisigService.isComplete(signed)
+          ? 'Enough cosigners have signed to broadcast.'
+          : 'Pass the proposal on to the next cosigner.',
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign proposal');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleMerge = (other: MultisigProposal) => {
+    if (!proposal) {
+      setError('');
+      setProposal(other);
+      return;
+    }
+    try {
+      setProposal(MultisigService.mergeSignatures(proposal, other));
+      toast.success('Signatures combined');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to combine signatures');
+    }
+  };
+
+  const handleBroadcast = async () => {
+    if (!proposal) return;
+
+    setError('');
+    setIsWorking(true);
+    try {
+      const txid = await finalizeMultisigProposal(proposal);
+      setProposal(null);
+      toast.success('Transaction broadcast', { description: txid });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to broadcast transaction');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const signedCount = proposal ? MultisigService.countSignatures(proposal) : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          Multisig Wallets
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Share a P2SH address between several key holders. Payments need signatures from a set
+          number of them, collected by passing a proposal around as a file or QR codes.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <Tabs value={activeTab} onValueChange={changeTab}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="create">Create</TabsTrigger>
+            <TabsTrigger value="spend">Propose &amp; Sign</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="create" className="space-y-4 mt-4">
+            <div className="space-y-2">
+              <Label htmlFor="multisigName">Wallet Name</Label>
+              <Input
+                id="multisigName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Team treasury"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="multisigLocalWallet">This Device&apos;s Key</Label>
+              <Select value={localWalletAddress} onValueChange={setLocalWalletAddress}>
+                <SelectTrigger id="multisigLocalWallet">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_LOCAL_WALLET}>None (watch only)</SelectItem>
+                  {hdWallets.map((candidate) => (
+                    <SelectItem key={candidate.address} value={candidate.address}>
+                      {candidate.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                An HD wallet on this device that holds one of the keys and signs for it.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Other Cosigners</Label>
+              {cosigners.map((cosigner, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    value={cosigner.name}
+                    onChange={(e) => updateCosigner(index, 'name', e.target.value)}
+                    placeholder="Name"
+                    className="w-1/3"
+                  />
+                  <Input
+                    value={cosigner.xpub}
+                    onChange={(e) => updateCosigner(index, 'xpub', e.target.value)}
+                    placeholder="xpub..."
+                    className="font-mono text-xs"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setCosigners(cosigners.filter((_, i) => i !== index))}
+                    disabled={cosigners.length === 1}
+                    aria-label="Remove cosigner"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCosigners([...cosigners, { name: '', xpub: '' }])}
+                disabled={cosignerCount >= MultisigService.MAX_COSIGNERS}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Cosigner
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                Each cosigner exports their account xpub under Settings &gt; Wallet. All cosigners
+                must enter the same keys to arrive at the same address.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="multisigThreshold">Required Signatures</Label>
+              <Select
+                value={String(threshold)}
+                onValueChange={(value) => setThreshold(parseInt(value, 10))}
+              >
+                <SelectTrigger id="multisigThreshold">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: Math.max(cosignerCount, 1) }, (_, i) => (
+                    <SelectItem key={i + 1} value={String(i + 1)}>
+                      {i + 1} of {cosignerCount}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <Button
+              onClick={handleCreate}
+              disabled={
+                isCreating ||
+                !name.trim() ||
+                cosignerCount < 2 ||
+                threshold > cosignerCount ||
+                cosigners.some((cosigner) => !cosigner.name.trim() || !cosigner.xpub.trim())
+              }
+              className="w-full"
+            >
+              {isCreating ? 'Creating...' : 'Create Multisig Wallet'}
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="spend" className="space-y-4 mt-4">
+            {multisig && activeWallet && (
+              <div className="rounded-lg border p-3 space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="font-medium">{activeWallet.name}</span>
+                  <span className="text-muted-foreground">
+                    {multisig.threshold} of {multisig.cosigners.length}
+                  </span>
+                </div>
+                <p className="font-mono text-xs break-all">{activeWallet.address}</p>
+                <p className="text-xs text-muted-foreground">
+                  Cosigners: {multisig.cosigners.map((cosigner) => cosigner.name).join(', ')}
+                </p>
+              </div>
+            )}
+
+            {multisig && !proposal && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="multisigToAddress">Recipient Address</Label>
+                  <Input
+                    id="multisigToAddress"
+                    value={toAddress}
+                    onChange={(e) => setToAddress(e.target.value)}
+                    placeholder="R..."
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="multisigAmount">Amount (AVN)</Label>
+                  <Input
+                    id="multisigAmount"
+                    type="number"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    placeholder="0.00000000"
+                    step="0.00000001"
+                    min="0"
+                  />
+                </div>
+                <Button
+                  onClick={handlePropose}
+                  disabled={
+                    isWorking || !isConnected || !toAddress.trim() || !(parseFloat(amount) > 0)
+                  }
+                  className="w-full"
+                >
+                  {isWorking ? 'Building...' : 'Create Proposal'}
+                </Button>
+              </>
+            )}
+
+            {proposal && (
+              <div className="space-y-3">
+                <div className="rounded-lg border p-3 space-y-2 text-sm">
+                  {proposal.outputs.map((output, index) => (
+                    <div key={index} className="flex justify-between gap-4">
+                      <span className="font-mono break-all text-muted-foreground">
+                        {output.isChange ? 'Change: ' : 'Pay: '}
+                        {output.address}
+                      </span>
+                      <span className="font-medium whitespace-nowrap">
+                        {formatAVN(output.value)}
+                      </span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between border-t pt-2">
+                    <span className="text-muted-foreground">Network fee</span>
+                    <span className="font-medium">{formatAVN(proposal.fee)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Signatures</span>
+                    <span className="font-medium">
+                      {signedCount} of {proposal.threshold} required
+                    </span>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  <Button onClick={handleSign} disabled={isWorking || !signingWallet}>
+                    <PenLine className="w-4 h-4 mr-2" />
+                    Sign
+                  </Button>
+                  <Button
+                    onClick={handleBroadcast}
+                    disabled={isWorking || !isConnected || !MultisigService.isComplete(proposal)}
+                  >
+                    <Send className="w-4 h-4 mr-2" />
+                    Broadcast
+                  </Button>
+                  <Button variant="outline" onClick={() => setProposal(null)}>
+                    Discard
+                  </Button>
+                </div>
+
+                <ProposalExport proposal={proposal} />
+              </div>
+            )}
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label>
+                {proposal ? 'Add Signatures From Another Copy' : 'Load a Proposal to Sign'}
+              </Label>
+              <ProposalImport onLoad={handleMerge} />
+            </div>
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -15,7 +15,9 @@ import {
 } from 'lucide-react';
 import { useNotifications } from '@/contexts/NotificationContext';
 import { useWallet } from '@/contexts/WalletContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
 import { StorageService } from '@/services/core/StorageService';
+import { PriceService } from '@/services/data/PriceService';
 import { NotificationClientService } from '@/services/notifications/client/NotificationClientService';
 import { toast } from 'sonner';
 import { useMediaQuery } from '@/hooks/use-media-query';
@@ -45,6 +47,7 @@ export default function NotificationSettings({ isOpen, onClose }: NotificationSe
     refreshPrice,
     testNotification,
   } = useNotifications();
+  const { currency } = useCurrency();
 
   const { address: activeWalletAddress, wallet: activeWallet } = useWallet();
 
@@ -536,7 +539,9 @@ export default function NotificationSettings({ isOpen, onClose }: NotificationSe
               <div>
                 <p className="text-sm text-muted-foreground">Current AVN price</p>
                 <p className="text-base font-medium">
-                  {currentAvnPrice ? `$${currentAvnPrice.toFixed(7)}` : 'Unknown'}
+                  {currentAvnPrice
+                    ? PriceService.formatPrice(currentAvnPrice, currency)
+                    : 'Unknown'}
                 </p>
                 {priceLastUpdated && (
                   <p className="text-xs text-muted-foreground">
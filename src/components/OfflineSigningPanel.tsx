@@ -0,0 +1,509 @@
+'use client';
+
+import { useState, useEffect, useRef, ChangeEvent } from 'react';
+import {
+  FileDown,
+  FileUp,
+  QrCode,
+  Camera,
+  Copy,
+  PenLine,
+  Radio,
+  Send,
+  AlertCircle,
+} from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
+import { toast } from 'sonner';
+import { useWallet } from '@/contexts/WalletContext';
+import { useSecurity } from '@/contexts/SecurityContext';
+import { BackupService } from '@/services/core/BackupService';
+import { OfflineSigningService } from '@/services/wallet/OfflineSigningService';
+import {
+  FeeEstimationService,
+  FeeEstimates,
+  FeePriority,
+} from '@/services/wallet/FeeEstimationService';
+import { OfflineTransactionPayload, UnsignedTransactionOutput } from '@/types/offlineSigning';
+import QRScannerModal from './QRScannerModal';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const QR_FRAME_INTERVAL_MS = 1200;
+
+const formatAVN = (satoshis: number) => `${(satoshis / 100000000).toFixed(8)} AVN`;
+
+// Outputs and fee of an unsigned or signed transaction
+function TransactionSummary({
+  outputs,
+  fee,
+}: {
+  outputs: UnsignedTransactionOutput[];
+  fee: number;
+}) {
+  return (
+    <div className="rounded-lg border p-3 space-y-2 text-sm">
+      {outputs.map((output, index) => (
+        <div key={index} className="flex justify-between gap-4">
+          <span className="font-mono break-all text-muted-foreground">
+            {output.isChange ? 'Change: ' : 'Pay: '}
+            {output.address || 'Unknown script'}
+          </span>
+          <span className="font-medium whitespace-nowrap">{formatAVN(output.value)}</span>
+        </div>
+      ))}
+      <div className="flex justify-between border-t pt-2">
+        <span className="text-muted-foreground">Network fee</span>
+        <span className="font-medium">{formatAVN(fee)}</span>
+      </div>
+    </div>
+  );
+}
+
+// File, clipboard and animated QR export of a payload
+function PayloadExport({ payload }: { payload: OfflineTransactionPayload }) {
+  const [showQR, setShowQR] = useState(false);
+  const [frame, setFrame] = useState(0);
+  const chunks = OfflineSigningService.toQRChunks(payload);
+
+  useEffect(() => {
+    if (!showQR || chunks.length < 2) return;
+
+    const interval = setInterval(() => {
+      setFrame((current) => (current + 1) % chunks.length);
+    }, QR_FRAME_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [showQR, chunks.length]);
+
+  const copyToClipboard = async () => {
+    await navigator.clipboard.writeText(OfflineSigningService.encode(payload));
+    toast.success('Copied to clipboard');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={() => OfflineSigningService.downloadFile(payload)}>
+          <FileDown className="w-4 h-4 mr-2" />
+          Download File
+        </Button>
+        <Button variant="outline" onClick={copyToClipboard}>
+          <Copy className="w-4 h-4 mr-2" />
+          Copy
+        </Button>
+        <Button variant="outline" onClick={() => setShowQR(!showQR)}>
+          <QrCode className="w-4 h-4 mr-2" />
+          {showQR ? 'Hide QR' : 'Show QR'}
+        </Button>
+      </div>
+
+      {showQR && (
+        <div className="flex flex-col items-center gap-2 p-4 bg-white rounded-lg">
+          <QRCodeSVG value={chunks[frame % chunks.length]} size={280} level="L" />
+          <span className="text-xs text-gray-600">
+            {chunks.length > 1
+              ? `Frame ${(frame % chunks.length) + 1} of ${chunks.length} - keep scanning until all frames are read`
+              : 'Single QR code'}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Paste, file and multi-frame QR import of a payload
+function PayloadImport({
+  onLoad,
+  placeholder,
+}: {
+  onLoad: (payload: OfflineTransactionPayload) => void;
+  placeholder: string;
+}) {
+  const [text, setText] = useState('');
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [scannedChunks, setScannedChunks] = useState<string[]>([]);
+  const [expectedChunks, setExpectedChunks] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const load = (loader: () => Promise<OfflineTransactionPayload> | OfflineTransactionPayload) => {
+    Promise.resolve()
+      .then(loader)
+      .then(onLoad)
+      .catch((error) => {
+        toast.error('Could not read transaction', {
+          description: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+  };
+
+  const handleFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      load(() => OfflineSigningService.readFile(file));
+    }
+    event.target.value = '';
+  };
+
+  const handleScan = (data: string) => {
+    const chunkInfo = BackupService.getQRChunkInfo(data);
+    if (!chunkInfo) {
+      // Single QR code with the whole payload
+      load(() => OfflineSigningService.decode(data));
+      return;
+    }
+
+    const chunks = scannedChunks.some((chunk) => chunk === data)
+      ? scannedChunks
+      : [...scannedChunks, data];
+    setScannedChunks(chunks);
+    setExpectedChunks(chunkInfo.totalChunks);
+
+    if (chunks.length >= chunkInfo.totalChunks) {
+      load(() => OfflineSigningService.fromQRChunks(chunks));
+      setScannedChunks([]);
+      setExpectedChunks(null);
+    } else {
+      // Keep scanning until every frame has been read
+      setIsScannerOpen(true);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={placeholder}
+        className="font-mono text-xs min-h-[100px]"
+      />
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="outline"
+          onClick={() => load(() => OfflineSigningService.decode(text))}
+          disabled={!text.trim()}
+        >
+          Load
+        </Button>
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <FileUp className="w-4 h-4 mr-2" />
+          Open File
+        </Button>
+        <Button variant="outline" onClick={() => setIsScannerOpen(true)}>
+          <Camera className="w-4 h-4 mr-2" />
+          Scan QR
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".txt,.json"
+          className="hidden"
+          onChange={handleFile}
+        />
+      </div>
+      {expectedChunks !== null && (
+        <p className="text-xs text-muted-foreground">
+          Scanned {scannedChunks.length} of {expectedChunks} QR frames
+        </p>
+      )}
+
+      <QRScannerModal
+        isOpen={isScannerOpen}
+        onClose={() => setIsScannerOpen(false)}
+        onScan={(result) => handleScan(result.address)}
+        mode="any"
+        title="Scan Transaction QR"
+      />
+    </div>
+  );
+}
+
+export default function OfflineSigningPanel() {
+  const { wallet, isEncrypted, isWatchOnly, updateBalance } = useWallet();
+  const { requireAuth } = useSecurity();
+  const [activeTab, setActiveTab] = useState<'create' | 'sign' | 'broadcast'>(
+    isWatchOnly ? 'create' : 'sign',
+  );
+
+  // Create
+  const [toAddress, setToAddress] = useState('');
+  const [amount, setAmount] = useState('');
+  const [feePriority, setFeePriority] = useState<FeePriority>('normal');
+  const [feeEstimates, setFeeEstimates] = useState<FeeEstimates | null>(null);
+  const [isBuilding, setIsBuilding] = useState(false);
+
+  // Sign / broadcast
+  const [loadedPayload, setLoadedPayload] = useState<OfflineTransactionPayload | null>(null);
+  const [exportPayload, setExportPayload] = useState<OfflineTransactionPayload | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!wallet || activeTab !== 'create') return;
+
+    wallet
+      .getFeeEstimates()
+      .then(setFeeEstimates)
+      .catch(() => setFeeEstimates(null));
+  }, [wallet, activeTab]);
+
+  const changeTab = (tab: string) => {
+    setActiveTab(tab as 'create' | 'sign' | 'broadcast');
+    setLoadedPayload(null);
+    setExportPayload(null);
+    setError('');
+  };
+
+  const handleBuild = async () => {
+    if (!wallet) return;
+
+    setError('');
+    setIsBuilding(true);
+    try {
+      const unsigned = await wallet.buildUnsignedTransaction(
+        toAddress.trim(),
+        Math.round(parseFloat(amount) * 100000000),
+        { feeRate: feeEstimates?.[feePriority] },
+      );
+      setExportPayload(unsigned);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to build transaction');
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  const handleSign = async () => {
+    if (!wallet || !loadedPayload || !OfflineSigningService.isUnsigned(loadedPayload)) return;
+
+    setError('');
+    setIsWorking(true);
+    try {
+      const verified = await wallet.verifyUnsignedTransaction(loadedPayload);
+
+      let password: string | undefined;
+      if (isEncrypted) {
+        const authResult = await requireAuth(
+          `Authenticate to sign a payment with a fee of ${formatAVN(verified.fee)}`,
+        );
+        if (!authResult.success || !authResult.password) {
+          setError('Authentication required to sign transaction');
+          return;
+        }
+        password = authResult.password;
+      }
+
+      const signed = await wallet.signTransaction(verified, password);
+      setExportPayload(signed);
+      toast.success('Transaction signed', {
+        description: 'Export the signed transaction to the online device to broadcast it.',
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign transaction');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleBroadcast = async () => {
+    if (!wallet || !loadedPayload || !OfflineSigningService.isSigned(loadedPayload)) return;
+
+    setError('');
+    setIsWorking(true);
+    try {
+      const txid = await wallet.broadcastTransaction(loadedPayload);
+      await updateBalance();
+      setLoadedPayload(null);
+      toast.success('Transaction broadcast', { description: txid });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to broadcast transaction');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const loadFor = (expected: 'avian-unsigned-tx' | 'avian-signed-tx') => {
+    return async (payload: OfflineTransactionPayload) => {
+      if (payload.format !== expected) {
+        toast.error(
+          expected === 'avian-unsigned-tx'
+            ? 'This transaction is already signed'
+            : 'This transaction has not been signed yet',
+        );
+        return;
+      }
+      setError('');
+      setExportPayload(null);
+      setLoadedPayload(null);
+
+      // Show what the transaction itself pays, never the imported description of it
+      if (OfflineSigningService.isUnsigned(payload)) {
+        if (!wallet) return;
+        try {
+          setLoadedPayload(await wallet.verifyUnsignedTransaction(payload));
+        } catch (err) {
+          setError(err instanceof Error ? err.message : 'Transaction could not be verified');
+        }
+        return;
+      }
+      setLoadedPayload(payload);
+    };
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PenLine className="w-5 h-5" />
+          Offline Signing
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Build a payment on a watch-only wallet, sign it on an air-gapped device, then broadcast
+          the signed transaction from here.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <Tabs value={activeTab} onValueChange={changeTab}>
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="create">1. Create</TabsTrigger>
+            <TabsTrigger value="sign">2. Sign</TabsTrigger>
+            <TabsTrigger value="broadcast">3. Broadcast</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="create" className="space-y-4 mt-4">
+            <div className="space-y-2">
+              <Label htmlFor="offlineToAddress">Recipient Address</Label>
+              <Input
+                id="offlineToAddress"
+                value={toAddress}
+                onChange={(e) => setToAddress(e.target.value)}
+                placeholder="R..."
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="offlineAmount">Amount (AVN)</Label>
+              <Input
+                id="offlineAmount"
+                type="number"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0.00000000"
+                step="0.00000001"
+                min="0"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="offlineFeePriority">Network Fee</Label>
+              <Select
+                value={feePriority}
+                onValueChange={(value) => setFeePriority(value as FeePriority)}
+              >
+                <SelectTrigger id="offlineFeePriority">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(['slow', 'normal', 'fast'] as const).map((priority) => (
+                    <SelectItem key={priority} value={priority}>
+                      <span className="capitalize">{priority}</span> (
+                      {feeEstimates?.[priority] || FeeEstimationService.DEFAULT_FEE_RATE} sat/byte)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              onClick={handleBuild}
+              disabled={isBuilding || !toAddress.trim() || !(parseFloat(amount) > 0)}
+              className="w-full"
+            >
+              {isBuilding ? 'Building...' : 'Create Unsigned Transaction'}
+            </Button>
+
+            {exportPayload && OfflineSigningService.isUnsigned(exportPayload) && (
+              <div className="space-y-3">
+                <TransactionSummary outputs={exportPayload.outputs} fee={exportPayload.fee} />
+                <PayloadExport payload={exportPayload} />
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="sign" className="space-y-4 mt-4">
+            {isWatchOnly && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  This wallet is watch-only. Sign on the device that holds the keys.
+                </AlertDescription>
+              </Alert>
+            )}
+            <PayloadImport
+              onLoad={loadFor('avian-unsigned-tx')}
+              placeholder="Paste an unsigned transaction"
+            />
+
+            {loadedPayload && OfflineSigningService.isUnsigned(loadedPayload) && (
+              <div className="space-y-3">
+                <TransactionSummary outputs={loadedPayload.outputs} fee={loadedPayload.fee} />
+                <Button
+                  onClick={handleSign}
+                  disabled={isWorking || isWatchOnly || !!exportPayload}
+                  className="w-full"
+                >
+                  <PenLine className="w-4 h-4 mr-2" />
+                  {isWorking ? 'Signing...' : 'Sign Transaction'}
+                </Button>
+              </div>
+            )}
+
+            {exportPayload && OfflineSigningService.isSigned(exportPayload) && (
+              <PayloadExport payload={exportPayload} />
+            )}
+          </TabsContent>
+
+          <TabsContent value="broadcast" className="space-y-4 mt-4">
+            <PayloadImport
+              onLoad={loadFor('avian-signed-tx')}
+              placeholder="Paste a signed transaction or raw transaction hex"
+            />
+
+            {loadedPayload && OfflineSigningService.isSigned(loadedPayload) && (
+              <div className="space-y-3">
+                {loadedPayload.outputs.length > 0 ? (
+                  <TransactionSummary outputs={loadedPayload.outputs} fee={loadedPayload.fee} />
+                ) : (
+                  <p className="text-sm font-mono break-all text-muted-foreground">
+                    <Radio className="inline w-4 h-4 mr-1" />
+                    {loadedPayload.txid}
+                  </p>
+                )}
+                <Button onClick={handleBroadcast} disabled={isWorking} className="w-full">
+                  <Send className="w-4 h-4 mr-2" />
+                  {isWorking ? 'Broadcasting...' : 'Broadcast Transaction'}
+                </Button>
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        {error && (
+          <Alert variant="destructive" className="mt-4">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
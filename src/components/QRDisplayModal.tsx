@@ -5,6 +5,7 @@ import { Copy, Download, X } from 'lucide-react';
 import QRCode from 'qrcode';
 import { toast } from 'sonner';
 import { useMediaQuery } from '@/hooks/use-media-query';
+import { PaymentUriService } from '@/services/wallet/PaymentUriService';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
 
@@ -24,10 +25,7 @@ export default function QRDisplayModal({ isOpen, onClose, address, label }: QRDi
     try {
       setLoading(true);
       // Create avian: URI with address and optional label
-      let uri = `avian:${address}`;
-      if (label) {
-        uri += `?label=${encodeURIComponent(label)}`;
-      }
+      const uri = PaymentUriService.build({ address, label });
 
       const qrCode = await QRCode.toDataURL(uri, {
         width: 300,
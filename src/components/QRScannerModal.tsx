@@ -4,6 +4,8 @@ import { useState, useRef, useEffect, useCallback } from 'react';
 import { X, Camera, Upload } from 'lucide-react';
 import QrScanner from 'qr-scanner';
 import { QRScanResult } from '@/types/addressBook';
+import { PaymentUriService } from '@/services/wallet/PaymentUriService';
+import { BatchPaymentService } from '@/services/wallet/BatchPaymentService';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
 import { Button } from '@/components/ui/button';
@@ -51,66 +53,30 @@ export default function QRScannerModal({
           setIsScanning(false);
         }
 
-        // Parse QR code data based on mode
-        let isValidFormat = false;
-
         if (mode === 'any') {
           // Accept any QR code content for backup restore or other purposes
-          isValidFormat = data.length > 0;
-        } else {
-          // Default 'address' mode - validate Avian addresses and payment requests
-          // Check for avian: URI scheme
-          if (data.startsWith('avian:')) {
-            isValidFormat = true;
-          }
-          // Check for direct Avian address (starts with R and reasonable length)
-          else if (data.startsWith('R') && data.length >= 26 && data.length <= 35) {
-            isValidFormat = true;
-          }
-          // Check for longer format addresses or other valid patterns
-          else if (data.match(/^[A-Za-z0-9]{25,50}$/) && data.startsWith('R')) {
-            isValidFormat = true;
+          if (data.length === 0) {
+            setError('Empty QR code content');
+            setIsProcessing(false);
+            return;
           }
+
+          // For 'any' mode, return the raw data as the address field
+          onScan({ address: data, amount: undefined, label: undefined, message: undefined });
+          onClose();
+          return;
         }
 
-        if (isValidFormat) {
-          if (mode === 'any') {
-            // For 'any' mode, return the raw data as the address field
-            onScan({ address: data, amount: undefined, label: undefined, message: undefined });
-            onClose();
-          } else {
-            // Default address mode - parse as Avian address/payment request
-            let address = data;
-            let amount: number | undefined;
-            let label: string | undefined;
-            let message: string | undefined;
-
-            // Handle avian: URI scheme (payment request)
-            if (data.startsWith('avian:')) {
-              const url = new URL(data);
-              address = url.pathname;
-
-              // Parse query parameters for payment request details
-              if (url.searchParams.has('amount')) {
-                amount = parseFloat(url.searchParams.get('amount')!);
-              }
-              if (url.searchParams.has('label')) {
-                label = decodeURIComponent(url.searchParams.get('label')!);
-              }
-              if (url.searchParams.has('message')) {
-                message = decodeURIComponent(url.searchParams.get('message')!);
-              }
-            }
-
-            onScan({ address, amount, label, message });
-            onClose();
-          }
+        // Default 'address' mode - avian: payment requests and plain Avian addresses
+        if (PaymentUriService.isPaymentUri(data)) {
+          onScan(PaymentUriService.toScanResult(PaymentUriService.parse(data)));
+          onClose();
+        } else if (BatchPaymentService.isValidAddress(data.trim())) {
+          onScan({ address: data.trim() });
+          onClose();
         } else {
-          const errorMsg = mode === 'any'
-            ? `Empty QR code content`
-            : `Invalid Avian address format. Content: ${data.slice(0, 20)}${data.length > 20 ? '...' : ''}`;
-
-          setError(errorMsg);
+          const preview = data.length > 20 ? `${data.slice(0, 20)}...` : data;
+          setError(`Invalid Avian address format. Content: ${preview}`);
           setIsProcessing(false);
         }
       } catch (err) {
@@ -1,11 +1,25 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { QrCode, Copy, CheckCircle, ExternalLink } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import {
+  QrCode,
+  Copy,
+  CheckCircle,
+  ExternalLink,
+  RefreshCw,
+  Pin,
+  PinOff,
+  ReceiptText,
+} from 'lucide-react';
 import { QRCodeSVG } from 'qrcode.react';
 import { toast } from 'sonner';
 import { StorageService } from '@/services/core/StorageService';
+import { PaymentUriService } from '@/services/wallet/PaymentUriService';
 import { useWallet } from '@/contexts/WalletContext';
+import { useSecurity } from '@/contexts/SecurityContext';
+import { ReceiveAddressInfo } from '@/types/addressDiscovery';
+import InvoiceDialog from './InvoiceDialog';
 
 // Import Shadcn UI components
 import { Button } from '@/components/ui/button';
@@ -50,10 +64,86 @@ export default function ReceiveContent({ address }: ReceiveContentProps) {
   // Carousel API
   const [api, setApi] = useState<any>(null);
 
-  const { reloadActiveWallet } = useWallet();
+  // Receive address handed out for the active wallet (fresh per payment for HD wallets)
+  const [receiveInfo, setReceiveInfo] = useState<ReceiveAddressInfo | null>(null);
+  const [isUpdatingReceive, setIsUpdatingReceive] = useState(false);
+
+  // Payment request (invoice) dialog
+  const [showInvoiceDialog, setShowInvoiceDialog] = useState(false);
+
+  const router = useRouter();
+  const { reloadActiveWallet, wallet: walletService } = useWallet();
+  const { requireAuth } = useSecurity();
 
   // Selected address derived from selected index
   const selectedAddress = wallets[selectedWalletIndex]?.address || null;
+  const activeWalletAddress = wallets.find((wallet) => wallet.isActive)?.address || null;
+  const isActiveSelected = !!selectedAddress && selectedAddress === activeWalletAddress;
+
+  // Address a payer should use: the handed-out receive address for the active wallet
+  const paymentAddressFor = (wallet: WalletDisplayItem) =>
+    wallet.isActive && receiveInfo ? receiveInfo.address : wallet.address;
+  const selectedPaymentAddress =
+    isActiveSelected && receiveInfo ? receiveInfo.address : selectedAddress;
+  // QR codes carry an avian: link so scanning wallets recognise the payment
+  const qrValueFor = (address: string | null) =>
+    address ? PaymentUriService.build({ address }) : '';
+
+  const loadReceiveAddress = useCallback(
+    async (options?: { forceNew?: boolean; password?: string }) => {
+      if (!walletService || !activeWalletAddress) {
+        setReceiveInfo(null);
+        return;
+      }
+
+      try {
+        setIsUpdatingReceive(true);
+        setReceiveInfo(await walletService.getReceiveAddress(options));
+      } catch (error) {
+        // Fall back to the primary address when no fresh address can be derived
+        setReceiveInfo(null);
+        if (options) {
+          toast.error('Failed to get a receive address', {
+            description: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      } finally {
+        setIsUpdatingReceive(false);
+      }
+    },
+    [walletService, activeWalletAddress],
+  );
+
+  useEffect(() => {
+    loadReceiveAddress();
+  }, [loadReceiveAddress]);
+
+  const handleUnlockFreshAddresses = async () => {
+    const authResult = await requireAuth('Authenticate to derive fresh receive addresses', true);
+    if (authResult.success && authResult.password) {
+      await loadReceiveAddress({ password: authResult.password });
+    }
+  };
+
+  const handleTogglePin = async () => {
+    if (!walletService || !receiveInfo) return;
+
+    try {
+      await walletService.setPinnedReceiveAddress(
+        receiveInfo.isPinned ? null : receiveInfo.address,
+      );
+      await loadReceiveAddress();
+      toast.success(receiveInfo.isPinned ? 'Address unpinned' : 'Address pinned', {
+        description: receiveInfo.isPinned
+          ? 'A fresh address will be shown for each payment'
+          : 'This address will be shown for every payment',
+      });
+    } catch (error) {
+      toast.error('Failed to update pinned address', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
 
   // Function to load all wallets with simplified selection logic
   const loadAllWallets = useCallback(async () => {
@@ -319,7 +409,7 @@ export default function ReceiveContent({ address }: ReceiveContentProps) {
   };
 
   // Copy address to clipboard
-  const copyToClipboard = async (addressToCopy = selectedAddress) => {
+  const copyToClipboard = async (addressToCopy = selectedPaymentAddress) => {
     try {
       if (!addressToCopy) return;
 
@@ -445,7 +535,7 @@ export default function ReceiveContent({ address }: ReceiveContentProps) {
                         <CardContent className="flex flex-col items-center p-3 space-y-2">
                           <div className="w-48 h-48 sm:w-56 sm:h-56 flex items-center justify-center bg-white">
                             <QRCodeSVG
-                              value={wallet.address}
+                              value={qrValueFor(paymentAddressFor(wallet))}
                               size={224}
                               bgColor="#FFFFFF"
                               fgColor="#1f2937"
@@ -516,7 +606,7 @@ export default function ReceiveContent({ address }: ReceiveContentProps) {
             <Card className="bg-background p-3 shadow-sm border">
               <div className="w-48 h-48 sm:w-56 sm:h-56 flex items-center justify-center">
                 <QRCodeSVG
-                  value={selectedAddress || ''}
+                  value={qrValueFor(selectedPaymentAddress)}
                   size={224}
                   bgColor="#FFFFFF"
                   fgColor="#1f2937"
@@ -538,13 +628,13 @@ export default function ReceiveContent({ address }: ReceiveContentProps) {
             )}
           </h3>
           <div className="flex items-center bg-muted rounded-lg p-3">
-            <div className="flex-1 text-sm font-mono break-all">{selectedAddress}</div>
+            <div className="flex-1 text-sm font-mono break-all">{selectedPaymentAddress}</div>
 
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
                   <a
-                    href={`https://explorer.avn.network/address/?address=${selectedAddress}`}
+                    href={`https://explorer.avn.network/address/?address=${selectedPaymentAddress}`}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="text-primary hover:text-primary/80 flex"
@@ -579,12 +669,85 @@ export default function ReceiveContent({ address }: ReceiveContentProps) {
           </div>
         </div>
 
+        {/* Fresh receive address controls for HD wallets */}
+        {isActiveSelected && receiveInfo && (
+          <div className="flex flex-col items-center gap-2">
+            {receiveInfo.needsUnlock && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleUnlockFreshAddresses}
+                disabled={isUpdatingReceive}
+              >
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Use a Fresh Address for Each Payment
+              </Button>
+            )}
+            {receiveInfo.isFresh && (
+              <p className="text-xs text-muted-foreground">
+                Receive address #{receiveInfo.index} ({receiveInfo.path})
+              </p>
+            )}
+            {receiveInfo.isPinned && (
+              <p className="text-xs text-muted-foreground">Pinned reusable address</p>
+            )}
+            {(receiveInfo.isFresh || receiveInfo.isPinned) && (
+              <div className="flex gap-2">
+                {receiveInfo.isFresh && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => loadReceiveAddress({ forceNew: true })}
+                    disabled={isUpdatingReceive}
+                  >
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    New Address
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleTogglePin}
+                  disabled={isUpdatingReceive}
+                >
+                  {receiveInfo.isPinned ? (
+                    <>
+                      <PinOff className="w-4 h-4 mr-2" />
+                      Unpin
+                    </>
+                  ) : (
+                    <>
+                      <Pin className="w-4 h-4 mr-2" />
+                      Pin Address
+                    </>
+                  )}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Payment requests are made for the active wallet */}
+        {isActiveSelected && (
+          <div className="flex flex-wrap justify-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setShowInvoiceDialog(true)}>
+              <ReceiptText className="w-4 h-4 mr-2" />
+              Request a Payment
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => router.push('/settings/invoices')}>
+              View Requests
+            </Button>
+          </div>
+        )}
+
         {/* Instructions */}
         <div className="text-center text-sm text-muted-foreground space-y-1">
           <p>Share this address to receive AVN payments</p>
           <p>Each transaction will be visible on the blockchain</p>
         </div>
       </CardContent>
+
+      <InvoiceDialog isOpen={showInvoiceDialog} onClose={() => setShowInvoiceDialog(false)} />
     </Card>
   );
 }
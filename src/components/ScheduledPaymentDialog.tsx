@@ -0,0 +1,325 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { CalendarClock, AlertCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useMediaQuery } from '@/hooks/use-media-query';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { ScheduledPaymentService } from '@/services/wallet/ScheduledPaymentService';
+import { DEFAULT_TRANSACTION_CATEGORIES, MAX_MEMO_LENGTH } from '@/types/transactionNotes';
+import { PaymentCadence, ScheduledPayment } from '@/types/scheduledPayments';
+import AddressInput from './AddressInput';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+// Select items can't have an empty value
+const NO_CATEGORY = 'none';
+
+// datetime-local inputs work in local time as YYYY-MM-DDTHH:mm
+const toLocalInput = (timestamp: number) => {
+  const date = new Date(timestamp - new Date(timestamp).getTimezoneOffset() * 60000);
+  return date.toISOString().slice(0, 16);
+};
+
+interface ScheduledPaymentDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  walletAddress: string;
+  payment?: ScheduledPayment | null; // The payment to edit; a new one when not given
+}
+
+export default function ScheduledPaymentDialog({
+  isOpen,
+  onClose,
+  walletAddress,
+  payment,
+}: ScheduledPaymentDialogProps) {
+  const isMobile = useMediaQuery('(max-width: 768px)');
+  const { currency } = useCurrency();
+  const [name, setName] = useState('');
+  const [recipient, setRecipient] = useState('');
+  const [amount, setAmount] = useState('');
+  const [amountCurrency, setAmountCurrency] = useState<ScheduledPayment['amountCurrency']>('AVN');
+  const [cadence, setCadence] = useState<PaymentCadence>('weekly');
+  const [firstRun, setFirstRun] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [memo, setMemo] = useState('');
+  const [category, setCategory] = useState(NO_CATEGORY);
+  const [autoApprove, setAutoApprove] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setName(payment?.name || '');
+    setRecipient(payment?.recipient || '');
+    setAmount(payment ? String(payment.amount) : '');
+    setAmountCurrency(payment?.amountCurrency || 'AVN');
+    setCadence(payment?.cadence || 'weekly');
+    setFirstRun(toLocalInput(payment?.nextRun || Date.now()));
+    setEndDate(payment?.endDate ? toLocalInput(payment.endDate).slice(0, 10) : '');
+    setMemo(payment?.memo || '');
+    setCategory(payment?.category || NO_CATEGORY);
+    setAutoApprove(payment?.autoApprove || false);
+    setError('');
+  }, [isOpen, payment]);
+
+  const handleSave = async () => {
+    const nextRun = new Date(firstRun).getTime();
+    if (isNaN(nextRun)) {
+      setError('Choose when the first payment is due');
+      return;
+    }
+
+    setIsSaving(true);
+    setError('');
+    try {
+      await ScheduledPaymentService.savePayment({
+        id: payment?.id,
+        walletAddress,
+        name,
+        recipient: recipient.trim(),
+        amount: parseFloat(amount),
+        amountCurrency,
+        cadence,
+        nextRun,
+        // The payment can still fall due on the end date itself
+        endDate: endDate ? new Date(`${endDate}T23:59:59`).getTime() : undefined,
+        memo: memo.trim() || undefined,
+        category: category === NO_CATEGORY ? undefined : category,
+        autoApprove,
+        enabled: payment?.enabled ?? true,
+      });
+
+      toast.success(payment ? 'Scheduled payment updated' : 'Payment scheduled', {
+        description: name.trim(),
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save payment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderContent = () => (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="scheduleName">Name</Label>
+        <Input
+          id="scheduleName"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g. Weekly wages"
+          disabled={isSaving}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Recipient</Label>
+        <AddressInput
+          value={recipient}
+          onChange={setRecipient}
+          className="text-sm"
+          disabled={isSaving}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="scheduleAmount">Amount</Label>
+        <div className="flex gap-2">
+          <Input
+            id="scheduleAmount"
+            type="number"
+            min="0"
+            step="any"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            disabled={isSaving}
+          />
+          <Select
+            value={amountCurrency}
+            onValueChange={(value) =>
+              setAmountCurrency(value as ScheduledPayment['amountCurrency'])
+            }
+            disabled={isSaving}
+          >
+            <SelectTrigger className="w-28" aria-label="Amount currency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="AVN">AVN</SelectItem>
+              <SelectItem value={currency}>{currency}</SelectItem>
+              {amountCurrency !== 'AVN' && amountCurrency !== currency && (
+                <SelectItem value={amountCurrency}>{amountCurrency}</SelectItem>
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+        {amountCurrency !== 'AVN' && (
+          <p className="text-xs text-muted-foreground">
+            Converted to AVN at the current price when the payment is due
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="scheduleCadence">Repeat</Label>
+          <Select
+            value={cadence}
+            onValueChange={(value) => setCadence(value as PaymentCadence)}
+            disabled={isSaving}
+          >
+            <SelectTrigger id="scheduleCadence" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ScheduledPaymentService.CADENCES.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="scheduleFirstRun">{payment ? 'Next payment' : 'First payment'}</Label>
+          <Input
+            id="scheduleFirstRun"
+            type="datetime-local"
+            value={firstRun}
+            onChange={(e) => setFirstRun(e.target.value)}
+            disabled={isSaving}
+          />
+        </div>
+      </div>
+
+      {cadence !== 'once' && (
+        <div className="space-y-2">
+          <Label htmlFor="scheduleEnd">End date (optional)</Label>
+          <Input
+            id="scheduleEnd"
+            type="date"
+            value={endDate}
+            min={firstRun.slice(0, 10) || undefined}
+            onChange={(e) => setEndDate(e.target.value)}
+            disabled={isSaving}
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="scheduleMemo">Memo</Label>
+          <Input
+            id="scheduleMemo"
+            value={memo}
+            onChange={(e) => setMemo(e.target.value)}
+            maxLength={MAX_MEMO_LENGTH}
+            placeholder="Defaults to the name"
+            disabled={isSaving}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="scheduleCategory">Category</Label>
+          <Select value={category} onValueChange={setCategory} disabled={isSaving}>
+            <SelectTrigger id="scheduleCategory" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+              {DEFAULT_TRANSACTION_CATEGORIES.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-start space-x-2">
+        <Checkbox
+          id="scheduleAutoApprove"
+          checked={autoApprove}
+          onCheckedChange={(checked) => setAutoApprove(checked as boolean)}
+          disabled={isSaving}
+        />
+        <Label htmlFor="scheduleAutoApprove" className="text-sm font-normal cursor-pointer">
+          Send without asking when the amount is within the auto-sign limit
+        </Label>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex sm:justify-end gap-2 mt-4">
+        <Button
+          variant="outline"
+          onClick={onClose}
+          disabled={isSaving}
+          className="sm:w-auto flex-1 sm:flex-initial"
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="sm:w-auto flex-1 sm:flex-initial"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+    </div>
+  );
+
+  const title = payment ? 'Edit Scheduled Payment' : 'Schedule a Payment';
+
+  if (isMobile) {
+    return (
+      <Drawer open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <DrawerContent>
+          <DrawerHeader>
+            <DrawerTitle className="flex items-center">
+              <CalendarClock className="w-5 h-5 mr-2" />
+              {title}
+            </DrawerTitle>
+          </DrawerHeader>
+          <div className="px-4 pb-4 overflow-y-auto">{renderContent()}</div>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <CalendarClock className="w-5 h-5 mr-2" />
+            {title}
+          </DialogTitle>
+        </DialogHeader>
+        {renderContent()}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,244 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { CalendarClock, AlertCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useMediaQuery } from '@/hooks/use-media-query';
+import { useWallet } from '@/contexts/WalletContext';
+import { useSecurity } from '@/contexts/SecurityContext';
+import { ScheduledPaymentService } from '@/services/wallet/ScheduledPaymentService';
+import { PriceService } from '@/services/data/PriceService';
+import { walletLogger } from '@/lib/Logger';
+import { ScheduledPayment } from '@/types/scheduledPayments';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+const CHECK_INTERVAL = 60000; // Look for due payments every minute
+
+interface PendingPayment {
+  payment: ScheduledPayment;
+  amount?: number; // satoshis, when the amount could be worked out
+  error?: string;
+}
+
+/**
+ * Sends scheduled payments that fall due while the app is open. It is only mounted while
+ * the wallet is unlocked, and pays from the active wallet only.
+ */
+export default function ScheduledPaymentMonitor() {
+  const isMobile = useMediaQuery('(max-width: 768px)');
+  const { wallet, address, isEncrypted, isWatchOnly, isConnected, updateBalance } = useWallet();
+  const { requireAuth, storedWalletPassword } = useSecurity();
+  const [pending, setPending] = useState<PendingPayment[]>([]);
+  const [isPaying, setIsPaying] = useState(false);
+  // Occurrences (id and due date) already acted on this session
+  const handled = useRef(new Set<string>());
+  const isChecking = useRef(false);
+
+  const checkDuePayments = useCallback(async () => {
+    if (!wallet || !address || isWatchOnly || !isConnected || isChecking.current) return;
+
+    isChecking.current = true;
+    try {
+      const due = await ScheduledPaymentService.getDuePayments(address);
+      for (const payment of due) {
+        const key = `${payment.id}:${payment.nextRun}`;
+        if (handled.current.has(key)) continue;
+        handled.current.add(key);
+
+        const entry: PendingPayment = { payment };
+        try {
+          entry.amount = await ScheduledPaymentService.resolveAmount(payment);
+        } catch (error) {
+          entry.error = error instanceof Error ? error.message : 'Unknown error';
+        }
+
+        // Sign without asking only when the password is already at hand
+        const canSign = !isEncrypted || !!storedWalletPassword;
+        if (
+          entry.amount !== undefined &&
+          canSign &&
+          (await ScheduledPaymentService.canAutoSign(payment, entry.amount))
+        ) {
+          const run = await ScheduledPaymentService.pay(payment, wallet, storedWalletPassword);
+          // Paid or skipped in another window in the meantime
+          if (!run) continue;
+          if (run.outcome === 'sent') {
+            toast.success('Scheduled payment sent', {
+              description: `${payment.name}: ${((run.amount || 0) / 100000000).toFixed(8)} AVN`,
+            });
+            await updateBalance();
+            continue;
+          }
+          entry.error = run.error;
+        }
+
+        await ScheduledPaymentService.remind(payment);
+        setPending((previous) => [...previous, entry]);
+      }
+    } catch (error) {
+      walletLogger.error('Failed to check scheduled payments:', error);
+    } finally {
+      isChecking.current = false;
+    }
+  }, [wallet, address, isWatchOnly, isConnected, isEncrypted, storedWalletPassword, updateBalance]);
+
+  useEffect(() => {
+    checkDuePayments();
+    const interval = setInterval(checkDuePayments, CHECK_INTERVAL);
+    const handleUpdate = () => {
+      checkDuePayments();
+    };
+    window.addEventListener('scheduled-payments-updated', handleUpdate);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('scheduled-payments-updated', handleUpdate);
+    };
+  }, [checkDuePayments]);
+
+  const current = pending[0];
+  // Dismissed payments stay due and are offered again the next time the app opens
+  const next = () => setPending((previous) => previous.slice(1));
+
+  const handleApprove = async () => {
+    if (!wallet || !current) return;
+
+    setIsPaying(true);
+    try {
+      let password: string | undefined;
+      if (isEncrypted) {
+        const authResult = await requireAuth(
+          `Authenticate to send the scheduled payment "${current.payment.name}"`,
+        );
+        if (!authResult.success || !authResult.password) {
+          setPending((previous) => [
+            { ...previous[0], error: 'Authentication required to send transaction' },
+            ...previous.slice(1),
+          ]);
+          return;
+        }
+        password = authResult.password;
+      }
+
+      const run = await ScheduledPaymentService.pay(current.payment, wallet, password);
+      if (!run) {
+        toast.info('Scheduled payment already handled', {
+          description: `${current.payment.name} was paid or skipped in another window.`,
+        });
+        next();
+        return;
+      }
+      if (run.outcome !== 'sent') {
+        setPending((previous) => [{ ...previous[0], error: run.error }, ...previous.slice(1)]);
+        return;
+      }
+
+      toast.success('Scheduled payment sent', { description: current.payment.name });
+      next();
+      await updateBalance();
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  const handleSkip = async () => {
+    if (!current) return;
+
+    setIsPaying(true);
+    try {
+      await ScheduledPaymentService.skip(current.payment);
+      toast.info('Scheduled payment skipped', { description: current.payment.name });
+      next();
+    } catch (error) {
+      toast.error('Failed to skip payment', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (!current) return null;
+    const { payment, amount, error } = current;
+
+    return (
+      <div className="space-y-4">
+        <div className="space-y-1 text-sm">
+          <div className="font-medium">{payment.name}</div>
+          <div className="font-mono text-xs break-all text-muted-foreground">
+            {payment.recipient}
+          </div>
+          <div className="text-lg font-semibold">
+            {amount !== undefined ? `${(amount / 100000000).toFixed(8)} AVN` : 'Amount unknown'}
+          </div>
+          {payment.amountCurrency !== 'AVN' && (
+            <div className="text-xs text-muted-foreground">
+              {PriceService.formatFiat(payment.amount, payment.amountCurrency)} at the current price
+            </div>
+          )}
+          <div className="text-xs text-muted-foreground">
+            Due {new Date(payment.nextRun).toLocaleString()}
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {pending.length > 1 && (
+          <p className="text-xs text-muted-foreground">
+            {pending.length - 1} more payment{pending.length === 2 ? '' : 's'} waiting
+          </p>
+        )}
+
+        <div className="flex flex-col sm:flex-row sm:justify-end gap-2 mt-4">
+          <Button variant="ghost" onClick={next} disabled={isPaying}>
+            Not Now
+          </Button>
+          <Button variant="outline" onClick={handleSkip} disabled={isPaying}>
+            Skip This Payment
+          </Button>
+          <Button onClick={handleApprove} disabled={isPaying || amount === undefined}>
+            {isPaying ? 'Sending...' : 'Approve & Send'}
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  if (isMobile) {
+    return (
+      <Drawer open={!!current} onOpenChange={(open) => !open && !isPaying && next()}>
+        <DrawerContent>
+          <DrawerHeader>
+            <DrawerTitle className="flex items-center">
+              <CalendarClock className="w-5 h-5 mr-2" />
+              Scheduled Payment Due
+            </DrawerTitle>
+          </DrawerHeader>
+          <div className="px-4 pb-4">{renderContent()}</div>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={!!current} onOpenChange={(open) => !open && !isPaying && next()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <CalendarClock className="w-5 h-5 mr-2" />
+            Scheduled Payment Due
+          </DialogTitle>
+        </DialogHeader>
+        {renderContent()}
+      </DialogContent>
+    </Dialog>
+  );
+}
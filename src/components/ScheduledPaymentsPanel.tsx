@@ -0,0 +1,272 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { CalendarClock, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useWallet } from '@/contexts/WalletContext';
+import { ScheduledPaymentService } from '@/services/wallet/ScheduledPaymentService';
+import { PriceService } from '@/services/data/PriceService';
+import { ScheduledPayment, ScheduledPaymentRun } from '@/types/scheduledPayments';
+import ScheduledPaymentDialog from './ScheduledPaymentDialog';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+
+const RECENT_RUNS = 20;
+
+const formatAmount = (payment: ScheduledPayment) =>
+  payment.amountCurrency === 'AVN'
+    ? `${payment.amount} AVN`
+    : PriceService.formatFiat(payment.amount, payment.amountCurrency);
+
+const cadenceName = (payment: ScheduledPayment) =>
+  ScheduledPaymentService.CADENCES.find((option) => option.id === payment.cadence)?.name ||
+  payment.cadence;
+
+const OUTCOME_STYLES: Record<ScheduledPaymentRun['outcome'], string> = {
+  sent: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400',
+  skipped: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+};
+
+export default function ScheduledPaymentsPanel() {
+  const { address, isWatchOnly } = useWallet();
+  const [payments, setPayments] = useState<ScheduledPayment[]>([]);
+  const [runs, setRuns] = useState<ScheduledPaymentRun[]>([]);
+  const [autoSignLimit, setAutoSignLimit] = useState('');
+  const [editing, setEditing] = useState<ScheduledPayment | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!address) return;
+
+    const [saved, recent, settings] = await Promise.all([
+      ScheduledPaymentService.getPayments(address),
+      ScheduledPaymentService.getRuns(address),
+      ScheduledPaymentService.getSettings(),
+    ]);
+    setPayments(saved.sort((a, b) => a.nextRun - b.nextRun));
+    setRuns(recent.slice(0, RECENT_RUNS));
+    setAutoSignLimit(settings.autoSignLimit ? String(settings.autoSignLimit / 100000000) : '');
+  }, [address]);
+
+  useEffect(() => {
+    load().catch(() => {});
+    const handleUpdate = () => {
+      load().catch(() => {});
+    };
+    window.addEventListener('scheduled-payments-updated', handleUpdate);
+    return () => window.removeEventListener('scheduled-payments-updated', handleUpdate);
+  }, [load]);
+
+  const openDialog = (payment: ScheduledPayment | null) => {
+    setEditing(payment);
+    setShowDialog(true);
+  };
+
+  const handleSaveLimit = async () => {
+    const limit = autoSignLimit.trim() ? parseFloat(autoSignLimit) : 0;
+    try {
+      await ScheduledPaymentService.saveSettings({
+        autoSignLimit: Math.round(limit * 100000000),
+      });
+      toast.success('Auto-sign limit saved', {
+        description: limit > 0 ? `Up to ${limit} AVN per payment` : 'Every payment asks first',
+      });
+    } catch (err) {
+      toast.error('Failed to save limit', {
+        description: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  };
+
+  const handleToggle = async (payment: ScheduledPayment, enabled: boolean) => {
+    try {
+      await ScheduledPaymentService.setEnabled(payment.id, enabled);
+    } catch (err) {
+      toast.error('Failed to update payment', {
+        description: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  };
+
+  const handleDelete = async (payment: ScheduledPayment) => {
+    try {
+      await ScheduledPaymentService.deletePayment(payment.id);
+      toast.success('Scheduled payment deleted', { description: payment.name });
+    } catch (err) {
+      toast.error('Failed to delete payment', {
+        description: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5" />
+            Scheduled Payments
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Payments are sent from this wallet while the app is open and unlocked. When one is due
+            you are asked to approve it, unless it is marked to send without asking and is within
+            your auto-sign limit.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isWatchOnly && (
+            <p className="text-sm text-muted-foreground">
+              Watch-only wallets cannot sign, so their scheduled payments are never sent.
+            </p>
+          )}
+
+          {payments.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No scheduled payments yet
+            </p>
+          ) : (
+            <div className="divide-y rounded-lg border">
+              {payments.map((payment) => (
+                <div key={payment.id} className="flex items-center justify-between gap-3 p-3">
+                  <div className="min-w-0 space-y-0.5">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{payment.name}</span>
+                      {payment.autoApprove && <Badge variant="outline">Auto</Badge>}
+                    </div>
+                    <div className="text-sm">
+                      {formatAmount(payment)} · {cadenceName(payment)}
+                    </div>
+                    <div className="text-xs text-muted-foreground font-mono truncate">
+                      {payment.recipient}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {payment.enabled
+                        ? `Next: ${new Date(payment.nextRun).toLocaleString()}`
+                        : 'Paused'}
+                      {payment.endDate &&
+                        ` · Ends ${new Date(payment.endDate).toLocaleDateString()}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Switch
+                      checked={payment.enabled}
+                      onCheckedChange={(checked) => handleToggle(payment, checked)}
+                      aria-label={`${payment.enabled ? 'Pause' : 'Resume'} ${payment.name}`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => openDialog(payment)}
+                      aria-label={`Edit ${payment.name}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(payment)}
+                      aria-label={`Delete ${payment.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <Button onClick={() => openDialog(null)} disabled={!address} className="w-full">
+            <Plus className="w-4 h-4 mr-2" />
+            Schedule a Payment
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Auto-sign Limit</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            The largest payment sent without asking. Leave empty to approve every payment. An
+            encrypted wallet only signs automatically once you have authenticated since opening the
+            app.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <div className="flex gap-2">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="autoSignLimit" className="sr-only">
+                Auto-sign limit in AVN
+              </Label>
+              <Input
+                id="autoSignLimit"
+                type="number"
+                min="0"
+                step="any"
+                placeholder="AVN per payment"
+                value={autoSignLimit}
+                onChange={(e) => setAutoSignLimit(e.target.value)}
+              />
+            </div>
+            <Button variant="outline" onClick={handleSaveLimit}>
+              Save
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {runs.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Recent Activity</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y">
+              {runs.map((run) => (
+                <div
+                  key={`${run.paymentId}-${run.runAt}`}
+                  className="flex items-start justify-between gap-3 py-2 text-sm"
+                >
+                  <div className="min-w-0">
+                    <div className="font-medium">{run.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(run.runAt).toLocaleString()}
+                      {run.amount !== undefined && ` · ${(run.amount / 100000000).toFixed(8)} AVN`}
+                    </div>
+                    {run.error && (
+                      <div className="text-xs text-red-600 dark:text-red-400">{run.error}</div>
+                    )}
+                    {run.txid && (
+                      <div className="text-xs font-mono text-muted-foreground truncate">
+                        {run.txid}
+                      </div>
+                    )}
+                  </div>
+                  <span
+                    className={`px-2 py-0.5 rounded-full text-xs capitalize ${OUTCOME_STYLES[run.outcome]}`}
+                  >
+                    {run.outcome}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {address && (
+        <ScheduledPaymentDialog
+          isOpen={showDialog}
+          onClose={() => setShowDialog(false)}
+          walletAddress={address}
+          payment={editing}
+        />
+      )}
+    </div>
+  );
+}
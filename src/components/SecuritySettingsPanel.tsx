@@ -3,8 +3,17 @@
 import { useState, useEffect, useRef } from 'react';
 import { securityService } from '@/services/core/SecurityService';
 import { toast } from 'sonner';
-import { SecuritySettings, SecurityAuditEntry } from '@/types/security';
+import {
+  SecuritySettings,
+  SecurityAuditEntry,
+  BiometricProtection,
+  EncryptionFormat,
+  KdfParams,
+  OutdatedSecret,
+  WalletSecretKind,
+} from '@/types/security';
 import { StorageService } from '@/services/core/StorageService';
+import { describeKdfParams } from '@/services/wallet/WalletService';
 import {
   Shield,
   Fingerprint,
@@ -14,6 +23,8 @@ import {
   X,
   Info,
   AlertTriangle,
+  KeyRound,
+  Gauge,
 } from 'lucide-react';
 import { useMediaQuery } from '@/hooks/use-media-query';
 import { cn } from '@/lib/utils';
@@ -64,6 +75,19 @@ import {
 } from '@/components/ui/drawer';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 
+const SECRET_NAMES: Record<WalletSecretKind, string> = {
+  privateKey: 'Private key',
+  mnemonic: 'Recovery phrase',
+  bip39Passphrase: 'BIP39 passphrase',
+  biometricPassword: 'Biometric password',
+};
+
+const FORMAT_NAMES: Record<EncryptionFormat, string> = {
+  envelope: 'weaker key derivation',
+  headerless: 'fixed scrypt format',
+  cryptojs: 'legacy CryptoJS format',
+};
+
 interface SecuritySettingsPanelProps {
   isOpen?: boolean;
   onClose?: () => void;
@@ -79,6 +103,12 @@ export default function SecuritySettingsPanel({
   const [isSaving, setIsSaving] = useState(false);
   const [isClearDialogOpen, setIsClearDialogOpen] = useState(false);
   const [biometricSupported, setBiometricSupported] = useState(false);
+  const [biometricProtection, setBiometricProtection] = useState<BiometricProtection>('none');
+  const [encryptionStatus, setEncryptionStatus] = useState<{
+    params: KdfParams;
+    outdated: OutdatedSecret[];
+  } | null>(null);
+  const [isTuning, setIsTuning] = useState(false);
   const [activeTab, setActiveTab] = useState<'settings' | 'audit'>('settings');
   const [filterType, setFilterType] = useState<'all' | 'success' | 'failure'>('all');
   const [expandedEntries, setExpandedEntries] = useState<Record<string, boolean>>({});
@@ -107,12 +137,14 @@ export default function SecuritySettingsPanel({
     const checkBiometricSupport = async () => {
       const capabilities = await securityService.getBiometricCapabilities();
       setBiometricSupported(capabilities.isSupported);
+      setBiometricProtection(await securityService.getBiometricProtection());
     };
 
     const init = async () => {
       await loadSettings();
       await loadAuditLog();
       await checkBiometricSupport();
+      await loadEncryptionStatus();
     };
     init();
 
@@ -148,6 +180,34 @@ export default function SecuritySettingsPanel({
     }
   };
 
+  const loadEncryptionStatus = async () => {
+    try {
+      setEncryptionStatus(await securityService.getEncryptionStatus());
+    } catch (error) {
+      toast.error('Error loading encryption status', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
+  const handleTuneKdf = async () => {
+    setIsTuning(true);
+    try {
+      const params = await securityService.tuneKdfParams();
+      toast.success('Encryption tuned for this device', {
+        description: `New secrets use ${describeKdfParams(params)}`,
+      });
+      await loadEncryptionStatus();
+      await loadAuditLog();
+    } catch (error) {
+      toast.error('Benchmark failed', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      setIsTuning(false);
+    }
+  };
+
   const handleSettingsUpdate = async (newSettings: Partial<SecuritySettings>) => {
     if (!settings) return;
 
@@ -464,6 +524,14 @@ export default function SecuritySettingsPanel({
 
                   {settings.biometric.enabled && (
                     <>
+                      {biometricProtection !== 'none' && (
+                        <p className="text-sm text-muted-foreground">
+                          {biometricProtection === 'prf'
+                            ? "This wallet's password is wrapped with a key only your authenticator can produce (WebAuthn PRF)."
+                            : "Your authenticator doesn't support WebAuthn PRF, so this wallet's password is kept encrypted on this device. It moves to PRF wrapping on the next biometric unlock once supported."}
+                        </p>
+                      )}
+
                       <div className="flex items-center justify-between">
                         <Label htmlFor="require-for-transactions" className="flex-1">
                           Require for transactions
@@ -506,6 +574,58 @@ export default function SecuritySettingsPanel({
               )}
             </div>
 
+            {/* Encryption Section */}
+            {encryptionStatus && (
+              <div className="space-y-4">
+                <div className="flex items-center">
+                  <KeyRound className="h-5 w-5 text-blue-600 mr-2" />
+                  <h3 className="text-lg font-medium">Encryption</h3>
+                </div>
+
+                <Separator />
+
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="space-y-0.5">
+                      <Label>Key derivation</Label>
+                      <p className="text-sm text-muted-foreground">
+                        {describeKdfParams(encryptionStatus.params)}
+                      </p>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={handleTuneKdf} disabled={isTuning}>
+                      <Gauge className="w-4 h-4 mr-2" />
+                      {isTuning ? 'Benchmarking...' : 'Tune for this device'}
+                    </Button>
+                  </div>
+
+                  {encryptionStatus.outdated.length > 0 ? (
+                    <Alert className="bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-700">
+                      <AlertTriangle className="h-4 w-4 text-amber-600" />
+                      <AlertDescription className="text-amber-800 dark:text-amber-200">
+                        <p>
+                          These secrets use an older encryption format and will be re-encrypted the
+                          next time their wallet is unlocked:
+                        </p>
+                        <ul className="mt-2 space-y-1">
+                          {encryptionStatus.outdated.map((item) => (
+                            <li key={`${item.walletAddress}-${item.secret}`}>
+                              {item.walletName}: {SECRET_NAMES[item.secret]} (
+                              {FORMAT_NAMES[item.info.format]}
+                              {item.info.params ? `, ${describeKdfParams(item.info.params)}` : ''})
+                            </li>
+                          ))}
+                        </ul>
+                      </AlertDescription>
+                    </Alert>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      All wallet secrets use the current encryption format.
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Security Audit Log Section */}
             <div className="space-y-4">
               <div className="flex items-center">
@@ -11,19 +11,30 @@ import {
   UserCheck,
   Check,
   X,
+  Users,
 } from 'lucide-react';
 import { useWallet } from '@/contexts/WalletContext';
 import { useSecurity } from '@/contexts/SecurityContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
 import { useMediaQuery } from '@/hooks/use-media-query';
 import { WalletService } from '@/services/wallet/WalletService';
 import { StorageService } from '@/services/core/StorageService';
 import { securityService } from '@/services/core/SecurityService';
 import { CoinSelectionStrategy, EnhancedUTXO } from '@/services/wallet/UTXOSelectionService';
+import { AssetService } from '@/services/wallet/AssetService';
+import { AssetBalance } from '@/types/assets';
+import { DEFAULT_TRANSACTION_CATEGORIES, MAX_MEMO_LENGTH } from '@/types/transactionNotes';
+import {
+  FeeEstimationService,
+  FeeEstimates,
+  FeePriority,
+} from '@/services/wallet/FeeEstimationService';
 import AddressInput from './AddressInput';
 import { QRScanResult } from '@/types/addressBook';
 import { UTXOSelectionSettings } from './UTXOSelectionSettings';
 import { UTXOOverview } from './UTXOOverview';
 import { UTXOSelector } from './UTXOSelector';
+import BatchPaymentDialog from './BatchPaymentDialog';
 
 // Import Shadcn UI components
 import { Button } from '@/components/ui/button';
@@ -43,19 +54,27 @@ import {
 import { toast } from 'sonner';
 import Image from 'next/image';
 
-export default function SendForm() {
+interface SendFormProps {
+  paymentRequest?: QRScanResult | null; // Prefills the form, e.g. from an opened payment link
+}
+
+export default function SendForm({ paymentRequest }: SendFormProps) {
   const {
     sendTransaction,
     sendTransactionWithManualUTXOs,
     sendFromDerivedAddress,
+    sendAsset,
     balance,
     isLoading,
     isConnected,
     isEncrypted,
+    isWatchOnly,
     electrum,
     address,
+    wallet,
   } = useWallet();
   const { requireAuth, wasBiometricAuth, storedWalletPassword } = useSecurity();
+  const { formatFiatValue } = useCurrency();
   const [toAddress, setToAddress] = useState('');
   const [amount, setAmount] = useState('');
   const [usingBiometricAuth, setUsingBiometricAuth] = useState(false);
@@ -71,15 +90,22 @@ export default function SendForm() {
   const [showUTXOOverview, setShowUTXOOverview] = useState(false);
   const [utxoOptions, setUtxoOptions] = useState<{
     strategy?: CoinSelectionStrategy;
-    feeRate?: number;
     maxInputs?: number;
     minConfirmations?: number;
   }>({
     strategy: CoinSelectionStrategy.BEST_FIT,
-    feeRate: 10000,
     maxInputs: 100,
     minConfirmations: 6,
   });
+  // Fee selection: network-estimated presets or a custom sat/byte rate
+  const [feePriority, setFeePriority] = useState<FeePriority | 'custom'>('normal');
+  const [customFeeRate, setCustomFeeRate] = useState('');
+  const [feeEstimates, setFeeEstimates] = useState<FeeEstimates | null>(null);
+  const [feePreview, setFeePreview] = useState<{
+    fee: number;
+    size: number;
+    inputCount: number;
+  } | null>(null);
   const [isConsolidatingToSelf, setIsConsolidatingToSelf] = useState(false);
   const [showUTXOSelector, setShowUTXOSelector] = useState(false);
   const [manuallySelectedUTXOs, setManuallySelectedUTXOs] = useState<EnhancedUTXO[]>([]);
@@ -90,6 +116,13 @@ export default function SendForm() {
   >([]);
   const [isHdWallet, setIsHdWallet] = useState(false);
   const [preferredChangeAddressCount, setPreferredChangeAddressCount] = useState(5);
+  // Asset to transfer instead of AVN ('' sends AVN)
+  const [selectedAsset, setSelectedAsset] = useState('');
+  const [assetBalances, setAssetBalances] = useState<AssetBalance[]>([]);
+  // Memo and category saved with the sent transaction ('none' leaves it uncategorized)
+  const [memo, setMemo] = useState('');
+  const [category, setCategory] = useState('none');
+  const [showBatchPayment, setShowBatchPayment] = useState(false);
   // Advanced features for HD wallets:
   // - subtractFeeFromAmount: When enabled, transaction fee is deducted from the send amount
   // - customChangeAddress: Allows selecting a specific change address from HD wallet's change addresses
@@ -118,12 +151,36 @@ export default function SendForm() {
     WalletService.openTransactionInExplorer(txid);
   };
 
+  // Fee rate (sat/byte) for the selected preset, and the fee for the transaction being built
+  const feeRate =
+    feePriority === 'custom'
+      ? FeeEstimationService.clampFeeRate(parseInt(customFeeRate, 10) || 0, feeEstimates?.minimum)
+      : feeEstimates?.[feePriority] || FeeEstimationService.DEFAULT_FEE_RATE;
+  const selectedAssetBalance = assetBalances.find((asset) => asset.name === selectedAsset);
+  const selectedAssetAvailable = selectedAssetBalance
+    ? selectedAssetBalance.confirmed + selectedAssetBalance.unconfirmed
+    : 0;
+  const estimatedFee =
+    feePreview?.fee ??
+    FeeEstimationService.calculateFee(
+      utxoOptions.strategy === CoinSelectionStrategy.MANUAL && manuallySelectedUTXOs.length > 0
+        ? manuallySelectedUTXOs.length
+        : 1,
+      2,
+      feeRate,
+    );
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     setSuccess('');
     setSuccessTxId('');
 
+    if (isWatchOnly) {
+      setError('Watch-only wallets cannot sign. Use Offline Signing to create the transaction.');
+      return;
+    }
+
     // Only validate on actual form submission
     if (!toAddress || !amount) {
       setError('Please fill in all fields');
@@ -132,6 +189,7 @@ export default function SendForm() {
 
     // If using manual UTXO selection, make sure UTXOs have been selected
     if (
+      !selectedAsset &&
       utxoOptions.strategy === CoinSelectionStrategy.MANUAL &&
       manuallySelectedUTXOs.length === 0
     ) {
@@ -150,8 +208,26 @@ export default function SendForm() {
       return;
     }
 
+    // Asset transfers pay the network fee from separate AVN inputs, checked when building
+    if (selectedAsset) {
+      const assetUnits = AssetService.toUnits(parseFloat(amount));
+      if (!(assetUnits > 0)) {
+        setError('Amount must be greater than 0');
+        return;
+      }
+      if (assetUnits > selectedAssetAvailable) {
+        setError(
+          `Insufficient ${selectedAsset}. Available: ${AssetService.formatAmount(selectedAssetAvailable)}`,
+        );
+        return;
+      }
+
+      await authenticateAndSend(`Authenticate to send ${amount} ${selectedAsset}`);
+      return;
+    }
+
     const amountSatoshis = Math.floor(parseFloat(amount) * 100000000);
-    const fee = 10000; // 0.0001 AVN fee
+    const fee = subtractFeeFromAmount ? 0 : estimatedFee;
 
     if (amountSatoshis <= 0) {
       setError('Amount must be greater than 0');
@@ -174,9 +250,9 @@ export default function SendForm() {
     }
 
     // Now check if we have enough funds to cover the fee
-    if (balanceToCheck < fee) {
+    if (balanceToCheck < estimatedFee) {
       setError(
-        `Insufficient funds to cover network fee (0.0001 AVN required). The address has ${balanceToCheck / 100000000} AVN.`,
+        `Insufficient funds to cover network fee (${(estimatedFee / 100000000).toFixed(8)} AVN required). The address has ${balanceToCheck / 100000000} AVN.`,
       );
       return;
     }
@@ -188,13 +264,20 @@ export default function SendForm() {
       return;
     }
 
+    await authenticateAndSend(
+      `Authenticate to send ${amount} AVN (network fee ${(estimatedFee / 100000000).toFixed(8)} AVN)`,
+    );
+  };
+
+  // Authenticate if the wallet is encrypted, then send
+  const authenticateAndSend = async (authReason: string) => {
     try {
       // Always require authentication for transactions, regardless of stored password
       let authPassword = '';
 
       if (isEncrypted) {
         // Always request authentication using the SecurityContext's requireAuth method
-        const authResult = await requireAuth('Authenticate to send transaction');
+        const authResult = await requireAuth(authReason);
 
         if (!authResult.success || !authResult.password) {
           // User canceled authentication or it failed
@@ -224,6 +307,7 @@ export default function SendForm() {
       // Prepare transaction options including manual UTXO selection if applicable
       const txOptions = {
         ...utxoOptions,
+        feeRate,
         changeAddress: customChangeAddress || undefined,
         subtractFeeFromAmount: subtractFeeFromAmount,
         manualSelection:
@@ -233,17 +317,27 @@ export default function SendForm() {
       let txId: string;
 
       // Check how to send the transaction based on the context
-      if (fromDerivedAddress && derivationPath) {
+      if (selectedAsset) {
+        // Asset transfer from any wallet address holding the asset
+        txId = await sendAsset(
+          toAddress,
+          selectedAsset,
+          AssetService.toUnits(parseFloat(amount)),
+          authPassword,
+          { feeRate, changeAddress: customChangeAddress || undefined },
+        );
+      } else if (fromDerivedAddress && derivationPath) {
         // Sending from a specific derived address
         await refreshDerivedAddressBalance();
 
         // Check that derived address still has enough balance for the transaction
         const currentBalance = derivedAddressBalance || 0;
 
-        if (currentBalance < amountSatoshis + 10000) {
-          // amount + minimum fee
+        const requiredBalance = amountSatoshis + (subtractFeeFromAmount ? 0 : estimatedFee);
+        if (currentBalance < requiredBalance) {
+          // amount + estimated fee
           throw new Error(
-            `Insufficient funds in derived address. Balance: ${currentBalance / 100000000} AVN, required: ${(amountSatoshis + 10000) / 100000000} AVN`,
+            `Insufficient funds in derived address. Balance: ${currentBalance / 100000000} AVN, required: ${requiredBalance / 100000000} AVN`,
           );
         }
 
@@ -266,7 +360,7 @@ export default function SendForm() {
       ) {
         // Manual UTXO selection - use the new sendTransactionWithManualUTXOs method
         const manualTxOptions = {
-          feeRate: utxoOptions.feeRate,
+          feeRate,
           changeAddress: customChangeAddress || undefined,
           subtractFeeFromAmount: subtractFeeFromAmount,
         };
@@ -282,6 +376,14 @@ export default function SendForm() {
         txId = await sendTransaction(toAddress, amountSatoshis, authPassword, txOptions);
       }
 
+      // Record the memo and category with the new history entry
+      if (memo.trim() || category !== 'none') {
+        await StorageService.updateTransactionNotes(txId, {
+          memo,
+          category: category === 'none' ? undefined : category,
+        });
+      }
+
       // Check if we should ask to save this address after successful transaction
       const savedAddresses = await StorageService.getSavedAddresses();
       const isAddressSaved = savedAddresses.some((addr) => addr.address === toAddress);
@@ -304,6 +406,8 @@ export default function SendForm() {
       // Clear form fields on success but keep authentication state
       setToAddress('');
       setAmount('');
+      setMemo('');
+      setCategory('none');
       setSubtractFeeFromAmount(false);
       setCustomChangeAddress('');
 
@@ -400,10 +504,13 @@ export default function SendForm() {
   };
 
   // Handle payment request from QR code
-  const handlePaymentRequest = (paymentData: QRScanResult) => {
+  const applyPaymentRequest = (paymentData: QRScanResult) => {
     // Set the address
     setToAddress(paymentData.address);
 
+    // Payment requests are always in AVN
+    setSelectedAsset('');
+
     // Set the amount if provided
     if (paymentData.amount) {
       setAmount(paymentData.amount.toString());
@@ -413,6 +520,17 @@ export default function SendForm() {
     if (error) {
       setError('');
     }
+  };
+
+  useEffect(() => {
+    if (paymentRequest) {
+      applyPaymentRequest(paymentRequest);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [paymentRequest]);
+
+  const handlePaymentRequest = (paymentData: QRScanResult) => {
+    applyPaymentRequest(paymentData);
 
     // Show detailed success toast with payment request information
     let title = '💰 Payment Request Loaded';
@@ -456,14 +574,13 @@ export default function SendForm() {
     balanceToUse = balance;
   }
 
-  const maxAmount = Math.max(0, (balanceToUse - 10000) / 100000000); // Subtract fee
+  const maxAmount = Math.max(0, (balanceToUse - estimatedFee) / 100000000); // Subtract fee
 
   // Debug balance information
 
   const resetUTXOSettings = () => {
     setUtxoOptions({
       strategy: CoinSelectionStrategy.BEST_FIT,
-      feeRate: 10000,
       maxInputs: 100,
       minConfirmations: 6,
     });
@@ -580,7 +697,6 @@ export default function SendForm() {
         setManuallySelectedUTXOs(selectedUTXOs);
         setUtxoOptions({
           strategy: CoinSelectionStrategy.MANUAL,
-          feeRate: 1000, // Low fee rate for consolidation
           maxInputs: Math.min(selectedUTXOs.length, 500), // Use all selected UTXOs up to Avian's limit
           minConfirmations: 1, // Lower confirmation requirement for consolidation
         });
@@ -590,9 +706,17 @@ export default function SendForm() {
         setIsConsolidatingToSelf(true);
         setCustomChangeAddress('');
 
-        // Calculate suggested amount (total value minus fee buffer)
+        // Consolidation isn't urgent, so use the low fee preset
+        setFeePriority('slow');
+        const consolidationFee = FeeEstimationService.calculateFee(
+          selectedUTXOs.length,
+          1,
+          feeEstimates?.slow || FeeEstimationService.DEFAULT_FEE_RATE,
+        );
+
+        // Calculate suggested amount (total value minus fee)
         const totalValue = selectedUTXOs.reduce((sum, utxo) => sum + utxo.value, 0);
-        const suggestedAmount = Math.max(0, (totalValue - 10000) / 100000000); // Leave buffer for fee
+        const suggestedAmount = Math.max(0, (totalValue - consolidationFee) / 100000000);
         setAmount(suggestedAmount.toFixed(8));
 
         // Don't auto-open UTXO selector since user already made selection from UTXOOverview
@@ -738,6 +862,112 @@ export default function SendForm() {
     reloadChangeAddresses,
   ]);
 
+  // Load network fee estimates for the fee presets
+  useEffect(() => {
+    if (!wallet || !isConnected) return;
+
+    let cancelled = false;
+    const loadFeeEstimates = async () => {
+      try {
+        const estimates = await wallet.getFeeEstimates();
+        if (!cancelled) {
+          setFeeEstimates(estimates);
+        }
+      } catch (error) {
+        // Keep using the default fee rates
+      }
+    };
+
+    loadFeeEstimates();
+    return () => {
+      cancelled = true;
+    };
+  }, [wallet, isConnected]);
+
+  // Preview the fee of the transaction being built so it can be shown before signing
+  useEffect(() => {
+    const amountSatoshis = Math.floor(parseFloat(amount) * 100000000);
+    if (!wallet || !isConnected || !toAddress || !(amountSatoshis > 0) || selectedAsset) {
+      setFeePreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeoutId = setTimeout(async () => {
+      try {
+        const isManual = utxoOptions.strategy === CoinSelectionStrategy.MANUAL;
+        const preview = await wallet.estimateTransactionFee(toAddress, amountSatoshis, {
+          fromAddress: fromDerivedAddress || undefined,
+          strategy: isManual ? undefined : utxoOptions.strategy,
+          feeRate,
+          maxInputs: utxoOptions.maxInputs,
+          minConfirmations: utxoOptions.minConfirmations,
+          changeAddress: customChangeAddress || undefined,
+          subtractFeeFromAmount,
+          manualUTXOs: isManual ? manuallySelectedUTXOs : undefined,
+        });
+        if (!cancelled) {
+          setFeePreview(preview);
+        }
+      } catch (error) {
+        // Invalid address or insufficient funds - fall back to the simple estimate
+        if (!cancelled) {
+          setFeePreview(null);
+        }
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [
+    wallet,
+    isConnected,
+    toAddress,
+    amount,
+    feeRate,
+    utxoOptions,
+    fromDerivedAddress,
+    customChangeAddress,
+    subtractFeeFromAmount,
+    manuallySelectedUTXOs,
+    selectedAsset,
+  ]);
+
+  // Load asset balances for the asset selector; reloads with the AVN balance
+  useEffect(() => {
+    if (!wallet || !isConnected) return;
+
+    let cancelled = false;
+    wallet
+      .getAssetBalances()
+      .then((balances) => {
+        if (!cancelled) {
+          setAssetBalances(balances);
+        }
+      })
+      .catch(() => {
+        // Asset balances are optional; AVN sends still work
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [wallet, isConnected, balance]);
+
+  // Switch to an asset when its Send action is used in the asset list
+  useEffect(() => {
+    const handleSelectAsset = (event: Event) => {
+      const { assetName } = (event as CustomEvent<{ assetName: string }>).detail;
+      setSelectedAsset(assetName);
+      setAmount('');
+      setSubtractFeeFromAmount(false);
+    };
+
+    window.addEventListener('select-send-asset', handleSelectAsset);
+    return () => window.removeEventListener('select-send-asset', handleSelectAsset);
+  }, []);
+
   // Parse query parameters for derived address functionality and restore state after authentication
   // Function to refresh derived address balance with improved reliability
   const refreshDerivedAddressBalance = async () => {
@@ -932,7 +1162,6 @@ export default function SendForm() {
           <Button
             variant={
               utxoOptions.strategy !== CoinSelectionStrategy.BEST_FIT ||
-                utxoOptions.feeRate !== 10000 ||
                 utxoOptions.maxInputs !== 100 ||
                 utxoOptions.minConfirmations !== 6
                 ? 'secondary'
@@ -945,7 +1174,6 @@ export default function SendForm() {
             <Settings className="h-4 w-4 mr-2" />
             <span>Advanced</span>
             {(utxoOptions.strategy !== CoinSelectionStrategy.BEST_FIT ||
-              utxoOptions.feeRate !== 10000 ||
               utxoOptions.maxInputs !== 100 ||
               utxoOptions.minConfirmations !== 6) && (
                 <span className="absolute -top-1 -right-1 h-2 w-2 bg-amber-500 rounded-full"></span>
@@ -957,7 +1185,6 @@ export default function SendForm() {
       <CardContent className="pt-4">
         {/* UTXO Selection Status */}
         {(utxoOptions.strategy !== CoinSelectionStrategy.BEST_FIT ||
-          utxoOptions.feeRate !== 10000 ||
           utxoOptions.maxInputs !== 100 ||
           utxoOptions.minConfirmations !== 6) && (
             <div className="mb-4 p-3 bg-secondary/30 border rounded-lg">
@@ -991,11 +1218,6 @@ export default function SendForm() {
                     Strategy: {utxoOptions.strategy?.replace(/_/g, ' ')}
                   </Badge>
                 )}
-                {utxoOptions.feeRate !== 10000 && (
-                  <Badge variant="outline" className="mr-2 mb-1">
-                    Fee Rate: {utxoOptions.feeRate} sat/vB
-                  </Badge>
-                )}
                 {utxoOptions.maxInputs !== 100 && (
                   <Badge variant="outline" className="mr-2 mb-1">
                     Max Inputs: {utxoOptions.maxInputs}
@@ -1010,6 +1232,18 @@ export default function SendForm() {
             </div>
           )}
 
+        {isWatchOnly && (
+          <Alert className="mb-4 border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-950/50">
+            <Lock className="h-4 w-4 text-blue-600 dark:text-blue-400" />
+            <AlertTitle className="text-blue-800 dark:text-blue-300">Watch-only wallet</AlertTitle>
+            <AlertDescription className="text-blue-700 dark:text-blue-300">
+              This wallet has no private key. Create an unsigned transaction under Settings &gt;
+              Advanced &gt; Offline Signing and sign it on the device that holds the key. Multisig
+              wallets create spend proposals under Settings &gt; Advanced &gt; Multisig Wallets.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {error && (
           <Alert variant="destructive" className="mb-4">
             <AlertCircle className="h-4 w-4" />
@@ -1079,8 +1313,36 @@ export default function SendForm() {
             />
           </div>
 
+          {(assetBalances.length > 0 || selectedAsset) && (
+            <div className="space-y-2">
+              <Label htmlFor="sendAsset">Asset</Label>
+              <Select
+                value={selectedAsset || 'AVN'}
+                onValueChange={(value) => {
+                  setSelectedAsset(value === 'AVN' ? '' : value);
+                  setAmount('');
+                  setSubtractFeeFromAmount(false);
+                }}
+                disabled={isSending}
+              >
+                <SelectTrigger id="sendAsset" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="AVN">AVN</SelectItem>
+                  {assetBalances.map((asset) => (
+                    <SelectItem key={asset.name} value={asset.name}>
+                      {asset.name} ·{' '}
+                      {AssetService.formatAmount(asset.confirmed + asset.unconfirmed)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div className="space-y-2">
-            <Label htmlFor="amount">Amount (AVN)</Label>
+            <Label htmlFor="amount">Amount ({selectedAsset || 'AVN'})</Label>
             <div className="relative">
               <Input
                 type="number"
@@ -1104,66 +1366,170 @@ export default function SendForm() {
                 type="button"
                 size="sm"
                 variant="ghost"
-                onClick={() => setAmount(maxAmount.toString())}
+                onClick={() =>
+                  setAmount(
+                    selectedAsset
+                      ? AssetService.formatAmount(selectedAssetAvailable)
+                      : maxAmount.toString(),
+                  )
+                }
                 className="absolute right-1 top-1/2 transform -translate-y-1/2 h-6 text-xs px-2 text-primary"
-                disabled={isSending || maxAmount <= 0}
+                disabled={
+                  isSending || (selectedAsset ? selectedAssetAvailable <= 0 : maxAmount <= 0)
+                }
               >
                 MAX
               </Button>
             </div>
-            <p className="text-xs text-muted-foreground mt-1.5 leading-relaxed">
-              Fee: 0.0001 AVN | Max sendable: {maxAmount.toFixed(8)} AVN
-              {utxoOptions.strategy === CoinSelectionStrategy.MANUAL &&
-                manuallySelectedUTXOs.length > 0 && (
-                  <span className="block mt-1">
-                    Selected UTXOs:{' '}
-                    {(
-                      manuallySelectedUTXOs.reduce((sum, utxo) => sum + utxo.value, 0) / 100000000
-                    ).toFixed(8)}{' '}
-                    AVN
+            {selectedAsset ? (
+              <p className="text-xs text-muted-foreground mt-1.5 leading-relaxed">
+                Available: {AssetService.formatAmount(selectedAssetAvailable)} {selectedAsset}. The
+                network fee is paid in AVN from separate inputs.
+              </p>
+            ) : (
+              <p className="text-xs text-muted-foreground mt-1.5 leading-relaxed">
+                {parseFloat(amount) > 0 && formatFiatValue(parseFloat(amount)) && (
+                  <span className="block text-sm text-foreground">
+                    ≈ {formatFiatValue(parseFloat(amount))}
                   </span>
                 )}
-              {maxAmount <= 0 && (
-                <Badge variant="destructive" className="ml-2">
-                  {utxoOptions.strategy === CoinSelectionStrategy.MANUAL &&
-                    manuallySelectedUTXOs.length === 0
-                    ? 'No UTXOs selected'
-                    : 'Insufficient funds for fee'}
-                </Badge>
-              )}
-              {fromDerivedAddress && (
-                <span className="flex items-center mt-1">
-                  <span>
-                    Derived address balance:{' '}
-                    {derivedAddressBalance !== null
-                      ? (derivedAddressBalance / 100000000).toFixed(8)
-                      : 'Loading...'}{' '}
-                    AVN
+                Fee: {(estimatedFee / 100000000).toFixed(8)} AVN
+                {formatFiatValue(estimatedFee / 100000000) &&
+                  ` (${formatFiatValue(estimatedFee / 100000000)})`}{' '}
+                | Max sendable: {maxAmount.toFixed(8)} AVN
+                {utxoOptions.strategy === CoinSelectionStrategy.MANUAL &&
+                  manuallySelectedUTXOs.length > 0 && (
+                    <span className="block mt-1">
+                      Selected UTXOs:{' '}
+                      {(
+                        manuallySelectedUTXOs.reduce((sum, utxo) => sum + utxo.value, 0) / 100000000
+                      ).toFixed(8)}{' '}
+                      AVN
+                    </span>
+                  )}
+                {maxAmount <= 0 && (
+                  <Badge variant="destructive" className="ml-2">
+                    {utxoOptions.strategy === CoinSelectionStrategy.MANUAL &&
+                      manuallySelectedUTXOs.length === 0
+                      ? 'No UTXOs selected'
+                      : 'Insufficient funds for fee'}
+                  </Badge>
+                )}
+                {fromDerivedAddress && (
+                  <span className="flex items-center mt-1">
+                    <span>
+                      Derived address balance:{' '}
+                      {derivedAddressBalance !== null
+                        ? (derivedAddressBalance / 100000000).toFixed(8)
+                        : 'Loading...'}{' '}
+                      AVN
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={refreshDerivedAddressBalance}
+                      className="h-5 text-xs ml-1 px-1"
+                    >
+                      Refresh
+                    </Button>
                   </span>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={refreshDerivedAddressBalance}
-                    className="h-5 text-xs ml-1 px-1"
-                  >
-                    Refresh
-                  </Button>
-                </span>
-              )}
-            </p>
+                )}
+              </p>
+            )}
+          </div>
+
+          {/* Memo and Category */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="sendMemo">Memo (optional)</Label>
+              <Input
+                id="sendMemo"
+                value={memo}
+                onChange={(e) => setMemo(e.target.value)}
+                placeholder="What is this payment for?"
+                maxLength={MAX_MEMO_LENGTH}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sendCategory">Category</Label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger id="sendCategory" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No category</SelectItem>
+                  {DEFAULT_TRANSACTION_CATEGORIES.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           {/* Advanced Options Section */}
           <div className="space-y-3 border-t pt-3">
             <div className="text-sm font-medium text-muted-foreground">Advanced Options</div>
 
+            {/* Network Fee */}
+            <div className="space-y-2">
+              <Label htmlFor="feePriority" className="text-sm">
+                Network Fee
+              </Label>
+              <div className="flex gap-2">
+                <Select
+                  value={feePriority}
+                  onValueChange={(value) => setFeePriority(value as FeePriority | 'custom')}
+                  disabled={isSending}
+                >
+                  <SelectTrigger id="feePriority" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="slow">
+                      Slow ({feeEstimates?.slow || FeeEstimationService.DEFAULT_FEE_RATE} sat/byte)
+                    </SelectItem>
+                    <SelectItem value="normal">
+                      Normal ({feeEstimates?.normal || FeeEstimationService.DEFAULT_FEE_RATE}{' '}
+                      sat/byte)
+                    </SelectItem>
+                    <SelectItem value="fast">
+                      Fast ({feeEstimates?.fast || FeeEstimationService.DEFAULT_FEE_RATE} sat/byte)
+                    </SelectItem>
+                    <SelectItem value="custom">Custom</SelectItem>
+                  </SelectContent>
+                </Select>
+                {feePriority === 'custom' && (
+                  <Input
+                    type="number"
+                    id="customFeeRate"
+                    value={customFeeRate}
+                    onChange={(e) => setCustomFeeRate(e.target.value)}
+                    placeholder="sat/byte"
+                    min={feeEstimates?.minimum || FeeEstimationService.MIN_FEE_RATE}
+                    max={FeeEstimationService.MAX_FEE_RATE}
+                    step="1"
+                    className="w-32"
+                    disabled={isSending}
+                  />
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {feePreview
+                  ? `Estimated fee: ${(feePreview.fee / 100000000).toFixed(8)} AVN (${feePreview.size} bytes, ${feePreview.inputCount} input${feePreview.inputCount === 1 ? '' : 's'} at ${feeRate} sat/byte)`
+                  : `Fee rate: ${feeRate} sat/byte. Enter an address and amount to see the exact fee.`}
+                {feeEstimates?.source === 'default' && ' Network estimates unavailable, using defaults.'}
+              </p>
+            </div>
+
             {/* Subtract Fee from Amount */}
             <div className="flex items-center space-x-2">
               <Checkbox
                 id="subtractFee"
                 checked={subtractFeeFromAmount}
                 onCheckedChange={(checked) => setSubtractFeeFromAmount(checked as boolean)}
-                disabled={isSending}
+                disabled={isSending || !!selectedAsset}
               />
               <Label htmlFor="subtractFee" className="text-sm cursor-pointer">
                 Subtract fee from amount
@@ -1295,11 +1661,36 @@ export default function SendForm() {
             </Alert>
           )}
 
-          <Button type="submit" disabled={isSending || isLoading} className="w-full">
+          <Button
+            type="submit"
+            disabled={isSending || isLoading || isWatchOnly}
+            className="w-full"
+          >
             {isSending ? 'Sending...' : 'Send Transaction'}
           </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setShowBatchPayment(true)}
+            disabled={isSending || isLoading || isWatchOnly || !!selectedAsset}
+            className="w-full"
+          >
+            <Users className="h-4 w-4 mr-2" />
+            Send to Many
+          </Button>
         </form>
 
+        <BatchPaymentDialog
+          isOpen={showBatchPayment}
+          onClose={() => setShowBatchPayment(false)}
+          feeRate={feeRate}
+          onSent={(txid) => {
+            setError('');
+            setSuccess('Batch payment sent successfully!');
+            setSuccessTxId(txid);
+          }}
+        />
+
         {/* Save Address Prompt */}
         {askToSaveAddress && (
           <Alert className="mt-4 border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-950/50">
@@ -1399,7 +1790,12 @@ export default function SendForm() {
             if (selectedUTXOs.length > 0) {
               const totalSelected = selectedUTXOs.reduce((sum, utxo) => sum + utxo.value, 0);
               // Calculate a suggested amount (leave some for fee)
-              const suggestedAmount = ((totalSelected - 10000) / 100000000).toFixed(8);
+              const selectionFee = FeeEstimationService.calculateFee(
+                selectedUTXOs.length,
+                2,
+                feeRate,
+              );
+              const suggestedAmount = ((totalSelected - selectionFee) / 100000000).toFixed(8);
               if (!amount) {
                 setAmount(suggestedAmount);
               }
@@ -1407,7 +1803,7 @@ export default function SendForm() {
           }}
           targetAmount={parseFloat(amount || '0') * 100000000}
           initialSelection={manuallySelectedUTXOs}
-          feeRate={utxoOptions.feeRate || 10000}
+          feeRate={feeRate}
           maxInputs={utxoOptions.maxInputs || 100}
         />
 
@@ -1456,7 +1852,6 @@ export default function SendForm() {
                       setManuallySelectedUTXOs([]);
                       setUtxoOptions({
                         strategy: CoinSelectionStrategy.BEST_FIT,
-                        feeRate: 10000,
                         maxInputs: 100,
                         minConfirmations: 6,
                       });
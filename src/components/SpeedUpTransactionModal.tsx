@@ -0,0 +1,240 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Zap, AlertCircle } from 'lucide-react';
+import { useMediaQuery } from '@/hooks/use-media-query';
+import { useWallet } from '@/contexts/WalletContext';
+import { useSecurity } from '@/contexts/SecurityContext';
+import {
+  FeeEstimationService,
+  FeeEstimates,
+  FeePriority,
+} from '@/services/wallet/FeeEstimationService';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+
+type SpeedUpMethod = 'rbf' | 'cpfp';
+
+interface SpeedUpTransactionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transaction: { txid: string; type: 'send' | 'receive' } | null;
+  onComplete?: (newTxid: string) => void;
+}
+
+export default function SpeedUpTransactionModal({
+  isOpen,
+  onClose,
+  transaction,
+  onComplete,
+}: SpeedUpTransactionModalProps) {
+  const isMobile = useMediaQuery('(max-width: 768px)');
+  const { wallet, isEncrypted, bumpTransactionFee, accelerateTransaction } = useWallet();
+  const { requireAuth } = useSecurity();
+  const [method, setMethod] = useState<SpeedUpMethod>('rbf');
+  const [feePriority, setFeePriority] = useState<FeePriority | 'custom'>('fast');
+  const [customFeeRate, setCustomFeeRate] = useState('');
+  const [feeEstimates, setFeeEstimates] = useState<FeeEstimates | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  // Only our own sends can be replaced; incoming payments can still be sped up with CPFP
+  const canReplace = transaction?.type === 'send';
+
+  useEffect(() => {
+    if (!isOpen || !wallet) return;
+
+    setMethod(canReplace ? 'rbf' : 'cpfp');
+    setError('');
+    wallet
+      .getFeeEstimates()
+      .then(setFeeEstimates)
+      .catch(() => setFeeEstimates(null));
+  }, [isOpen, wallet, canReplace]);
+
+  if (!isOpen || !transaction) return null;
+
+  const feeRate =
+    feePriority === 'custom'
+      ? FeeEstimationService.clampFeeRate(
+          Number(customFeeRate) || 0,
+          feeEstimates?.minimum || FeeEstimationService.MIN_FEE_RATE,
+        )
+      : feeEstimates?.[feePriority] || FeeEstimationService.DEFAULT_FEE_RATE;
+
+  const handleSubmit = async () => {
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      let password: string | undefined;
+      if (isEncrypted) {
+        const authResult = await requireAuth(
+          `Authenticate to speed up transaction at ${feeRate} sat/byte`,
+        );
+        if (!authResult.success || !authResult.password) {
+          setError('Authentication required to speed up transaction');
+          return;
+        }
+        password = authResult.password;
+      }
+
+      const newTxid =
+        method === 'rbf'
+          ? await bumpTransactionFee(transaction.txid, feeRate, password)
+          : await accelerateTransaction(transaction.txid, feeRate, password);
+
+      toast.success(method === 'rbf' ? 'Replacement transaction sent' : 'Child transaction sent', {
+        description: `New transaction ${newTxid.slice(0, 16)}...`,
+      });
+      onComplete?.(newTxid);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to speed up transaction');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderContent = () => (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Transaction <span className="font-mono">{transaction.txid.slice(0, 16)}...</span> has not
+        confirmed yet.
+      </p>
+
+      <div>
+        <Label className="block mb-3">Method</Label>
+        <RadioGroup
+          value={method}
+          onValueChange={(value) => setMethod(value as SpeedUpMethod)}
+          className="space-y-2"
+        >
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="rbf" id="speedup-rbf" disabled={!canReplace} />
+            <Label htmlFor="speedup-rbf" className="cursor-pointer">
+              <span className="font-medium">Replace (RBF)</span>
+              <p className="text-xs text-muted-foreground">
+                Re-sign the transaction with a higher fee taken from your change
+              </p>
+            </Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="cpfp" id="speedup-cpfp" />
+            <Label htmlFor="speedup-cpfp" className="cursor-pointer">
+              <span className="font-medium">Child pays for parent (CPFP)</span>
+              <p className="text-xs text-muted-foreground">
+                Spend your unconfirmed output with a fee high enough for both transactions
+              </p>
+            </Label>
+          </div>
+        </RadioGroup>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="speedupFeePriority">New Fee Rate</Label>
+        <div className="flex gap-2">
+          <Select
+            value={feePriority}
+            onValueChange={(value) => setFeePriority(value as FeePriority | 'custom')}
+            disabled={isSubmitting}
+          >
+            <SelectTrigger id="speedupFeePriority" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="normal">
+                Normal ({feeEstimates?.normal || FeeEstimationService.DEFAULT_FEE_RATE} sat/byte)
+              </SelectItem>
+              <SelectItem value="fast">
+                Fast ({feeEstimates?.fast || FeeEstimationService.DEFAULT_FEE_RATE} sat/byte)
+              </SelectItem>
+              <SelectItem value="custom">Custom</SelectItem>
+            </SelectContent>
+          </Select>
+          {feePriority === 'custom' && (
+            <Input
+              type="number"
+              value={customFeeRate}
+              onChange={(e) => setCustomFeeRate(e.target.value)}
+              placeholder="sat/byte"
+              min={feeEstimates?.minimum || FeeEstimationService.MIN_FEE_RATE}
+              max={FeeEstimationService.MAX_FEE_RATE}
+              step="1"
+              className="w-32"
+              disabled={isSubmitting}
+            />
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex sm:justify-end gap-2 mt-4">
+        <Button
+          variant="outline"
+          onClick={onClose}
+          disabled={isSubmitting}
+          className="sm:w-auto flex-1 sm:flex-initial"
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSubmit}
+          disabled={isSubmitting}
+          className="sm:w-auto flex-1 sm:flex-initial"
+        >
+          {isSubmitting ? 'Sending...' : 'Speed Up'}
+        </Button>
+      </div>
+    </div>
+  );
+
+  if (isMobile) {
+    return (
+      <Drawer open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <DrawerContent>
+          <DrawerHeader>
+            <DrawerTitle className="flex items-center">
+              <Zap className="w-5 h-5 mr-2 text-yellow-500" />
+              Speed Up Transaction
+            </DrawerTitle>
+          </DrawerHeader>
+          <div className="px-4 pb-4">{renderContent()}</div>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Zap className="w-5 h-5 mr-2 text-yellow-500" />
+            Speed Up Transaction
+          </DialogTitle>
+        </DialogHeader>
+        {renderContent()}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,214 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, AlertCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useMediaQuery } from '@/hooks/use-media-query';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { TransactionExportService } from '@/services/data/TransactionExportService';
+import { TransactionExportFormat } from '@/types/transactionExport';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+type ExportScope = 'current' | 'all';
+
+interface TransactionExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  walletAddress?: string; // The active wallet, offered as the default scope
+}
+
+export default function TransactionExportDialog({
+  isOpen,
+  onClose,
+  walletAddress,
+}: TransactionExportDialogProps) {
+  const isMobile = useMediaQuery('(max-width: 768px)');
+  const { currency } = useCurrency();
+  const [format, setFormat] = useState<TransactionExportFormat>('csv');
+  const [scope, setScope] = useState<ExportScope>('current');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  // Without an active wallet there is only one scope to offer
+  const effectiveScope: ExportScope = walletAddress ? scope : 'all';
+
+  const handleExport = async () => {
+    // Date inputs give YYYY-MM-DD, read as UTC days to match the export's dates
+    const from = fromDate ? new Date(`${fromDate}T00:00:00Z`) : undefined;
+    const to = toDate ? new Date(`${toDate}T00:00:00Z`) : undefined;
+    if (from && to && from > to) {
+      setError('The start date must be before the end date');
+      return;
+    }
+
+    setIsExporting(true);
+    setError('');
+    try {
+      const { content, rowCount } = await TransactionExportService.export(
+        {
+          format,
+          walletAddresses:
+            effectiveScope === 'current' && walletAddress ? [walletAddress] : undefined,
+          from,
+          to,
+        },
+        currency,
+      );
+
+      if (rowCount === 0) {
+        setError('No transactions found in this date range');
+        return;
+      }
+
+      TransactionExportService.downloadFile(content, format, from, to);
+      toast.success('Transactions exported', {
+        description: `${rowCount} transaction${rowCount === 1 ? '' : 's'} saved`,
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export transactions');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderContent = () => (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Dates are in UTC. Fiat values use the {currency} price of AVN on the day of each
+        transaction.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="exportFrom">From</Label>
+          <Input
+            id="exportFrom"
+            type="date"
+            value={fromDate}
+            max={toDate || undefined}
+            onChange={(e) => setFromDate(e.target.value)}
+            disabled={isExporting}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="exportTo">To</Label>
+          <Input
+            id="exportTo"
+            type="date"
+            value={toDate}
+            min={fromDate || undefined}
+            onChange={(e) => setToDate(e.target.value)}
+            disabled={isExporting}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="exportScope">Wallets</Label>
+        <Select
+          value={effectiveScope}
+          onValueChange={(value) => setScope(value as ExportScope)}
+          disabled={isExporting}
+        >
+          <SelectTrigger id="exportScope" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {walletAddress && <SelectItem value="current">Current wallet</SelectItem>}
+            <SelectItem value="all">All wallets</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="exportFormat">Format</Label>
+        <Select
+          value={format}
+          onValueChange={(value) => setFormat(value as TransactionExportFormat)}
+          disabled={isExporting}
+        >
+          <SelectTrigger id="exportFormat" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TransactionExportService.FORMATS.map((option) => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex sm:justify-end gap-2 mt-4">
+        <Button
+          variant="outline"
+          onClick={onClose}
+          disabled={isExporting}
+          className="sm:w-auto flex-1 sm:flex-initial"
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="sm:w-auto flex-1 sm:flex-initial"
+        >
+          {isExporting ? 'Exporting...' : 'Export'}
+        </Button>
+      </div>
+    </div>
+  );
+
+  if (isMobile) {
+    return (
+      <Drawer open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <DrawerContent>
+          <DrawerHeader>
+            <DrawerTitle className="flex items-center">
+              <Download className="w-5 h-5 mr-2" />
+              Export Transactions
+            </DrawerTitle>
+          </DrawerHeader>
+          <div className="px-4 pb-4">{renderContent()}</div>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Download className="w-5 h-5 mr-2" />
+            Export Transactions
+          </DialogTitle>
+        </DialogHeader>
+        {renderContent()}
+      </DialogContent>
+    </Dialog>
+  );
+}
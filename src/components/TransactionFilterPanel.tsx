@@ -0,0 +1,308 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Bookmark, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { StorageService } from '@/services/core/StorageService';
+import { DEFAULT_TRANSACTION_CATEGORIES } from '@/types/transactionNotes';
+import {
+  TransactionFilterPreset,
+  TransactionFilters,
+  TransactionStatusFilter,
+} from '@/types/transactionFilters';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+// Select items can't have an empty value
+const ANY = 'any';
+
+const STATUS_OPTIONS: Array<{ id: TransactionStatusFilter; name: string }> = [
+  { id: 'pending', name: 'Pending' },
+  { id: 'confirming', name: 'Confirming' },
+  { id: 'confirmed', name: 'Confirmed' },
+  { id: 'failed', name: 'Verification failed' },
+];
+
+// Form values are kept as strings so inputs can be cleared
+interface FilterDraft {
+  from: string;
+  to: string;
+  minAmount: string;
+  maxAmount: string;
+  counterparty: string;
+  status: string;
+  memo: string;
+  txidPrefix: string;
+  category: string;
+}
+
+const toDraft = (filters: TransactionFilters): FilterDraft => ({
+  from: filters.from || '',
+  to: filters.to || '',
+  minAmount: filters.minAmount !== undefined ? String(filters.minAmount) : '',
+  maxAmount: filters.maxAmount !== undefined ? String(filters.maxAmount) : '',
+  counterparty: filters.counterparty || '',
+  status: filters.status || ANY,
+  memo: filters.memo || '',
+  txidPrefix: filters.txidPrefix || '',
+  category: filters.category || ANY,
+});
+
+const fromDraft = (draft: FilterDraft): TransactionFilters => {
+  const filters: TransactionFilters = {};
+  const amount = (value: string) =>
+    value.trim() && !isNaN(Number(value)) ? Number(value) : undefined;
+
+  if (draft.from) filters.from = draft.from;
+  if (draft.to) filters.to = draft.to;
+  if (amount(draft.minAmount) !== undefined) filters.minAmount = amount(draft.minAmount);
+  if (amount(draft.maxAmount) !== undefined) filters.maxAmount = amount(draft.maxAmount);
+  if (draft.counterparty.trim()) filters.counterparty = draft.counterparty.trim();
+  if (draft.status !== ANY) filters.status = draft.status as TransactionStatusFilter;
+  if (draft.memo.trim()) filters.memo = draft.memo.trim();
+  if (draft.txidPrefix.trim()) filters.txidPrefix = draft.txidPrefix.trim().toLowerCase();
+  if (draft.category !== ANY) filters.category = draft.category;
+  return filters;
+};
+
+interface TransactionFilterPanelProps {
+  filters: TransactionFilters; // Applied filters, without type and free text
+  onChange: (filters: TransactionFilters) => void;
+}
+
+export default function TransactionFilterPanel({ filters, onChange }: TransactionFilterPanelProps) {
+  const [draft, setDraft] = useState<FilterDraft>(toDraft(filters));
+  const [presets, setPresets] = useState<TransactionFilterPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+
+  useEffect(() => {
+    setDraft(toDraft(filters));
+  }, [filters]);
+
+  useEffect(() => {
+    StorageService.getTransactionFilterPresets()
+      .then(setPresets)
+      .catch(() => {});
+  }, []);
+
+  const update = (field: keyof FilterDraft) => (value: string) =>
+    setDraft((previous) => ({ ...previous, [field]: value }));
+
+  const savePresets = async (next: TransactionFilterPreset[]) => {
+    await StorageService.setTransactionFilterPresets(next);
+    setPresets(next);
+  };
+
+  const handleSavePreset = async () => {
+    const name = presetName.trim();
+    if (!name) return;
+
+    const preset: TransactionFilterPreset = {
+      id: Date.now().toString(36),
+      name,
+      filters: fromDraft(draft),
+    };
+    try {
+      // Saving under an existing name replaces that preset
+      await savePresets([...presets.filter((existing) => existing.name !== name), preset]);
+      setPresetName('');
+      onChange(preset.filters);
+      toast.success('Filter preset saved', { description: name });
+    } catch (err) {
+      toast.error('Failed to save preset', {
+        description: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  };
+
+  const handleDeletePreset = async (id: string) => {
+    try {
+      await savePresets(presets.filter((preset) => preset.id !== id));
+    } catch (err) {
+      toast.error('Failed to delete preset', {
+        description: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border p-4 mt-4">
+      {presets.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {presets.map((preset) => (
+            <span
+              key={preset.id}
+              className="flex items-center gap-1 rounded-full border pl-3 pr-1 py-0.5 text-xs"
+            >
+              <button onClick={() => onChange(preset.filters)} className="hover:underline">
+                {preset.name}
+              </button>
+              <button
+                onClick={() => handleDeletePreset(preset.id)}
+                className="p-0.5 text-muted-foreground hover:text-foreground"
+                aria-label={`Delete preset ${preset.name}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="filterFrom" className="text-xs">
+            From (UTC)
+          </Label>
+          <Input
+            id="filterFrom"
+            type="date"
+            value={draft.from}
+            onChange={(e) => update('from')(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filterTo" className="text-xs">
+            To (UTC)
+          </Label>
+          <Input
+            id="filterTo"
+            type="date"
+            value={draft.to}
+            onChange={(e) => update('to')(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Amount (AVN)</Label>
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              min="0"
+              step="any"
+              placeholder="Min"
+              value={draft.minAmount}
+              onChange={(e) => update('minAmount')(e.target.value)}
+              aria-label="Minimum amount"
+            />
+            <Input
+              type="number"
+              min="0"
+              step="any"
+              placeholder="Max"
+              value={draft.maxAmount}
+              onChange={(e) => update('maxAmount')(e.target.value)}
+              aria-label="Maximum amount"
+            />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filterCounterparty" className="text-xs">
+            Counterparty
+          </Label>
+          <Input
+            id="filterCounterparty"
+            placeholder="Address or contact name"
+            value={draft.counterparty}
+            onChange={(e) => update('counterparty')(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filterMemo" className="text-xs">
+            Memo
+          </Label>
+          <Input
+            id="filterMemo"
+            placeholder="Text in the memo"
+            value={draft.memo}
+            onChange={(e) => update('memo')(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filterTxid" className="text-xs">
+            Transaction ID starts with
+          </Label>
+          <Input
+            id="filterTxid"
+            className="font-mono"
+            value={draft.txidPrefix}
+            onChange={(e) => update('txidPrefix')(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filterStatus" className="text-xs">
+            Status
+          </Label>
+          <Select value={draft.status} onValueChange={update('status')}>
+            <SelectTrigger id="filterStatus">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any status</SelectItem>
+              {STATUS_OPTIONS.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filterCategory" className="text-xs">
+            Category
+          </Label>
+          <Select value={draft.category} onValueChange={update('category')}>
+            <SelectTrigger id="filterCategory">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any category</SelectItem>
+              {DEFAULT_TRANSACTION_CATEGORIES.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2 sm:items-center sm:justify-between">
+        <div className="flex gap-2">
+          <Input
+            placeholder="Preset name"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            className="h-8 sm:w-40"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleSavePreset}
+            disabled={!presetName.trim()}
+          >
+            <Bookmark className="w-4 h-4 mr-1" />
+            Save
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={() => onChange({})}>
+            <Trash2 className="w-4 h-4 mr-1" />
+            Clear
+          </Button>
+          <Button size="sm" onClick={() => onChange(fromDraft(draft))}>
+            Apply Filters
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,8 +2,11 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { StorageService } from '@/services/core/StorageService';
+import { LabelService } from '@/services/wallet/LabelService';
 import { WalletService } from '@/services/wallet/WalletService';
 import { useWallet } from '@/contexts/WalletContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { toPriceDay } from '@/services/data/PriceProviders';
 import {
   ArrowUpRight,
   ArrowDownLeft,
@@ -13,7 +16,13 @@ import {
   ExternalLink,
   ChevronLeft,
   ChevronRight,
+  Download,
   RefreshCw,
+  Search,
+  SlidersHorizontal,
+  ShieldAlert,
+  StickyNote,
+  Zap,
 } from 'lucide-react';
 
 import {
@@ -25,9 +34,18 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Progress } from '@/components/ui/progress';
 import { toast } from 'sonner';
+import SpeedUpTransactionModal from './SpeedUpTransactionModal';
+import TransactionExportDialog from './TransactionExportDialog';
+import TransactionNotesDialog from './TransactionNotesDialog';
+import TransactionFilterPanel from './TransactionFilterPanel';
+import { SpvStatus } from '@/types/spv';
+import { DailyPrices } from '@/types/price';
+import { DEFAULT_TRANSACTION_CATEGORIES } from '@/types/transactionNotes';
+import { TransactionFilters } from '@/types/transactionFilters';
 
 interface TransactionData {
   id?: number;
@@ -40,6 +58,13 @@ interface TransactionData {
   timestamp: Date | string; // Can be string when retrieved from database
   confirmations: number;
   blockHeight?: number;
+  replaces?: string; // Set when this transaction replaced another via RBF
+  acceleratedBy?: string; // Set once a CPFP child has been sent for this transaction
+  asset?: string; // Asset name for asset transfers
+  assetAmount?: number;
+  spvStatus?: SpvStatus; // Merkle proof checked against locally validated block headers
+  memo?: string;
+  category?: string;
 }
 
 // Extended interface to support virtual transaction entries for self-transfers
@@ -141,6 +166,17 @@ const processTransactionsForDisplay = (
   return result;
 };
 
+const getCategoryName = (category?: string): string | undefined =>
+  category
+    ? DEFAULT_TRANSACTION_CATEGORIES.find((option) => option.id === category)?.name || category
+    : undefined;
+
+const getCounterparty = (tx: TransactionData): string =>
+  tx.type === 'send' ? tx.address : tx.fromAddress || tx.address;
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY = 300;
+
 interface TransactionHistoryProps {
   className?: string;
 }
@@ -152,12 +188,29 @@ export function TransactionHistory({ className }: TransactionHistoryProps) {
     processingProgress,
     reprocessTransactionHistoryProgressive,
   } = useWallet();
+  const { currency, formatFiatValue, getHistoricalPrices } = useCurrency();
+  // The current page of matching transactions, and match counts across all pages
   const [transactions, setTransactions] = useState<EnhancedTransactionData[]>([]);
+  const [counts, setCounts] = useState({ all: 0, send: 0, receive: 0 });
+  const [reloadKey, setReloadKey] = useState(0);
+  const [historicalPrices, setHistoricalPrices] = useState<DailyPrices>({});
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [filter, setFilter] = useState<'all' | 'send' | 'receive'>('all');
   const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage] = useState(20); // Show 20 transactions per page    // Function to refresh transaction history with progress updates
+  const [speedUpTx, setSpeedUpTx] = useState<EnhancedTransactionData | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [notesTx, setNotesTx] = useState<EnhancedTransactionData | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [appliedSearch, setAppliedSearch] = useState('');
+  const [filters, setFilters] = useState<TransactionFilters>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const [labels, setLabels] = useState<Record<string, string>>({});
+  const [itemsPerPage] = useState(20); // Show 20 transactions per page
+
+  const reloadTransactions = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  // Function to refresh transaction history with progress updates
   const refreshTransactionHistoryWithProgress = useCallback(async () => {
     if (!address) return;
 
@@ -168,51 +221,28 @@ export function TransactionHistory({ className }: TransactionHistoryProps) {
       await reprocessTransactionHistoryProgressive();
 
       // Final reload after processing is complete
-      const finalTxHistory = await StorageService.getTransactionHistory(address);
-      const finalSorted = finalTxHistory.sort(
-        (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
-      );
-
-      // Process transactions to handle self-transfers
-      const enhancedTransactions = processTransactionsForDisplay(finalSorted, address);
-      setTransactions(enhancedTransactions);
+      reloadTransactions();
     } catch (error) {
       throw error;
     } finally {
       setIsRefreshing(false);
     }
-  }, [address, reprocessTransactionHistoryProgressive]);
+  }, [address, reprocessTransactionHistoryProgressive, reloadTransactions]);
 
   const loadTransactions = useCallback(async () => {
     if (!address) return;
 
     try {
       setIsLoading(true);
-
-      // Load from local storage first
-      const txHistory = await StorageService.getTransactionHistory(address);
-      const sortedTx = txHistory.sort(
-        (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
-      );
-
-      // Process transactions to handle self-transfers
-      const enhancedTransactions = processTransactionsForDisplay(sortedTx, address);
-      setTransactions(enhancedTransactions);
-      setIsLoading(false);
+      setCurrentPage(1); // Reset to first page when first loading
+      reloadTransactions();
 
       // Only refresh from blockchain if we have no local data
-      if (txHistory.length === 0) {
+      const stored = await StorageService.queryTransactions({}, address, 0, 1);
+      if (stored.total === 0) {
         try {
           await refreshTransactionHistory();
-          // Reload after refresh
-          const updatedTxHistory = await StorageService.getTransactionHistory(address);
-          const updatedSorted = updatedTxHistory.sort(
-            (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
-          );
-
-          // Process transactions to handle self-transfers
-          const enhancedTransactions = processTransactionsForDisplay(updatedSorted, address);
-          setTransactions(enhancedTransactions);
+          reloadTransactions();
         } catch (refreshError) {
           toast.warning('Failed to refresh transaction history from blockchain', {
             description: refreshError instanceof Error ? refreshError.message : 'Unknown error',
@@ -222,58 +252,124 @@ export function TransactionHistory({ className }: TransactionHistoryProps) {
     } catch (error) {
       setIsLoading(false);
     }
-  }, [address, refreshTransactionHistory]);
+  }, [address, refreshTransactionHistory, reloadTransactions]);
 
   useEffect(() => {
-    const loadTransactionsEffect = async () => {
-      await loadTransactions();
-      setCurrentPage(1); // Reset to first page when first loading
-    };
-
-    loadTransactionsEffect();
+    loadTransactions();
   }, [loadTransactions]);
 
-  // Separate effect to handle real-time updates during processing
   useEffect(() => {
-    if (!address || !processingProgress.isProcessing) {
-      return;
-    }
+    const timeout = setTimeout(() => setAppliedSearch(searchQuery.trim()), SEARCH_DELAY);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
 
-    const updateInterval = setInterval(async () => {
-      try {
-        const txHistory = await StorageService.getTransactionHistory(address);
-        const sortedTx = txHistory.sort(
-          (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
-        );
+  // Query only the visible page; filtering and counting happen in StorageService
+  useEffect(() => {
+    if (!address) return;
 
+    let cancelled = false;
+    StorageService.queryTransactions(
+      {
+        ...filters,
+        type: filter === 'all' ? undefined : filter,
+        text: appliedSearch || undefined,
+      },
+      address,
+      (currentPage - 1) * itemsPerPage,
+      itemsPerPage,
+    )
+      .then((result) => {
+        if (cancelled) return;
         // Process transactions to handle self-transfers
-        const enhancedTransactions = processTransactionsForDisplay(sortedTx, address);
-        setTransactions(enhancedTransactions);
-      } catch (error) {
-        toast.error('Failed to update transactions during processing', {
+        setTransactions(processTransactionsForDisplay(result.transactions, address));
+        setCounts(result.counts);
+        setIsLoading(false);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        setIsLoading(false);
+        toast.error('Failed to load transactions', {
           description: error instanceof Error ? error.message : 'Unknown error',
         });
-      }
-    }, 3000); // Update every 3 seconds during processing
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [address, filters, filter, appliedSearch, currentPage, itemsPerPage, reloadKey]);
+
+  // Separate effect to handle real-time updates during processing
+  useEffect(() => {
+    if (!address || !processingProgress.isProcessing) {
+      return;
+    }
+
+    // Update every 3 seconds during processing
+    const updateInterval = setInterval(reloadTransactions, 3000);
 
     return () => clearInterval(updateInterval);
-  }, [address, processingProgress.isProcessing]);
+  }, [address, processingProgress.isProcessing, reloadTransactions]);
+
+  useEffect(() => {
+    const loadLabels = () => {
+      LabelService.getLabelTexts()
+        .then(setLabels)
+        .catch(() => {});
+    };
+    loadLabels();
+    window.addEventListener('labels-updated', loadLabels);
+    return () => window.removeEventListener('labels-updated', loadLabels);
+  }, []);
 
-  // Reset page when filter changes
+  // The memo, or a label imported for the transaction
+  const getTransactionLabel = (tx: TransactionData) =>
+    tx.memo || labels[LabelService.key('tx', tx.txid)];
+  const getAddressLabel = (addr: string) => labels[LabelService.key('addr', addr)];
+
+  // Reset page when filter or search changes
   useEffect(() => {
     setCurrentPage(1);
-  }, [filter]);
+  }, [filter, filters, appliedSearch]);
 
-  const filteredTransactions = transactions.filter((tx) => {
-    if (filter === 'all') return true;
-    return tx.type === filter;
-  });
+  const hasFilters = Object.keys(filters).length > 0 || appliedSearch !== '';
+  const totalCount = filter === 'all' ? counts.all : counts[filter];
 
   // Pagination calculations
-  const totalPages = Math.ceil(filteredTransactions.length / itemsPerPage);
+  const totalPages = Math.ceil(totalCount / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
   const endIndex = startIndex + itemsPerPage;
-  const paginatedTransactions = filteredTransactions.slice(startIndex, endIndex);
+  const paginatedTransactions = transactions;
+
+  // AVN price on each day shown, so amounts are valued when the transaction happened
+  const visibleDays = Array.from(
+    new Set(
+      paginatedTransactions
+        .filter((tx) => !tx.asset)
+        .map((tx) => toPriceDay(new Date(tx.timestamp))),
+    ),
+  ).join(',');
+
+  useEffect(() => {
+    setHistoricalPrices({});
+  }, [currency]);
+
+  useEffect(() => {
+    if (!visibleDays) return;
+
+    let cancelled = false;
+    getHistoricalPrices(visibleDays.split(',').map((day) => new Date(`${day}T12:00:00Z`)))
+      .then((prices) => {
+        if (!cancelled) setHistoricalPrices((previous) => ({ ...previous, ...prices }));
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [visibleDays, getHistoricalPrices]);
+
+  const getHistoricalValue = (tx: TransactionData) => {
+    const price = historicalPrices[toPriceDay(new Date(tx.timestamp))];
+    return price === undefined ? null : formatFiatValue(tx.amount, price);
+  };
 
   const nextPage = () => {
     if (currentPage < totalPages) {
@@ -293,14 +389,14 @@ export function TransactionHistory({ className }: TransactionHistoryProps) {
     }
   };
 
-  const formatAmount = (amount: number, type: 'send' | 'receive') => {
+  const formatAmount = (amount: number, type: 'send' | 'receive', unit: string = 'AVN') => {
     const sign = type === 'send' ? '-' : '+';
     const color =
       type === 'send' ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400';
     return (
       <span className={`font-medium ${color}`}>
         {sign}
-        {amount.toFixed(8)} AVN
+        {amount.toFixed(8)} {unit}
       </span>
     );
   };
@@ -329,23 +425,31 @@ export function TransactionHistory({ className }: TransactionHistoryProps) {
     return txDate.toLocaleDateString();
   };
 
-  const getStatusIcon = (confirmations: number | undefined) => {
-    const numConfirmations = Number(confirmations) || 0;
-    if (numConfirmations === 0) {
+  // Transactions only count as confirmed once their Merkle proof has been checked
+  const isProofChecked = (tx: TransactionData) =>
+    tx.spvStatus === 'verified' || tx.spvStatus === 'partial';
+
+  const getStatusIcon = (tx: TransactionData) => {
+    const numConfirmations = Number(tx.confirmations) || 0;
+    if (tx.spvStatus === 'failed') {
+      return <ShieldAlert className="w-4 h-4 text-red-500" />;
+    } else if (numConfirmations === 0) {
       return <Clock className="w-4 h-4 text-yellow-500" />;
-    } else if (numConfirmations < 6) {
+    } else if (numConfirmations < 6 || !isProofChecked(tx)) {
       return <AlertCircle className="w-4 h-4 text-orange-500" />;
     } else {
       return <Check className="w-4 h-4 text-green-500" />;
     }
   };
 
-  const getStatusText = (confirmations: number | undefined) => {
-    const numConfirmations = Number(confirmations) || 0;
+  const getStatusText = (tx: TransactionData) => {
+    const numConfirmations = Number(tx.confirmations) || 0;
 
+    if (tx.spvStatus === 'failed') return 'Verification failed';
     if (numConfirmations === 0) return 'Pending';
     if (numConfirmations < 6) return `${numConfirmations}/6 confirmations`;
-    return 'Confirmed';
+    if (!isProofChecked(tx)) return 'Awaiting verification';
+    return 'Merkle proof checked';
   };
 
   const openExplorer = (txid: string) => {
@@ -358,20 +462,31 @@ export function TransactionHistory({ className }: TransactionHistoryProps) {
       <CardHeader>
         <div className="flex items-center justify-between">
           <CardTitle>Transaction History</CardTitle>
-          <Button
-            onClick={refreshTransactionHistoryWithProgress}
-            disabled={isRefreshing || processingProgress.isProcessing}
-            variant="outline"
-            size="sm"
-            className="flex items-center gap-2"
-          >
-            <RefreshCw
-              className={`w-4 h-4 ${isRefreshing || processingProgress.isProcessing ? 'animate-spin' : ''}`}
-            />
-            <span className="hidden sm:inline">
-              {isRefreshing || processingProgress.isProcessing ? 'Refreshing...' : 'Refresh'}
-            </span>
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button
+              onClick={() => setIsExportOpen(true)}
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-2"
+            >
+              <Download className="w-4 h-4" />
+              <span className="hidden sm:inline">Export</span>
+            </Button>
+            <Button
+              onClick={refreshTransactionHistoryWithProgress}
+              disabled={isRefreshing || processingProgress.isProcessing}
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-2"
+            >
+              <RefreshCw
+                className={`w-4 h-4 ${isRefreshing || processingProgress.isProcessing ? 'animate-spin' : ''}`}
+              />
+              <span className="hidden sm:inline">
+                {isRefreshing || processingProgress.isProcessing ? 'Refreshing...' : 'Refresh'}
+              </span>
+            </Button>
+          </div>
         </div>
       </CardHeader>
 
@@ -386,27 +501,49 @@ export function TransactionHistory({ className }: TransactionHistoryProps) {
               value="all"
               className="flex-1 data-[state=active]:after:bg-primary relative rounded-none py-2 after:absolute after:inset-x-0 after:bottom-0 after:h-0.5 data-[state=active]:bg-transparent data-[state=active]:shadow-none"
             >
-              All ({transactions.length})
+              All ({counts.all})
             </TabsTrigger>
             <TabsTrigger
               value="receive"
               className="flex-1 data-[state=active]:after:bg-primary relative rounded-none py-2 after:absolute after:inset-x-0 after:bottom-0 after:h-0.5 data-[state=active]:bg-transparent data-[state=active]:shadow-none"
             >
               <span className="text-green-600 dark:text-green-400">
-                Received ({transactions.filter((tx) => tx.type === 'receive').length})
+                Received ({counts.receive})
               </span>
             </TabsTrigger>
             <TabsTrigger
               value="send"
               className="flex-1 data-[state=active]:after:bg-primary relative rounded-none py-2 after:absolute after:inset-x-0 after:bottom-0 after:h-0.5 data-[state=active]:bg-transparent data-[state=active]:shadow-none"
             >
-              <span className="text-red-600 dark:text-red-400">
-                Sent ({transactions.filter((tx) => tx.type === 'send').length})
-              </span>
+              <span className="text-red-600 dark:text-red-400">Sent ({counts.send})</span>
             </TabsTrigger>
           </TabsList>
         </Tabs>
 
+        <div className="flex gap-2 mt-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <Input
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search memos, categories, addresses or transaction IDs"
+              className="pl-9"
+              aria-label="Search transactions"
+            />
+          </div>
+          <Button
+            variant={Object.keys(filters).length > 0 ? 'secondary' : 'outline'}
+            onClick={() => setShowFilters(!showFilters)}
+            aria-expanded={showFilters}
+          >
+            <SlidersHorizontal className="w-4 h-4 mr-1" />
+            Filters
+            {Object.keys(filters).length > 0 && ` (${Object.keys(filters).length})`}
+          </Button>
+        </div>
+
+        {showFilters && <TransactionFilterPanel filters={filters} onChange={setFilters} />}
+
         {/* Processing Progress */}
         {processingProgress.isProcessing && processingProgress.total > 0 && (
           <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-3 mt-4 border border-blue-200 dark:border-blue-700">
@@ -464,10 +601,16 @@ export function TransactionHistory({ className }: TransactionHistoryProps) {
                 </svg>
               </div>
               <p className="text-gray-600 dark:text-gray-400 text-lg">
-                {filter === 'all' ? 'No transactions found' : `No ${filter} transactions found`}
+                {hasFilters
+                  ? 'No transactions match your filters'
+                  : filter === 'all'
+                    ? 'No transactions found'
+                    : `No ${filter} transactions found`}
               </p>
               <p className="text-gray-500 dark:text-gray-500 text-sm mt-1">
-                Transactions will appear here once you start using your wallet
+                {hasFilters
+                  ? 'Try a different search or clear some filters'
+                  : 'Transactions will appear here once you start using your wallet'}
               </p>
             </div>
           ) : (
@@ -481,10 +624,11 @@ export function TransactionHistory({ className }: TransactionHistoryProps) {
                     <div className="flex items-start gap-3 min-w-0 flex-1">
                       {/* Transaction Icon */}
                       <div
-                        className={`flex-shrink-0 p-2 rounded-full ${tx.type === 'send'
-                          ? 'bg-red-100 dark:bg-red-900/20'
-                          : 'bg-green-100 dark:bg-green-900/20'
-                          }`}
+                        className={`flex-shrink-0 p-2 rounded-full ${
+                          tx.type === 'send'
+                            ? 'bg-red-100 dark:bg-red-900/20'
+                            : 'bg-green-100 dark:bg-green-900/20'
+                        }`}
                       >
                         {tx.type === 'send' ? (
                           <ArrowUpRight className="w-4 h-4 text-red-600 dark:text-red-400" />
@@ -499,18 +643,22 @@ export function TransactionHistory({ className }: TransactionHistoryProps) {
                           <span className="font-medium text-gray-900 dark:text-white capitalize">
                             {tx.type}
                           </span>
-                          {getStatusIcon(tx.confirmations)}
+                          {getStatusIcon(tx)}
                           <span className="text-sm text-gray-500 dark:text-gray-400">
-                            {getStatusText(tx.confirmations)}
+                            {getStatusText(tx)}
                           </span>
                         </div>
 
                         <div className="text-sm text-gray-600 dark:text-gray-400 mb-1">
                           {tx.type === 'send' ? 'To: ' : 'From: '}
+                          {getAddressLabel(getCounterparty(tx)) && (
+                            <span className="font-medium text-gray-900 dark:text-white mr-1">
+                              {getAddressLabel(getCounterparty(tx))}
+                            </span>
+                          )}
                           <span className="font-mono break-all">
                             {(() => {
-                              const displayAddress =
-                                tx.type === 'send' ? tx.address : tx.fromAddress || tx.address;
+                              const displayAddress = getCounterparty(tx);
                               return displayAddress.length > 40
                                 ? `${displayAddress.slice(0, 20)}...${displayAddress.slice(-20)}`
                                 : displayAddress;
@@ -518,6 +666,21 @@ export function TransactionHistory({ className }: TransactionHistoryProps) {
                           </span>
                         </div>
 
+                        {(tx.category || getTransactionLabel(tx)) && (
+                          <div className="flex items-start gap-2 text-sm mb-1">
+                            {tx.category && (
+                              <span className="flex-shrink-0 rounded-full bg-gray-100 dark:bg-gray-700 px-2 py-0.5 text-xs text-gray-700 dark:text-gray-300">
+                                {getCategoryName(tx.category)}
+                              </span>
+                            )}
+                            {getTransactionLabel(tx) && (
+                              <span className="text-gray-700 dark:text-gray-300 break-words">
+                                {getTransactionLabel(tx)}
+                              </span>
+                            )}
+                          </div>
+                        )}
+
                         <div className="flex items-center gap-3">
                           <span className="text-sm text-gray-500 dark:text-gray-400">
                             {formatDate(tx.timestamp)}
@@ -529,13 +692,50 @@ export function TransactionHistory({ className }: TransactionHistoryProps) {
                             <ExternalLink className="w-3 h-3" />
                             View Details
                           </button>
+                          <button
+                            onClick={() =>
+                              setNotesTx({
+                                ...tx,
+                                walletAddress: tx.walletAddress || address,
+                                memo: getTransactionLabel(tx),
+                              })
+                            }
+                            className="text-xs text-gray-600 dark:text-gray-400 hover:underline flex items-center gap-1"
+                          >
+                            <StickyNote className="w-3 h-3" />
+                            {getTransactionLabel(tx) || tx.category ? 'Edit Note' : 'Add Note'}
+                          </button>
+                          {Number(tx.confirmations) === 0 && !tx.isVirtual && !tx.acceleratedBy && (
+                            <button
+                              onClick={() => setSpeedUpTx(tx)}
+                              className="text-xs text-yellow-600 dark:text-yellow-400 hover:underline flex items-center gap-1"
+                            >
+                              <Zap className="w-3 h-3" />
+                              Speed Up
+                            </button>
+                          )}
+                          {tx.replaces && (
+                            <span className="text-xs text-gray-500 dark:text-gray-400">
+                              Fee bumped
+                            </span>
+                          )}
                         </div>
                       </div>
                     </div>
 
                     {/* Amount */}
                     <div className="flex-shrink-0 text-right">
-                      {formatAmount(tx.amount, tx.type)}
+                      {tx.asset
+                        ? formatAmount(tx.assetAmount || 0, tx.type, tx.asset)
+                        : formatAmount(tx.amount, tx.type)}
+                      {!tx.asset && getHistoricalValue(tx) && (
+                        <div
+                          className="text-xs text-gray-500 dark:text-gray-400"
+                          title={`Value on ${toPriceDay(new Date(tx.timestamp))}`}
+                        >
+                          {getHistoricalValue(tx)}
+                        </div>
+                      )}
                       {tx.blockHeight && (
                         <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
                           Block #{tx.blockHeight}
@@ -554,9 +754,8 @@ export function TransactionHistory({ className }: TransactionHistoryProps) {
       <CardFooter className="p-4 border-t border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50">
         <div className="flex flex-col sm:flex-row justify-between items-center w-full gap-3 text-sm text-gray-600 dark:text-gray-400">
           <span>
-            Showing {startIndex + 1}-{Math.min(endIndex, filteredTransactions.length)} of{' '}
-            {filteredTransactions.length}{' '}
-            {filter === 'all' ? 'transactions' : `${filter} transactions`}
+            Showing {Math.min(startIndex + 1, totalCount)}-{Math.min(endIndex, totalCount)} of{' '}
+            {totalCount} {filter === 'all' ? 'transactions' : `${filter} transactions`}
           </span>
 
           {/* Pagination Controls */}
@@ -660,7 +859,7 @@ export function TransactionHistory({ className }: TransactionHistoryProps) {
           <Button
             onClick={async () => {
               // If we have many transactions, use progressive refresh
-              if (transactions.length > 100) {
+              if (counts.all > 100) {
                 await refreshTransactionHistoryWithProgress();
               } else {
                 await loadTransactions();
@@ -674,6 +873,26 @@ export function TransactionHistory({ className }: TransactionHistoryProps) {
           </Button>
         </div>
       </CardFooter>
+
+      <SpeedUpTransactionModal
+        isOpen={speedUpTx !== null}
+        onClose={() => setSpeedUpTx(null)}
+        transaction={speedUpTx}
+        onComplete={reloadTransactions}
+      />
+
+      <TransactionExportDialog
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        walletAddress={address}
+      />
+
+      <TransactionNotesDialog
+        isOpen={notesTx !== null}
+        onClose={() => setNotesTx(null)}
+        transaction={notesTx}
+        onSaved={reloadTransactions}
+      />
     </Card>
   );
 }
@@ -0,0 +1,171 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { StickyNote, AlertCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useMediaQuery } from '@/hooks/use-media-query';
+import { StorageService } from '@/services/core/StorageService';
+import { DEFAULT_TRANSACTION_CATEGORIES, MAX_MEMO_LENGTH } from '@/types/transactionNotes';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+// Select items can't have an empty value
+const NO_CATEGORY = 'none';
+
+interface TransactionNotesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transaction: { txid: string; walletAddress?: string; memo?: string; category?: string } | null;
+  onSaved?: () => void;
+}
+
+export default function TransactionNotesDialog({
+  isOpen,
+  onClose,
+  transaction,
+  onSaved,
+}: TransactionNotesDialogProps) {
+  const isMobile = useMediaQuery('(max-width: 768px)');
+  const [memo, setMemo] = useState('');
+  const [category, setCategory] = useState(NO_CATEGORY);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen || !transaction) return;
+
+    setMemo(transaction.memo || '');
+    setCategory(transaction.category || NO_CATEGORY);
+    setError('');
+  }, [isOpen, transaction]);
+
+  const handleSave = async () => {
+    if (!transaction) return;
+
+    setIsSaving(true);
+    setError('');
+    try {
+      const saved = await StorageService.updateTransactionNotes(
+        transaction.txid,
+        { memo, category: category === NO_CATEGORY ? undefined : category },
+        transaction.walletAddress,
+      );
+      if (!saved) {
+        setError('This transaction is not stored in your history yet');
+        return;
+      }
+
+      toast.success('Transaction note saved');
+      onSaved?.();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save note');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderContent = () => (
+    <div className="space-y-4">
+      {transaction && (
+        <p className="text-xs text-muted-foreground font-mono break-all">{transaction.txid}</p>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="transactionMemo">Memo</Label>
+        <Textarea
+          id="transactionMemo"
+          value={memo}
+          onChange={(e) => setMemo(e.target.value)}
+          placeholder="What was this payment for?"
+          maxLength={MAX_MEMO_LENGTH}
+          rows={3}
+          disabled={isSaving}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="transactionCategory">Category</Label>
+        <Select value={category} onValueChange={setCategory} disabled={isSaving}>
+          <SelectTrigger id="transactionCategory" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+            {DEFAULT_TRANSACTION_CATEGORIES.map((option) => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex sm:justify-end gap-2 mt-4">
+        <Button
+          variant="outline"
+          onClick={onClose}
+          disabled={isSaving}
+          className="sm:w-auto flex-1 sm:flex-initial"
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="sm:w-auto flex-1 sm:flex-initial"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+    </div>
+  );
+
+  if (isMobile) {
+    return (
+      <Drawer open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <DrawerContent>
+          <DrawerHeader>
+            <DrawerTitle className="flex items-center">
+              <StickyNote className="w-5 h-5 mr-2" />
+              Transaction Note
+            </DrawerTitle>
+          </DrawerHeader>
+          <div className="px-4 pb-4">{renderContent()}</div>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <StickyNote className="w-5 h-5 mr-2" />
+            Transaction Note
+          </DialogTitle>
+        </DialogHeader>
+        {renderContent()}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,6 +2,7 @@ import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useWallet } from '@/contexts/WalletContext';
 import { EnhancedUTXO, UTXOSelectionService } from '@/services/wallet/UTXOSelectionService';
 import { StorageService } from '@/services/core/StorageService';
+import { LabelService } from '@/services/wallet/LabelService';
 import AuthenticationDialog from '@/components/AuthenticationDialog';
 import { UTXOSelector } from '@/components/UTXOSelector';
 import {
@@ -21,6 +22,8 @@ import {
   ArrowUp,
   ArrowDown,
   Shuffle,
+  Tag,
+  Snowflake,
 } from 'lucide-react';
 import { useMediaQuery } from '@/hooks/use-media-query';
 import {
@@ -90,6 +93,11 @@ export function UTXOOverview({ isOpen, onClose, onConsolidateUTXOs, maxInputs =
   const [showAuthDialog, setShowAuthDialog] = useState(false);
   const [totalHdBalance, setTotalHdBalance] = useState<number>(0);
   const [showConsolidationSelector, setShowConsolidationSelector] = useState(false);
+  // Label texts by LabelService key, and the output whose label is being edited
+  const [labels, setLabels] = useState<Record<string, string>>({});
+  const [editingLabelRef, setEditingLabelRef] = useState<string | null>(null);
+  // Outpoints (txid:vout) marked "do not spend"
+  const [frozen, setFrozen] = useState<Set<string>>(new Set());
 
   // Table state
   const [sorting, setSorting] = useState<SortingState>([]);
@@ -119,6 +127,23 @@ export function UTXOOverview({ isOpen, onClose, onConsolidateUTXOs, maxInputs =
     return 'Confirmed';
   };
 
+  const saveOutputLabel = useCallback(async (ref: string, label: string) => {
+    setEditingLabelRef(null);
+    try {
+      await LabelService.setLabel('output', ref, label);
+    } catch (err) {
+      setError('Failed to save label');
+    }
+  }, []);
+
+  const toggleFrozen = useCallback(async (utxo: EnhancedUTXO, isFrozen: boolean) => {
+    try {
+      await LabelService.setFrozen(utxo.txid, utxo.vout, !isFrozen);
+    } catch (err) {
+      setError('Failed to update frozen coins');
+    }
+  }, []);
+
   // Column definitions
   const columns: ColumnDef<EnhancedUTXO>[] = useMemo(
     () => [
@@ -170,6 +195,54 @@ export function UTXOOverview({ isOpen, onClose, onConsolidateUTXOs, maxInputs =
         },
         cell: ({ row }) => <span className="font-mono">{row.getValue('vout')}</span>,
       },
+      {
+        id: 'label',
+        header: 'Label',
+        cell: ({ row }) => {
+          const ref = LabelService.outputRef(row.original.txid, row.original.vout);
+          if (editingLabelRef === ref) {
+            // Uncontrolled so typing doesn't rebuild the columns
+            const current = labels[LabelService.key('output', ref)] || '';
+            return (
+              <Input
+                autoFocus
+                defaultValue={current}
+                placeholder="Label this coin"
+                className="h-7 text-xs min-w-[8rem]"
+                onBlur={(e) => saveOutputLabel(ref, e.currentTarget.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') e.currentTarget.blur();
+                  if (e.key === 'Escape') {
+                    // Leave the label as it was
+                    e.currentTarget.value = current;
+                    e.currentTarget.blur();
+                  }
+                }}
+              />
+            );
+          }
+
+          // Coins without their own label show their transaction's label
+          const outputLabel = labels[LabelService.key('output', ref)];
+          const txLabel = labels[LabelService.key('tx', row.original.txid)];
+          return (
+            <button
+              onClick={() => setEditingLabelRef(ref)}
+              className="flex items-center gap-1 text-xs text-left hover:underline"
+              title="Edit label"
+            >
+              <Tag className="w-3 h-3 flex-shrink-0 text-muted-foreground" />
+              {outputLabel ? (
+                <span>{outputLabel}</span>
+              ) : (
+                <span className={`text-muted-foreground ${txLabel ? 'italic' : ''}`}>
+                  {txLabel || 'Add label'}
+                </span>
+              )}
+            </button>
+          );
+        },
+      },
       {
         accessorKey: 'address',
         header: ({ column }) => {
@@ -287,8 +360,29 @@ export function UTXOOverview({ isOpen, onClose, onConsolidateUTXOs, maxInputs =
           );
         },
       },
+      {
+        id: 'frozen',
+        header: 'Spending',
+        cell: ({ row }) => {
+          // Frozen coins are left out of automatic coin selection until unfrozen
+          const ref = LabelService.outputRef(row.original.txid, row.original.vout);
+          const isFrozen = frozen.has(ref);
+          return (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => toggleFrozen(row.original, isFrozen)}
+              className={`h-7 px-2 text-xs ${isFrozen ? 'text-sky-600 dark:text-sky-400' : 'text-muted-foreground'}`}
+              title={isFrozen ? 'Unfreeze coin' : 'Freeze coin (do not spend)'}
+            >
+              <Snowflake className="w-3 h-3 mr-1" />
+              {isFrozen ? 'Frozen' : 'Freeze'}
+            </Button>
+          );
+        },
+      },
     ],
-    [],
+    [labels, editingLabelRef, saveOutputLabel, frozen, toggleFrozen],
   );
 
   const table = useReactTable({
@@ -393,43 +487,19 @@ export function UTXOOverview({ isOpen, onClose, onConsolidateUTXOs, maxInputs =
       setError('');
 
       try {
-        const changeAddressCount = await StorageService.getChangeAddressCount();
         const currentBlockHeight = await electrum!.getCurrentBlockHeight();
 
-        // Get both receiving and change addresses
-        const [receivingAddresses, changeAddresses] = await Promise.all([
-          deriveCurrentWalletAddresses!(password, 0, changeAddressCount, 'p2pkh', 0, 921),
-          deriveCurrentWalletAddresses!(password, 0, changeAddressCount, 'p2pkh', 1, 921),
-        ]);
-
-        const allAddresses = [...receivingAddresses, ...changeAddresses];
-        let allUTXOs: any[] = [];
-
-        // Get UTXOs from all addresses that have balances
-        for (const addr of allAddresses) {
-          if (addr.balance > 0) {
-            try {
-              const utxosForAddress = await electrum!.getUTXOs(addr.address);
-              const labeledUTXOs = utxosForAddress.map((utxo: any) => ({
-                ...utxo,
-                address: addr.address,
-                addressType: addr.path.includes('(receiving)') ? 'receiving' : 'change',
-              }));
-              allUTXOs.push(...labeledUTXOs);
-            } catch (utxoError) {
-              // Skip addresses that can't be queried
-            }
-          }
-        }
-
-        // Also include main wallet address UTXOs
-        const mainUTXOs = await electrum!.getUTXOs(address!);
-        const labeledMainUTXOs = mainUTXOs.map((utxo: any) => ({
+        // Discover every used receiving and change address with the configured gap limit
+        await wallet!.discoverHDAddresses(password);
+        const allUTXOs = (await wallet!.getHDWalletUTXOs()).map((utxo) => ({
           ...utxo,
-          address: address,
-          addressType: 'main',
+          addressType:
+            utxo.address === address
+              ? 'main'
+              : utxo.derivationPath?.split('/')[4] === '1'
+                ? 'change'
+                : 'receiving',
         }));
-        allUTXOs.push(...labeledMainUTXOs);
 
         // Remove duplicates based on txid and vout
         const uniqueUTXOs = allUTXOs.filter(
@@ -458,7 +528,7 @@ export function UTXOOverview({ isOpen, onClose, onConsolidateUTXOs, maxInputs =
         setLoadingHdAddresses(false);
       }
     },
-    [deriveCurrentWalletAddresses, electrum, address],
+    [wallet, electrum, address],
   );
 
   const handleAuthCancel = useCallback(() => {
@@ -492,12 +562,37 @@ export function UTXOOverview({ isOpen, onClose, onConsolidateUTXOs, maxInputs =
     }
   }, [isOpen, electrum, address, loadUTXOs]);
 
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const loadLabels = () => {
+      LabelService.getLabelTexts()
+        .then(setLabels)
+        .catch(() => {});
+      LabelService.getFrozenOutpoints()
+        .then(setFrozen)
+        .catch(() => {});
+    };
+    loadLabels();
+    window.addEventListener('labels-updated', loadLabels);
+    return () => window.removeEventListener('labels-updated', loadLabels);
+  }, [isOpen]);
+
   if (!isOpen) return null;
 
+  // Frozen coins are kept out of consolidation along with every other automatic spend
+  const isFrozen = (u: EnhancedUTXO) => frozen.has(LabelService.outputRef(u.txid, u.vout));
+  const spendableUTXOs = utxos.filter((u) => !isFrozen(u));
+  const frozenValue = utxos.filter(isFrozen).reduce((sum, u) => sum + u.value, 0);
+  const spendableValue = Math.max(
+    0,
+    (allAddressesLoaded ? totalHdBalance : balance) - frozenValue,
+  );
+
   const totalUTXOs = utxos.length;
   const confirmedUTXOs = utxos.filter((u) => u.isConfirmed).length;
-  const dustUTXOs = utxos.filter((u) => u.isDust).length;
-  const smallUTXOs = utxos.filter((u) => !u.isDust && u.value <= 2500000000).length; // Under 25 AVN but not dust
+  const dustUTXOs = spendableUTXOs.filter((u) => u.isDust).length;
+  const smallUTXOs = spendableUTXOs.filter((u) => !u.isDust && u.value <= 2500000000).length; // Under 25 AVN but not dust
   const largeUTXOs = utxos.filter((u) => u.value > 100000000).length; // > 1 AVN
 
   const renderContent = () => (
@@ -551,6 +646,25 @@ export function UTXOOverview({ isOpen, onClose, onConsolidateUTXOs, maxInputs =
                   </span>
                 </div>
               )}
+              {frozenValue > 0 && (
+                <>
+                  <div className="flex justify-between items-center border-t pt-2">
+                    <span className="text-sm text-muted-foreground flex items-center gap-1">
+                      <Snowflake className="w-3 h-3" />
+                      Frozen:
+                    </span>
+                    <span className="font-mono font-semibold text-sky-600 dark:text-sky-400">
+                      {formatAVN(frozenValue)} AVN
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-muted-foreground">Spendable:</span>
+                    <span className="font-mono font-semibold">
+                      {formatAVN(spendableValue)} AVN
+                    </span>
+                  </div>
+                </>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -893,7 +1007,7 @@ export function UTXOOverview({ isOpen, onClose, onConsolidateUTXOs, maxInputs =
         onSelect={handleConsolidationSelect}
         initialSelection={
           // Pre-select dust and small UTXOs, prioritizing smallest first, limited to maxInputs
-          utxos
+          spendableUTXOs
             .filter((utxo) => utxo.isDust || (!utxo.isDust && utxo.value <= 2500000000))
             .sort((a, b) => a.value - b.value) // Sort smallest first for efficient consolidation
             .slice(0, maxInputs) // Limit to maximum inputs
@@ -42,13 +42,11 @@ interface UTXOSelectionSettingsProps {
   onClose: () => void;
   onApply: (options: {
     strategy: CoinSelectionStrategy;
-    feeRate?: number;
     maxInputs?: number;
     minConfirmations?: number;
   }) => void;
   currentOptions?: {
     strategy?: CoinSelectionStrategy;
-    feeRate?: number;
     maxInputs?: number;
     minConfirmations?: number;
   };
@@ -63,7 +61,6 @@ export function UTXOSelectionSettings({
   const [strategy, setStrategy] = useState<CoinSelectionStrategy>(
     currentOptions.strategy || CoinSelectionStrategy.BEST_FIT,
   );
-  const [feeRate, setFeeRate] = useState(currentOptions.feeRate || 10000);
   const [maxInputs, setMaxInputs] = useState(currentOptions.maxInputs || 100);
   const [minConfirmations, setMinConfirmations] = useState(currentOptions.minConfirmations || 6);
   const isMobile = useMediaQuery('(max-width: 768px)');
@@ -71,7 +68,6 @@ export function UTXOSelectionSettings({
   // Sync state with currentOptions when they change
   useEffect(() => {
     setStrategy(currentOptions.strategy || CoinSelectionStrategy.BEST_FIT);
-    setFeeRate(currentOptions.feeRate || 10000);
     setMaxInputs(currentOptions.maxInputs || 100);
     setMinConfirmations(currentOptions.minConfirmations || 6);
   }, [currentOptions]);
@@ -121,7 +117,6 @@ export function UTXOSelectionSettings({
   const handleApply = () => {
     onApply({
       strategy,
-      feeRate,
       maxInputs,
       minConfirmations,
     });
@@ -130,7 +125,6 @@ export function UTXOSelectionSettings({
 
   const handleReset = () => {
     setStrategy(CoinSelectionStrategy.BEST_FIT);
-    setFeeRate(10000);
     setMaxInputs(100);
     setMinConfirmations(6);
   };
@@ -194,30 +188,6 @@ export function UTXOSelectionSettings({
       <div>
         <h3 className="text-sm font-medium mb-3">Advanced Settings</h3>
         <div className="space-y-6">
-          {/* Fee Rate */}
-          <div className="space-y-3">
-            <div className="flex justify-between items-center">
-              <Label htmlFor="fee-rate">Network Fee</Label>
-              <span className="text-sm font-mono bg-secondary px-2 py-1 rounded">
-                {feeRate.toLocaleString()} sats ({(feeRate / 100000000).toFixed(8)} AVN)
-              </span>
-            </div>
-            <Slider
-              id="fee-rate"
-              value={[feeRate]}
-              onValueChange={(value) => setFeeRate(value[0])}
-              min={1000}
-              max={100000}
-              step={500}
-              className="w-full"
-            />
-            <div className="flex justify-between text-xs text-muted-foreground">
-              <span>1,000 sats (Low)</span>
-              <span>10,000 sats (Default)</span>
-              <span>100,000 sats (High)</span>
-            </div>
-          </div>
-
           {/* Max Inputs */}
           <div className="space-y-3">
             <div className="flex justify-between items-center">
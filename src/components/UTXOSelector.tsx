@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useWallet } from '@/contexts/WalletContext';
 import { EnhancedUTXO } from '@/services/wallet/UTXOSelectionService';
+import { FeeEstimationService } from '@/services/wallet/FeeEstimationService';
 import { StorageService } from '@/services/core/StorageService';
+import { LabelService } from '@/services/wallet/LabelService';
 import AuthenticationDialog from '@/components/AuthenticationDialog';
 import {
   Coins,
@@ -15,6 +17,7 @@ import {
   Filter,
   ArrowDown,
   ArrowUp,
+  Snowflake,
 } from 'lucide-react';
 import { useMediaQuery } from '@/hooks/use-media-query';
 
@@ -54,7 +57,7 @@ interface UTXOSelectorProps {
   onSelect: (selectedUTXOs: EnhancedUTXO[]) => void;
   targetAmount?: number; // Optional target amount to help user select enough UTXOs
   initialSelection?: EnhancedUTXO[]; // For restoring a previous selection
-  feeRate?: number; // To calculate if enough has been selected
+  feeRate?: number; // sat/byte, to calculate if enough has been selected
   maxInputs?: number; // Maximum number of UTXOs that can be selected
 }
 
@@ -64,7 +67,7 @@ export function UTXOSelector({
   onSelect,
   targetAmount = 0,
   initialSelection = [],
-  feeRate = 10000,
+  feeRate = FeeEstimationService.DEFAULT_FEE_RATE,
   maxInputs = 500,
 }: UTXOSelectorProps) {
   const { wallet, electrum, address, balance, deriveCurrentWalletAddresses } = useWallet();
@@ -84,6 +87,9 @@ export function UTXOSelector({
   const [loadingHdAddresses, setLoadingHdAddresses] = useState(false);
   const [allAddressesLoaded, setAllAddressesLoaded] = useState(false);
   const [showAuthDialog, setShowAuthDialog] = useState(false);
+  // Outpoints (txid:vout) marked "do not spend", and label texts by LabelService key
+  const [frozen, setFrozen] = useState<Set<string>>(new Set());
+  const [labels, setLabels] = useState<Record<string, string>>({});
 
   // Load UTXOs from the wallet
   const loadUTXOs = useCallback(
@@ -155,43 +161,19 @@ export function UTXOSelector({
       setError('');
 
       try {
-        const changeAddressCount = await StorageService.getChangeAddressCount();
         const currentBlockHeight = await electrum!.getCurrentBlockHeight();
 
-        // Get both receiving and change addresses
-        const [receivingAddresses, changeAddresses] = await Promise.all([
-          deriveCurrentWalletAddresses!(password, 0, changeAddressCount, 'p2pkh', 0, 921),
-          deriveCurrentWalletAddresses!(password, 0, changeAddressCount, 'p2pkh', 1, 921),
-        ]);
-
-        const allAddresses = [...receivingAddresses, ...changeAddresses];
-        let allUTXOs: any[] = [];
-
-        // Get UTXOs from all addresses that have balances
-        for (const addr of allAddresses) {
-          if (addr.balance > 0) {
-            try {
-              const utxosForAddress = await electrum!.getUTXOs(addr.address);
-              const labeledUTXOs = utxosForAddress.map((utxo: any) => ({
-                ...utxo,
-                address: addr.address,
-                addressType: addr.path.includes('(receiving)') ? 'receiving' : 'change',
-              }));
-              allUTXOs.push(...labeledUTXOs);
-            } catch (utxoError) {
-              // Skip addresses that can't be queried
-            }
-          }
-        }
-
-        // Also include main wallet address UTXOs
-        const mainUTXOs = await electrum!.getUTXOs(address!);
-        const labeledMainUTXOs = mainUTXOs.map((utxo: any) => ({
+        // Discover every used receiving and change address with the configured gap limit
+        await wallet!.discoverHDAddresses(password);
+        const allUTXOs = (await wallet!.getHDWalletUTXOs()).map((utxo) => ({
           ...utxo,
-          address: address,
-          addressType: 'main',
+          addressType:
+            utxo.address === address
+              ? 'main'
+              : utxo.derivationPath?.split('/')[4] === '1'
+                ? 'change'
+                : 'receiving',
         }));
-        allUTXOs.push(...labeledMainUTXOs);
 
         // Remove duplicates based on txid and vout
         const uniqueUTXOs = allUTXOs.filter(
@@ -216,7 +198,7 @@ export function UTXOSelector({
         setLoadingHdAddresses(false);
       }
     },
-    [deriveCurrentWalletAddresses, electrum, address],
+    [wallet, electrum, address],
   );
 
   const handleAuthCancel = useCallback(() => {
@@ -244,6 +226,23 @@ export function UTXOSelector({
     }
   }, [isOpen, electrum, address, loadUTXOs]);
 
+  // Keep frozen coins and labels in step with the label store
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const loadLabels = () => {
+      LabelService.getFrozenOutpoints()
+        .then(setFrozen)
+        .catch(() => {});
+      LabelService.getLabelTexts()
+        .then(setLabels)
+        .catch(() => {});
+    };
+    loadLabels();
+    window.addEventListener('labels-updated', loadLabels);
+    return () => window.removeEventListener('labels-updated', loadLabels);
+  }, [isOpen]);
+
   // Initialize from any provided initial selection
   useEffect(() => {
     if (initialSelection && initialSelection.length > 0) {
@@ -251,8 +250,30 @@ export function UTXOSelector({
     }
   }, [initialSelection]);
 
+  const isFrozen = useCallback(
+    (utxo: EnhancedUTXO) => frozen.has(LabelService.outputRef(utxo.txid, utxo.vout)),
+    [frozen],
+  );
+
+  // Frozen coins can't be spent, so drop any that were selected
+  useEffect(() => {
+    setSelectedUtxos((selected) =>
+      selected.some(isFrozen) ? selected.filter((utxo) => !isFrozen(utxo)) : selected,
+    );
+  }, [isFrozen]);
+
+  const toggleFrozen = async (utxo: EnhancedUTXO) => {
+    try {
+      await LabelService.setFrozen(utxo.txid, utxo.vout, !isFrozen(utxo));
+    } catch (err) {
+      setError('Failed to update frozen coins');
+    }
+  };
+
   // Toggle UTXO selection
   const toggleSelection = (utxo: EnhancedUTXO) => {
+    if (isFrozen(utxo)) return;
+
     const isSelected = selectedUtxos.some((u) => u.txid === utxo.txid && u.vout === utxo.vout);
     if (isSelected) {
       setSelectedUtxos(
@@ -265,7 +286,7 @@ export function UTXOSelector({
 
   // Select all UTXOs (limited by maxInputs)
   const selectAll = () => {
-    const filteredUTXOs = getSortedFilteredUTXOs();
+    const filteredUTXOs = getSortedFilteredUTXOs().filter((utxo) => !isFrozen(utxo));
     const limitedSelection = filteredUTXOs.slice(0, maxInputs);
     setSelectedUtxos(limitedSelection);
   };
@@ -556,17 +577,21 @@ export function UTXOSelector({
             const isSelected = selectedUtxos.some(
               (u) => u.txid === utxo.txid && u.vout === utxo.vout,
             );
+            const utxoFrozen = isFrozen(utxo);
+            const label =
+              labels[LabelService.key('output', LabelService.outputRef(utxo.txid, utxo.vout))];
             return (
               <Card
                 key={`${utxo.txid}-${utxo.vout}`}
                 onClick={() => toggleSelection(utxo)}
-                className={`cursor-pointer transition-colors hover:bg-accent/50 ${isSelected ? 'border-primary bg-primary/10' : ''
+                className={`transition-colors ${utxoFrozen ? 'opacity-60' : 'cursor-pointer hover:bg-accent/50'} ${isSelected ? 'border-primary bg-primary/10' : ''
                   }`}
               >
                 <CardContent className="p-3 flex items-center space-x-3">
                   {/* Selection checkbox */}
                   <Checkbox
                     checked={isSelected}
+                    disabled={utxoFrozen}
                     onCheckedChange={() => toggleSelection(utxo)}
                     className="pointer-events-none"
                   />
@@ -575,6 +600,14 @@ export function UTXOSelector({
                   <div className="flex-1">
                     <div className="flex items-center justify-between">
                       <span className="font-medium text-sm">{formatAVN(utxo.value)} AVN</span>
+                      {utxoFrozen && (
+                        <Badge
+                          variant="outline"
+                          className="bg-sky-100 dark:bg-sky-900/30 text-sky-800 dark:text-sky-200 border-sky-200 dark:border-sky-800"
+                        >
+                          Frozen
+                        </Badge>
+                      )}
                       <Badge
                         variant={utxo.isDust ? 'outline' : 'secondary'}
                         className={
@@ -599,7 +632,25 @@ export function UTXOSelector({
                         {getConfirmationStatus(utxo)}
                       </span>
                     </div>
+                    {label && (
+                      <div className="text-xs text-muted-foreground mt-1 truncate">{label}</div>
+                    )}
                   </div>
+
+                  {/* Freeze toggle */}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className={`h-8 w-8 flex-shrink-0 ${utxoFrozen ? 'text-sky-600 dark:text-sky-400' : 'text-muted-foreground'}`}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      toggleFrozen(utxo);
+                    }}
+                    title={utxoFrozen ? 'Unfreeze coin' : 'Freeze coin (do not spend)'}
+                    aria-label={utxoFrozen ? 'Unfreeze coin' : 'Freeze coin'}
+                  >
+                    <Snowflake className="w-4 h-4" />
+                  </Button>
                 </CardContent>
               </Card>
             );
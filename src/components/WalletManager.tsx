@@ -202,7 +202,7 @@ function WalletCard({
                       <Lock className="h-3 w-3 mr-0.5" /> Encrypted
                     </Badge>
                   )}
-                  {wallet.mnemonic && (
+                  {(wallet.mnemonic || wallet.xpub) && (
                     <Badge
                       variant="outline"
                       className="bg-green-100 text-green-800 border-green-200 dark:bg-green-900/30 dark:text-green-300 dark:border-green-700 h-5 px-1.5 text-xs"
@@ -210,6 +210,14 @@ function WalletCard({
                       <Shield className="h-3 w-3 mr-0.5" /> HD Wallet
                     </Badge>
                   )}
+                  {wallet.isWatchOnly && (
+                    <Badge
+                      variant="outline"
+                      className="bg-slate-100 text-slate-800 border-slate-200 dark:bg-slate-900/30 dark:text-slate-300 dark:border-slate-700 h-5 px-1.5 text-xs"
+                    >
+                      <Eye className="h-3 w-3 mr-0.5" /> Watch-only
+                    </Badge>
+                  )}
                 </div>
               </div>
 
@@ -308,6 +316,8 @@ export function WalletManager({ onWalletSelect, onClose }: WalletManagerProps) {
   const [editingWalletId, setEditingWalletId] = useState<number | null>(null);
   const [editingWalletName, setEditingWalletName] = useState('');
   const [isUpdatingName, setIsUpdatingName] = useState(false);
+  const [watchOnlyName, setWatchOnlyName] = useState('');
+  const [watchOnlyAddress, setWatchOnlyAddress] = useState('');
 
   // Password validation helper
   const validatePassword = (password: string, confirmPassword: string): string | null => {
@@ -590,6 +600,49 @@ export function WalletManager({ onWalletSelect, onClose }: WalletManagerProps) {
     }
   };
 
+  const handleImportWatchOnly = async () => {
+    if (!watchOnlyName.trim() || !watchOnlyAddress.trim()) return;
+
+    try {
+      setIsCreating(true);
+
+      const { WalletService } = await import('@/services/wallet/WalletService');
+      const walletService = new WalletService();
+
+      const source = watchOnlyAddress.trim();
+      const newWallet = source.startsWith('xpub')
+        ? await walletService.importXpubWallet({
+            name: watchOnlyName.trim(),
+            xpub: source,
+            makeActive: true,
+          })
+        : await walletService.importWatchOnlyWallet({
+            name: watchOnlyName.trim(),
+            address: source,
+            makeActive: true,
+          });
+
+      await loadWallets();
+      await reloadActiveWallet();
+      setWatchOnlyName('');
+      setWatchOnlyAddress('');
+
+      if (onWalletSelect) {
+        onWalletSelect(newWallet);
+      }
+
+      toast.success('Watch-only wallet added', {
+        description: `${newWallet.name} can build transactions for offline signing.`,
+      });
+    } catch (error) {
+      toast.error('Failed to add watch-only wallet', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
   const handleImportMnemonic = async () => {
     if (!importWalletName.trim() || !importMnemonic.trim()) return;
 
@@ -860,9 +913,10 @@ export function WalletManager({ onWalletSelect, onClose }: WalletManagerProps) {
 
           <TabsContent value="import" className="mt-4">
             <Tabs defaultValue="private-key" className="w-full">
-              <TabsList className="grid w-full grid-cols-2">
+              <TabsList className="grid w-full grid-cols-3">
                 <TabsTrigger value="private-key">Private Key</TabsTrigger>
                 <TabsTrigger value="mnemonic">Recovery Phrase</TabsTrigger>
+                <TabsTrigger value="watch-only">Watch-only</TabsTrigger>
               </TabsList>
 
               <TabsContent value="private-key">
@@ -949,6 +1003,42 @@ export function WalletManager({ onWalletSelect, onClose }: WalletManagerProps) {
                   isSubmitting={isCreating}
                 />
               </TabsContent>
+
+              <TabsContent value="watch-only">
+                <div className="space-y-4 pt-2">
+                  <p className="text-sm text-muted-foreground">
+                    Track an address or an account xpub whose keys are kept on an offline device.
+                    Payments are exported unsigned and signed on that device.
+                  </p>
+                  <div className="space-y-2">
+                    <Label htmlFor="watchOnlyName">Wallet Name</Label>
+                    <Input
+                      id="watchOnlyName"
+                      value={watchOnlyName}
+                      onChange={(e) => setWatchOnlyName(e.target.value)}
+                      placeholder="Treasury (cold)"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="watchOnlyAddress">Address or xpub</Label>
+                    <Input
+                      id="watchOnlyAddress"
+                      value={watchOnlyAddress}
+                      onChange={(e) => setWatchOnlyAddress(e.target.value)}
+                      placeholder="R... or xpub..."
+                      className="font-mono"
+                    />
+                  </div>
+                  <Button
+                    onClick={handleImportWatchOnly}
+                    disabled={isCreating || !watchOnlyName.trim() || !watchOnlyAddress.trim()}
+                    className="w-full"
+                  >
+                    <Eye className="h-4 w-4 mr-2" />
+                    {isCreating ? 'Adding...' : 'Add Watch-only Wallet'}
+                  </Button>
+                </div>
+              </TabsContent>
             </Tabs>
           </TabsContent>
         </Tabs>
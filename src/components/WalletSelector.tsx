@@ -23,6 +23,7 @@ interface WalletData {
     address: string;
     isActive: boolean;
     isEncrypted: boolean;
+    isWatchOnly?: boolean;
     balance?: number;
 }
 
@@ -331,6 +332,7 @@ export function WalletSelector() {
                                 </span>
                                 <span className="text-xs text-muted-foreground">
                                     {formatAddress(currentWallet.address)}
+                                    {currentWallet.isWatchOnly && ' · Watch-only'}
                                 </span>
                                 {currentWallet.balance !== undefined && (
                                     <span className="text-xs text-muted-foreground">
@@ -410,6 +412,7 @@ export function WalletSelector() {
                                             </span>
                                             <span className="text-xs text-muted-foreground">
                                                 {formatAddress(wallet.address)}
+                                                {wallet.isWatchOnly && ' · Watch-only'}
                                             </span>
                                         </div>
                                     </DropdownMenuItem>
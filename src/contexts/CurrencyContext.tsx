@@ -0,0 +1,100 @@
+'use client';
+
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { PriceService } from '@/services/data/PriceService';
+import { DailyPrices, FiatCurrency } from '@/types/price';
+import { priceLogger } from '@/lib/Logger';
+
+// Refresh every 15 minutes to respect CoinGecko rate limits
+const PRICE_UPDATE_INTERVAL = 15 * 60 * 1000;
+
+interface CurrencyContextType {
+  currency: FiatCurrency;
+  price: number | null; // Price of 1 AVN in `currency`
+  change24h: number | null;
+  lastUpdated: Date | null;
+  setCurrency: (currency: FiatCurrency) => Promise<void>;
+  refreshPrice: () => Promise<void>;
+  // Fiat value of an AVN amount at the current price, or at `price` when given
+  formatFiatValue: (avn: number, price?: number | null) => string | null;
+  getHistoricalPrices: (dates: Date[]) => Promise<DailyPrices>;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export function CurrencyProvider({ children }: { children: React.ReactNode }) {
+  const [currency, setCurrencyState] = useState<FiatCurrency>(PriceService.DEFAULT_CURRENCY);
+  const [price, setPrice] = useState<number | null>(null);
+  const [change24h, setChange24h] = useState<number | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  const loadPrice = useCallback(async (quoteCurrency: FiatCurrency, forceFresh = false) => {
+    try {
+      const priceData = await PriceService.getAvnPrice(forceFresh, quoteCurrency);
+      setPrice(priceData?.price ?? null);
+      setChange24h(priceData?.change24h ?? null);
+      setLastUpdated(priceData?.lastUpdated ?? null);
+    } catch (error) {
+      priceLogger.error('Failed to load AVN price:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    PriceService.getCurrency().then(setCurrencyState);
+  }, []);
+
+  useEffect(() => {
+    loadPrice(currency);
+    const interval = setInterval(() => loadPrice(currency), PRICE_UPDATE_INTERVAL);
+    return () => clearInterval(interval);
+  }, [currency, loadPrice]);
+
+  const setCurrency = async (newCurrency: FiatCurrency) => {
+    await PriceService.setCurrency(newCurrency);
+    setPrice(null);
+    setCurrencyState(newCurrency);
+    window.dispatchEvent(new CustomEvent('currency-changed', { detail: newCurrency }));
+  };
+
+  const refreshPrice = async () => {
+    await loadPrice(currency, true);
+  };
+
+  const formatFiatValue = useCallback(
+    (avn: number, atPrice: number | null = price) =>
+      atPrice === null || atPrice === undefined
+        ? null
+        : PriceService.formatFiat(avn * atPrice, currency),
+    [price, currency],
+  );
+
+  const getHistoricalPrices = useCallback(
+    (dates: Date[]) => PriceService.getHistoricalPrices(dates, currency),
+    [currency],
+  );
+
+  return (
+    <CurrencyContext.Provider
+      value={{
+        currency,
+        price,
+        change24h,
+        lastUpdated,
+        setCurrency,
+        refreshPrice,
+        formatFiatValue,
+        getHistoricalPrices,
+      }}
+    >
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+}
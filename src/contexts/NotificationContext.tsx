@@ -278,7 +278,7 @@ export const NotificationProvider = ({ children }: NotificationProviderProps) =>
         setCurrentAvnPrice(priceData.price);
         setPriceLastUpdated(priceData.lastUpdated);
 
-        const lastKnownPrice = PriceService.getLastKnownPrice();
+        const lastKnownPrice = PriceService.getLastKnownPrice(priceData.currency);
 
         // Check for significant price changes - but only after the first fetch
         if (
@@ -299,14 +299,14 @@ export const NotificationProvider = ({ children }: NotificationProviderProps) =>
 
           showNotification(
             `AVN Price ${direction === 'up' ? 'Up' : 'Down'} ${Math.abs(percentChange).toFixed(2)}%`,
-            `AVN price is now $${priceData.price.toFixed(8)} (${direction === 'up' ? '+' : ''}${percentChange.toFixed(2)}%)`,
+            `AVN price is now ${PriceService.formatPrice(priceData.price, priceData.currency)} (${direction === 'up' ? '+' : ''}${percentChange.toFixed(2)}%)`,
             '/icons/icon-192x192.png',
             address, // Use wallet address from context to check notification settings
           );
         }
 
         // Update stored price
-        PriceService.saveLastKnownPrice(priceData.price);
+        PriceService.saveLastKnownPrice(priceData.price, priceData.currency);
 
         // After first fetch, set flag to false so notifications can be sent on subsequent fetches
         if (isFirstPriceFetchRef.current) {
@@ -345,6 +345,17 @@ export const NotificationProvider = ({ children }: NotificationProviderProps) =>
     };
   }, [fetchPrice, PRICE_UPDATE_INTERVAL]);
 
+  // Re-quote the price when the display currency changes, without a price alert
+  useEffect(() => {
+    const handleCurrencyChanged = () => {
+      isFirstPriceFetchRef.current = true;
+      fetchPrice(true);
+    };
+
+    window.addEventListener('currency-changed', handleCurrencyChanged);
+    return () => window.removeEventListener('currency-changed', handleCurrencyChanged);
+  }, [fetchPrice]);
+
   // Monitor for balance changes
   useEffect(() => {
     // Log entry to this effect to track execution
@@ -945,7 +956,7 @@ export const NotificationProvider = ({ children }: NotificationProviderProps) =>
         setPriceLastUpdated(priceData.lastUpdated);
 
         // Update stored price
-        PriceService.saveLastKnownPrice(priceData.price);
+        PriceService.saveLastKnownPrice(priceData.price, priceData.currency);
 
         return priceData.price;
       }
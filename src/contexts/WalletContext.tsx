@@ -15,6 +15,10 @@ import { StorageService } from '@/services/core/StorageService';
 import { TransactionClientService } from '@/services/notifications/client/TransactionClientService';
 import { CoinSelectionStrategy, EnhancedUTXO } from '@/services/wallet/UTXOSelectionService';
 import { walletContextLogger } from '@/lib/Logger';
+import { AssetIssueRequest } from '@/types/assets';
+import { MultisigProposal } from '@/types/multisig';
+import { ElectrumServer } from '@/types/electrum';
+import { PaymentRecipient } from '@/types/batchPayment';
 
 interface WalletContextType {
   wallet: WalletService | null;
@@ -22,6 +26,7 @@ interface WalletContextType {
   balance: number;
   address: string;
   isEncrypted: boolean;
+  isWatchOnly: boolean;
   isLoading: boolean;
   isConnected: boolean;
   serverInfo: { url: string; servers: any[] };
@@ -60,6 +65,32 @@ interface WalletContextType {
       subtractFeeFromAmount?: boolean;
     },
   ) => Promise<string>;
+  sendBatchTransaction: (
+    recipients: PaymentRecipient[],
+    password?: string,
+    options?: {
+      strategy?: CoinSelectionStrategy;
+      feeRate?: number;
+      maxInputs?: number;
+      minConfirmations?: number;
+      changeAddress?: string;
+    },
+  ) => Promise<string>;
+  bumpTransactionFee: (txid: string, feeRate: number, password?: string) => Promise<string>;
+  accelerateTransaction: (txid: string, feeRate: number, password?: string) => Promise<string>;
+  sendAsset: (
+    toAddress: string,
+    assetName: string,
+    amount: number,
+    password?: string,
+    options?: { feeRate?: number; changeAddress?: string },
+  ) => Promise<string>;
+  issueAsset: (
+    request: AssetIssueRequest,
+    password?: string,
+    options?: { feeRate?: number },
+  ) => Promise<string>;
+  finalizeMultisigProposal: (proposal: MultisigProposal) => Promise<string>;
   updateBalance: () => Promise<void>;
   refreshTransactionHistory: () => Promise<void>;
   cleanupMisclassifiedTransactions: () => Promise<number>;
@@ -69,12 +100,19 @@ interface WalletContextType {
   ) => Promise<number>;
   encryptWallet: (password: string) => Promise<void>;
   decryptWallet: (password: string) => Promise<void>;
+  changePassword: (
+    currentPassword: string,
+    newPassword: string,
+    options?: { allWallets?: boolean },
+  ) => Promise<number>;
   exportPrivateKey: (password?: string) => Promise<string>;
   exportMnemonic: (password?: string) => Promise<string | null>;
+  exportAccountXpub: (password?: string) => Promise<string>;
   validateMnemonic: (mnemonic: string) => Promise<boolean>;
   connectToElectrum: () => Promise<void>;
   disconnectFromElectrum: () => Promise<void>;
   selectElectrumServer: (index: number) => Promise<void>;
+  updateElectrumServers: (servers: ElectrumServer[] | null) => Promise<void>;
   testConnection: () => Promise<boolean>;
   reloadActiveWallet: () => Promise<void>;
   deriveAddressesWithBalances: (
@@ -123,6 +161,7 @@ export function WalletProvider({ children }: WalletProviderProps) {
   const [balance, setBalance] = useState<number>(0); // Initially 0, but will update early with last known balance
   const [address, setAddress] = useState<string>('');
   const [isEncrypted, setIsEncrypted] = useState<boolean>(false);
+  const [isWatchOnly, setIsWatchOnly] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [isConnected, setIsConnected] = useState<boolean>(false);
   const [serverInfo, setServerInfo] = useState<{ url: string; servers: any[] }>({
@@ -140,8 +179,11 @@ export function WalletProvider({ children }: WalletProviderProps) {
     try {
       setIsLoading(true);
 
-      // Create shared ElectrumService instance
-      const electrumService = new ElectrumService();
+      // Create shared ElectrumService instance, using the user's servers if they saved any
+      const savedServers = await StorageService.getElectrumServers();
+      const electrumService = new ElectrumService(
+        savedServers?.length ? { servers: savedServers } : undefined,
+      );
       setElectrum(electrumService);
 
       // Create WalletService with shared ElectrumService
@@ -166,6 +208,7 @@ export function WalletProvider({ children }: WalletProviderProps) {
       if (activeWallet) {
         setAddress(activeWallet.address);
         setIsEncrypted(activeWallet.isEncrypted);
+        setIsWatchOnly(!!activeWallet.isWatchOnly);
 
         // Set last known balance from local storage before fetching from server
         // This gives users immediate feedback instead of seeing 0
@@ -197,6 +240,7 @@ export function WalletProvider({ children }: WalletProviderProps) {
         // Clear any existing wallet state
         setAddress('');
         setIsEncrypted(false);
+        setIsWatchOnly(false);
         setBalance(0);
       }
 
@@ -445,13 +489,158 @@ export function WalletProvider({ children }: WalletProviderProps) {
     }
   };
 
+  const sendBatchTransaction = async (
+    recipients: PaymentRecipient[],
+    password?: string,
+    options?: {
+      strategy?: CoinSelectionStrategy;
+      feeRate?: number;
+      maxInputs?: number;
+      minConfirmations?: number;
+      changeAddress?: string;
+    },
+  ): Promise<string> => {
+    if (!wallet) throw new Error('Wallet service not initialized');
+
+    try {
+      setIsLoading(true);
+      const txId = await wallet.sendBatchTransaction(recipients, password, options);
+
+      // Immediately update balance
+      await updateBalance();
+
+      // Schedule a delayed refresh to account for network propagation
+      refreshAfterTransaction(1500);
+
+      return txId;
+    } catch (error) {
+      walletContextLogger.error('Failed to send batch transaction:', error);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const bumpTransactionFee = async (
+    txid: string,
+    feeRate: number,
+    password?: string,
+  ): Promise<string> => {
+    if (!wallet) throw new Error('Wallet service not initialized');
+
+    try {
+      setIsLoading(true);
+      const newTxId = await wallet.bumpTransactionFee(txid, feeRate, password);
+
+      await updateBalance();
+      refreshAfterTransaction(1500);
+
+      return newTxId;
+    } catch (error) {
+      walletContextLogger.error('Failed to bump transaction fee:', error);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const accelerateTransaction = async (
+    txid: string,
+    feeRate: number,
+    password?: string,
+  ): Promise<string> => {
+    if (!wallet) throw new Error('Wallet service not initialized');
+
+    try {
+      setIsLoading(true);
+      const childTxId = await wallet.accelerateWithCPFP(txid, feeRate, password);
+
+      await updateBalance();
+      refreshAfterTransaction(1500);
+
+      return childTxId;
+    } catch (error) {
+      walletContextLogger.error('Failed to accelerate transaction:', error);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const sendAsset = async (
+    toAddress: string,
+    assetName: string,
+    amount: number,
+    password?: string,
+    options?: { feeRate?: number; changeAddress?: string },
+  ): Promise<string> => {
+    if (!wallet) throw new Error('Wallet service not initialized');
+
+    try {
+      setIsLoading(true);
+      const txId = await wallet.sendAsset(toAddress, assetName, amount, password, options);
+
+      await updateBalance();
+      refreshAfterTransaction(1500);
+
+      return txId;
+    } catch (error) {
+      walletContextLogger.error('Failed to send asset:', error);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const issueAsset = async (
+    request: AssetIssueRequest,
+    password?: string,
+    options?: { feeRate?: number },
+  ): Promise<string> => {
+    if (!wallet) throw new Error('Wallet service not initialized');
+
+    try {
+      setIsLoading(true);
+      const txId = await wallet.issueAsset(request, password, options);
+
+      await updateBalance();
+      refreshAfterTransaction(1500);
+
+      return txId;
+    } catch (error) {
+      walletContextLogger.error('Failed to issue asset:', error);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const finalizeMultisigProposal = async (proposal: MultisigProposal): Promise<string> => {
+    if (!wallet) throw new Error('Wallet service not initialized');
+
+    try {
+      setIsLoading(true);
+      const txId = await wallet.finalizeMultisigProposal(proposal);
+
+      await updateBalance();
+      refreshAfterTransaction(1500);
+
+      return txId;
+    } catch (error) {
+      walletContextLogger.error('Failed to finalize multisig transaction:', error);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const updateBalance = useCallback(async () => {
     if (!wallet || !address) return;
 
     try {
-      // Force a fresh balance check from the Electrum server
+      // Force a fresh balance check from the Electrum server across every wallet address
       // Adding a forceRefresh parameter to bypass any caching
-      const newBalance = await wallet.getBalance(address, true);
+      const newBalance = await wallet.getWalletBalance(address, true);
 
       // Update the balance in the UI
       setBalance(newBalance);
@@ -516,6 +705,21 @@ export function WalletProvider({ children }: WalletProviderProps) {
     }
   };
 
+  const changePassword = async (
+    currentPassword: string,
+    newPassword: string,
+    options?: { allWallets?: boolean },
+  ): Promise<number> => {
+    if (!wallet) throw new Error('Wallet service not initialized');
+
+    try {
+      return await wallet.changePassword(currentPassword, newPassword, options);
+    } catch (error) {
+      walletContextLogger.error('Failed to change wallet password:', error);
+      throw error;
+    }
+  };
+
   const exportPrivateKey = async (password?: string): Promise<string> => {
     if (!wallet) throw new Error('Wallet service not initialized');
 
@@ -538,6 +742,17 @@ export function WalletProvider({ children }: WalletProviderProps) {
     }
   };
 
+  const exportAccountXpub = async (password?: string): Promise<string> => {
+    if (!wallet) throw new Error('Wallet service not initialized');
+
+    try {
+      return await wallet.exportAccountXpub(password);
+    } catch (error) {
+      walletContextLogger.error('Failed to export xpub:', error);
+      throw error;
+    }
+  };
+
   const validateMnemonic = async (mnemonic: string): Promise<boolean> => {
     if (!wallet) throw new Error('Wallet service not initialized');
 
@@ -594,6 +809,25 @@ export function WalletProvider({ children }: WalletProviderProps) {
     }
   };
 
+  // Save the server list (null restores the defaults) and switch every connection to it
+  const updateElectrumServers = async (servers: ElectrumServer[] | null) => {
+    if (!wallet) throw new Error('Wallet service not initialized');
+
+    try {
+      setIsLoading(true);
+      await StorageService.setElectrumServers(servers);
+      await wallet.setElectrumServers(servers || ElectrumService.getDefaultServers());
+      setIsConnected(wallet.isConnectedToElectrum());
+      setServerInfo(wallet.getElectrumServerInfo());
+      window.dispatchEvent(new CustomEvent('electrum-servers-updated'));
+    } catch (error) {
+      walletContextLogger.error('Failed to update ElectrumX servers:', error);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const testConnection = async (): Promise<boolean> => {
     if (!wallet) throw new Error('Wallet service not initialized');
 
@@ -619,6 +853,7 @@ export function WalletProvider({ children }: WalletProviderProps) {
       if (activeWallet) {
         setAddress(activeWallet.address);
         setIsEncrypted(activeWallet.isEncrypted);
+        setIsWatchOnly(!!activeWallet.isWatchOnly);
 
         // Update balance for new active wallet
         if (wallet) {
@@ -649,7 +884,7 @@ export function WalletProvider({ children }: WalletProviderProps) {
 
           // Get the balance for the newly active wallet
           // Force refresh to ensure we get the latest balance from the server
-          const newBalance = await wallet.getBalance(activeWallet.address, true);
+          const newBalance = await wallet.getWalletBalance(activeWallet.address, true);
           setBalance(newBalance);
 
           // Save the initial balance for this wallet if we're switching to it
@@ -709,7 +944,7 @@ export function WalletProvider({ children }: WalletProviderProps) {
                 // Update balance again after refreshing transactions
                 // Force refresh to ensure we get the latest balance from the server
                 wallet
-                  .getBalance(activeWallet.address, true)
+                  .getWalletBalance(activeWallet.address, true)
                   .then(async (finalBalance) => {
                     setBalance(finalBalance);
 
@@ -740,6 +975,7 @@ export function WalletProvider({ children }: WalletProviderProps) {
       } else {
         setAddress('');
         setIsEncrypted(false);
+        setIsWatchOnly(false);
         setBalance(0);
       }
     } catch (error) {
@@ -882,6 +1118,7 @@ export function WalletProvider({ children }: WalletProviderProps) {
     balance,
     address,
     isEncrypted,
+    isWatchOnly,
     isLoading,
     isConnected,
     serverInfo,
@@ -890,14 +1127,23 @@ export function WalletProvider({ children }: WalletProviderProps) {
     restoreWallet,
     sendTransaction,
     sendTransactionWithManualUTXOs,
+    sendBatchTransaction,
+    bumpTransactionFee,
+    accelerateTransaction,
+    sendAsset,
+    issueAsset,
+    finalizeMultisigProposal,
     updateBalance,
     encryptWallet,
     decryptWallet,
+    changePassword,
     exportPrivateKey,
     exportMnemonic,
+    exportAccountXpub,
     connectToElectrum,
     disconnectFromElectrum,
     selectElectrumServer,
+    updateElectrumServers,
     testConnection,
     restoreWalletFromMnemonic,
     validateMnemonic,
@@ -1,4 +1,5 @@
 import { ElectrumService } from '@/services/core/ElectrumService';
+import { StorageService } from '@/services/core/StorageService';
 import { electrumLogger } from '@/lib/Logger';
 
 /**
@@ -14,6 +15,14 @@ export class ElectrumBridge {
   private constructor() {
     this.service = new ElectrumService();
     this.init();
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('electrum-servers-updated', () => {
+        this.applySavedServers().catch((error) => {
+          electrumLogger.error('Failed to apply updated Electrum servers:', error);
+        });
+      });
+    }
   }
 
   public static getInstance(): ElectrumBridge {
@@ -29,7 +38,11 @@ export class ElectrumBridge {
   private async init(): Promise<void> {
     try {
       if (!this.isInitialized) {
-        // First select the best server
+        // First select the best of the user's servers, or of the defaults
+        const savedServers = await StorageService.getElectrumServers();
+        if (savedServers?.length) {
+          this.service.setServers(savedServers);
+        }
         await this.service.selectBestServer();
 
         // Then connect to it
@@ -42,6 +55,23 @@ export class ElectrumBridge {
     }
   }
 
+  /**
+   * Switch to the server list saved in settings, reconnecting if the current server was removed
+   */
+  private async applySavedServers(): Promise<void> {
+    const savedServers = await StorageService.getElectrumServers();
+    this.service.setServers(
+      savedServers?.length ? savedServers : ElectrumService.getDefaultServers(),
+    );
+
+    if (this.isInitialized && !this.service.isConnectedToServer()) {
+      await this.service.connect();
+      if (this.addressCallbacks.size > 0) {
+        await this.reestablishSubscriptions();
+      }
+    }
+  }
+
   /**
    * Ensure connection to the ElectrumService
    * If reconnecting, reestablish any active subscriptions
@@ -210,6 +240,14 @@ export class ElectrumBridge {
     }
   }
 
+  /**
+   * Gets a raw transaction as hex
+   */
+  public async getTransactionHex(txid: string): Promise<string> {
+    await this.ensureConnected();
+    return this.service.getTransaction(txid, false);
+  }
+
   /**
    * Change the ElectrumX server while preserving subscriptions
    * @param serverIndex - Index of the server to connect to
@@ -56,6 +56,9 @@ export class BackupService {
           privateKey: wallet.privateKey,
           mnemonic: wallet.mnemonic,
           isEncrypted: wallet.isEncrypted,
+          ...(wallet.isWatchOnly && { isWatchOnly: true }),
+          ...(wallet.xpub && { xpub: wallet.xpub }),
+          ...(wallet.multisig && { multisig: wallet.multisig }),
           isActive: wallet.isActive,
           createdAt: wallet.createdAt ? new Date(wallet.createdAt).getTime() : Date.now(),
           lastAccessed: wallet.lastAccessed ? new Date(wallet.lastAccessed).getTime() : Date.now(),
@@ -123,6 +126,9 @@ export class BackupService {
           timestamp,
           confirmations: tx.confirmations || 0,
           blockHeight: tx.blockHeight,
+          walletAddress: tx.walletAddress,
+          memo: tx.memo,
+          category: tx.category,
         };
       });
 
@@ -141,6 +147,9 @@ export class BackupService {
         script_hash: addr.script_hash,
       }));
 
+      // Get payment requests
+      const invoices = await StorageService.getInvoices();
+
       // Get security audit log
       const auditLog = allSettings.security_audit_log || [];
       const backupAuditLog = auditLog.map((entry: any) => {
@@ -173,6 +182,7 @@ export class BackupService {
         transactions: backupTransactions,
         auditLog: backupAuditLog,
         watchedAddresses: backupWatchedAddresses,
+        invoices,
       };
 
       this.backupLogger.debug('Full backup created successfully', {
@@ -180,6 +190,7 @@ export class BackupService {
         addressesCount: backupAddresses.length,
         transactionsCount: backupTransactions.length,
         watchedAddressesCount: backupWatchedAddresses.length,
+        invoicesCount: invoices.length,
       });
       return backup;
     } catch (error) {
@@ -359,6 +370,12 @@ export class BackupService {
       watchedAddressesCount = backup.watchedAddresses.length;
     }
 
+    // Validate payment requests
+    let invoicesCount = 0;
+    if (Array.isArray(backup.invoices)) {
+      invoicesCount = backup.invoices.length;
+    }
+
     // Check timestamp validity
     if (backup.timestamp && backup.timestamp > Date.now()) {
       warnings.push('Backup timestamp is in the future');
@@ -375,6 +392,7 @@ export class BackupService {
       transactionsCount,
       auditLogCount,
       watchedAddressesCount,
+      invoicesCount,
     };
 
     if (errors.length > 0) {
@@ -420,6 +438,7 @@ export class BackupService {
         backup.watchedAddresses.length > 0
       )
         totalSteps++;
+      if (options.includeInvoices && backup.invoices && backup.invoices.length > 0) totalSteps++;
 
       // Restore wallets
       if (options.includeWallets && backup.wallets.length > 0) {
@@ -443,6 +462,9 @@ export class BackupService {
             privateKey: wallet.privateKey,
             mnemonic: wallet.mnemonic,
             isEncrypted: wallet.isEncrypted,
+            isWatchOnly: wallet.isWatchOnly,
+            xpub: wallet.xpub,
+            multisig: wallet.multisig,
             makeActive: wallet.isActive,
           });
           this.backupLogger.debug('Restored wallet', {
@@ -520,13 +542,16 @@ export class BackupService {
           await StorageService.saveTransaction({
             txid: tx.txid,
             amount: tx.amount,
-            walletAddress: tx.address,
+            // Backups made before wallet addresses were recorded fall back to the counterparty
+            walletAddress: tx.walletAddress || tx.address,
             address: tx.address,
             fromAddress: tx.fromAddress,
             type: tx.type,
             timestamp: new Date(tx.timestamp),
             confirmations: tx.confirmations,
             blockHeight: tx.blockHeight,
+            memo: tx.memo,
+            category: tx.category,
           });
         }
         currentStep++;
@@ -600,6 +625,25 @@ export class BackupService {
         currentStep++;
       }
 
+      // Restore payment requests
+      if (options.includeInvoices && backup.invoices && backup.invoices.length > 0) {
+        onProgress?.('Restoring payment requests...', (currentStep / totalSteps) * 100);
+
+        // Keep requests made on this device unless they should be replaced
+        const existing = await StorageService.getInvoices();
+        const restoredIds = new Set(backup.invoices.map((invoice) => invoice.id));
+        const kept = options.overwriteExisting
+          ? existing.filter((invoice) => !restoredIds.has(invoice.id))
+          : existing;
+        const keptIds = new Set(kept.map((invoice) => invoice.id));
+
+        await StorageService.setInvoices([
+          ...kept,
+          ...backup.invoices.filter((invoice) => !keptIds.has(invoice.id)),
+        ]);
+        currentStep++;
+      }
+
       // Handle biometric information
       if (options.includeWallets && backup.wallets.length > 0) {
         // Create an array of wallets that had biometrics enabled in the backup
@@ -655,6 +699,7 @@ export class BackupService {
       transactions: [], // No transaction history for security
       auditLog: [], // No audit log for security
       watchedAddresses: [], // No watched addresses for security
+      invoices: [], // No payment requests for security
       metadata: {
         ...fullBackup.metadata,
         backupType: 'wallets-only',
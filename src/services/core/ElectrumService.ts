@@ -10,13 +10,6 @@ interface BalanceResponse {
   unconfirmed: number;
 }
 
-interface ElectrumServer {
-  host: string;
-  port: number;
-  protocol: 'wss' | 'ws' | 'tcp';
-  region?: string;
-}
-
 interface ElectrumRequest {
   id: number;
   method: string;
@@ -41,6 +34,16 @@ import * as bitcoin from 'bitcoinjs-lib';
 import { ECPairFactory } from 'ecpair';
 import * as ecc from 'tiny-secp256k1';
 import { electrumLogger } from '@/lib/Logger';
+import { AssetBalance, AssetMeta, AssetUTXO } from '@/types/assets';
+import {
+  ElectrumServer,
+  ElectrumServerHealth,
+  ElectrumServerStatus,
+  ElectrumTransport,
+  ElectrumTransportFactory,
+} from '@/types/electrum';
+import { MerkleProof } from '@/types/spv';
+import { createWebSocketTransport } from './ElectrumTransport';
 
 // ECPair factory for working with key pairs
 const ECPair = ECPairFactory(ecc);
@@ -58,10 +61,27 @@ const avianNetwork: bitcoin.Network = {
   wif: 0x80,
 };
 
+// Built-in Avian ElectrumX servers, used unless a server list is configured
+const DEFAULT_SERVERS: ElectrumServer[] = [
+  { host: 'electrum-us.avn.network', port: 50003, protocol: 'wss', region: 'US' },
+  { host: 'electrum-eu.avn.network', port: 50003, protocol: 'wss', region: 'EU' },
+  { host: 'electrum-ca.avn.network', port: 50003, protocol: 'wss', region: 'CA' },
+];
+
+const CLIENT_NAME = 'Avian FlightDeck Wallet 1.0';
+const PROTOCOL_VERSION = '1.4';
+
+// Health score weights, in milliseconds of latency each is worth
+const UNKNOWN_LATENCY_MS = 1000; // Assumed for servers not yet checked
+const FAILURE_PENALTY_MS = 5000; // Per consecutive failure
+const HEIGHT_LAG_PENALTY_MS = 2000; // Per block behind the best known tip
+const PRIORITY_STEP_MS = 250; // Per place down the user's server list
+
 export class ElectrumService {
   private servers: ElectrumServer[];
   private currentServer: ElectrumServer | null = null;
-  private websocket: WebSocket | null = null;
+  private transportFactory: ElectrumTransportFactory;
+  private transport: ElectrumTransport | null = null;
   private isConnected: boolean = false;
   private isConnecting: boolean = false;
   private requestId: number = 0;
@@ -74,19 +94,69 @@ export class ElectrumService {
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 5;
   private reconnectTimeout: NodeJS.Timeout | null = null;
+  private health: Map<string, ElectrumServerHealth> = new Map(); // Keyed by server URL
+  // server.version may only be sent once per connection, so its answer is kept
+  private versionHandshake: Promise<{ server: string; protocol: string }> | null = null;
 
-  constructor() {
-    // Array of Avian ElectrumX servers
-    this.servers = [
-      { host: 'electrum-us.avn.network', port: 50003, protocol: 'wss', region: 'US' },
-      { host: 'electrum-eu.avn.network', port: 50003, protocol: 'wss', region: 'EU' },
-      { host: 'electrum-ca.avn.network', port: 50003, protocol: 'wss', region: 'CA' },
-    ];
+  /**
+   * @param options.servers - Servers to choose from. Defaults to NEXT_PUBLIC_ELECTRUM_SERVERS
+   *   (comma-separated URLs such as wss://host:port) or the built-in Avian servers.
+   * @param options.transportFactory - Opens the connection to a server. Defaults to
+   *   WebSockets; Node code can pass createTcpTransport(), tests a MemoryTransport.
+   */
+  constructor(options?: {
+    servers?: ElectrumServer[];
+    transportFactory?: ElectrumTransportFactory;
+  }) {
+    this.servers = options?.servers || ElectrumService.getDefaultServers();
+    if (this.servers.length === 0) {
+      throw new Error('At least one Electrum server is required');
+    }
+    this.transportFactory = options?.transportFactory || createWebSocketTransport;
 
     // Select the first server as default
     this.currentServer = this.servers[0];
   }
 
+  /**
+   * Parse a server URL such as wss://host:50003 or tls://host:50002
+   */
+  static parseServerUrl(url: string, region?: string): ElectrumServer {
+    const match = url.trim().match(/^(wss|ws|tcp|tls):\/\/([^:/\s]+):(\d+)\/?$/);
+    if (!match) {
+      throw new Error(`Invalid Electrum server URL: ${url}`);
+    }
+    return {
+      host: match[2],
+      port: parseInt(match[3], 10),
+      protocol: match[1] as ElectrumServer['protocol'],
+      ...(region && { region }),
+    };
+  }
+
+  static formatServerUrl(server: ElectrumServer): string {
+    return `${server.protocol}://${server.host}:${server.port}`;
+  }
+
+  /**
+   * Servers used when the user has not saved their own list
+   */
+  static getDefaultServers(): ElectrumServer[] {
+    return ElectrumService.getConfiguredServers() || DEFAULT_SERVERS;
+  }
+
+  // Server list from NEXT_PUBLIC_ELECTRUM_SERVERS, or null when it is not set
+  private static getConfiguredServers(): ElectrumServer[] | null {
+    const configured = process.env.NEXT_PUBLIC_ELECTRUM_SERVERS;
+    if (!configured?.trim()) {
+      return null;
+    }
+    return configured
+      .split(',')
+      .filter((url) => url.trim())
+      .map((url) => ElectrumService.parseServerUrl(url));
+  }
+
   async connect(): Promise<void> {
     try {
       if (!this.currentServer) {
@@ -94,7 +164,7 @@ export class ElectrumService {
       }
 
       // Don't attempt to connect if already connected or connecting
-      if (this.isConnected && this.websocket) {
+      if (this.isConnected && this.transport) {
         return;
       }
 
@@ -106,65 +176,80 @@ export class ElectrumService {
       this.isConnecting = true;
 
       // Clean up any existing connection
-      if (this.websocket) {
-        this.websocket.close();
-        this.websocket = null;
+      if (this.transport) {
+        this.transport.close();
+        this.transport = null;
       }
 
-      const url = `${this.currentServer.protocol}://${this.currentServer.host}:${this.currentServer.port}`;
+      const url = this.getServerUrl();
       electrumLogger.debug(`Connecting to Electrum server: ${url}`);
 
-      return new Promise((resolve, reject) => {
-        this.websocket = new WebSocket(url);
-
-        this.websocket.onopen = () => {
-          this.isConnected = true;
-          this.isConnecting = false;
-          this.reconnectAttempts = 0;
-          electrumLogger.debug(`Connected to Electrum server: ${url}`);
-
-          resolve();
-        };
-
-        this.websocket.onclose = (event) => {
-          this.isConnected = false;
-          this.isConnecting = false;
-          electrumLogger.debug(
-            `WebSocket closed: code=${event.code}, reason=${event.reason || 'unknown'}`,
-          );
-
-          // Attempt to reconnect if not manually closed and not already reconnecting
-          if (
-            event.code !== 1000 &&
-            this.reconnectAttempts < this.maxReconnectAttempts &&
-            !this.isConnecting
-          ) {
-            this.attemptReconnect();
-          }
-        };
-
-        this.websocket.onerror = (error) => {
-          electrumLogger.error('WebSocket error:', error);
-          this.isConnected = false;
-          this.isConnecting = false;
-          reject(new Error('WebSocket connection failed'));
-        };
-
-        this.websocket.onmessage = (event) => {
-          this.handleMessage(event.data);
-        };
+      const server = this.currentServer;
+      const transport = this.transportFactory(server);
+      this.transport = transport;
+      this.versionHandshake = null;
 
+      return new Promise((resolve, reject) => {
         // Connection timeout
-        setTimeout(() => {
-          if (!this.isConnected && this.isConnecting) {
+        const timeout = setTimeout(() => {
+          if (!this.isConnected && this.isConnecting && this.transport === transport) {
             this.isConnecting = false;
-            this.websocket?.close();
+            this.recordFailure(server, new Error('Connection timeout'));
+            transport.close();
             reject(new Error('Connection timeout'));
           }
         }, 10000); // 10 second timeout
+
+        transport
+          .connect({
+            onMessage: (data) => {
+              if (this.transport === transport) {
+                this.handleMessage(data);
+              }
+            },
+            onClose: (code) => {
+              // Ignore connections that have since been replaced
+              if (this.transport !== transport) {
+                return;
+              }
+              const wasConnected = this.isConnected;
+              this.isConnected = false;
+              this.isConnecting = false;
+              if (wasConnected && code !== 1000) {
+                this.recordFailure(server, new Error(`Connection closed (code ${code})`));
+              }
+
+              // Attempt to reconnect if not manually closed and not already reconnecting
+              if (code !== 1000 && this.reconnectAttempts < this.maxReconnectAttempts) {
+                this.attemptReconnect();
+              }
+            },
+          })
+          .then(() => {
+            clearTimeout(timeout);
+            this.isConnected = true;
+            this.isConnecting = false;
+            this.reconnectAttempts = 0;
+            electrumLogger.debug(`Connected to Electrum server: ${url}`);
+            resolve();
+
+            this.refreshCurrentServerHealth().catch((error) => {
+              electrumLogger.warn('Failed to check server health:', error);
+            });
+          })
+          .catch((error) => {
+            clearTimeout(timeout);
+            this.isConnected = false;
+            this.isConnecting = false;
+            this.recordFailure(server, error);
+            reject(error);
+          });
       });
     } catch (error) {
       this.isConnecting = false;
+      if (this.currentServer) {
+        this.recordFailure(this.currentServer, error);
+      }
       electrumLogger.error('Failed to connect to Electrum server:', error);
       throw new Error('Connection failed');
     }
@@ -176,6 +261,7 @@ export class ElectrumService {
     }
 
     this.reconnectAttempts++;
+    this.failOver();
     const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 30000); // Exponential backoff, max 30s
 
     electrumLogger.debug(
@@ -216,13 +302,19 @@ export class ElectrumService {
         this.handleNotification(message);
       }
     } catch (error) {
-      electrumLogger.error('Error parsing WebSocket message:', error);
+      electrumLogger.error('Error parsing Electrum message:', error);
     }
   }
 
   private handleNotification(notification: ElectrumNotification): void {
     electrumLogger.debug(`Received notification: ${notification.method}`);
 
+    if (notification.method === 'blockchain.headers.subscribe' && this.currentServer) {
+      const [header] = notification.params;
+      this.recordHealth(this.currentServer, { height: header?.height ?? null });
+      return;
+    }
+
     if (notification.method === 'blockchain.scripthash.subscribe') {
       const [scripthash, status] = notification.params;
       const callback = this.subscriptions.get(scripthash);
@@ -251,6 +343,220 @@ export class ElectrumService {
     return this.currentServer;
   }
 
+  /**
+   * Replace the server list, e.g. with the user's saved servers, in priority order.
+   * The current server is kept if it is still listed; otherwise the first one is selected
+   * and the caller must reconnect.
+   */
+  setServers(servers: ElectrumServer[]): void {
+    if (servers.length === 0) {
+      throw new Error('At least one Electrum server is required');
+    }
+
+    const currentUrl = this.currentServer && ElectrumService.formatServerUrl(this.currentServer);
+    const current = servers.find(
+      (server) => ElectrumService.formatServerUrl(server) === currentUrl,
+    );
+    this.servers = servers;
+
+    if (current) {
+      this.currentServer = current;
+    } else {
+      if (this.isConnected) {
+        this.disconnect();
+      }
+      this.currentServer = servers[0];
+    }
+  }
+
+  getServerHealth(server: ElectrumServer): ElectrumServerHealth {
+    return (
+      this.health.get(ElectrumService.formatServerUrl(server)) || {
+        latency: null,
+        failures: 0,
+        height: null,
+        heightLag: null,
+        serverVersion: null,
+        protocolVersion: null,
+        lastChecked: null,
+      }
+    );
+  }
+
+  /**
+   * Health score of a server: latency plus penalties for failures, height lag and
+   * priority. Lower is healthier.
+   */
+  getHealthScore(server: ElectrumServer): number {
+    const health = this.getServerHealth(server);
+    return (
+      (health.latency ?? UNKNOWN_LATENCY_MS) +
+      health.failures * FAILURE_PENALTY_MS +
+      (health.heightLag ?? 0) * HEIGHT_LAG_PENALTY_MS +
+      Math.max(0, this.servers.indexOf(server)) * PRIORITY_STEP_MS
+    );
+  }
+
+  getServerStatuses(): ElectrumServerStatus[] {
+    return this.servers.map((server) => ({
+      server,
+      url: ElectrumService.formatServerUrl(server),
+      health: this.getServerHealth(server),
+      score: this.getHealthScore(server),
+      isCurrent: server === this.currentServer,
+    }));
+  }
+
+  /**
+   * Probe every server with a ping and a chain tip request
+   */
+  async checkServers(): Promise<ElectrumServerStatus[]> {
+    await Promise.all(this.servers.map((server) => this.checkServer(server)));
+    return this.getServerStatuses();
+  }
+
+  /**
+   * Probe one server over its own short-lived connection, or over the current
+   * connection when it is the connected server
+   */
+  async checkServer(server: ElectrumServer): Promise<ElectrumServerHealth> {
+    if (server === this.currentServer && this.isConnected) {
+      try {
+        await this.refreshCurrentServerHealth();
+      } catch (error) {
+        this.recordFailure(server, error);
+      }
+      return this.getServerHealth(server);
+    }
+
+    let transport: ElectrumTransport | null = null;
+    let timeout: NodeJS.Timeout | undefined;
+    try {
+      const connection = this.transportFactory(server);
+      transport = connection;
+
+      const pending = new Map<number, (message: ElectrumResponse) => void>();
+      const request = (id: number, method: string, params: any[]): Promise<any> =>
+        new Promise((resolve, reject) => {
+          pending.set(id, (message) =>
+            message.error ? reject(new Error(message.error.message)) : resolve(message.result),
+          );
+          connection.send(JSON.stringify({ id, method, params }));
+        });
+
+      const probe = async () => {
+        await connection.connect({
+          onMessage: (data) => {
+            const message = JSON.parse(data);
+            pending.get(message.id)?.(message);
+          },
+          onClose: () => {},
+        });
+
+        // A fresh connection negotiates the version once before it is probed
+        const [serverVersion, protocolVersion] = await request(1, 'server.version', [
+          CLIENT_NAME,
+          PROTOCOL_VERSION,
+        ]);
+        const started = Date.now();
+        await request(2, 'server.ping', []);
+        const latency = Date.now() - started;
+        const header = await request(3, 'blockchain.headers.subscribe', []);
+
+        this.recordHealth(server, {
+          latency,
+          failures: 0,
+          height: header?.height ?? null,
+          serverVersion,
+          protocolVersion,
+          lastError: undefined,
+        });
+      };
+
+      await Promise.race([
+        probe(),
+        new Promise((_, reject) => {
+          timeout = setTimeout(() => reject(new Error('Health check timeout')), 10000);
+        }),
+      ]);
+    } catch (error) {
+      this.recordFailure(server, error);
+    } finally {
+      clearTimeout(timeout);
+      transport?.close();
+    }
+    return this.getServerHealth(server);
+  }
+
+  // Ping and chain tip over the current connection, whose version was negotiated on connect
+  private async refreshCurrentServerHealth(): Promise<void> {
+    const server = this.currentServer;
+    if (!server) {
+      return;
+    }
+
+    const { server: serverVersion, protocol: protocolVersion } = await this.getServerVersion();
+    const started = Date.now();
+    await this.makeRequest('server.ping', []);
+    const latency = Date.now() - started;
+    const header = await this.makeRequest('blockchain.headers.subscribe', []);
+
+    this.recordHealth(server, {
+      latency,
+      failures: 0,
+      height: header?.height ?? null,
+      serverVersion,
+      protocolVersion,
+      lastError: undefined,
+    });
+  }
+
+  private recordHealth(server: ElectrumServer, update: Partial<ElectrumServerHealth>): void {
+    this.health.set(ElectrumService.formatServerUrl(server), {
+      ...this.getServerHealth(server),
+      ...update,
+      lastChecked: Date.now(),
+    });
+
+    // Lag is measured against the highest tip any server has reported
+    const heights = Array.from(this.health.values())
+      .map((health) => health.height)
+      .filter((height): height is number => height !== null);
+    const bestHeight = heights.length > 0 ? Math.max(...heights) : null;
+    this.health.forEach((health) => {
+      health.heightLag =
+        bestHeight !== null && health.height !== null ? bestHeight - health.height : null;
+    });
+  }
+
+  private recordFailure(server: ElectrumServer, error: unknown): void {
+    this.recordHealth(server, {
+      failures: this.getServerHealth(server).failures + 1,
+      lastError: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  // Switch to the healthiest server before reconnecting, if it is not the current one
+  private failOver(): void {
+    const best = this.getHealthiestServer();
+    if (best && best !== this.currentServer) {
+      electrumLogger.info(
+        `Failing over from ${this.getServerUrl()} to ${ElectrumService.formatServerUrl(best)}`,
+      );
+      this.currentServer = best;
+    }
+  }
+
+  private getHealthiestServer(): ElectrumServer | null {
+    let best: ElectrumServer | null = null;
+    for (const server of this.servers) {
+      if (!best || this.getHealthScore(server) < this.getHealthScore(best)) {
+        best = server;
+      }
+    }
+    return best;
+  }
+
   // Select server by index
   selectServer(index: number): void {
     if (index >= 0 && index < this.servers.length) {
@@ -298,12 +604,18 @@ export class ElectrumService {
     }
   }
 
-  // Auto-select best server (for future implementation)
+  // Probe every server and select the healthiest. The caller connects afterwards.
   async selectBestServer(): Promise<void> {
     try {
-      // For now, just select the first server
-      // In production, implement ping/latency testing
-      this.currentServer = this.servers[0];
+      await this.checkServers();
+      const best = this.getHealthiestServer();
+      if (best && best !== this.currentServer) {
+        if (this.isConnected) {
+          await this.disconnect();
+        }
+        this.currentServer = best;
+      }
+      electrumLogger.debug(`Best server: ${this.getServerUrl()}`);
     } catch (error) {
       electrumLogger.error('Failed to auto-select server:', error);
       throw error;
@@ -313,7 +625,7 @@ export class ElectrumService {
   // Get server URL for display
   getServerUrl(): string {
     if (!this.currentServer) return 'No server selected';
-    return `${this.currentServer.protocol}://${this.currentServer.host}:${this.currentServer.port}`;
+    return ElectrumService.formatServerUrl(this.currentServer);
   }
 
   async getBalance(address: string, forceRefresh: boolean = false): Promise<number> {
@@ -388,6 +700,81 @@ export class ElectrumService {
     }
   }
 
+  /**
+   * Get the asset balances held by an address, keyed by asset name
+   */
+  async getAssetBalances(address: string): Promise<AssetBalance[]> {
+    try {
+      const scriptHash = this.addressToScriptHash(address);
+      const response = await this.makeRequest('blockchain.scripthash.get_asset_balance', [
+        scriptHash,
+      ]);
+
+      const confirmed: Record<string, number> = response?.confirmed || {};
+      const unconfirmed: Record<string, number> = response?.unconfirmed || {};
+      const names = Array.from(new Set([...Object.keys(confirmed), ...Object.keys(unconfirmed)]));
+
+      return names.map((name) => ({
+        name,
+        confirmed: confirmed[name] || 0,
+        unconfirmed: unconfirmed[name] || 0,
+      }));
+    } catch (error) {
+      electrumLogger.error('Failed to get asset balances:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the unspent asset outputs of an address. Plain AVN outputs are left out.
+   */
+  async getAssetUTXOs(address: string): Promise<AssetUTXO[]> {
+    try {
+      const scriptHash = this.addressToScriptHash(address);
+      const response = await this.makeRequest('blockchain.scripthash.listunspent', [
+        scriptHash,
+        true,
+      ]);
+
+      return response
+        .filter((utxo: any) => typeof utxo.asset === 'string' && utxo.asset !== '')
+        .map((utxo: any) => ({
+          txid: utxo.tx_hash,
+          vout: utxo.tx_pos,
+          value: 0, // Asset outputs carry no AVN; `value` holds the asset amount here
+          height: utxo.height,
+          assetName: utxo.asset,
+          assetAmount: utxo.value,
+          address,
+        }));
+    } catch (error) {
+      electrumLogger.error('Failed to get asset UTXOs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the supply and settings of an asset, or null if no asset has that name
+   */
+  async getAssetMeta(assetName: string): Promise<AssetMeta | null> {
+    try {
+      const response = await this.makeRequest('blockchain.asset.get_meta', [assetName]);
+      if (!response || typeof response.sats_in_circulation !== 'number') {
+        return null;
+      }
+
+      return {
+        name: assetName,
+        supply: response.sats_in_circulation,
+        units: response.divisions,
+        reissuable: !!response.reissuable,
+      };
+    } catch (error) {
+      electrumLogger.error('Failed to get asset metadata:', error);
+      return null;
+    }
+  }
+
   async broadcastTransaction(txHex: string): Promise<string> {
     try {
       // Parse the transaction to validate its structure before broadcasting
@@ -455,13 +842,74 @@ export class ElectrumService {
     }
   }
 
+  /**
+   * Get the server's chain tip as its height and raw header hex
+   */
+  async getTipHeader(): Promise<{ height: number; hex: string }> {
+    try {
+      const { height, hex } = await this.makeRequest('blockchain.headers.subscribe', []);
+      return { height, hex };
+    } catch (error) {
+      electrumLogger.error('Failed to get tip header:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get up to `count` consecutive raw headers starting at `startHeight`, concatenated as hex.
+   * Servers cap the count (usually at 2016) and return fewer past the tip.
+   */
+  async getBlockHeaders(startHeight: number, count: number): Promise<string> {
+    try {
+      const result = await this.makeRequest('blockchain.block.headers', [startHeight, count]);
+      return result?.hex ?? '';
+    } catch (error) {
+      electrumLogger.error('Failed to get block headers:', error);
+      throw error;
+    }
+  }
+
+  async getBlockHeader(height: number): Promise<string> {
+    try {
+      return await this.makeRequest('blockchain.block.header', [height]);
+    } catch (error) {
+      electrumLogger.error('Failed to get block header:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the Merkle branch linking a transaction to the block at the given height
+   */
+  async getMerkleProof(txHash: string, height: number): Promise<MerkleProof> {
+    try {
+      const result = await this.makeRequest('blockchain.transaction.get_merkle', [txHash, height]);
+      return { blockHeight: result.block_height, merkle: result.merkle, pos: result.pos };
+    } catch (error) {
+      electrumLogger.error('Failed to get Merkle proof:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Server and protocol version, negotiated once per connection
+   */
   async getServerVersion(): Promise<{ server: string; protocol: string }> {
+    if (!this.versionHandshake) {
+      const handshake = this.makeRequest('server.version', [CLIENT_NAME, PROTOCOL_VERSION]).then(
+        ([server, protocol]: [string, string]) => ({ server, protocol }),
+      );
+      this.versionHandshake = handshake;
+      // Negotiate again after a failure, unless a new connection has started its own
+      handshake.catch(() => {
+        if (this.versionHandshake === handshake) {
+          this.versionHandshake = null;
+        }
+      });
+    }
+
     try {
-      const response = await this.makeRequest('server.version', [
-        'Avian FlightDeck Wallet 1.0',
-        '1.4',
-      ]);
-      return response;
+      return await this.versionHandshake;
     } catch (error) {
       electrumLogger.error('Failed to get server version:', error);
       throw error;
@@ -499,6 +947,47 @@ export class ElectrumService {
     }
   }
 
+  /**
+   * Ask the server for a fee estimate to confirm within the given number of blocks.
+   * Returns the fee rate in AVN per kilobyte, or -1 if the daemon has no estimate.
+   */
+  async estimateFee(blocks: number): Promise<number> {
+    try {
+      const result = await this.makeRequest('blockchain.estimatefee', [blocks]);
+      return typeof result === 'number' ? result : -1;
+    } catch (error) {
+      electrumLogger.error('Failed to estimate fee:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the minimum fee rate (AVN per kilobyte) the server's daemon will relay
+   */
+  async getRelayFee(): Promise<number> {
+    try {
+      const result = await this.makeRequest('blockchain.relayfee', []);
+      return typeof result === 'number' ? result : 0;
+    } catch (error) {
+      electrumLogger.error('Failed to get relay fee:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the mempool fee histogram as [feeRate (sat/byte), size (bytes)] pairs,
+   * ordered from the highest fee rate to the lowest
+   */
+  async getFeeHistogram(): Promise<Array<[number, number]>> {
+    try {
+      const result = await this.makeRequest('mempool.get_fee_histogram', []);
+      return Array.isArray(result) ? result : [];
+    } catch (error) {
+      electrumLogger.error('Failed to get mempool fee histogram:', error);
+      throw error;
+    }
+  }
+
   // Method to update real balance from external sources (like subscription updates)
   updateRealBalance(address: string, balance: number): void {
     electrumLogger.debug(`Updating cached balance for ${address.substring(0, 5)}...: ${balance}`);
@@ -534,7 +1023,7 @@ export class ElectrumService {
   }
 
   private async makeRequest(method: string, params: any[]): Promise<any> {
-    if (!this.isConnected || !this.websocket) {
+    if (!this.isConnected || !this.transport) {
       throw new Error('Not connected to Electrum server');
     }
 
@@ -546,7 +1035,7 @@ export class ElectrumService {
       this.pendingRequests.set(id, { resolve, reject });
 
       // Send the request
-      this.websocket!.send(JSON.stringify(request));
+      this.transport!.send(JSON.stringify(request));
 
       // Set timeout for the request
       setTimeout(() => {
@@ -715,9 +1204,10 @@ export class ElectrumService {
     this.pollingIntervals.clear();
     electrumLogger.debug(`Cleared ${this.pollingIntervals.size} polling intervals`);
 
-    if (this.websocket) {
-      this.websocket.close(1000, 'User disconnect'); // Normal closure
-      this.websocket = null;
+    if (this.transport) {
+      const transport = this.transport;
+      this.transport = null;
+      transport.close(1000, 'User disconnect'); // Normal closure
     }
 
     this.isConnected = false;
@@ -735,7 +1225,7 @@ export class ElectrumService {
 
   // Return the current connection status
   getConnectionStatus(): boolean {
-    return this.isConnected && this.websocket !== null;
+    return this.isConnected && this.transport !== null;
   }
 
   // Get server info
@@ -758,7 +1248,7 @@ export class ElectrumService {
   async getPublicKeyForAddress(address: string): Promise<string | null> {
     try {
       // Make sure we're connected
-      if (!this.isConnected || !this.websocket) {
+      if (!this.isConnected || !this.transport) {
         await this.connect();
       }
 
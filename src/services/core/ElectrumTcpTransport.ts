@@ -0,0 +1,109 @@
+/**
+ * Electrum TCP/TLS Transport
+ *
+ * Newline-delimited JSON-RPC over a plain or TLS socket, as spoken by ElectrumX on its
+ * TCP and SSL ports. Uses Node's net and tls modules, so it is only for Node code such as
+ * a local proxy or scripts, never for components that run in the browser.
+ */
+
+import * as net from 'net';
+import * as tls from 'tls';
+import { electrumLogger } from '@/lib/Logger';
+import {
+  ElectrumServer,
+  ElectrumTransport,
+  ElectrumTransportFactory,
+  ElectrumTransportHandlers,
+} from '@/types/electrum';
+import { WebSocketTransport } from './ElectrumTransport';
+
+export interface TcpTransportOptions {
+  rejectUnauthorized?: boolean; // Set to false for servers with self-signed certificates
+}
+
+export class TcpTransport implements ElectrumTransport {
+  private socket: net.Socket | null = null;
+  private buffer: string = '';
+  private closeCode: number = 1006; // Abnormal closure unless close() was called
+
+  constructor(
+    private server: ElectrumServer,
+    private options: TcpTransportOptions = {},
+  ) {}
+
+  connect(handlers: ElectrumTransportHandlers): Promise<void> {
+    const { host, port, protocol } = this.server;
+
+    return new Promise((resolve, reject) => {
+      const socket =
+        protocol === 'tls'
+          ? tls.connect({
+              host,
+              port,
+              servername: host,
+              rejectUnauthorized: this.options.rejectUnauthorized ?? true,
+            })
+          : net.connect({ host, port });
+      this.socket = socket;
+      let isOpen = false;
+
+      socket.setEncoding('utf8');
+      socket.setKeepAlive(true);
+
+      socket.once(protocol === 'tls' ? 'secureConnect' : 'connect', () => {
+        isOpen = true;
+        resolve();
+      });
+
+      socket.on('data', (chunk: string) => {
+        this.buffer += chunk;
+        let newline = this.buffer.indexOf('\n');
+        while (newline >= 0) {
+          const line = this.buffer.substring(0, newline).trim();
+          this.buffer = this.buffer.substring(newline + 1);
+          if (line) {
+            handlers.onMessage(line);
+          }
+          newline = this.buffer.indexOf('\n');
+        }
+      });
+
+      socket.on('error', (error) => {
+        electrumLogger.error(`${protocol.toUpperCase()} socket error:`, error);
+        if (!isOpen) {
+          reject(new Error(`${protocol.toUpperCase()} connection failed: ${error.message}`));
+        }
+      });
+
+      socket.on('close', () => {
+        electrumLogger.debug(`${protocol.toUpperCase()} socket closed: code=${this.closeCode}`);
+        this.buffer = '';
+        handlers.onClose(this.closeCode, '');
+      });
+    });
+  }
+
+  send(data: string): void {
+    if (!this.socket) {
+      throw new Error('Socket is not open');
+    }
+    this.socket.write(`${data}\n`);
+  }
+
+  close(code: number = 1000): void {
+    this.closeCode = code;
+    this.socket?.end();
+    this.socket = null;
+  }
+}
+
+/**
+ * Transport factory for Node: TCP/TLS sockets for 'tcp' and 'tls' servers, WebSockets
+ * for the rest
+ */
+export function createTcpTransport(options: TcpTransportOptions = {}): ElectrumTransportFactory {
+  return (server) =>
+    server.protocol === 'tcp' || server.protocol === 'tls'
+      ? new TcpTransport(server, options)
+      : new WebSocketTransport(server);
+}
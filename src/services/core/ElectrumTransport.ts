@@ -0,0 +1,132 @@
+/**
+ * Electrum Transports
+ *
+ * ElectrumService talks JSON-RPC through an ElectrumTransport. Browsers use WebSockets;
+ * Node code can plug in the TCP/TLS transport from ElectrumTcpTransport, and tests can
+ * answer requests in memory with MemoryTransport.
+ */
+
+import { electrumLogger } from '@/lib/Logger';
+import {
+  ElectrumServer,
+  ElectrumTransport,
+  ElectrumTransportFactory,
+  ElectrumTransportHandlers,
+} from '@/types/electrum';
+
+export class WebSocketTransport implements ElectrumTransport {
+  private websocket: WebSocket | null = null;
+
+  constructor(private server: ElectrumServer) {}
+
+  connect(handlers: ElectrumTransportHandlers): Promise<void> {
+    const url = `${this.server.protocol}://${this.server.host}:${this.server.port}`;
+
+    return new Promise((resolve, reject) => {
+      const websocket = new WebSocket(url);
+      this.websocket = websocket;
+
+      websocket.onopen = () => resolve();
+
+      websocket.onclose = (event) => {
+        electrumLogger.debug(
+          `WebSocket closed: code=${event.code}, reason=${event.reason || 'unknown'}`,
+        );
+        handlers.onClose(event.code, event.reason);
+      };
+
+      websocket.onerror = (error) => {
+        electrumLogger.error('WebSocket error:', error);
+        reject(new Error('WebSocket connection failed'));
+      };
+
+      websocket.onmessage = (event) => handlers.onMessage(event.data);
+    });
+  }
+
+  send(data: string): void {
+    if (!this.websocket) {
+      throw new Error('WebSocket is not open');
+    }
+    this.websocket.send(data);
+  }
+
+  close(code?: number, reason?: string): void {
+    this.websocket?.close(code, reason);
+    this.websocket = null;
+  }
+}
+
+type MemoryMethodHandler = (params: any[]) => unknown;
+
+/**
+ * Transport that answers requests from in-memory method handlers instead of a server.
+ * Methods without a handler fail with a JSON-RPC "method not found" error.
+ */
+export class MemoryTransport implements ElectrumTransport {
+  private handlers: ElectrumTransportHandlers | null = null;
+
+  constructor(private methods: Record<string, MemoryMethodHandler> = {}) {}
+
+  setMethod(method: string, handler: MemoryMethodHandler): void {
+    this.methods[method] = handler;
+  }
+
+  async connect(handlers: ElectrumTransportHandlers): Promise<void> {
+    this.handlers = handlers;
+  }
+
+  send(data: string): void {
+    const request = JSON.parse(data);
+    const handler = this.methods[request.method];
+
+    // Reply asynchronously, as a server would
+    Promise.resolve()
+      .then(() => {
+        if (!handler) {
+          throw Object.assign(new Error(`unknown method ${request.method}`), { code: -32601 });
+        }
+        return handler(request.params);
+      })
+      .then(
+        (result) => this.receive({ id: request.id, result }),
+        (error) =>
+          this.receive({
+            id: request.id,
+            error: {
+              code: error?.code ?? 1,
+              message: error instanceof Error ? error.message : String(error),
+            },
+          }),
+      );
+  }
+
+  /**
+   * Push a server notification, e.g. a blockchain.scripthash.subscribe status change
+   */
+  notify(method: string, params: any[]): void {
+    this.receive({ method, params });
+  }
+
+  close(code: number = 1000, reason: string = ''): void {
+    const handlers = this.handlers;
+    this.handlers = null;
+    handlers?.onClose(code, reason);
+  }
+
+  private receive(message: object): void {
+    this.handlers?.onMessage(JSON.stringify(message));
+  }
+}
+
+/**
+ * Default transport: WebSockets, the only option available in the browser
+ */
+export const createWebSocketTransport: ElectrumTransportFactory = (server) => {
+  if (server.protocol !== 'wss' && server.protocol !== 'ws') {
+    throw new Error(
+      `${server.protocol.toUpperCase()} servers need a Node transport such as createTcpTransport`,
+    );
+  }
+  return new WebSocketTransport(server);
+};
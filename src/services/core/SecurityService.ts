@@ -7,9 +7,23 @@ import {
   AutoLockSettings,
   SecuritySettings,
   SecurityState,
+  BiometricKeyWrap,
+  BiometricProtection,
+  KdfParams,
+  OutdatedSecret,
+  WalletSecretKind,
 } from '@/types/security';
 import { StorageService } from './StorageService';
-import { secureEncrypt, decryptData, legacyDecrypt } from '../wallet/WalletService';
+import {
+  secureEncrypt,
+  decryptData,
+  getEncryptionInfo,
+  isEncryptionCurrent,
+  getKdfParams,
+  setKdfParams,
+  benchmarkKdf,
+  describeKdfParams,
+} from '../wallet/WalletService';
 import { securityLogger } from '@/lib/Logger';
 import { isBrowser } from '@/lib/utils';
 
@@ -54,6 +68,9 @@ const initializeCrypto = async () => {
   }
 };
 
+// HKDF info for the key that wraps wallet passwords, derived from the WebAuthn PRF output
+const PRF_KEY_INFO = 'Avian FlightDeck biometric key wrap v1';
+
 // Avian network configuration for validation
 const getAvianNetwork = () => ({
   messagePrefix: '\x16Raven Signed Message:\n',
@@ -238,6 +255,124 @@ export class SecurityService {
     return match ? parseInt(match[1], 10) : 0;
   }
 
+  // WebAuthn PRF key wrapping for biometric unlock
+
+  /**
+   * Ask the authenticator to verify the user, evaluating its PRF with the given salt
+   */
+  private async requestAssertion(
+    credentialId: Uint8Array,
+    prfSalt: Uint8Array,
+  ): Promise<PublicKeyCredential | null> {
+    return (await navigator.credentials.get({
+      publicKey: {
+        challenge: crypto.getRandomValues(new Uint8Array(32)),
+        allowCredentials: [
+          {
+            id: credentialId,
+            type: 'public-key',
+            transports: ['internal'], // Platform authenticator
+          },
+        ],
+        userVerification: 'required',
+        timeout: 60000,
+        extensions: { prf: { eval: { first: prfSalt } } },
+      },
+    } as CredentialRequestOptions)) as PublicKeyCredential | null;
+  }
+
+  // The PRF output, or null when the authenticator doesn't support the extension
+  private getPrfOutput(credential: PublicKeyCredential): BufferSource | null {
+    return credential.getClientExtensionResults().prf?.results?.first || null;
+  }
+
+  private async derivePrfKey(prfOutput: BufferSource): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey('raw', prfOutput, 'HKDF', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: new Uint8Array(0),
+        info: new TextEncoder().encode(PRF_KEY_INFO),
+      },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt'],
+    );
+  }
+
+  private async wrapPassword(
+    password: string,
+    prfSalt: Uint8Array,
+    prfOutput: BufferSource,
+  ): Promise<BiometricKeyWrap> {
+    const key = await this.derivePrfKey(prfOutput);
+    const nonce = crypto.getRandomValues(new Uint8Array(12));
+    const wrapped = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: nonce },
+      key,
+      new TextEncoder().encode(password),
+    );
+    return {
+      method: 'webauthn-prf',
+      salt: Array.from(prfSalt),
+      nonce: Array.from(nonce),
+      wrappedPassword: Array.from(new Uint8Array(wrapped)),
+      createdAt: Date.now(),
+    };
+  }
+
+  private async unwrapPassword(
+    keyWrap: BiometricKeyWrap,
+    prfOutput: BufferSource,
+  ): Promise<string> {
+    const key = await this.derivePrfKey(prfOutput);
+    const password = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: new Uint8Array(keyWrap.nonce) },
+      key,
+      new Uint8Array(keyWrap.wrappedPassword),
+    );
+    return new TextDecoder().decode(password);
+  }
+
+  /**
+   * Wrap a new password with the PRF of a wallet's own credential, which takes one biometric
+   * prompt. Returns null when the authenticator doesn't give its secret.
+   */
+  async wrapPasswordWithBiometric(
+    walletAddress: string,
+    password: string,
+  ): Promise<BiometricKeyWrap | null> {
+    try {
+      const credentialId = await StorageService.getBiometricCredential(walletAddress);
+      if (!credentialId) {
+        return null;
+      }
+
+      const prfSalt = crypto.getRandomValues(new Uint8Array(32));
+      const assertion = await this.requestAssertion(new Uint8Array(credentialId), prfSalt);
+      const prfOutput = assertion && this.getPrfOutput(assertion);
+      return prfOutput ? await this.wrapPassword(password, prfSalt, prfOutput) : null;
+    } catch (error) {
+      securityLogger.error('Failed to wrap password with the biometric key:', error);
+      return null;
+    }
+  }
+
+  /**
+   * How the active wallet's biometric unlock keeps its password
+   */
+  async getBiometricProtection(): Promise<BiometricProtection> {
+    const activeWallet = await StorageService.getActiveWallet();
+    if (activeWallet?.biometricKeyWrap) {
+      return 'prf';
+    }
+    return activeWallet && (await StorageService.hasEncryptedWalletPassword(activeWallet.address))
+      ? 'credential'
+      : 'none';
+  }
+
   async setupBiometricAuth(userId?: string, walletPassword?: string): Promise<boolean> {
     try {
       // First check if biometrics are enabled in security settings
@@ -290,7 +425,8 @@ export class SecurityService {
         }
       }
 
-      // Create WebAuthn credential for biometric authentication
+      // Create WebAuthn credential for biometric authentication, asking for the PRF extension
+      const prfSalt = crypto.getRandomValues(new Uint8Array(32));
       const credential = await navigator.credentials.create({
         publicKey: {
           challenge: crypto.getRandomValues(new Uint8Array(32)),
@@ -314,6 +450,7 @@ export class SecurityService {
           },
           timeout: 60000,
           attestation: 'direct',
+          extensions: { prf: { eval: { first: prfSalt } } },
         },
       } as CredentialCreationOptions);
 
@@ -329,23 +466,40 @@ export class SecurityService {
         // Save the updated wallet with biometric flag directly in wallet record
         await StorageService.saveWalletWithBiometricData(activeWallet, credentialId);
 
-        // If a wallet password was provided, store it securely associated with this credential
+        // If a wallet password was provided, store it so only this credential can recover it
+        let protection: BiometricProtection = 'none';
         if (walletPassword) {
-          // Create a secure key based on the credential ID
-          const secureKey = credentialId.join('-');
+          let prfOutput = this.getPrfOutput(credential as PublicKeyCredential);
+          const prfEnabled = (credential as PublicKeyCredential).getClientExtensionResults().prf
+            ?.enabled;
+          if (!prfOutput && prfEnabled) {
+            // Some authenticators only evaluate the PRF when asserting, which takes one more prompt
+            const assertion = await this.requestAssertion(new Uint8Array(credentialId), prfSalt);
+            prfOutput = assertion && this.getPrfOutput(assertion);
+          }
 
-          // Encrypt the wallet password with this secure key
-          // This ensures the password is only accessible when the biometric authentication succeeds
-          await StorageService.setEncryptedWalletPassword(
-            secureKey,
-            walletPassword,
-            activeWallet.address,
-          );
+          if (prfOutput) {
+            // Wrap the password with the authenticator's secret, so it is never stored unwrapped
+            const keyWrap = await this.wrapPassword(walletPassword, prfSalt, prfOutput);
+            await StorageService.setBiometricKeyWrap(activeWallet.address, keyWrap);
+            protection = 'prf';
+          } else {
+            // Authenticators without PRF fall back to a key based on the credential ID
+            const secureKey = credentialId.join('-');
+            await StorageService.setEncryptedWalletPassword(
+              secureKey,
+              walletPassword,
+              activeWallet.address,
+            );
+            protection = 'credential';
+          }
         }
 
         await this.logSecurityEvent(
           'biometric_setup',
-          'Biometric authentication setup successful',
+          protection === 'credential'
+            ? 'Biometric authentication setup successful (authenticator lacks PRF, using fallback)'
+            : 'Biometric authentication setup successful',
           true,
         );
         return true;
@@ -401,21 +555,14 @@ export class SecurityService {
       // Convert stored credential ID back to Uint8Array
       const credentialId = new Uint8Array(storedCredentialId);
 
+      // Evaluate the PRF with the wrap's salt, or a fresh one to move a fallback setup over to PRF
+      const keyWrap = activeWallet.biometricKeyWrap;
+      const prfSalt = keyWrap
+        ? new Uint8Array(keyWrap.salt)
+        : crypto.getRandomValues(new Uint8Array(32));
+
       // Perform WebAuthn authentication
-      const assertion = await navigator.credentials.get({
-        publicKey: {
-          challenge: crypto.getRandomValues(new Uint8Array(32)),
-          allowCredentials: [
-            {
-              id: credentialId,
-              type: 'public-key',
-              transports: ['internal'], // Platform authenticator
-            },
-          ],
-          userVerification: 'required',
-          timeout: 60000,
-        },
-      } as CredentialRequestOptions);
+      const assertion = await this.requestAssertion(credentialId, prfSalt);
 
       if (assertion) {
         await this.logSecurityEvent('biometric_auth', 'Biometric authentication successful', true);
@@ -430,11 +577,39 @@ export class SecurityService {
         }
 
         // Retrieve the stored wallet password for this specific wallet
-        const secureKey = storedCredentialId.join('-');
-        const walletPassword = await StorageService.getEncryptedWalletPassword(
-          secureKey,
-          activeWallet.address,
-        );
+        const prfOutput = this.getPrfOutput(assertion);
+        let walletPassword: string | null = null;
+        if (keyWrap) {
+          if (!prfOutput) {
+            return {
+              success: false,
+              error: 'The authenticator did not return the key for this wallet',
+            };
+          }
+          walletPassword = await this.unwrapPassword(keyWrap, prfOutput);
+        } else {
+          const secureKey = storedCredentialId.join('-');
+          walletPassword = await StorageService.getEncryptedWalletPassword(
+            secureKey,
+            activeWallet.address,
+          );
+
+          // Setups from before PRF support move over once the authenticator offers it
+          if (walletPassword && prfOutput) {
+            try {
+              const newKeyWrap = await this.wrapPassword(walletPassword, prfSalt, prfOutput);
+              await StorageService.setBiometricKeyWrap(activeWallet.address, newKeyWrap);
+              await this.logSecurityEvent(
+                'biometric_setup',
+                'Biometric unlock moved to a key wrapped by the authenticator (PRF)',
+                true,
+                activeWallet.address,
+              );
+            } catch (migrationError) {
+              securityLogger.error('Failed to move biometric unlock to PRF:', migrationError);
+            }
+          }
+        }
 
         // Determine biometric type based on platform
         let biometricType: BiometricType = 'fingerprint'; // default
@@ -722,6 +897,8 @@ export class SecurityService {
               );
               return false;
             }
+
+            await this.upgradeWalletEncryption(biometricResult.walletPassword);
           }
 
           this.resetFailedAttempts();
@@ -761,42 +938,12 @@ export class SecurityService {
 
         try {
           // Validate password by attempting to decrypt the private key
-          const { decrypted, wasLegacy } = await decryptData(activeWallet.privateKey, password);
+          const { decrypted } = await decryptData(activeWallet.privateKey, password);
 
           // If decryption returns an empty string or fails, the password was incorrect
           if (!decrypted) {
             throw new Error('Decryption resulted in empty key, password likely incorrect.');
           }
-
-          // If the key was using legacy encryption, upgrade it now.
-          if (wasLegacy) {
-            securityLogger.info(`Upgrading encryption for wallet: ${activeWallet.name}`);
-            const newEncryptedKey = await secureEncrypt(decrypted, password);
-
-            let newEncryptedMnemonic: string | undefined = undefined;
-            // Also upgrade the mnemonic if it exists
-            if (activeWallet.mnemonic) {
-              try {
-                // We can use the legacy decrypt directly since we know it's an old format
-                const decryptedMnemonic = legacyDecrypt(activeWallet.mnemonic, password);
-                if (decryptedMnemonic) {
-                  newEncryptedMnemonic = await secureEncrypt(decryptedMnemonic, password);
-                }
-              } catch (mnemonicError) {
-                securityLogger.error(
-                  `Failed to upgrade mnemonic for wallet ${activeWallet.name}:`,
-                  mnemonicError,
-                );
-                // Continue with private key upgrade even if mnemonic fails
-              }
-            }
-
-            await StorageService.updateWalletEncryption(
-              activeWallet.id!,
-              newEncryptedKey,
-              newEncryptedMnemonic,
-            );
-          }
         } catch (error) {
           // Decryption failed, so the password was incorrect.
           this.recordFailedAttempt();
@@ -813,6 +960,9 @@ export class SecurityService {
           return false;
         }
 
+        // Secrets in an older format are re-encrypted now that the password is known
+        await this.upgradeWalletEncryption(password);
+
         this.resetFailedAttempts();
         this.securityState.isLocked = false;
         this.securityState.requiresPasswordUnlock = false;
@@ -886,6 +1036,123 @@ export class SecurityService {
     }
   }
 
+  // Encryption format of stored secrets
+
+  /**
+   * The key derivation parameters in use and the secrets still stored in an older format or
+   * with weaker parameters. Those are re-encrypted the next time their wallet is unlocked.
+   */
+  async getEncryptionStatus(): Promise<{ params: KdfParams; outdated: OutdatedSecret[] }> {
+    const params = await getKdfParams();
+    const wallets = await StorageService.getAllWallets();
+    const outdated: OutdatedSecret[] = [];
+
+    for (const wallet of wallets.filter((w) => w.isEncrypted)) {
+      for (const [secret, encrypted] of this.getWalletSecrets(wallet)) {
+        try {
+          if (!isEncryptionCurrent(encrypted, params)) {
+            outdated.push({
+              walletName: wallet.name,
+              walletAddress: wallet.address,
+              secret,
+              info: getEncryptionInfo(encrypted),
+            });
+          }
+        } catch (error) {
+          // Written by a newer version of the app, which is not older than ours
+          securityLogger.warn(`Unrecognized encryption format for ${wallet.name} ${secret}`);
+        }
+      }
+    }
+
+    return { params, outdated };
+  }
+
+  /**
+   * Benchmark key derivation on this device and use the result for secrets encrypted from now on
+   */
+  async tuneKdfParams(): Promise<KdfParams> {
+    const params = await benchmarkKdf();
+    await setKdfParams(params);
+    await this.logSecurityEvent(
+      'settings_change',
+      `Key derivation tuned for this device (${describeKdfParams(params)})`,
+      true,
+    );
+    return params;
+  }
+
+  private getWalletSecrets(wallet: {
+    privateKey: string;
+    mnemonic?: string;
+    bip39Passphrase?: string;
+    encryptedBiometricPassword?: string;
+  }): Array<[WalletSecretKind, string]> {
+    const secrets: Array<[WalletSecretKind, string | undefined]> = [
+      ['privateKey', wallet.privateKey],
+      ['mnemonic', wallet.mnemonic],
+      ['bip39Passphrase', wallet.bip39Passphrase],
+      ['biometricPassword', wallet.encryptedBiometricPassword],
+    ];
+    return secrets.filter((entry): entry is [WalletSecretKind, string] => !!entry[1]);
+  }
+
+  /**
+   * Re-encrypt the active wallet's secrets that are in an older format or use weaker key
+   * derivation than this device, now that the password is known. Failures leave them as they were.
+   */
+  private async upgradeWalletEncryption(password: string): Promise<void> {
+    try {
+      const wallet = await StorageService.getActiveWallet();
+      if (!wallet?.id || !wallet.isEncrypted) return;
+
+      const params = await getKdfParams();
+      const outdated = (encrypted?: string) =>
+        !!encrypted && !isEncryptionCurrent(encrypted, params);
+      if (!this.getWalletSecrets(wallet).some(([, encrypted]) => outdated(encrypted))) return;
+
+      const upgrade = async (encrypted: string | undefined, key: string) =>
+        encrypted && outdated(encrypted)
+          ? secureEncrypt((await decryptData(encrypted, key)).decrypted, key, params)
+          : encrypted;
+
+      // The biometric copy of the password is wrapped with the credential, not the password
+      let biometricPassword = wallet.encryptedBiometricPassword;
+      const credential = await StorageService.getBiometricCredential(wallet.address);
+      if (
+        credential &&
+        !wallet.biometricKeyWrap &&
+        (!biometricPassword || outdated(biometricPassword))
+      ) {
+        const secureKey = credential.join('-');
+        const stored = await StorageService.getEncryptedWalletPassword(secureKey, wallet.address);
+        if (stored) {
+          biometricPassword = await secureEncrypt(stored, secureKey, params);
+        }
+      }
+
+      await StorageService.updateWalletSecrets([
+        {
+          id: wallet.id,
+          privateKey: (await upgrade(wallet.privateKey, password))!,
+          mnemonic: await upgrade(wallet.mnemonic, password),
+          bip39Passphrase: await upgrade(wallet.bip39Passphrase, password),
+          encryptedBiometricPassword: biometricPassword,
+          biometricKeyWrap: wallet.biometricKeyWrap,
+        },
+      ]);
+
+      await this.logSecurityEvent(
+        'settings_change',
+        `Wallet secrets re-encrypted with ${describeKdfParams(params)}`,
+        true,
+        wallet.address,
+      );
+    } catch (error) {
+      securityLogger.error('Failed to upgrade wallet encryption:', error);
+    }
+  }
+
   // Security Audit Log
   async logSecurityEvent(
     action: SecurityAction,
@@ -1,5 +1,25 @@
 // Required imports
 import { SavedAddress } from '../../types/addressBook';
+import { AddressDiscoveryState, ReceiveAddressState } from '../../types/addressDiscovery';
+import { MultisigWalletConfig } from '../../types/multisig';
+import { ElectrumServer } from '../../types/electrum';
+import { SpvStatus } from '../../types/spv';
+import { DailyPrices } from '../../types/price';
+import { DEFAULT_TRANSACTION_CATEGORIES, TransactionNotes } from '../../types/transactionNotes';
+import { WalletLabel } from '../../types/labels';
+import { Invoice } from '../../types/invoices';
+import { BiometricKeyWrap, KdfParams } from '../../types/security';
+import {
+  ScheduledPayment,
+  ScheduledPaymentRun,
+  ScheduledPaymentSettings,
+} from '../../types/scheduledPayments';
+import {
+  TransactionFilterPreset,
+  TransactionFilters,
+  TransactionQueryResult,
+  TransactionStatusFilter,
+} from '../../types/transactionFilters';
 import { toast } from 'sonner';
 import { secureEncrypt, decryptData } from '../wallet/WalletService';
 import { storageLogger } from '@/lib/Logger';
@@ -13,6 +33,9 @@ interface WalletData {
   bip39Passphrase?: string; // Optional encrypted BIP39 passphrase (25th word)
   coinType?: 921 | 175; // BIP44 coin type for derivation (default: 921 for Avian, 175 for Ravencoin legacy)
   isEncrypted: boolean;
+  isWatchOnly?: boolean; // Address-only wallet; transactions are signed on another device
+  xpub?: string; // Account-level extended public key of an HD watch-only wallet
+  multisig?: MultisigWalletConfig; // Redeem script and cosigner set of a P2SH multisig wallet
   isActive: boolean;
   createdAt: Date;
   lastAccessed: Date;
@@ -22,6 +45,7 @@ interface WalletData {
   biometricsEnabled?: boolean;
   biometricCredentialId?: number[];
   encryptedBiometricPassword?: string;
+  biometricKeyWrap?: BiometricKeyWrap; // Password wrapped with the authenticator's PRF secret
 }
 
 /**
@@ -37,7 +61,7 @@ interface WalletSwitchState {
   toId?: number;
 }
 
-interface TransactionData {
+export interface TransactionData {
   id?: number;
   txid: string;
   amount: number;
@@ -48,6 +72,28 @@ interface TransactionData {
   timestamp: Date;
   confirmations: number;
   blockHeight?: number;
+  fee?: number; // Fee paid in AVN, recorded for transactions built by this wallet
+  changeOutput?: number; // Index of our change output in transactions built by this wallet
+  replaces?: string; // txid of the transaction this one replaced via RBF
+  replacedBy?: string; // txid of the RBF replacement; replaced records are hidden from history
+  acceleratedBy?: string; // txid of the CPFP child spending one of this transaction's outputs
+  asset?: string; // Asset name when the transaction transfers an asset
+  assetAmount?: number; // Asset amount transferred, in whole asset units
+  spvStatus?: SpvStatus; // Whether the transaction's Merkle proof checked out against our headers
+  memo?: string; // The user's own note about the transaction
+  category?: string; // User-assigned category id, see DEFAULT_TRANSACTION_CATEGORIES
+}
+
+/**
+ * A wallet's secrets re-encrypted under a new password, see updateWalletSecrets
+ */
+export interface WalletSecretsUpdate {
+  id: number;
+  privateKey: string;
+  mnemonic?: string;
+  bip39Passphrase?: string;
+  encryptedBiometricPassword?: string; // The new password wrapped with the biometric key
+  biometricKeyWrap?: BiometricKeyWrap; // The new password wrapped with the authenticator's secret
 }
 
 interface PreferenceData {
@@ -60,7 +106,7 @@ interface PreferenceData {
 export class StorageService {
   private static dbName = 'AvianFlightDeck';
   private static oldDbName = 'AvianWalletDB';
-  private static dbVersion = 6; // Incrementing database version for watched address balances integration
+  private static dbVersion = 7; // Version 7 adds the wallet + time index for filtered history queries
   private static db: IDBDatabase | null = null;
   private static migrationCompleted = false;
 
@@ -261,6 +307,16 @@ export class StorageService {
           }
         }
 
+        // Version 7: wallet + time index for paging and date-filtering history in the database
+        if (event.oldVersion < 7 && db.objectStoreNames.contains('transactions')) {
+          const txStore = transaction.objectStore('transactions');
+          if (!txStore.indexNames.contains('walletAddress_timestamp')) {
+            txStore.createIndex('walletAddress_timestamp', ['walletAddress', 'timestamp'], {
+              unique: false,
+            });
+          }
+        }
+
         // Preferences store
         if (!db.objectStoreNames.contains('preferences')) {
           const prefStore = db.createObjectStore('preferences', {
@@ -518,6 +574,9 @@ export class StorageService {
       txStore.createIndex('walletAddress', 'walletAddress', { unique: false });
       txStore.createIndex('timestamp', 'timestamp', { unique: false });
       txStore.createIndex('txid_type_wallet', ['txid', 'type', 'walletAddress'], { unique: true });
+      txStore.createIndex('walletAddress_timestamp', ['walletAddress', 'timestamp'], {
+        unique: false,
+      });
     }
 
     // Watched address balances store
@@ -601,6 +660,9 @@ export class StorageService {
     bip39Passphrase?: string; // Optional encrypted BIP39 passphrase
     coinType?: 921 | 175; // BIP44 coin type for derivation
     isEncrypted?: boolean;
+    isWatchOnly?: boolean;
+    xpub?: string;
+    multisig?: MultisigWalletConfig;
     makeActive?: boolean;
   }): Promise<WalletData> {
     try {
@@ -626,6 +688,9 @@ export class StorageService {
         ...(params.bip39Passphrase !== undefined && { bip39Passphrase: params.bip39Passphrase }),
         ...(params.coinType !== undefined && { coinType: params.coinType }),
         isEncrypted: params.isEncrypted || false,
+        ...(params.isWatchOnly && { isWatchOnly: true }),
+        ...(params.xpub && { xpub: params.xpub }),
+        ...(params.multisig && { multisig: params.multisig }),
         isActive: params.makeActive !== false,
         createdAt: new Date(),
         lastAccessed: new Date(),
@@ -786,7 +851,7 @@ export class StorageService {
       // Log the switch
       storageLogger.info(
         `Switching wallet from ${currentActiveWalletAddress || 'none'} ` +
-        `(ID: ${currentActiveWalletId}) to ${targetWallet.address} (ID: ${walletId})`,
+          `(ID: ${currentActiveWalletId}) to ${targetWallet.address} (ID: ${walletId})`,
       );
 
       // Update the previous wallet address for notification checks
@@ -917,6 +982,75 @@ export class StorageService {
     }
   }
 
+  /**
+   * Write re-encrypted secrets for several wallets in one transaction, so either every wallet
+   * moves to the new password or none does. Legacy copies of biometric passwords are replaced too.
+   */
+  static async updateWalletSecrets(updates: WalletSecretsUpdate[]): Promise<void> {
+    const db = await this.initDB();
+    const transaction = db.transaction(['wallets', 'preferences'], 'readwrite');
+    const walletStore = transaction.objectStore('wallets');
+    const preferenceStore = transaction.objectStore('preferences');
+    let failure: string | null = null;
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () =>
+        reject(new Error(`Database operation failed: ${transaction.error?.message}`));
+      transaction.onabort = () =>
+        reject(new Error(failure || `Database transaction aborted: ${transaction.error?.message}`));
+
+      const addresses: Record<string, WalletSecretsUpdate> = {};
+      for (const update of updates) {
+        const request = walletStore.get(update.id);
+        request.onsuccess = () => {
+          const wallet = request.result as WalletData | undefined;
+          if (!wallet) {
+            failure = `Wallet with ID ${update.id} not found`;
+            transaction.abort();
+            return;
+          }
+
+          addresses[wallet.address] = update;
+          walletStore.put({
+            ...wallet,
+            privateKey: update.privateKey,
+            mnemonic: update.mnemonic,
+            bip39Passphrase: update.bip39Passphrase,
+            encryptedBiometricPassword: update.encryptedBiometricPassword,
+            biometricKeyWrap: update.biometricKeyWrap,
+            lastAccessed: new Date(),
+          });
+        };
+      }
+
+      // Requests run in order, so the wallets above have been read by the time this succeeds
+      const legacy = preferenceStore.index('key').get('biometricWalletPasswords');
+      legacy.onsuccess = () => {
+        const preference = legacy.result as PreferenceData | undefined;
+        if (!preference?.value) return;
+
+        const passwords = { ...(preference.value as Record<string, string>) };
+        let changed = false;
+        Object.keys(addresses).forEach((address) => {
+          if (!(address in passwords)) return;
+
+          const encrypted = addresses[address].encryptedBiometricPassword;
+          if (encrypted) {
+            passwords[address] = encrypted;
+          } else {
+            delete passwords[address];
+          }
+          changed = true;
+        });
+
+        if (changed) {
+          preferenceStore.put({ ...preference, value: passwords, updatedAt: new Date() });
+        }
+      };
+    });
+  }
+
   static async deleteWallet(walletId: number): Promise<boolean> {
     try {
       const wallet = await this.getWalletById(walletId);
@@ -1112,6 +1246,15 @@ export class StorageService {
     await this.setPreference('currency', currency);
   }
 
+  // Cached daily AVN prices in a fiat currency, keyed by UTC date (YYYY-MM-DD)
+  static async getPriceHistory(currency: string): Promise<DailyPrices> {
+    return (await this.getPreference(`price_history_${currency}`)) || {};
+  }
+
+  static async setPriceHistory(currency: string, prices: DailyPrices): Promise<void> {
+    await this.setPreference(`price_history_${currency}`, prices);
+  }
+
   // AVN units methods
   static async getAVNUnits(): Promise<string> {
     return (await this.getPreference('avn_units')) || 'AVN';
@@ -1132,6 +1275,121 @@ export class StorageService {
     await this.setPreference('change_address_count', validCount);
   }
 
+  // BIP44 gap limit used by HD address discovery
+  static async getGapLimit(): Promise<number> {
+    return (await this.getPreference('gap_limit')) || 20;
+  }
+
+  static async setGapLimit(gapLimit: number): Promise<void> {
+    const validGapLimit = Math.max(1, Math.min(100, Math.floor(gapLimit)));
+    await this.setPreference('gap_limit', validGapLimit);
+  }
+
+  // Discovered HD addresses, stored per wallet address
+  static async getAddressDiscoveryState(
+    walletAddress: string,
+  ): Promise<AddressDiscoveryState | null> {
+    return await this.getPreference(`address_discovery_${walletAddress}`);
+  }
+
+  static async setAddressDiscoveryState(
+    walletAddress: string,
+    state: AddressDiscoveryState,
+  ): Promise<void> {
+    await this.setPreference(`address_discovery_${walletAddress}`, state);
+  }
+
+  // Receive addresses handed out to payers, stored per wallet address
+  static async getReceiveAddressState(walletAddress: string): Promise<ReceiveAddressState | null> {
+    return await this.getPreference(`receive_addresses_${walletAddress}`);
+  }
+
+  static async setReceiveAddressState(
+    walletAddress: string,
+    state: ReceiveAddressState,
+  ): Promise<void> {
+    await this.setPreference(`receive_addresses_${walletAddress}`, state);
+  }
+
+  // User-managed Electrum servers in priority order, or null to use the defaults
+  static async getElectrumServers(): Promise<ElectrumServer[] | null> {
+    return await this.getPreference('electrum_servers');
+  }
+
+  static async setElectrumServers(servers: ElectrumServer[] | null): Promise<void> {
+    await this.setPreference('electrum_servers', servers);
+  }
+
+  // Validated block headers kept for SPV, as raw header hex keyed by height
+  static async getSpvHeaders(): Promise<Record<number, string>> {
+    return (await this.getPreference('spv_headers')) || {};
+  }
+
+  static async setSpvHeaders(headers: Record<number, string>): Promise<void> {
+    await this.setPreference('spv_headers', headers);
+  }
+
+  // Label store methods, keyed by `${type}:${ref}`
+  static async getLabels(): Promise<Record<string, WalletLabel>> {
+    return (await this.getPreference('wallet_labels')) || {};
+  }
+
+  static async setLabels(labels: Record<string, WalletLabel>): Promise<void> {
+    await this.setPreference('wallet_labels', labels);
+  }
+
+  // Saved transaction history filters
+  static async getTransactionFilterPresets(): Promise<TransactionFilterPreset[]> {
+    return (await this.getPreference('transaction_filter_presets')) || [];
+  }
+
+  static async setTransactionFilterPresets(presets: TransactionFilterPreset[]): Promise<void> {
+    await this.setPreference('transaction_filter_presets', presets);
+  }
+
+  // Scheduled payments, their outcomes and the auto-sign limit
+  static async getScheduledPayments(): Promise<ScheduledPayment[]> {
+    return (await this.getPreference('scheduled_payments')) || [];
+  }
+
+  static async setScheduledPayments(payments: ScheduledPayment[]): Promise<void> {
+    await this.setPreference('scheduled_payments', payments);
+  }
+
+  static async getScheduledPaymentRuns(): Promise<ScheduledPaymentRun[]> {
+    return (await this.getPreference('scheduled_payment_runs')) || [];
+  }
+
+  static async setScheduledPaymentRuns(runs: ScheduledPaymentRun[]): Promise<void> {
+    await this.setPreference('scheduled_payment_runs', runs);
+  }
+
+  static async getScheduledPaymentSettings(): Promise<ScheduledPaymentSettings> {
+    return (await this.getPreference('scheduled_payment_settings')) || { autoSignLimit: 0 };
+  }
+
+  static async setScheduledPaymentSettings(settings: ScheduledPaymentSettings): Promise<void> {
+    await this.setPreference('scheduled_payment_settings', settings);
+  }
+
+  // Payment requests and their tracked status
+  static async getInvoices(): Promise<Invoice[]> {
+    return (await this.getPreference('invoices')) || [];
+  }
+
+  static async setInvoices(invoices: Invoice[]): Promise<void> {
+    await this.setPreference('invoices', invoices);
+  }
+
+  // Key derivation parameters new secrets are encrypted with, as tuned for this device
+  static async getKdfParams(): Promise<KdfParams | null> {
+    return (await this.getPreference('kdf_params')) || null;
+  }
+
+  static async setKdfParams(params: KdfParams): Promise<void> {
+    await this.setPreference('kdf_params', params);
+  }
+
   // Settings methods
   static async getSettings(): Promise<any> {
     const settings = await this.getPreference('settings');
@@ -1160,9 +1418,22 @@ export class StorageService {
 
       // Check if this transaction has an ID (update case)
       if ('id' in transaction && transaction.id !== undefined) {
+        // History updates rebuild records from the network, so keep the user's notes and
+        // the change output, which only the wallet that built the transaction knows
+        const stored: TransactionData | undefined = await this.performTransaction(
+          'transactions',
+          'readonly',
+          (store) => store.get(transaction.id!),
+        );
+        const notes: TransactionNotes = {};
+        if (stored && !('memo' in transaction)) notes.memo = stored.memo;
+        if (stored && !('category' in transaction)) notes.category = stored.category;
+        const kept: Pick<TransactionData, 'changeOutput'> = {};
+        if (stored && !('changeOutput' in transaction)) kept.changeOutput = stored.changeOutput;
+
         // Update the existing transaction by ID
         await this.performTransaction('transactions', 'readwrite', (store) =>
-          store.put(transaction),
+          store.put({ ...transaction, ...notes, ...kept }),
         );
         return;
       }
@@ -1269,7 +1540,14 @@ export class StorageService {
     }
   }
 
-  static async getTransactionHistory(address?: string): Promise<TransactionData[]> {
+  static async getTransactionHistory(
+    address?: string,
+    includeReplaced: boolean = false,
+  ): Promise<TransactionData[]> {
+    // Transactions replaced via RBF never confirm, so only their replacement is shown
+    const filterReplaced = (txs: TransactionData[]) =>
+      includeReplaced ? txs : txs.filter((tx) => !tx.replacedBy);
+
     try {
       if (address) {
         // First try to get transactions by walletAddress (new method)
@@ -1280,7 +1558,7 @@ export class StorageService {
 
           if (walletTxs && walletTxs.length > 0) {
             // Sort transactions by timestamp (newest first)
-            return walletTxs.sort((a, b) => {
+            return filterReplaced(walletTxs).sort((a, b) => {
               // Convert strings to dates if necessary
               const dateA = a.timestamp instanceof Date ? a.timestamp : new Date(a.timestamp);
               const dateB = b.timestamp instanceof Date ? b.timestamp : new Date(b.timestamp);
@@ -1314,7 +1592,7 @@ export class StorageService {
         });
 
         // Return sorted transactions
-        return Array.from(txMap.values()).sort((a, b) => {
+        return filterReplaced(Array.from(txMap.values())).sort((a, b) => {
           // Convert strings to dates if necessary
           const dateA = a.timestamp instanceof Date ? a.timestamp : new Date(a.timestamp);
           const dateB = b.timestamp instanceof Date ? b.timestamp : new Date(b.timestamp);
@@ -1326,7 +1604,7 @@ export class StorageService {
           store.getAll(),
         );
 
-        return allTxs.sort((a, b) => {
+        return filterReplaced(allTxs).sort((a, b) => {
           // Convert strings to dates if necessary
           const dateA = a.timestamp instanceof Date ? a.timestamp : new Date(a.timestamp);
           const dateB = b.timestamp instanceof Date ? b.timestamp : new Date(b.timestamp);
@@ -1339,6 +1617,148 @@ export class StorageService {
     }
   }
 
+  /**
+   * Page through transaction history matching the filters, newest first, for one wallet or
+   * all of them. Candidates are read from the txid index for a txid prefix, otherwise from the
+   * wallet + time (or time) index limited to the date range; the remaining filters are checked
+   * while walking the cursor, so only the requested page is kept in memory.
+   */
+  static async queryTransactions(
+    filters: TransactionFilters,
+    walletAddress?: string,
+    offset: number = 0,
+    limit: number = Infinity,
+  ): Promise<TransactionQueryResult<TransactionData>> {
+    // Built before the IndexedDB transaction opens, which would close while we await
+    const matches = await this.buildTransactionMatcher(filters);
+    const db = await this.initDB();
+    const store = db.transaction(['transactions'], 'readonly').objectStore('transactions');
+
+    const from = filters.from ? new Date(`${filters.from}T00:00:00Z`) : new Date(0);
+    const to = filters.to ? new Date(`${filters.to}T23:59:59.999Z`) : new Date(8.64e15);
+    const txidPrefix = filters.txidPrefix?.trim().toLowerCase();
+
+    let request: IDBRequest<IDBCursorWithValue | null>;
+    let timeOrdered = true;
+    if (txidPrefix) {
+      request = store
+        .index('txid')
+        .openCursor(IDBKeyRange.bound(txidPrefix, `${txidPrefix}\uffff`));
+      timeOrdered = false;
+    } else if (walletAddress && store.indexNames.contains('walletAddress_timestamp')) {
+      request = store
+        .index('walletAddress_timestamp')
+        .openCursor(IDBKeyRange.bound([walletAddress, from], [walletAddress, to]), 'prev');
+    } else {
+      request = store.index('timestamp').openCursor(IDBKeyRange.bound(from, to), 'prev');
+    }
+
+    const counts = { all: 0, send: 0, receive: 0 };
+    const transactions: TransactionData[] = [];
+
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          const tx: TransactionData = cursor.value;
+          // Transactions replaced via RBF are hidden, as in getTransactionHistory
+          if (
+            !tx.replacedBy &&
+            (!walletAddress || tx.walletAddress === walletAddress) &&
+            matches(tx)
+          ) {
+            counts.all++;
+            counts[tx.type]++;
+
+            if (!filters.type || tx.type === filters.type) {
+              const index = (filters.type ? counts[filters.type] : counts.all) - 1;
+              if (!timeOrdered || (index >= offset && index < offset + limit)) {
+                transactions.push(tx);
+              }
+            }
+          }
+          cursor.continue();
+          return;
+        }
+
+        resolve({
+          transactions: timeOrdered
+            ? transactions
+            : transactions
+                .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+                .slice(offset, offset + limit),
+          total: filters.type ? counts[filters.type] : counts.all,
+          counts,
+        });
+      };
+      request.onerror = () =>
+        reject(new Error(`Transaction query failed: ${request.error?.message}`));
+    });
+  }
+
+  // Checks every filter except the type, which queryTransactions counts separately
+  private static async buildTransactionMatcher(
+    filters: TransactionFilters,
+  ): Promise<(tx: TransactionData) => boolean> {
+    const normalize = (value?: string) => value?.trim().toLowerCase() || '';
+    const counterparty = normalize(filters.counterparty);
+    const memo = normalize(filters.memo);
+    const text = normalize(filters.text);
+    const from = filters.from ? new Date(`${filters.from}T00:00:00Z`).getTime() : -Infinity;
+    const to = filters.to ? new Date(`${filters.to}T23:59:59.999Z`).getTime() : Infinity;
+
+    // Contact names and imported labels are only read when a text filter needs them
+    const addressNames = new Map<string, string>();
+    const txLabels = new Map<string, string>();
+    if (counterparty || memo || text) {
+      const [savedAddresses, labels] = await Promise.all([
+        this.getSavedAddresses(),
+        this.getLabels(),
+      ]);
+      Object.values(labels).forEach((record) => {
+        if (record.type === 'addr' && record.label) addressNames.set(record.ref, record.label);
+        if (record.type === 'tx' && record.label) txLabels.set(record.ref, record.label);
+      });
+      savedAddresses.forEach((saved) => addressNames.set(saved.address, saved.name));
+    }
+
+    const categoryNames = new Map(
+      DEFAULT_TRANSACTION_CATEGORIES.map((option) => [option.id, option.name]),
+    );
+
+    return (tx) => {
+      const time = new Date(tx.timestamp).getTime();
+      if (time < from || time > to) return false;
+      if (filters.minAmount !== undefined && tx.amount < filters.minAmount) return false;
+      if (filters.maxAmount !== undefined && tx.amount > filters.maxAmount) return false;
+      if (filters.category && tx.category !== filters.category) return false;
+      if (filters.status && this.getTransactionStatus(tx) !== filters.status) return false;
+
+      const party = tx.type === 'send' ? tx.address : tx.fromAddress || tx.address;
+      const partyText = `${party} ${addressNames.get(party) || ''}`.toLowerCase();
+      const memoText = (tx.memo || txLabels.get(tx.txid) || '').toLowerCase();
+      if (counterparty && !partyText.includes(counterparty)) return false;
+      if (memo && !memoText.includes(memo)) return false;
+
+      if (text) {
+        const category = tx.category ? categoryNames.get(tx.category) || tx.category : '';
+        return [partyText, memoText, tx.txid, category.toLowerCase()].some((field) =>
+          field.includes(text),
+        );
+      }
+      return true;
+    };
+  }
+
+  private static getTransactionStatus(tx: TransactionData): TransactionStatusFilter {
+    const confirmations = Number(tx.confirmations) || 0;
+    if (tx.spvStatus === 'failed') return 'failed';
+    if (confirmations === 0) return 'pending';
+    if (confirmations < 6) return 'confirming';
+    if (tx.spvStatus !== 'verified' && tx.spvStatus !== 'partial') return 'confirming';
+    return 'confirmed';
+  }
+
   static async getTransaction(
     txid: string,
     type?: 'send' | 'receive',
@@ -1390,6 +1810,77 @@ export class StorageService {
     }
   }
 
+  /**
+   * Record RBF/CPFP relationships on every stored record for a txid
+   * (a transaction can be stored once per wallet address and direction)
+   */
+  static async linkTransactions(
+    txid: string,
+    links: Pick<TransactionData, 'replaces' | 'replacedBy' | 'acceleratedBy'>,
+  ): Promise<boolean> {
+    try {
+      const transactions: TransactionData[] = await this.performTransaction(
+        'transactions',
+        'readonly',
+        (store) => store.index('txid').getAll(txid),
+      );
+
+      if (transactions.length === 0) {
+        storageLogger.warn('Transaction not found for linking:', txid);
+        return false;
+      }
+
+      for (const transaction of transactions) {
+        await this.performTransaction('transactions', 'readwrite', (store) =>
+          store.put({ ...transaction, ...links }),
+        );
+      }
+
+      return true;
+    } catch (error) {
+      storageLogger.error('Failed to link transactions:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Set the memo and category of a transaction, for one wallet's record or all of them
+   */
+  static async updateTransactionNotes(
+    txid: string,
+    notes: TransactionNotes,
+    walletAddress?: string,
+  ): Promise<boolean> {
+    try {
+      const transactions: TransactionData[] = await this.performTransaction(
+        'transactions',
+        'readonly',
+        (store) => store.index('txid').getAll(txid),
+      );
+      const targets = transactions.filter(
+        (tx) => !walletAddress || tx.walletAddress === walletAddress,
+      );
+
+      if (targets.length === 0) {
+        storageLogger.warn('Transaction not found for notes:', txid);
+        return false;
+      }
+
+      const memo = notes.memo?.trim() || undefined;
+      const category = notes.category || undefined;
+      for (const transaction of targets) {
+        await this.performTransaction('transactions', 'readwrite', (store) =>
+          store.put({ ...transaction, memo, category }),
+        );
+      }
+
+      return true;
+    } catch (error) {
+      storageLogger.error('Failed to update transaction notes:', error);
+      return false;
+    }
+  }
+
   static async clearTransactionHistory(): Promise<void> {
     try {
       await this.performTransaction('transactions', 'readwrite', (store) => store.clear());
@@ -1810,6 +2301,7 @@ export class StorageService {
             biometricsEnabled: false,
             biometricCredentialId: undefined,
             encryptedBiometricPassword: undefined,
+            biometricKeyWrap: undefined,
           };
 
           // Save the updated wallet
@@ -1844,6 +2336,7 @@ export class StorageService {
               biometricsEnabled: false,
               biometricCredentialId: undefined,
               encryptedBiometricPassword: undefined,
+              biometricKeyWrap: undefined,
             };
 
             await this.performTransaction('wallets', 'readwrite', (store) =>
@@ -1946,6 +2439,7 @@ export class StorageService {
       const updatedWallet = {
         ...wallet,
         encryptedBiometricPassword: encryptedPassword,
+        biometricKeyWrap: undefined, // Belonged to a previous credential
         biometricsEnabled: true,
         // Ensure biometricCredentialId is maintained
         biometricCredentialId: wallet.biometricCredentialId,
@@ -2014,6 +2508,49 @@ export class StorageService {
     }
   }
 
+  /**
+   * Whether a wallet has a password stored for the credential-keyed biometric fallback
+   */
+  static async hasEncryptedWalletPassword(walletAddress: string): Promise<boolean> {
+    const wallet = await this.getWalletByAddress(walletAddress);
+    if (wallet?.encryptedBiometricPassword) {
+      return true;
+    }
+    const walletPasswords =
+      ((await this.getPreference('biometricWalletPasswords')) as Record<string, string>) || {};
+    return !!walletPasswords[walletAddress];
+  }
+
+  /**
+   * Store a wallet password wrapped with the authenticator's PRF secret. Copies kept under the
+   * credential-derived key are removed, so the password only exists in wrapped form.
+   */
+  static async setBiometricKeyWrap(
+    walletAddress: string,
+    keyWrap: BiometricKeyWrap,
+  ): Promise<void> {
+    const wallet = await this.getWalletByAddress(walletAddress);
+    if (!wallet) {
+      throw new Error(`Wallet not found: ${walletAddress}`);
+    }
+
+    await this.performTransaction('wallets', 'readwrite', (store) =>
+      store.put({
+        ...wallet,
+        biometricKeyWrap: keyWrap,
+        encryptedBiometricPassword: undefined,
+        biometricsEnabled: true,
+      }),
+    );
+
+    const walletPasswords =
+      ((await this.getPreference('biometricWalletPasswords')) as Record<string, string>) || {};
+    if (walletPasswords[walletAddress]) {
+      delete walletPasswords[walletAddress];
+      await this.setPreference('biometricWalletPasswords', walletPasswords);
+    }
+  }
+
   static async removeEncryptedWalletPassword(walletAddress?: string): Promise<void> {
     try {
       if (walletAddress) {
@@ -2314,11 +2851,14 @@ export class StorageService {
         return false;
       }
 
-      // Create updated wallet object with biometric data
+      // Create updated wallet object with biometric data. A password stored for an earlier
+      // credential can't be recovered with this one, so it is dropped.
       const updatedWallet = {
         ...wallet,
         biometricsEnabled: true,
         biometricCredentialId: credentialId,
+        biometricKeyWrap: undefined,
+        encryptedBiometricPassword: undefined,
         lastAccessed: new Date(), // Update last accessed time
       };
 
@@ -6,6 +6,7 @@
 // Re-export all core services
 export { StorageService } from './StorageService';
 export { ElectrumService } from './ElectrumService';
+export { WebSocketTransport, MemoryTransport } from './ElectrumTransport';
 export { SecurityService } from './SecurityService';
 export { BackupService } from './BackupService';
 export { TermsService } from './TermsService';
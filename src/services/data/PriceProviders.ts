@@ -0,0 +1,103 @@
+/**
+ * AVN price providers
+ *
+ * CoinGeckoPriceProvider is the live source. FixturePriceProvider answers from fixed data so
+ * pricing can be exercised without network access.
+ */
+
+import { DailyPrices, FiatCurrency, PriceProvider, PriceQuote } from '@/types/price';
+
+const COINGECKO_API = 'https://api.coingecko.com/api/v3';
+const COINGECKO_COIN_ID = 'avian-network';
+const REQUEST_TIMEOUT = 8000;
+
+// UTC calendar day of a date, as used for daily price keys
+export const toPriceDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+export class CoinGeckoPriceProvider implements PriceProvider {
+  readonly name = 'CoinGecko';
+
+  async getPrice(currency: FiatCurrency): Promise<PriceQuote> {
+    const code = currency.toLowerCase();
+    const data = await this.request(
+      `/simple/price?ids=${COINGECKO_COIN_ID}&vs_currencies=${code}&include_24hr_change=true`,
+    );
+
+    const quote = data[COINGECKO_COIN_ID];
+    if (!quote || typeof quote[code] !== 'number') {
+      throw new Error(`AVN ${currency} price not found in API response`);
+    }
+
+    return { price: quote[code], change24h: quote[`${code}_24h_change`] || 0 };
+  }
+
+  /**
+   * CoinGecko returns daily points for ranges over 90 days and finer ones below that;
+   * the last point of each UTC day is used as that day's price.
+   */
+  async getDailyPrices(currency: FiatCurrency, from: Date, to: Date): Promise<DailyPrices> {
+    const start = Math.floor(from.getTime() / 1000);
+    const end = Math.floor(to.getTime() / 1000) + 24 * 60 * 60;
+    const data = await this.request(
+      `/coins/${COINGECKO_COIN_ID}/market_chart/range?vs_currency=${currency.toLowerCase()}` +
+        `&from=${start}&to=${end}`,
+    );
+
+    const prices: DailyPrices = {};
+    for (const [timestamp, price] of (data.prices || []) as Array<[number, number]>) {
+      prices[toPriceDay(new Date(timestamp))] = price;
+    }
+    return prices;
+  }
+
+  private async request(path: string): Promise<any> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+    try {
+      const response = await fetch(`${COINGECKO_API}${path}`, {
+        signal: controller.signal,
+        headers: { Accept: 'application/json' },
+      });
+      if (!response.ok) {
+        throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
+      }
+      return await response.json();
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+export class FixturePriceProvider implements PriceProvider {
+  readonly name = 'Fixture';
+
+  /**
+   * @param prices - Current AVN price per currency
+   * @param history - Daily AVN prices per currency
+   */
+  constructor(
+    private prices: Partial<Record<FiatCurrency, number>>,
+    private history: Partial<Record<FiatCurrency, DailyPrices>> = {},
+  ) {}
+
+  async getPrice(currency: FiatCurrency): Promise<PriceQuote> {
+    const price = this.prices[currency];
+    if (price === undefined) {
+      throw new Error(`No fixture price for ${currency}`);
+    }
+    return { price, change24h: 0 };
+  }
+
+  async getDailyPrices(currency: FiatCurrency, from: Date, to: Date): Promise<DailyPrices> {
+    const first = toPriceDay(from);
+    const last = toPriceDay(to);
+    const prices: DailyPrices = {};
+    for (const [day, price] of Object.entries(this.history[currency] || {})) {
+      if (day >= first && day <= last) {
+        prices[day] = price;
+      }
+    }
+    return prices;
+  }
+}
@@ -1,19 +1,32 @@
 /**
  * Service to handle price data fetching with rate limiting
- * Uses CoinGecko API with proper throttling to avoid hitting rate limits
+ * Prices come from a PriceProvider (CoinGecko by default) in the user's chosen fiat currency,
+ * with proper throttling to avoid hitting rate limits. Daily historical prices are cached
+ * locally so past transactions can be valued at the time they happened.
  */
 
 import { NotificationType } from '../notifications/NotificationTypes';
+import { StorageService } from '../core/StorageService';
+import { CoinGeckoPriceProvider, toPriceDay } from './PriceProviders';
 import { priceLogger } from '@/lib/Logger';
+import { DailyPrices, FiatCurrency, PriceProvider } from '@/types/price';
 
 // Store the last price fetch time and value
 let lastPriceFetch: {
   timestamp: number;
   price: number;
+  change24h: number;
+  currency: FiatCurrency;
 } | null = null;
 
 // Track in-flight price fetch requests to prevent duplicate calls
-let currentFetchPromise: Promise<PriceData | null> | null = null;
+let currentFetch: { currency: FiatCurrency; promise: Promise<PriceData | null> } | null = null;
+
+// Historical price lookups run one at a time so overlapping requests share one fetch
+let historyQueue: Promise<unknown> = Promise.resolve();
+
+// Days (currency:YYYY-MM-DD) already requested from the provider this session
+const historyAttempts: Set<string> = new Set();
 
 // Minimum interval between API calls (in ms)
 // CoinGecko free API has ~10-30 calls/minute limit
@@ -22,6 +35,7 @@ const MIN_FETCH_INTERVAL = 60000; // 1 minute
 export interface PriceData {
   price: number;
   change24h: number;
+  currency: FiatCurrency;
   lastUpdated: Date;
 }
 
@@ -34,95 +48,147 @@ export interface NotificationMessage {
 }
 
 export class PriceService {
+  static readonly DEFAULT_CURRENCY: FiatCurrency = 'USD';
+
+  static readonly CURRENCIES: Array<{ code: FiatCurrency; name: string }> = [
+    { code: 'USD', name: 'US Dollar' },
+    { code: 'EUR', name: 'Euro' },
+    { code: 'GBP', name: 'British Pound' },
+    { code: 'CAD', name: 'Canadian Dollar' },
+    { code: 'AUD', name: 'Australian Dollar' },
+    { code: 'JPY', name: 'Japanese Yen' },
+    { code: 'CHF', name: 'Swiss Franc' },
+    { code: 'CNY', name: 'Chinese Yuan' },
+    { code: 'KRW', name: 'South Korean Won' },
+    { code: 'INR', name: 'Indian Rupee' },
+    { code: 'BRL', name: 'Brazilian Real' },
+  ];
+
+  private static provider: PriceProvider = new CoinGeckoPriceProvider();
+
+  /**
+   * Replace the price source, e.g. with a FixturePriceProvider in tests
+   */
+  public static setProvider(provider: PriceProvider): void {
+    this.provider = provider;
+    lastPriceFetch = null;
+    historyAttempts.clear();
+  }
+
+  /**
+   * The fiat currency values are shown in, from the stored currency preference
+   */
+  public static async getCurrency(): Promise<FiatCurrency> {
+    try {
+      const currency = await StorageService.getCurrency();
+      return this.isSupportedCurrency(currency) ? currency : this.DEFAULT_CURRENCY;
+    } catch (error) {
+      return this.DEFAULT_CURRENCY;
+    }
+  }
+
+  public static async setCurrency(currency: FiatCurrency): Promise<void> {
+    if (!this.isSupportedCurrency(currency)) {
+      throw new Error(`Unsupported currency: ${currency}`);
+    }
+    await StorageService.setCurrency(currency);
+  }
+
+  public static isSupportedCurrency(currency: string): currency is FiatCurrency {
+    return this.CURRENCIES.some((supported) => supported.code === currency);
+  }
+
+  /**
+   * Format a fiat amount, e.g. a balance's value
+   */
+  public static formatFiat(value: number, currency: FiatCurrency): string {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(value);
+  }
+
+  /**
+   * Format the price of one AVN, keeping the extra decimals sub-unit prices need
+   */
+  public static formatPrice(price: number, currency: FiatCurrency): string {
+    return new Intl.NumberFormat(undefined, {
+      style: 'currency',
+      currency,
+      maximumSignificantDigits: price < 1 ? 4 : undefined,
+    }).format(price);
+  }
+
   /**
-   * Fetch AVN price from CoinGecko with rate limiting
+   * Fetch the AVN price in the given currency (default: the user's) with rate limiting
    * Implements request deduplication to avoid multiple simultaneous calls
    */
-  public static async getAvnPrice(forceFresh = false): Promise<PriceData | null> {
+  public static async getAvnPrice(
+    forceFresh = false,
+    currency?: FiatCurrency,
+  ): Promise<PriceData | null> {
     const now = Date.now();
+    const quoteCurrency = currency || (await this.getCurrency());
 
     // Check if we've already fetched within the rate limit window
-    if (!forceFresh && lastPriceFetch && now - lastPriceFetch.timestamp < MIN_FETCH_INTERVAL) {
+    if (
+      !forceFresh &&
+      lastPriceFetch &&
+      lastPriceFetch.currency === quoteCurrency &&
+      now - lastPriceFetch.timestamp < MIN_FETCH_INTERVAL
+    ) {
       priceLogger.debug('Using cached price data within rate limit window');
 
       // Return cached data
       return {
         price: lastPriceFetch.price,
-        change24h: 0, // We don't store the change in cache
+        change24h: lastPriceFetch.change24h,
+        currency: quoteCurrency,
         lastUpdated: new Date(lastPriceFetch.timestamp),
       };
     }
 
     // If there's already a fetch in progress, return that promise instead of starting a new one
-    if (currentFetchPromise) {
+    if (currentFetch && currentFetch.currency === quoteCurrency) {
       priceLogger.debug('Reusing in-flight price fetch request');
-      return currentFetchPromise;
+      return currentFetch.promise;
     }
 
-    // Check for stored price in local storage as backup
-    const storedPrice = this.getLastKnownPrice();
-
     // Create a new fetch promise and store it
-    currentFetchPromise = this.fetchPriceData();
-    return currentFetchPromise;
+    const promise = this.fetchPriceData(quoteCurrency);
+    currentFetch = { currency: quoteCurrency, promise };
+    return promise;
   }
 
   /**
-   * Internal method to fetch price data from CoinGecko
+   * Internal method to fetch price data from the provider
    * This is separated to allow for request deduplication
    */
-  private static async fetchPriceData(): Promise<PriceData | null> {
+  private static async fetchPriceData(currency: FiatCurrency): Promise<PriceData | null> {
     const now = Date.now();
-    const storedPrice = this.getLastKnownPrice();
+    const storedPrice = this.getLastKnownPrice(currency);
 
     try {
-      // Set a timeout for the fetch operation to prevent long-hanging requests
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 8000); // 8-second timeout
-
-      priceLogger.debug('Fetching price from CoinGecko API');
-
-      const response = await fetch(
-        'https://api.coingecko.com/api/v3/simple/price?ids=avian-network&vs_currencies=usd&include_24hr_change=true',
-        {
-          signal: controller.signal,
-          headers: {
-            Accept: 'application/json',
-            'Content-Type': 'application/json',
-          },
-        },
-      );
-
-      // Clear the timeout since we got a response
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
+      priceLogger.debug(`Fetching ${currency} price from ${this.provider.name}`);
 
-      if (!data['avian-network']) {
-        throw new Error('AVN price data not found in API response');
-      }
-
-      const price = data['avian-network'].usd;
-      const change24h = data['avian-network'].usd_24h_change || 0;
+      const { price, change24h } = await this.provider.getPrice(currency);
 
       // Update cache
       lastPriceFetch = {
         timestamp: now,
         price: price,
+        change24h,
+        currency,
       };
 
       // Also update localStorage for persistence across sessions
-      this.saveLastKnownPrice(price);
+      this.saveLastKnownPrice(price, currency);
 
-      priceLogger.info(`Updated AVN price: $${price.toFixed(8)}, change: ${change24h.toFixed(2)}%`);
+      priceLogger.info(
+        `Updated AVN price: ${price.toFixed(8)} ${currency}, change: ${change24h.toFixed(2)}%`,
+      );
 
       return {
         price,
         change24h,
+        currency,
         lastUpdated: new Date(),
       };
     } catch (error) {
@@ -134,11 +200,12 @@ export class PriceService {
       }
 
       // First try in-memory cache
-      if (lastPriceFetch) {
+      if (lastPriceFetch && lastPriceFetch.currency === currency) {
         priceLogger.info('Using in-memory cached price data as fallback');
         return {
           price: lastPriceFetch.price,
           change24h: 0,
+          currency,
           lastUpdated: new Date(lastPriceFetch.timestamp),
         };
       }
@@ -150,10 +217,13 @@ export class PriceService {
         lastPriceFetch = {
           timestamp: storedPrice.timestamp,
           price: storedPrice.price,
+          change24h: 0,
+          currency,
         };
         return {
           price: storedPrice.price,
           change24h: 0,
+          currency,
           lastUpdated: new Date(storedPrice.timestamp),
         };
       }
@@ -164,10 +234,70 @@ export class PriceService {
       return null;
     } finally {
       // Clear the current fetch promise to allow future fetches
-      currentFetchPromise = null;
+      if (currentFetch?.currency === currency) {
+        currentFetch = null;
+      }
     }
   }
 
+  /**
+   * AVN prices in the given currency (default: the user's) on the UTC days of the given dates.
+   * Days are served from the local cache when possible; the rest are fetched from the provider
+   * in one range request. Days the provider has no price for are left out.
+   */
+  public static async getHistoricalPrices(
+    dates: Date[],
+    currency?: FiatCurrency,
+  ): Promise<DailyPrices> {
+    const quoteCurrency = currency || (await this.getCurrency());
+    const lookup = historyQueue.then(() => this.loadHistoricalPrices(dates, quoteCurrency));
+    historyQueue = lookup.catch(() => undefined);
+    return lookup;
+  }
+
+  private static async loadHistoricalPrices(
+    dates: Date[],
+    currency: FiatCurrency,
+  ): Promise<DailyPrices> {
+    const days = Array.from(new Set(dates.map(toPriceDay))).sort();
+    const cached = await StorageService.getPriceHistory(currency);
+
+    const missing = days.filter(
+      (day) => !(day in cached) && !historyAttempts.has(`${currency}:${day}`),
+    );
+    if (missing.length > 0) {
+      missing.forEach((day) => historyAttempts.add(`${currency}:${day}`));
+      try {
+        priceLogger.debug(`Fetching ${currency} prices for ${missing.length} days`);
+        const fetched = await this.provider.getDailyPrices(
+          currency,
+          new Date(`${missing[0]}T00:00:00Z`),
+          new Date(`${missing[missing.length - 1]}T00:00:00Z`),
+        );
+
+        // Today's price is still moving, so it is not cached
+        const today = toPriceDay(new Date());
+        for (const [day, price] of Object.entries(fetched)) {
+          if (day !== today) {
+            cached[day] = price;
+          }
+        }
+        await StorageService.setPriceHistory(currency, cached);
+        Object.assign(cached, fetched);
+      } catch (error) {
+        priceLogger.error('Error fetching historical AVN prices:', error);
+      }
+    }
+
+    const prices: DailyPrices = {};
+    for (const day of days) {
+      if (day in cached) {
+        prices[day] = cached[day];
+      }
+    }
+    return prices;
+  }
+
   /**
    * Check if a price change warrants a notification based on threshold
    */
@@ -185,14 +315,18 @@ export class PriceService {
   /**
    * Create a price alert notification
    */
-  public static createPriceNotification(oldPrice: number, newPrice: number): NotificationMessage {
+  public static createPriceNotification(
+    oldPrice: number,
+    newPrice: number,
+    currency: FiatCurrency = PriceService.DEFAULT_CURRENCY,
+  ): NotificationMessage {
     const percentChange = ((newPrice - oldPrice) / oldPrice) * 100;
     const direction = percentChange >= 0 ? 'up' : 'down';
 
     return {
       type: 'price_alert',
       title: `AVN Price ${direction === 'up' ? 'Up' : 'Down'} ${Math.abs(percentChange).toFixed(2)}%`,
-      body: `AVN price is now $${newPrice.toFixed(8)} (${direction === 'up' ? '+' : ''}${percentChange.toFixed(2)}%)`,
+      body: `AVN price is now ${this.formatPrice(newPrice, currency)} (${direction === 'up' ? '+' : ''}${percentChange.toFixed(2)}%)`,
       icon: '/icons/icon-192x192.png',
       data: {
         price: newPrice,
@@ -204,12 +338,16 @@ export class PriceService {
   /**
    * Store the last price in localStorage to track changes between sessions
    */
-  public static saveLastKnownPrice(price: number): void {
+  public static saveLastKnownPrice(
+    price: number,
+    currency: FiatCurrency = PriceService.DEFAULT_CURRENCY,
+  ): void {
     try {
       localStorage.setItem(
         'lastKnownPrice',
         JSON.stringify({
           price,
+          currency,
           timestamp: Date.now(),
         }),
       );
@@ -219,12 +357,16 @@ export class PriceService {
   }
 
   /**
-   * Get the last known price from localStorage
+   * Get the last known price from localStorage, if it was quoted in the given currency.
+   * Prices saved before currencies were selectable are in USD.
    */
-  public static getLastKnownPrice(): { price: number; timestamp: number } | null {
+  public static getLastKnownPrice(
+    currency: FiatCurrency = PriceService.DEFAULT_CURRENCY,
+  ): { price: number; timestamp: number } | null {
     try {
       const data = localStorage.getItem('lastKnownPrice');
-      return data ? JSON.parse(data) : null;
+      const stored = data ? JSON.parse(data) : null;
+      return stored && (stored.currency || 'USD') === currency ? stored : null;
     } catch (error) {
       priceLogger.error('Error getting last known price:', error);
       return null;
@@ -242,15 +384,20 @@ export class PriceService {
     // If price alerts are explicitly disabled, don't send notifications
     if (priceAlertsEnabled === false) return null;
 
-    const lastKnownPrice = this.getLastKnownPrice();
+    const currency = await this.getCurrency();
+    const lastKnownPrice = this.getLastKnownPrice(currency);
     if (!lastKnownPrice) return null;
 
-    const currentPrice = await this.getAvnPrice();
+    const currentPrice = await this.getAvnPrice(false, currency);
     if (!currentPrice) return null;
 
     if (this.shouldNotifyPriceChange(lastKnownPrice.price, currentPrice.price, threshold)) {
-      this.saveLastKnownPrice(currentPrice.price);
-      return this.createPriceNotification(lastKnownPrice.price, currentPrice.price);
+      this.saveLastKnownPrice(currentPrice.price, currentPrice.currency);
+      return this.createPriceNotification(
+        lastKnownPrice.price,
+        currentPrice.price,
+        currentPrice.currency,
+      );
     }
 
     return null;
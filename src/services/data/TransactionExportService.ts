@@ -0,0 +1,298 @@
+/**
+ * Transaction history export
+ *
+ * Builds a date-range export of stored transaction history across one or all wallets, with
+ * counterparty labels from the address book and each transaction valued at the AVN price on
+ * the day it happened. Besides plain CSV and JSON, rows can be written in the CSV import
+ * layouts of Koinly and CoinTracking.
+ */
+
+import { StorageService, TransactionData } from '../core/StorageService';
+import { PriceService } from './PriceService';
+import { toPriceDay } from './PriceProviders';
+import { priceLogger } from '@/lib/Logger';
+import { FiatCurrency } from '@/types/price';
+import {
+  TransactionExportFormat,
+  TransactionExportOptions,
+  TransactionExportRow,
+} from '@/types/transactionExport';
+
+const NATIVE_CURRENCY = 'AVN';
+
+const CSV_COLUMNS: Array<keyof TransactionExportRow> = [
+  'txid',
+  'date',
+  'direction',
+  'amount',
+  'currency',
+  'fee',
+  'counterparty',
+  'label',
+  'memo',
+  'category',
+  'blockHeight',
+  'wallet',
+  'fiatValue',
+  'fiatCurrency',
+];
+
+// https://support.koinly.io/en/articles/9489976-how-to-create-a-custom-csv-file-with-your-data
+const KOINLY_COLUMNS = [
+  'Date',
+  'Sent Amount',
+  'Sent Currency',
+  'Received Amount',
+  'Received Currency',
+  'Fee Amount',
+  'Fee Currency',
+  'Net Worth Amount',
+  'Net Worth Currency',
+  'Label',
+  'Description',
+  'TxHash',
+];
+
+// CoinTracking's "CoinTracking CSV" import template
+const COINTRACKING_COLUMNS = [
+  'Type',
+  'Buy Amount',
+  'Buy Currency',
+  'Sell Amount',
+  'Sell Currency',
+  'Fee',
+  'Fee Currency',
+  'Exchange',
+  'Trade-Group',
+  'Comment',
+  'Date',
+  'Tx-ID',
+];
+
+const FORMAT_EXTENSIONS: Record<TransactionExportFormat, string> = {
+  csv: 'csv',
+  json: 'json',
+  koinly: 'csv',
+  cointracking: 'csv',
+};
+
+export class TransactionExportService {
+  static readonly FORMATS: Array<{ id: TransactionExportFormat; name: string }> = [
+    { id: 'csv', name: 'CSV' },
+    { id: 'json', name: 'JSON' },
+    { id: 'koinly', name: 'Koinly CSV' },
+    { id: 'cointracking', name: 'CoinTracking CSV' },
+  ];
+
+  /**
+   * Collect the transactions matching the options as export rows, oldest first
+   */
+  static async buildRows(
+    options: Omit<TransactionExportOptions, 'format'>,
+    currency?: FiatCurrency,
+  ): Promise<TransactionExportRow[]> {
+    const fiatCurrency = currency || (await PriceService.getCurrency());
+    const [wallets, savedAddresses] = await Promise.all([
+      StorageService.getAllWallets(),
+      StorageService.getSavedAddresses(),
+    ]);
+
+    const labels = new Map<string, string>();
+    savedAddresses.forEach((saved) => labels.set(saved.address, saved.name));
+    // Wallet names win over address book entries for the user's own addresses
+    wallets.forEach((wallet) => labels.set(wallet.address, wallet.name));
+
+    const addresses = options.walletAddresses || wallets.map((wallet) => wallet.address);
+    const histories = await Promise.all(
+      addresses.map((address) => StorageService.getTransactionHistory(address)),
+    );
+
+    const transactions = ([] as TransactionData[])
+      .concat(...histories)
+      .filter((tx) => this.inRange(new Date(tx.timestamp), options.from, options.to))
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    let prices: Record<string, number> = {};
+    if (transactions.length > 0) {
+      try {
+        prices = await PriceService.getHistoricalPrices(
+          transactions.map((tx) => new Date(tx.timestamp)),
+          fiatCurrency,
+        );
+      } catch (error) {
+        // Export without fiat values rather than not at all
+        priceLogger.warn('Historical prices unavailable for export:', error);
+      }
+    }
+
+    return transactions.map((tx) => this.toRow(tx, labels, prices, fiatCurrency));
+  }
+
+  /**
+   * Export matching transactions in the requested format
+   */
+  static async export(
+    options: TransactionExportOptions,
+    currency?: FiatCurrency,
+  ): Promise<{ content: string; rowCount: number }> {
+    const rows = await this.buildRows(options, currency);
+    return { content: this.format(rows, options.format), rowCount: rows.length };
+  }
+
+  static format(rows: TransactionExportRow[], format: TransactionExportFormat): string {
+    switch (format) {
+      case 'json':
+        return this.toJSON(rows);
+      case 'koinly':
+        return this.toKoinlyCSV(rows);
+      case 'cointracking':
+        return this.toCoinTrackingCSV(rows);
+      case 'csv':
+      default:
+        return this.toCSV(rows);
+    }
+  }
+
+  static toCSV(rows: TransactionExportRow[]): string {
+    return this.csv(
+      CSV_COLUMNS,
+      rows.map((row) => CSV_COLUMNS.map((column) => row[column])),
+    );
+  }
+
+  static toJSON(rows: TransactionExportRow[]): string {
+    return JSON.stringify(rows, null, 2);
+  }
+
+  static toKoinlyCSV(rows: TransactionExportRow[]): string {
+    return this.csv(
+      KOINLY_COLUMNS,
+      rows.map((row) => {
+        const sent = row.direction === 'send';
+        return [
+          this.formatUtcDate(row.date) + ' UTC',
+          sent ? row.amount : '',
+          sent ? row.currency : '',
+          sent ? '' : row.amount,
+          sent ? '' : row.currency,
+          row.fee ?? '',
+          row.fee !== null ? NATIVE_CURRENCY : '',
+          row.fiatValue ?? '',
+          row.fiatValue !== null ? row.fiatCurrency : '',
+          '',
+          this.describe(row),
+          row.txid,
+        ];
+      }),
+    );
+  }
+
+  static toCoinTrackingCSV(rows: TransactionExportRow[]): string {
+    return this.csv(
+      COINTRACKING_COLUMNS,
+      rows.map((row) => {
+        const sent = row.direction === 'send';
+        return [
+          sent ? 'Withdrawal' : 'Deposit',
+          sent ? '' : row.amount,
+          sent ? '' : row.currency,
+          sent ? row.amount : '',
+          sent ? row.currency : '',
+          row.fee ?? '',
+          row.fee !== null ? NATIVE_CURRENCY : '',
+          'Avian FlightDeck',
+          '',
+          this.describe(row),
+          this.formatUtcDate(row.date),
+          row.txid,
+        ];
+      }),
+    );
+  }
+
+  static getFileName(format: TransactionExportFormat, from?: Date, to?: Date): string {
+    const range =
+      from || to ? `-${from ? toPriceDay(from) : 'start'}-to-${to ? toPriceDay(to) : 'now'}` : '';
+    const suffix = format === 'csv' || format === 'json' ? '' : `-${format}`;
+    return `avian-transactions${range}${suffix}.${FORMAT_EXTENSIONS[format]}`;
+  }
+
+  static downloadFile(content: string, format: TransactionExportFormat, from?: Date, to?: Date) {
+    const type = format === 'json' ? 'application/json' : 'text/csv';
+    const blob = new Blob([content], { type });
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = this.getFileName(format, from, to);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  private static toRow(
+    tx: TransactionData,
+    labels: Map<string, string>,
+    prices: Record<string, number>,
+    fiatCurrency: FiatCurrency,
+  ): TransactionExportRow {
+    const date = new Date(tx.timestamp);
+    const price = prices[toPriceDay(date)];
+    const isAsset = Boolean(tx.asset);
+
+    return {
+      txid: tx.txid,
+      date: date.toISOString(),
+      direction: tx.type,
+      amount: isAsset ? tx.assetAmount || 0 : tx.amount,
+      currency: isAsset ? (tx.asset as string) : NATIVE_CURRENCY,
+      fee: tx.type === 'send' && tx.fee !== undefined ? tx.fee : null,
+      counterparty: tx.address,
+      label: labels.get(tx.address) || '',
+      memo: tx.memo || '',
+      category: tx.category || '',
+      blockHeight: tx.blockHeight ?? null,
+      wallet: tx.walletAddress,
+      // Asset transfers have no AVN price to value them with
+      fiatValue: isAsset || price === undefined ? null : Math.round(tx.amount * price * 100) / 100,
+      fiatCurrency,
+    };
+  }
+
+  // The whole `to` day is included
+  private static inRange(date: Date, from?: Date, to?: Date): boolean {
+    const day = toPriceDay(date);
+    return (!from || day >= toPriceDay(from)) && (!to || day <= toPriceDay(to));
+  }
+
+  // Counterparty and memo as one free-text description
+  private static describe(row: TransactionExportRow): string {
+    const party = row.label ? `${row.label} (${row.counterparty})` : row.counterparty;
+    const description = `${row.direction === 'send' ? 'To' : 'From'} ${party}`;
+    return row.memo ? `${description} - ${row.memo}` : description;
+  }
+
+  // YYYY-MM-DD HH:mm:ss in UTC
+  private static formatUtcDate(iso: string): string {
+    return iso.slice(0, 19).replace('T', ' ');
+  }
+
+  private static csv(header: string[], rows: unknown[][]): string {
+    return [header, ...rows]
+      .map((row) => row.map((cell) => this.escape(cell)).join(','))
+      .join('\n');
+  }
+
+  // Text starting with = + - @, a tab or a carriage return is read as a formula by
+  // spreadsheets, so it is prefixed with a quote. Numbers are left alone so negative
+  // amounts stay numeric.
+  private static escape(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    let text = String(value);
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
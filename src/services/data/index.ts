@@ -5,3 +5,5 @@
 
 // Re-export all data services
 export { PriceService } from './PriceService';
+export { CoinGeckoPriceProvider, FixturePriceProvider } from './PriceProviders';
+export { TransactionExportService } from './TransactionExportService';
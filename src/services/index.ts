@@ -56,16 +56,31 @@ export { WatchedAddressNotifier } from './notifications/client/WatchedAddressNot
 // Wallet Services
 export { WalletService } from './wallet/WalletService';
 export { UTXOSelectionService } from './wallet/UTXOSelectionService';
+export { FeeEstimationService } from './wallet/FeeEstimationService';
+export { OfflineSigningService } from './wallet/OfflineSigningService';
+export { AddressDiscoveryService } from './wallet/AddressDiscoveryService';
+export { AssetService } from './wallet/AssetService';
+export { MultisigService } from './wallet/MultisigService';
+export { SpvService } from './wallet/SpvService';
+export { LabelService } from './wallet/LabelService';
+export { BatchPaymentService } from './wallet/BatchPaymentService';
+export { ScheduledPaymentService } from './wallet/ScheduledPaymentService';
+export { InvoiceService } from './wallet/InvoiceService';
+export { PaymentUriService } from './wallet/PaymentUriService';
 export { WatchAddressService } from './wallet/WatchAddressService';
 
 // Data Services
 export { PriceService } from './data/PriceService';
+export { CoinGeckoPriceProvider, FixturePriceProvider } from './data/PriceProviders';
+export { TransactionExportService } from './data/TransactionExportService';
 
 // ============================================================
 // Types
 // ============================================================
 // Export common types used across services
 export type { WatchAddress } from './wallet/WatchAddressService';
+export type { FeeEstimates, FeePriority } from './wallet/FeeEstimationService';
+export type { AddressDeriver, AddressDiscoveryOptions } from './wallet/AddressDiscoveryService';
 export type {
   WalletNotificationPreferences,
   NotificationRecord,
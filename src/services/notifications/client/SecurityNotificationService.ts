@@ -163,6 +163,13 @@ export class SecurityNotificationService {
         }
         return null;
 
+      // Server data that contradicts verified block headers - always notify
+      case 'spv_verification_failed':
+        return {
+          title: 'Security Alert: Verification Failed',
+          body: 'Your Electrum server sent blockchain data that failed verification. Consider switching servers.',
+        };
+
       // Unknown events - notify with generic message
       default:
         if (!success) {
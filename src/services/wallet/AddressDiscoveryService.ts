@@ -0,0 +1,176 @@
+/**
+ * Address Discovery Service
+ *
+ * Finds the used addresses of an HD wallet following the BIP44 account discovery
+ * rules: each chain is scanned until `gapLimit` consecutive addresses have no history,
+ * and accounts are scanned in order until one without any history is found.
+ */
+
+import { ElectrumService } from '@/services/core/ElectrumService';
+import { walletLogger } from '@/lib/Logger';
+import {
+  AddressChain,
+  AddressDiscoveryState,
+  DiscoveredAccount,
+  DiscoveredAddress,
+} from '@/types/addressDiscovery';
+
+// Returns the address at account/chain/index, or null when the account cannot be derived
+export type AddressDeriver = (account: number, chain: AddressChain, index: number) => string | null;
+
+export interface AddressDiscoveryOptions {
+  gapLimit?: number;
+  coinType?: number;
+  accounts?: number[]; // Scan exactly these accounts instead of discovering them in order
+  maxAccounts?: number;
+  onProgress?: (scanned: number, used: number) => void;
+}
+
+// Settings and running totals shared by the chain scans of one discovery run
+interface DiscoveryScan {
+  derive: AddressDeriver;
+  gapLimit: number;
+  coinType: number;
+  scanned: number;
+  used: number;
+  onProgress?: (scanned: number, used: number) => void;
+}
+
+export class AddressDiscoveryService {
+  static readonly DEFAULT_GAP_LIMIT = 20;
+  static readonly MAX_GAP_LIMIT = 100;
+  static readonly DEFAULT_MAX_ACCOUNTS = 10;
+
+  private electrum: ElectrumService;
+
+  constructor(electrumService: ElectrumService) {
+    this.electrum = electrumService;
+  }
+
+  /**
+   * Scan the receive and change chains of each account for used addresses
+   */
+  async discover(
+    derive: AddressDeriver,
+    options: AddressDiscoveryOptions = {},
+  ): Promise<AddressDiscoveryState> {
+    const gapLimit = Math.max(
+      1,
+      Math.min(
+        AddressDiscoveryService.MAX_GAP_LIMIT,
+        options.gapLimit || AddressDiscoveryService.DEFAULT_GAP_LIMIT,
+      ),
+    );
+    const coinType = options.coinType || 921;
+    const maxAccounts = options.maxAccounts || AddressDiscoveryService.DEFAULT_MAX_ACCOUNTS;
+    const accountsToScan = options.accounts || Array.from({ length: maxAccounts }, (_, i) => i);
+    const scan: DiscoveryScan = {
+      derive,
+      gapLimit,
+      coinType,
+      scanned: 0,
+      used: 0,
+      onProgress: options.onProgress,
+    };
+
+    if (!this.electrum.isConnectedToServer()) {
+      await this.electrum.connect();
+    }
+
+    const accounts: DiscoveredAccount[] = [];
+    for (const account of accountsToScan) {
+      if (derive(account, 0, 0) === null) {
+        break;
+      }
+
+      const receive = await this.scanChain(scan, account, 0);
+      const change = await this.scanChain(scan, account, 1);
+      const discovered: DiscoveredAccount = {
+        account,
+        highestReceiveIndex: receive.highestUsedIndex,
+        highestChangeIndex: change.highestUsedIndex,
+        addresses: [...receive.addresses, ...change.addresses],
+      };
+
+      // Account 0 is always kept; discovery stops at the first later account without history
+      if (account > 0 && !options.accounts && discovered.addresses.length === 0) {
+        break;
+      }
+      accounts.push(discovered);
+    }
+
+    walletLogger.info(
+      `Address discovery found ${scan.used} used addresses in ${accounts.length} account(s)`,
+    );
+
+    return {
+      gapLimit,
+      coinType,
+      accounts,
+      discoveredAt: Date.now(),
+    };
+  }
+
+  /**
+   * All used addresses of a discovery result
+   */
+  static getAddresses(state: AddressDiscoveryState): DiscoveredAddress[] {
+    return state.accounts.reduce<DiscoveredAddress[]>(
+      (all, account) => all.concat(account.addresses),
+      [],
+    );
+  }
+
+  static findAddress(state: AddressDiscoveryState, address: string): DiscoveredAddress | null {
+    return this.getAddresses(state).find((entry) => entry.address === address) || null;
+  }
+
+  static getPath(coinType: number, account: number, chain: AddressChain, index: number): string {
+    return `m/44'/${coinType}'/${account}'/${chain}/${index}`;
+  }
+
+  /**
+   * Scan one chain in windows of unused addresses until the gap limit is reached
+   */
+  private async scanChain(
+    scan: DiscoveryScan,
+    account: number,
+    chain: AddressChain,
+  ): Promise<{ highestUsedIndex: number; addresses: DiscoveredAddress[] }> {
+    const addresses: DiscoveredAddress[] = [];
+    let highestUsedIndex = -1;
+    let nextIndex = 0;
+
+    while (nextIndex - highestUsedIndex - 1 < scan.gapLimit) {
+      const windowSize = scan.gapLimit - (nextIndex - highestUsedIndex - 1);
+      const window = Array.from({ length: windowSize }, (_, offset) => {
+        const index = nextIndex + offset;
+        return { index, address: scan.derive(account, chain, index)! };
+      });
+
+      const histories = await Promise.all(
+        window.map(({ address }) => this.electrum.getTransactionHistory(address)),
+      );
+
+      window.forEach(({ index, address }, position) => {
+        if (histories[position].length > 0) {
+          highestUsedIndex = index;
+          addresses.push({
+            path: AddressDiscoveryService.getPath(scan.coinType, account, chain, index),
+            address,
+            account,
+            chain,
+            index,
+          });
+          scan.used++;
+        }
+      });
+
+      nextIndex += windowSize;
+      scan.scanned += windowSize;
+      scan.onProgress?.(scan.scanned, scan.used);
+    }
+
+    return { highestUsedIndex, addresses };
+  }
+}
@@ -0,0 +1,333 @@
+/**
+ * Asset Service
+ *
+ * Encodes and parses the asset data Avian (like Ravencoin) appends to standard output
+ * scripts: `<P2PKH or P2SH script> OP_AVN_ASSET <"avn" + type + name + amount> OP_DROP`.
+ */
+
+import * as bitcoin from 'bitcoinjs-lib';
+import {
+  AssetIssueRequest,
+  AssetIssueType,
+  AssetScriptData,
+  AssetScriptType,
+} from '@/types/assets';
+
+export class AssetService {
+  static readonly OP_AVN_ASSET = 0xc0;
+  static readonly ASSET_UNIT = 100000000; // Asset amounts are stored with 8 decimals
+  static readonly MAX_NAME_LENGTH = 32;
+  static readonly MAX_ROOT_NAME_LENGTH = 30; // Leaves room for the '!' of the owner token
+  static readonly MAX_UNITS = 8;
+
+  // AVN burned by each kind of asset creation, and the unspendable address it is sent to
+  static readonly BURN: Record<AssetIssueType, { amount: number; address: string }> = {
+    root: { amount: 500 * 100000000, address: 'RXissueAssetXXXXXXXXXXXXXXXXXhhZGt' },
+    sub: { amount: 100 * 100000000, address: 'RXissueSubAssetXXXXXXXXXXXXXWcwhwL' },
+    unique: { amount: 5 * 100000000, address: 'RXissueUniqueAssetXXXXXXXXXXWEAe58' },
+    reissue: { amount: 100 * 100000000, address: 'RXReissueAssetXXXXXXXXXXXXXXVEFAWu' },
+  };
+
+  private static readonly RESERVED_NAMES = ['AVN', 'AVIAN', 'RVN', 'RAVEN', 'RAVENCOIN'];
+
+  private static readonly PREFIXES = ['avn', 'rvn'];
+  private static readonly TYPE_CODES: Record<string, AssetScriptType> = {
+    t: 'transfer',
+    q: 'issue',
+    r: 'reissue',
+    o: 'owner',
+  };
+
+  /**
+   * Build the output script that transfers `amount` units of an asset to an address
+   */
+  static createTransferScript(
+    address: string,
+    assetName: string,
+    amount: number,
+    network: bitcoin.Network,
+  ): Buffer {
+    const data = Buffer.concat([
+      Buffer.from('avnt', 'ascii'),
+      this.encodeName(assetName),
+      this.encodeAmount(amount),
+    ]);
+    return this.appendAssetData(bitcoin.address.toOutputScript(address, network), data);
+  }
+
+  /**
+   * Read the asset data of an output script. Returns null for plain AVN outputs.
+   */
+  static parseAssetScript(script: Buffer, network: bitcoin.Network): AssetScriptData | null {
+    const split = this.splitScript(script);
+    if (!split) {
+      return null;
+    }
+
+    const chunks = bitcoin.script.decompile(split.assetPart);
+    const data = chunks?.[1];
+    if (!chunks || chunks[0] !== this.OP_AVN_ASSET || !Buffer.isBuffer(data) || data.length < 5) {
+      return null;
+    }
+
+    const prefix = data.subarray(0, 3).toString('ascii');
+    const type = this.TYPE_CODES[String.fromCharCode(data[3])];
+    if (!this.PREFIXES.includes(prefix) || !type) {
+      return null;
+    }
+
+    const nameLength = data[4];
+    if (data.length < 5 + nameLength) {
+      return null;
+    }
+    const name = data.subarray(5, 5 + nameLength).toString('ascii');
+
+    let amount = this.ASSET_UNIT;
+    if (type !== 'owner') {
+      if (data.length < 5 + nameLength + 8) {
+        return null;
+      }
+      amount = this.decodeAmount(data, 5 + nameLength);
+    }
+
+    let address: string | null = null;
+    try {
+      address = bitcoin.address.fromOutputScript(split.destination, network);
+    } catch (error) {
+      // Unrecognized destination script
+    }
+
+    return { type, name, amount, address };
+  }
+
+  /**
+   * Build the output script that creates a new asset
+   */
+  static createIssueScript(
+    address: string,
+    request: AssetIssueRequest,
+    network: bitcoin.Network,
+  ): Buffer {
+    const data = Buffer.concat([
+      Buffer.from('avnq', 'ascii'),
+      this.encodeName(request.name),
+      this.encodeAmount(request.amount),
+      Buffer.from([request.units, request.reissuable ? 1 : 0, 0]), // No IPFS hash
+    ]);
+    return this.appendAssetData(bitcoin.address.toOutputScript(address, network), data);
+  }
+
+  /**
+   * Build the output script that creates the owner token of a new asset
+   */
+  static createOwnerScript(address: string, assetName: string, network: bitcoin.Network): Buffer {
+    const data = Buffer.concat([
+      Buffer.from('avno', 'ascii'),
+      this.encodeName(this.getOwnerTokenName(assetName)),
+    ]);
+    return this.appendAssetData(bitcoin.address.toOutputScript(address, network), data);
+  }
+
+  /**
+   * Build the output script that adds supply to an existing asset
+   */
+  static createReissueScript(
+    address: string,
+    request: AssetIssueRequest,
+    network: bitcoin.Network,
+  ): Buffer {
+    const data = Buffer.concat([
+      Buffer.from('avnr', 'ascii'),
+      this.encodeName(request.name),
+      this.encodeAmount(request.amount, true),
+      Buffer.from([request.units & 0xff, request.reissuable ? 1 : 0]), // -1 encodes as 0xff
+    ]);
+    return this.appendAssetData(bitcoin.address.toOutputScript(address, network), data);
+  }
+
+  static isAssetScript(script: Buffer): boolean {
+    return this.splitScript(script) !== null;
+  }
+
+  /**
+   * Check an asset name against the naming rules: 3-32 characters of A-Z, 0-9, '.' and '_',
+   * with no punctuation at the start, at the end or next to other punctuation.
+   * Sub-assets join names with '/', unique tokens add a '#tag' and owner tokens end in '!'.
+   */
+  static isValidAssetName(name: string): boolean {
+    if (!name || name.length > this.MAX_NAME_LENGTH) {
+      return false;
+    }
+
+    const [path, tag] = name.replace(/!$/, '').split('#');
+    const segments = path.split('/');
+    const segmentsValid = segments.every(
+      (segment, index) =>
+        /^[A-Z0-9]([A-Z0-9]|[._](?=[A-Z0-9]))*$/.test(segment) &&
+        (index > 0 || segment.length >= 3),
+    );
+    const tagValid = tag === undefined || /^[A-Za-z0-9@$%&*()[\]{}\-_.?:]+$/.test(tag);
+    return segmentsValid && tagValid && !(tag !== undefined && name.endsWith('!'));
+  }
+
+  /**
+   * Describe why a name cannot be used for the given kind of issuance, or null if it can
+   */
+  static getNameError(name: string, type: AssetIssueType): string | null {
+    if (!name) {
+      return 'Asset name is required';
+    }
+    if (name.length > this.MAX_NAME_LENGTH) {
+      return `Asset names are limited to ${this.MAX_NAME_LENGTH} characters`;
+    }
+    if (name.endsWith('!')) {
+      return 'Owner tokens are created automatically and cannot be issued directly';
+    }
+
+    const hasTag = name.includes('#');
+    const isSubAsset = name.replace(/#.*$/, '').includes('/');
+    if (type === 'unique' && !hasTag) {
+      return 'Unique asset names need a tag, e.g. PARENT#TAG';
+    }
+    if (type === 'sub' && (!isSubAsset || hasTag)) {
+      return 'Sub-asset names need a parent, e.g. PARENT/CHILD';
+    }
+    if (type === 'root' && (isSubAsset || hasTag)) {
+      return 'Root asset names cannot contain "/" or "#"';
+    }
+    if (type === 'reissue' && hasTag) {
+      return 'Unique assets cannot be reissued';
+    }
+
+    const root = name.split(/[/#]/)[0];
+    if (this.RESERVED_NAMES.includes(root)) {
+      return `${root} is a reserved name`;
+    }
+    if (type === 'root' && name.length > this.MAX_ROOT_NAME_LENGTH) {
+      return `Root asset names are limited to ${this.MAX_ROOT_NAME_LENGTH} characters`;
+    }
+    if (!this.isValidAssetName(name)) {
+      return (
+        'Use 3 or more of A-Z, 0-9, "." and "_" for the root name, without punctuation at ' +
+        'the start, at the end or next to other punctuation'
+      );
+    }
+    return null;
+  }
+
+  /**
+   * Describe why an issuance request is invalid, or null if it can be built
+   */
+  static getIssueError(request: AssetIssueRequest): string | null {
+    const nameError = this.getNameError(request.name, request.type);
+    if (nameError) {
+      return nameError;
+    }
+
+    const minUnits = request.type === 'reissue' ? -1 : 0;
+    if (!Number.isInteger(request.units) || request.units < minUnits || request.units > 8) {
+      return 'Units must be a whole number from 0 to 8';
+    }
+    if (request.type === 'unique' && (request.amount !== this.ASSET_UNIT || request.units !== 0)) {
+      return 'Unique assets always have a supply of 1 with no decimal places';
+    }
+    if (!Number.isSafeInteger(request.amount) || request.amount < 0) {
+      return 'Amount is too large';
+    }
+    if (request.amount === 0 && request.type !== 'reissue') {
+      return 'Amount must be greater than 0';
+    }
+
+    // Amounts are stored with 8 decimals but may only use as many as the asset's units allow
+    const step = Math.pow(10, this.MAX_UNITS - Math.max(0, request.units));
+    if (request.amount % step !== 0) {
+      return `Amount can have at most ${Math.max(0, request.units)} decimal places`;
+    }
+    return null;
+  }
+
+  /**
+   * Asset whose owner token authorizes creating a sub-asset or unique asset
+   */
+  static getParentName(name: string): string {
+    const tagIndex = name.indexOf('#');
+    if (tagIndex >= 0) {
+      return name.substring(0, tagIndex);
+    }
+    return name.substring(0, name.lastIndexOf('/'));
+  }
+
+  static getOwnerTokenName(name: string): string {
+    return `${name}!`;
+  }
+
+  /**
+   * Format an amount in smallest asset units for display
+   */
+  static formatAmount(amount: number): string {
+    return (amount / this.ASSET_UNIT).toFixed(8).replace(/\.?0+$/, '');
+  }
+
+  /**
+   * Convert a display amount to smallest asset units
+   */
+  static toUnits(amount: number): number {
+    return Math.round(amount * this.ASSET_UNIT);
+  }
+
+  private static appendAssetData(destination: Buffer, data: Buffer): Buffer {
+    return Buffer.concat([
+      destination,
+      bitcoin.script.compile([this.OP_AVN_ASSET, data, bitcoin.opcodes.OP_DROP]),
+    ]);
+  }
+
+  /**
+   * Split an asset script into its P2PKH/P2SH destination and the asset part
+   */
+  private static splitScript(script: Buffer): { destination: Buffer; assetPart: Buffer } | null {
+    const isP2PKH =
+      script.length > 25 &&
+      script[0] === bitcoin.opcodes.OP_DUP &&
+      script[1] === bitcoin.opcodes.OP_HASH160 &&
+      script[2] === 0x14 &&
+      script[23] === bitcoin.opcodes.OP_EQUALVERIFY &&
+      script[24] === bitcoin.opcodes.OP_CHECKSIG;
+    const isP2SH =
+      script.length > 23 &&
+      script[0] === bitcoin.opcodes.OP_HASH160 &&
+      script[1] === 0x14 &&
+      script[22] === bitcoin.opcodes.OP_EQUAL;
+
+    const destinationLength = isP2PKH ? 25 : isP2SH ? 23 : 0;
+    if (!destinationLength || script[destinationLength] !== this.OP_AVN_ASSET) {
+      return null;
+    }
+    return {
+      destination: script.subarray(0, destinationLength),
+      assetPart: script.subarray(destinationLength),
+    };
+  }
+
+  private static encodeName(name: string): Buffer {
+    if (!this.isValidAssetName(name)) {
+      throw new Error(`Invalid asset name: ${name}`);
+    }
+    return Buffer.concat([Buffer.from([name.length]), Buffer.from(name, 'ascii')]);
+  }
+
+  // int64 little-endian; amounts stay within Number precision for any realistic supply
+  private static encodeAmount(amount: number, allowZero: boolean = false): Buffer {
+    if (!Number.isSafeInteger(amount) || amount < 0 || (amount === 0 && !allowZero)) {
+      throw new Error(`Invalid asset amount: ${amount}`);
+    }
+    const buffer = Buffer.alloc(8);
+    buffer.writeUInt32LE(amount % 0x100000000, 0);
+    buffer.writeUInt32LE(Math.floor(amount / 0x100000000), 4);
+    return buffer;
+  }
+
+  private static decodeAmount(data: Buffer, offset: number): number {
+    return data.readUInt32LE(offset) + data.readUInt32LE(offset + 4) * 0x100000000;
+  }
+}
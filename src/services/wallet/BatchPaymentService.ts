@@ -0,0 +1,106 @@
+/**
+ * Batch Payment Service
+ *
+ * Reads recipient lists for batch payments (payroll, mining payouts) from CSV and checks
+ * each recipient before the payment is built. One recipient per line:
+ *
+ *   address,amount[,label]
+ *
+ * Amounts are in AVN. Commas, semicolons or tabs separate columns, a header line is
+ * skipped, and lines starting with # are comments.
+ */
+
+import * as bitcoin from 'bitcoinjs-lib';
+import { avianNetwork } from './WalletService';
+import { BatchParseResult, BatchRecipient } from '@/types/batchPayment';
+
+const AMOUNT_PATTERN = /^\d+(\.\d{1,8})?$/;
+
+export class BatchPaymentService {
+  // Keeps the transaction well under the 100 kB standard size limit
+  static readonly MAX_RECIPIENTS = 250;
+  static readonly MIN_AMOUNT = 601; // satoshis; smaller outputs are dust
+
+  static isValidAddress(address: string): boolean {
+    try {
+      bitcoin.address.toOutputScript(address, avianNetwork);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * AVN amount text in satoshis, or null when it isn't a valid amount
+   */
+  static parseAmount(value: string): number | null {
+    const trimmed = value.trim();
+    if (!AMOUNT_PATTERN.test(trimmed)) return null;
+    return Math.round(parseFloat(trimmed) * 100000000);
+  }
+
+  /**
+   * Problem with a recipient, or null when it can be paid
+   */
+  static validateRecipient(recipient: BatchRecipient): string | null {
+    if (!this.isValidAddress(recipient.address)) {
+      return 'Invalid Avian address';
+    }
+    if (!Number.isInteger(recipient.amount) || recipient.amount < this.MIN_AMOUNT) {
+      return `Amount must be at least ${(this.MIN_AMOUNT / 100000000).toFixed(8)} AVN`;
+    }
+    return null;
+  }
+
+  static getTotal(recipients: BatchRecipient[]): number {
+    return recipients.reduce((sum, recipient) => sum + recipient.amount, 0);
+  }
+
+  static parseCSV(text: string): BatchParseResult {
+    const recipients: BatchRecipient[] = [];
+    const errors: string[] = [];
+
+    text.split(/\r?\n/).forEach((line, index) => {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#')) return;
+
+      const columns = trimmed.split(/[,;\t]/);
+      const [address, amountText, label] = [
+        columns[0],
+        columns[1],
+        columns.slice(2).join(','), // The label may itself contain commas
+      ].map((column) => (column || '').trim().replace(/^"(.*)"$/, '$1'));
+      const amount = this.parseAmount(amountText);
+
+      if (amount === null) {
+        // A first line with neither an address nor an amount is a header
+        const isFirstLine = recipients.length === 0 && errors.length === 0;
+        if (isFirstLine && !this.isValidAddress(address)) return;
+
+        errors.push(`Line ${index + 1}: invalid amount "${amountText}"`);
+        return;
+      }
+
+      const recipient: BatchRecipient = { address, amount };
+      if (label) recipient.label = label;
+
+      const problem = this.validateRecipient(recipient);
+      if (problem) {
+        errors.push(`Line ${index + 1}: ${problem}`);
+        return;
+      }
+      recipients.push(recipient);
+    });
+
+    if (recipients.length > this.MAX_RECIPIENTS) {
+      errors.push(`Only the first ${this.MAX_RECIPIENTS} recipients can be paid at once`);
+      recipients.length = this.MAX_RECIPIENTS;
+    }
+
+    return { recipients, errors };
+  }
+
+  static async readFile(file: File): Promise<BatchParseResult> {
+    return this.parseCSV(await file.text());
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * Fee Estimation Service
+ *
+ * Estimates transaction fees in satoshis per byte using the connected Electrum server.
+ * Estimates come from blockchain.estimatefee first, then fall back to a local
+ * calculation over the mempool fee histogram, and finally to built-in defaults.
+ * Fees are always derived from the serialized size of the transaction being built.
+ */
+
+import * as bitcoin from 'bitcoinjs-lib';
+import { ElectrumService } from '@/services/core/ElectrumService';
+import { walletLogger } from '@/lib/Logger';
+
+export type FeePriority = 'slow' | 'normal' | 'fast';
+
+export interface FeeEstimates {
+  slow: number; // sat/byte
+  normal: number; // sat/byte
+  fast: number; // sat/byte
+  minimum: number; // Minimum relay fee in sat/byte
+  source: 'electrum' | 'mempool' | 'default';
+  updatedAt: Date;
+}
+
+export class FeeEstimationService {
+  // Defaults roughly match the historical 0.0001 AVN flat fee on a 1-input, 2-output transaction
+  static readonly DEFAULT_FEE_RATE = 45;
+  static readonly MIN_FEE_RATE = 10;
+  static readonly MAX_FEE_RATE = 5000;
+
+  private static readonly DEFAULT_ESTIMATES: Record<FeePriority, number> = {
+    slow: 20,
+    normal: 45,
+    fast: 90,
+  };
+
+  // Target confirmation times (in blocks) for each priority
+  private static readonly TARGET_BLOCKS: Record<FeePriority, number> = {
+    slow: 25,
+    normal: 6,
+    fast: 2,
+  };
+
+  private static readonly BLOCK_SIZE_BYTES = 1000000;
+  private static readonly CACHE_DURATION_MS = 60000;
+
+  // P2PKH serialization sizes in bytes
+  private static readonly TX_OVERHEAD_SIZE = 8; // version (4) + locktime (4)
+  private static readonly P2PKH_INPUT_SIZE = 148; // outpoint (36) + script len (1) + scriptSig (<=107) + sequence (4)
+  private static readonly P2PKH_OUTPUT_SIZE = 34; // value (8) + script len (1) + scriptPubKey (25)
+  private static readonly MAX_P2PKH_SCRIPTSIG_SIZE = 107; // DER signature (<=72) + pubkey (33) + pushes (2)
+
+  private electrum: ElectrumService;
+  private cachedEstimates: FeeEstimates | null = null;
+
+  constructor(electrumService: ElectrumService) {
+    this.electrum = electrumService;
+  }
+
+  /**
+   * Get fee rate estimates for all priorities
+   */
+  async getFeeEstimates(forceRefresh: boolean = false): Promise<FeeEstimates> {
+    if (
+      !forceRefresh &&
+      this.cachedEstimates &&
+      Date.now() - this.cachedEstimates.updatedAt.getTime() < FeeEstimationService.CACHE_DURATION_MS
+    ) {
+      return this.cachedEstimates;
+    }
+
+    const minimum = await this.getMinimumFeeRate();
+
+    let estimates = await this.estimateFromElectrum(minimum);
+    if (!estimates) {
+      estimates = await this.estimateFromMempool(minimum);
+    }
+    if (!estimates) {
+      estimates = {
+        slow: Math.max(FeeEstimationService.DEFAULT_ESTIMATES.slow, minimum),
+        normal: Math.max(FeeEstimationService.DEFAULT_ESTIMATES.normal, minimum),
+        fast: Math.max(FeeEstimationService.DEFAULT_ESTIMATES.fast, minimum),
+        minimum,
+        source: 'default',
+        updatedAt: new Date(),
+      };
+    }
+
+    this.cachedEstimates = estimates;
+    return estimates;
+  }
+
+  /**
+   * Get the fee rate (sat/byte) for a given priority
+   */
+  async getFeeRate(priority: FeePriority = 'normal'): Promise<number> {
+    const estimates = await this.getFeeEstimates();
+    return estimates[priority];
+  }
+
+  /**
+   * Ask the Electrum server for estimates at each target
+   */
+  private async estimateFromElectrum(minimum: number): Promise<FeeEstimates | null> {
+    try {
+      const priorities: FeePriority[] = ['slow', 'normal', 'fast'];
+      const rates: Partial<Record<FeePriority, number>> = {};
+
+      for (const priority of priorities) {
+        const avnPerKb = await this.electrum.estimateFee(
+          FeeEstimationService.TARGET_BLOCKS[priority],
+        );
+        if (avnPerKb <= 0) {
+          return null;
+        }
+        rates[priority] = FeeEstimationService.clampFeeRate(
+          FeeEstimationService.avnPerKbToSatPerByte(avnPerKb),
+          minimum,
+        );
+      }
+
+      return {
+        slow: rates.slow!,
+        // Keep the presets ordered even if the daemon returns odd estimates
+        normal: Math.max(rates.normal!, rates.slow!),
+        fast: Math.max(rates.fast!, rates.normal!, rates.slow!),
+        minimum,
+        source: 'electrum',
+        updatedAt: new Date(),
+      };
+    } catch (error) {
+      walletLogger.warn('Electrum fee estimation unavailable, trying mempool histogram:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Estimate fee rates locally from the mempool fee histogram.
+   * For each target, find the fee rate needed to be within the first N blocks' worth of mempool.
+   */
+  private async estimateFromMempool(minimum: number): Promise<FeeEstimates | null> {
+    try {
+      const histogram = await this.electrum.getFeeHistogram();
+      if (histogram.length === 0) {
+        return null;
+      }
+
+      const rateForTarget = (blocks: number): number => {
+        const capacity = blocks * FeeEstimationService.BLOCK_SIZE_BYTES;
+        let cumulativeSize = 0;
+
+        for (const [feeRate, size] of histogram) {
+          cumulativeSize += size;
+          if (cumulativeSize >= capacity) {
+            // Outbid the transactions at the capacity boundary
+            return FeeEstimationService.clampFeeRate(Math.ceil(feeRate) + 1, minimum);
+          }
+        }
+
+        // Mempool fits within the target, so the minimum rate is enough
+        return FeeEstimationService.clampFeeRate(minimum, minimum);
+      };
+
+      const slow = rateForTarget(FeeEstimationService.TARGET_BLOCKS.slow);
+      const normal = Math.max(rateForTarget(FeeEstimationService.TARGET_BLOCKS.normal), slow);
+      const fast = Math.max(rateForTarget(FeeEstimationService.TARGET_BLOCKS.fast), normal);
+
+      return {
+        slow,
+        normal,
+        fast,
+        minimum,
+        source: 'mempool',
+        updatedAt: new Date(),
+      };
+    } catch (error) {
+      walletLogger.warn('Mempool fee histogram unavailable, using default fee rates:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the server's minimum relay fee in sat/byte
+   */
+  private async getMinimumFeeRate(): Promise<number> {
+    try {
+      const avnPerKb = await this.electrum.getRelayFee();
+      if (avnPerKb > 0) {
+        return Math.max(
+          FeeEstimationService.MIN_FEE_RATE,
+          FeeEstimationService.avnPerKbToSatPerByte(avnPerKb),
+        );
+      }
+    } catch (error) {
+      walletLogger.warn('Failed to get relay fee, using default minimum:', error);
+    }
+    return FeeEstimationService.MIN_FEE_RATE;
+  }
+
+  /**
+   * Convert an AVN/kB rate (as returned by the daemon) to sat/byte
+   */
+  static avnPerKbToSatPerByte(avnPerKb: number): number {
+    return Math.ceil((avnPerKb * 100000000) / 1000);
+  }
+
+  /**
+   * Keep a fee rate within sane bounds
+   */
+  static clampFeeRate(
+    feeRate: number,
+    minimum: number = FeeEstimationService.MIN_FEE_RATE,
+  ): number {
+    return Math.min(Math.max(Math.ceil(feeRate), minimum), FeeEstimationService.MAX_FEE_RATE);
+  }
+
+  /**
+   * Estimate the serialized size of a P2PKH transaction.
+   * Uses the worst-case signature length so the fee never falls short after signing.
+   */
+  static estimateTransactionSize(inputCount: number, outputCount: number): number {
+    return (
+      FeeEstimationService.TX_OVERHEAD_SIZE +
+      FeeEstimationService.varIntSize(inputCount) +
+      inputCount * FeeEstimationService.P2PKH_INPUT_SIZE +
+      FeeEstimationService.varIntSize(outputCount) +
+      outputCount * FeeEstimationService.P2PKH_OUTPUT_SIZE
+    );
+  }
+
+  /**
+   * Get the serialized size a transaction will have once its P2PKH inputs are signed.
+   * Inputs that already carry a scriptSig are measured as-is.
+   */
+  static estimateSignedSize(tx: bitcoin.Transaction): number {
+    const unsignedInputs = tx.ins.filter((input) => !input.script || input.script.length === 0);
+    return tx.byteLength() + unsignedInputs.length * FeeEstimationService.MAX_P2PKH_SCRIPTSIG_SIZE;
+  }
+
+  /**
+   * Calculate the fee in satoshis for a transaction of the given shape
+   */
+  static calculateFee(inputCount: number, outputCount: number, feeRate: number): number {
+    return Math.ceil(
+      FeeEstimationService.estimateTransactionSize(inputCount, outputCount) * feeRate,
+    );
+  }
+
+  /**
+   * Calculate the fee in satoshis for a transaction of a known serialized size
+   */
+  static calculateFeeForSize(sizeInBytes: number, feeRate: number): number {
+    return Math.ceil(sizeInBytes * feeRate);
+  }
+
+  private static varIntSize(value: number): number {
+    if (value < 0xfd) return 1;
+    if (value <= 0xffff) return 3;
+    if (value <= 0xffffffff) return 5;
+    return 9;
+  }
+}
@@ -0,0 +1,340 @@
+/**
+ * Invoice Service
+ *
+ * Payment requests for an amount, shared as an avian: URI or QR code. Each request is bound
+ * to a fresh receive address where the wallet can derive one, so payments to that address
+ * can be matched to it. Addresses of open requests are watched through Electrum while the
+ * app is open, and a request is pending, underpaid, paid, overpaid or expired depending on
+ * what the address has received.
+ *
+ * When two requests share an address (the primary address of a wallet), a payment counts
+ * towards the oldest open request only. Transactions already in the address history when
+ * a request is made are never counted, and neither are the wallet's own payments, whose
+ * change can land on the primary address.
+ */
+
+import * as bitcoin from 'bitcoinjs-lib';
+import ElectrumBridge from '@/lib/electrum-bridge';
+import { StorageService } from '@/services/core/StorageService';
+import { NotificationClientService } from '@/services/notifications/client/NotificationClientService';
+import { PaymentUriService } from './PaymentUriService';
+import { WalletService, avianNetwork } from './WalletService';
+import { walletLogger } from '@/lib/Logger';
+import { Invoice, InvoiceRequest, InvoiceStatus } from '@/types/invoices';
+
+export class InvoiceService {
+  static readonly EXPIRY_OPTIONS: Array<{ id: string; name: string; duration?: number }> = [
+    { id: '1h', name: '1 hour', duration: 60 * 60 * 1000 },
+    { id: '24h', name: '24 hours', duration: 24 * 60 * 60 * 1000 },
+    { id: '7d', name: '7 days', duration: 7 * 24 * 60 * 60 * 1000 },
+    { id: '30d', name: '30 days', duration: 30 * 24 * 60 * 60 * 1000 },
+    { id: 'never', name: 'Never' },
+  ];
+
+  // Addresses subscribed to, and the last status seen for each
+  private static watched = new Map<string, string | null>();
+  private static refreshing: Promise<Invoice[]> | null = null;
+
+  static async getInvoices(walletAddress?: string): Promise<Invoice[]> {
+    const invoices = await StorageService.getInvoices();
+    return (
+      walletAddress
+        ? invoices.filter((invoice) => invoice.walletAddress === walletAddress)
+        : invoices
+    )
+      .slice()
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Create a request bound to a fresh receive address of the active wallet, reserved for it
+   * alone. Encrypted HD wallets need the password once before fresh addresses can be
+   * derived; without it, or once the gap limit is reached, the primary address is used.
+   */
+  static async createInvoice(
+    request: InvoiceRequest,
+    wallet: WalletService,
+    password?: string,
+  ): Promise<Invoice> {
+    if (!Number.isInteger(request.amount) || request.amount <= 0) {
+      throw new Error('Amount must be greater than 0');
+    }
+
+    const activeWallet = await StorageService.getActiveWallet();
+    if (!activeWallet) {
+      throw new Error('No active wallet found');
+    }
+
+    const receiveInfo = await wallet.getReceiveAddress({ reserve: true, password });
+    const history = await ElectrumBridge.getInstance().getAddressHistory(receiveInfo.address);
+    const createdAt = Date.now();
+
+    const invoice: Invoice = {
+      id: crypto.randomUUID(),
+      walletAddress: activeWallet.address,
+      address: receiveInfo.address,
+      addressPath: receiveInfo.path,
+      amount: request.amount,
+      label: request.label?.trim() || undefined,
+      message: request.message?.trim() || undefined,
+      createdAt,
+      expiresAt: request.expiresIn ? createdAt + request.expiresIn : undefined,
+      status: 'pending',
+      received: 0,
+      payments: [],
+      knownTxids: history.map((entry: { tx_hash: string }) => entry.tx_hash),
+    };
+
+    await StorageService.setInvoices([...(await StorageService.getInvoices()), invoice]);
+    this.notifyChanged();
+    return invoice;
+  }
+
+  /**
+   * Whether the active wallet needs its password before it can derive a fresh address
+   */
+  static async needsPassword(): Promise<boolean> {
+    const activeWallet = await StorageService.getActiveWallet();
+    if (!activeWallet?.isEncrypted || (!activeWallet.mnemonic && !activeWallet.xpub)) {
+      return false;
+    }
+    return !(await StorageService.getReceiveAddressState(activeWallet.address))?.accountXpub;
+  }
+
+  static async deleteInvoice(id: string): Promise<void> {
+    const invoices = await StorageService.getInvoices();
+    await StorageService.setInvoices(invoices.filter((invoice) => invoice.id !== id));
+    this.notifyChanged();
+  }
+
+  /**
+   * avian: URI to share the request as a link or QR code
+   */
+  static getPaymentUri(invoice: Invoice): string {
+    return PaymentUriService.build({
+      address: invoice.address,
+      amount: invoice.amount,
+      label: invoice.label,
+      message: invoice.message,
+    });
+  }
+
+  /**
+   * Status for an amount received by a given time
+   */
+  static getStatus(invoice: Invoice, received: number, now = Date.now()): InvoiceStatus {
+    if (received === 0) {
+      return invoice.expiresAt && now >= invoice.expiresAt ? 'expired' : 'pending';
+    }
+    if (received < invoice.amount) return 'underpaid';
+    if (received > invoice.amount) return 'overpaid';
+    return 'paid';
+  }
+
+  /**
+   * Whether the request should still be watched: it can still change status, or a payment
+   * to it has yet to confirm
+   */
+  static isOpen(invoice: Invoice): boolean {
+    return (
+      invoice.status === 'pending' ||
+      invoice.status === 'underpaid' ||
+      invoice.payments.some((payment) => payment.height <= 0)
+    );
+  }
+
+  /**
+   * Look up payments to the open requests of a wallet and update their status. Returns the
+   * requests whose status changed.
+   */
+  static async refreshInvoices(walletAddress: string): Promise<Invoice[]> {
+    // Refreshes run one at a time so a payment is never counted towards two requests
+    while (this.refreshing) {
+      await this.refreshing.catch(() => {});
+    }
+
+    this.refreshing = this.checkPayments(walletAddress);
+    try {
+      return await this.refreshing;
+    } finally {
+      this.refreshing = null;
+    }
+  }
+
+  /**
+   * Subscribe to the addresses of a wallet's open requests. `onChange` receives the
+   * requests whose status changed after a payment arrived.
+   */
+  static async watchInvoices(
+    walletAddress: string,
+    onChange: (changed: Invoice[]) => void,
+  ): Promise<void> {
+    const bridge = ElectrumBridge.getInstance();
+    const open = (await this.getInvoices(walletAddress)).filter((invoice) => this.isOpen(invoice));
+    const addresses = new Set(open.map((invoice) => invoice.address));
+
+    // Stop watching requests that were settled, expired or deleted
+    for (const address of Array.from(this.watched.keys())) {
+      if (!addresses.has(address)) {
+        bridge.unsubscribeFromAddress(address);
+        this.watched.delete(address);
+      }
+    }
+
+    for (const address of Array.from(addresses)) {
+      if (this.watched.has(address)) continue;
+      this.watched.set(address, null);
+
+      await bridge.subscribeToAddress(address, async (update) => {
+        // Electrum's { scripthash, status } notification is passed through as is; the
+        // status is null until the address has history
+        const status = (update as unknown as { status: string | null }).status ?? null;
+        if (!this.watched.has(address) || this.watched.get(address) === status) return;
+        this.watched.set(address, status);
+
+        try {
+          const changed = await this.refreshInvoices(walletAddress);
+          if (changed.length > 0) onChange(changed);
+        } catch (error) {
+          walletLogger.error('Failed to update payment requests:', error);
+        }
+      });
+    }
+  }
+
+  static unwatchAll(): void {
+    const bridge = ElectrumBridge.getInstance();
+    for (const address of Array.from(this.watched.keys())) {
+      bridge.unsubscribeFromAddress(address);
+    }
+    this.watched.clear();
+  }
+
+  private static async checkPayments(walletAddress: string): Promise<Invoice[]> {
+    const bridge = ElectrumBridge.getInstance();
+    const invoices = await StorageService.getInvoices();
+    const updates = new Map<string, Invoice>();
+    const changed: Invoice[] = [];
+    const now = Date.now();
+
+    // Payments already counted towards a request
+    const claimed = new Set<string>();
+    invoices.forEach((invoice) => invoice.payments.forEach((payment) => claimed.add(payment.txid)));
+
+    // Oldest requests first, so they are the ones credited when an address is shared
+    const open = invoices
+      .filter((invoice) => invoice.walletAddress === walletAddress && this.isOpen(invoice))
+      .sort((a, b) => a.createdAt - b.createdAt);
+    if (open.length === 0) return [];
+
+    const ownAddresses = new Set(
+      (await WalletService.getWalletAddresses(walletAddress)).map((entry) => entry.address),
+    );
+
+    for (const invoice of open) {
+      const known = new Set(invoice.knownTxids);
+      const knownTxids = invoice.knownTxids.slice();
+      const payments = invoice.payments.map((payment) => ({ ...payment }));
+      const history = await bridge.getAddressHistory(invoice.address);
+
+      for (const entry of history as Array<{ tx_hash: string; height: number }>) {
+        const existing = payments.find((payment) => payment.txid === entry.tx_hash);
+        if (existing) {
+          existing.height = entry.height;
+          continue;
+        }
+        if (known.has(entry.tx_hash) || claimed.has(entry.tx_hash)) continue;
+
+        const tx = bitcoin.Transaction.fromHex(await bridge.getTransactionHex(entry.tx_hash));
+        if (this.spendsFrom(tx, ownAddresses)) {
+          // Sent by this wallet, so any output to the address is change, not a payment
+          known.add(entry.tx_hash);
+          knownTxids.push(entry.tx_hash);
+          continue;
+        }
+
+        const amount = this.getAmountPaid(tx, invoice.address);
+        if (amount > 0) {
+          payments.push({ txid: entry.tx_hash, amount, height: entry.height });
+          claimed.add(entry.tx_hash);
+        }
+      }
+
+      const received = payments.reduce((sum, payment) => sum + payment.amount, 0);
+      const status = this.getStatus(invoice, received, now);
+      const updated: Invoice = {
+        ...invoice,
+        knownTxids,
+        payments,
+        received,
+        status,
+        paidAt: status === 'paid' || status === 'overpaid' ? invoice.paidAt || now : undefined,
+      };
+
+      if (status !== invoice.status) {
+        changed.push(updated);
+        await this.notifyStatus(updated);
+      }
+      if (JSON.stringify(updated) !== JSON.stringify(invoice)) {
+        updates.set(invoice.id, updated);
+      }
+    }
+    if (updates.size === 0) return changed;
+
+    // Requests may have been added or deleted while the lookups ran
+    const latest = await StorageService.getInvoices();
+    await StorageService.setInvoices(latest.map((invoice) => updates.get(invoice.id) || invoice));
+    this.notifyChanged();
+    return changed;
+  }
+
+  // Value of the outputs of a transaction that pay an address
+  private static getAmountPaid(tx: bitcoin.Transaction, address: string): number {
+    const script = bitcoin.address.toOutputScript(address, avianNetwork);
+    return tx.outs
+      .filter((output) => output.script.equals(script))
+      .reduce((sum, output) => sum + Number(output.value), 0);
+  }
+
+  // Whether any input spends from one of the addresses, read from its P2PKH or P2SH scriptSig
+  private static spendsFrom(tx: bitcoin.Transaction, addresses: Set<string>): boolean {
+    return tx.ins.some((input) => {
+      for (const payment of [bitcoin.payments.p2pkh, bitcoin.payments.p2sh]) {
+        try {
+          const { address } = payment({ input: input.script, network: avianNetwork });
+          if (address) return addresses.has(address);
+        } catch {
+          // Not this script type
+        }
+      }
+      return false;
+    });
+  }
+
+  private static async notifyStatus(invoice: Invoice): Promise<void> {
+    if (invoice.status === 'pending') return;
+
+    const name = invoice.label || invoice.message || 'Payment request';
+    const received = `${(invoice.received / 100000000).toFixed(8)} AVN`;
+    const messages: Record<Exclude<InvoiceStatus, 'pending'>, string> = {
+      paid: `${name} was paid in full (${received})`,
+      overpaid: `${name} was overpaid: ${received} received`,
+      underpaid: `${name} was partly paid: ${received} received`,
+      expired: `${name} expired without a payment`,
+    };
+
+    await NotificationClientService.createNotification(
+      invoice.walletAddress,
+      invoice.status === 'expired' ? 'system' : 'receive',
+      'Payment request updated',
+      messages[invoice.status],
+      { invoiceId: invoice.id },
+    );
+  }
+
+  private static notifyChanged(): void {
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('invoices-updated'));
+    }
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * Label Service
+ *
+ * One place to look up and exchange labels for addresses, transactions and outputs, using the
+ * BIP329 JSONL format so labels move between FlightDeck instances and other wallets.
+ *
+ * Labels the user keeps elsewhere stay where they are: wallet names, address book names and
+ * watched address labels name addresses, and transaction memos label transactions. Those take
+ * precedence over the label store, which holds everything else, including imported labels.
+ */
+
+import { StorageService } from '@/services/core/StorageService';
+import { WatchAddressService } from './WatchAddressService';
+import { walletLogger } from '@/lib/Logger';
+import { LabelImportResult, LabelType, WalletLabel } from '@/types/labels';
+
+const LABEL_TYPES: LabelType[] = ['tx', 'addr', 'pubkey', 'input', 'output', 'xpub'];
+
+// Longest label BIP329 asks importers to accept
+const MAX_LABEL_LENGTH = 255;
+
+export class LabelService {
+  static key(type: LabelType, ref: string): string {
+    return `${type}:${ref}`;
+  }
+
+  static outputRef(txid: string, vout: number): string {
+    return `${txid}:${vout}`;
+  }
+
+  /**
+   * Every known label: the label store overlaid with wallet names, the address book,
+   * watched addresses and transaction memos
+   */
+  static async getLabels(): Promise<Map<string, WalletLabel>> {
+    const [stored, overlays] = await Promise.all([
+      StorageService.getLabels(),
+      this.getOverlayLabels(),
+    ]);
+
+    const labels = new Map<string, WalletLabel>(Object.entries(stored));
+    overlays.forEach((overlay, key) => labels.set(key, { ...labels.get(key), ...overlay }));
+    return labels;
+  }
+
+  /**
+   * Label text by key, for showing labels inline
+   */
+  static async getLabelTexts(): Promise<Record<string, string>> {
+    const texts: Record<string, string> = {};
+    (await this.getLabels()).forEach((record, key) => {
+      if (record.label) texts[key] = record.label;
+    });
+    return texts;
+  }
+
+  /**
+   * Set or clear (with an empty label) a label in the label store
+   */
+  static async setLabel(
+    type: LabelType,
+    ref: string,
+    label: string,
+    extra?: Pick<WalletLabel, 'origin' | 'spendable'>,
+  ): Promise<void> {
+    const labels = await StorageService.getLabels();
+    const key = this.key(type, ref);
+    const record: WalletLabel = { ...labels[key], ...extra, type, ref, label: label.trim() };
+
+    if (!record.label) delete record.label;
+    await this.saveRecord(labels, key, record);
+  }
+
+  /**
+   * Outputs marked not spendable, by txid:vout reference
+   */
+  static async getFrozenOutpoints(): Promise<Set<string>> {
+    const labels = await StorageService.getLabels();
+    const frozen = new Set<string>();
+    Object.keys(labels).forEach((key) => {
+      const record = labels[key];
+      if (record.type === 'output' && record.spendable === false) {
+        frozen.add(record.ref);
+      }
+    });
+    return frozen;
+  }
+
+  /**
+   * Freeze an output so coin selection leaves it alone, or unfreeze it. Its label is kept.
+   */
+  static async setFrozen(txid: string, vout: number, frozen: boolean): Promise<void> {
+    const labels = await StorageService.getLabels();
+    const ref = this.outputRef(txid, vout);
+    const key = this.key('output', ref);
+    const record: WalletLabel = { ...labels[key], type: 'output', ref };
+
+    // Spendable is the BIP329 default, so unfrozen coins don't keep the flag
+    if (frozen) {
+      record.spendable = false;
+    } else {
+      delete record.spendable;
+    }
+    await this.saveRecord(labels, key, record);
+  }
+
+  /**
+   * Tag coins with whether they are frozen
+   */
+  static async markFrozen<T extends { txid: string; vout: number }>(
+    utxos: T[],
+  ): Promise<Array<T & { isFrozen: boolean }>> {
+    const frozen = await this.getFrozenOutpoints();
+    return utxos.map((utxo) => ({
+      ...utxo,
+      isFrozen: frozen.has(this.outputRef(utxo.txid, utxo.vout)),
+    }));
+  }
+
+  /**
+   * All labels as BIP329 JSONL, one record per line
+   */
+  static async exportJSONL(): Promise<string> {
+    const lines: string[] = [];
+    (await this.getLabels()).forEach((record) => {
+      lines.push(JSON.stringify(this.toRecord(record)));
+    });
+    return lines.join('\n');
+  }
+
+  /**
+   * Merge BIP329 JSONL into the label store. Imported labels replace stored ones with the
+   * same type and reference; lines that aren't valid records are skipped. Labels that a
+   * wallet name, address book name or memo takes precedence over are stored but counted
+   * as hidden rather than imported.
+   */
+  static async importJSONL(text: string): Promise<LabelImportResult> {
+    const [labels, overlays] = await Promise.all([
+      StorageService.getLabels(),
+      this.getOverlayLabels(),
+    ]);
+    let imported = 0;
+    let hidden = 0;
+    let skipped = 0;
+
+    for (const line of text.split(/\r?\n/)) {
+      if (!line.trim()) continue;
+
+      const record = this.parseRecord(line);
+      if (!record) {
+        skipped++;
+        continue;
+      }
+
+      const key = this.key(record.type, record.ref);
+      labels[key] = record;
+      const overlay = overlays.get(key);
+      if (record.label && overlay && overlay.label !== record.label) {
+        hidden++;
+      } else {
+        imported++;
+      }
+    }
+
+    if (imported + hidden > 0) {
+      await StorageService.setLabels(labels);
+      this.notifyChanged();
+    }
+    walletLogger.info(
+      `Imported ${imported} labels, ${hidden} hidden by existing names, skipped ${skipped} lines`,
+    );
+
+    return { imported, hidden, skipped };
+  }
+
+  static async readFile(file: File): Promise<LabelImportResult> {
+    return this.importJSONL(await file.text());
+  }
+
+  static async downloadFile(): Promise<number> {
+    const content = await this.exportJSONL();
+    const count = content ? content.split('\n').length : 0;
+    const blob = new Blob([content], { type: 'application/jsonl' });
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `avian-labels-${new Date().toISOString().slice(0, 10)}.jsonl`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    return count;
+  }
+
+  // Labels kept outside the label store: watched address labels, address book names,
+  // wallet names and transaction memos, later ones taking precedence
+  private static async getOverlayLabels(): Promise<Map<string, WalletLabel>> {
+    const [wallets, savedAddresses, transactions] = await Promise.all([
+      StorageService.getAllWallets(),
+      StorageService.getSavedAddresses(),
+      StorageService.getTransactionHistory(),
+    ]);
+
+    const overlays = new Map<string, WalletLabel>();
+    const overlay = (type: LabelType, ref: string, label?: string) => {
+      if (!ref || !label) return;
+      overlays.set(this.key(type, ref), { type, ref, label });
+    };
+
+    for (const wallet of wallets) {
+      const watched = await WatchAddressService.getStoredWatchAddresses(wallet.address);
+      watched.forEach((watch) => overlay('addr', watch.watch_address, watch.label));
+    }
+    savedAddresses.forEach((saved) => overlay('addr', saved.address, saved.name));
+    wallets.forEach((wallet) => overlay('addr', wallet.address, wallet.name));
+    transactions.forEach((tx) => overlay('tx', tx.txid, tx.memo));
+
+    return overlays;
+  }
+
+  private static parseRecord(line: string): WalletLabel | null {
+    let value: any;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      return null;
+    }
+
+    if (
+      !value ||
+      typeof value !== 'object' ||
+      !LABEL_TYPES.includes(value.type) ||
+      typeof value.ref !== 'string' ||
+      !value.ref ||
+      (value.label !== undefined && typeof value.label !== 'string')
+    ) {
+      return null;
+    }
+
+    const record: WalletLabel = { type: value.type, ref: value.ref };
+    if (value.label) record.label = value.label.slice(0, MAX_LABEL_LENGTH);
+    if (typeof value.origin === 'string') record.origin = value.origin;
+    if (value.type === 'output' && typeof value.spendable === 'boolean') {
+      record.spendable = value.spendable;
+    }
+    // Nothing to keep without a label or spendable flag
+    return record.label || record.spendable !== undefined ? record : null;
+  }
+
+  // Field order as in BIP329, leaving out what isn't set
+  private static toRecord(record: WalletLabel): WalletLabel {
+    const out: WalletLabel = { type: record.type, ref: record.ref };
+    if (record.label) out.label = record.label;
+    if (record.origin) out.origin = record.origin;
+    if (record.type === 'output' && record.spendable !== undefined) {
+      out.spendable = record.spendable;
+    }
+    return out;
+  }
+
+  // Keep a record while it has a label or spendable flag, drop it otherwise
+  private static async saveRecord(
+    labels: Record<string, WalletLabel>,
+    key: string,
+    record: WalletLabel,
+  ): Promise<void> {
+    if (record.label || record.spendable !== undefined) {
+      labels[key] = record;
+    } else {
+      delete labels[key];
+    }
+
+    await StorageService.setLabels(labels);
+    this.notifyChanged();
+  }
+
+  private static notifyChanged(): void {
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('labels-updated'));
+    }
+  }
+}
@@ -0,0 +1,255 @@
+/**
+ * Multisig Service
+ *
+ * Builds P2SH m-of-n redeem scripts and moves spend proposals between cosigners. A proposal
+ * collects signatures as it passes from device to device (as a file or QR codes) and is
+ * finalized into a broadcastable transaction once the threshold is met.
+ */
+
+import * as bitcoin from 'bitcoinjs-lib';
+import * as ecc from 'tiny-secp256k1';
+import { BackupService } from '@/services/core/BackupService';
+import { MultisigProposal, MultisigSignature } from '@/types/multisig';
+
+export class MultisigService {
+  static readonly MAX_COSIGNERS = 15; // Largest m-of-n that fits a 520-byte redeem script
+  static readonly HASH_TYPE = 0x01 | 0x40; // SIGHASH_ALL | SIGHASH_FORKID as Avian requires
+
+  private static readonly FILE_HEADER = 'AVIAN_MULTISIG_TX';
+
+  /**
+   * Build the redeem script and address for m-of-n over the given public keys.
+   * Keys are sorted (BIP67) so every cosigner derives the same address.
+   */
+  static createRedeemScript(
+    threshold: number,
+    pubkeys: Buffer[],
+    network: bitcoin.Network,
+  ): { redeemScript: Buffer; address: string } {
+    if (pubkeys.length < 2 || pubkeys.length > this.MAX_COSIGNERS) {
+      throw new Error(`A multisig wallet needs 2 to ${this.MAX_COSIGNERS} cosigners`);
+    }
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > pubkeys.length) {
+      throw new Error(`Required signatures must be between 1 and ${pubkeys.length}`);
+    }
+
+    const sorted = [...pubkeys].sort(Buffer.compare);
+    const redeem = bitcoin.payments.p2ms({ m: threshold, pubkeys: sorted, network });
+    return { redeemScript: redeem.output!, address: this.getAddress(redeem.output!, network) };
+  }
+
+  static getAddress(redeemScript: Buffer, network: bitcoin.Network): string {
+    return bitcoin.payments.p2sh({ redeem: { output: redeemScript }, network }).address!;
+  }
+
+  static parseRedeemScript(redeemScript: Buffer): { threshold: number; pubkeys: Buffer[] } {
+    const redeem = bitcoin.payments.p2ms({ output: redeemScript });
+    return { threshold: redeem.m!, pubkeys: redeem.pubkeys! };
+  }
+
+  /**
+   * Serialized size of one signed multisig input: outpoint, scriptSig and sequence
+   */
+  static estimateInputSize(threshold: number, cosignerCount: number): number {
+    const redeemScriptSize = 3 + cosignerCount * 34;
+    const scriptSigSize = 1 + threshold * 74 + (redeemScriptSize < 76 ? 1 : 2) + redeemScriptSize;
+    return 36 + (scriptSigSize < 0xfd ? 1 : 3) + scriptSigSize + 4;
+  }
+
+  static getSignatureHash(tx: bitcoin.Transaction, index: number, redeemScript: Buffer): Buffer {
+    return tx.hashForSignature(index, redeemScript, this.HASH_TYPE);
+  }
+
+  /**
+   * Check a cosigner signature against the input it claims to sign
+   */
+  static verifySignature(
+    tx: bitcoin.Transaction,
+    index: number,
+    redeemScript: Buffer,
+    signature: MultisigSignature,
+  ): boolean {
+    try {
+      const encoded = Buffer.from(signature.signature, 'hex');
+      if (encoded[encoded.length - 1] !== this.HASH_TYPE) {
+        return false;
+      }
+      return ecc.verify(
+        this.getSignatureHash(tx, index, redeemScript),
+        Buffer.from(signature.pubkey, 'hex'),
+        this.decodeDER(encoded.subarray(0, -1)),
+      );
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Number of signatures collected, counted on the least-signed input
+   */
+  static countSignatures(proposal: MultisigProposal): number {
+    return Math.min(...proposal.inputs.map((input) => input.signatures.length));
+  }
+
+  static isComplete(proposal: MultisigProposal): boolean {
+    return this.countSignatures(proposal) >= proposal.threshold;
+  }
+
+  /**
+   * Combine the signatures of two copies of the same proposal
+   */
+  static mergeSignatures(proposal: MultisigProposal, other: MultisigProposal): MultisigProposal {
+    if (proposal.txHex !== other.txHex || proposal.redeemScript !== other.redeemScript) {
+      throw new Error('These proposals are for different transactions');
+    }
+
+    return {
+      ...proposal,
+      inputs: proposal.inputs.map((input, index) => {
+        const signatures = [...input.signatures];
+        for (const signature of other.inputs[index].signatures) {
+          if (!signatures.some((existing) => existing.pubkey === signature.pubkey)) {
+            signatures.push(signature);
+          }
+        }
+        return { ...input, signatures };
+      }),
+    };
+  }
+
+  /**
+   * Build the final transaction. Signatures go in redeem script key order, as
+   * OP_CHECKMULTISIG requires, and only valid ones are used.
+   */
+  static finalize(proposal: MultisigProposal): bitcoin.Transaction {
+    const tx = bitcoin.Transaction.fromHex(proposal.txHex);
+    const redeemScript = Buffer.from(proposal.redeemScript, 'hex');
+    const { threshold, pubkeys } = this.parseRedeemScript(redeemScript);
+
+    proposal.inputs.forEach((input, index) => {
+      const signatures = pubkeys
+        .map((pubkey) =>
+          input.signatures.find((signature) => signature.pubkey === pubkey.toString('hex')),
+        )
+        .filter(
+          (signature): signature is MultisigSignature =>
+            !!signature && this.verifySignature(tx, index, redeemScript, signature),
+        )
+        .slice(0, threshold);
+
+      if (signatures.length < threshold) {
+        throw new Error(
+          `Input ${index} has ${signatures.length} of ${threshold} required signatures`,
+        );
+      }
+
+      tx.ins[index].script = bitcoin.script.compile([
+        bitcoin.opcodes.OP_0,
+        ...signatures.map((signature) => Buffer.from(signature.signature, 'hex')),
+        redeemScript,
+      ]);
+    });
+
+    return tx;
+  }
+
+  /**
+   * Encode a proposal as a single text string (header + base64 JSON)
+   */
+  static encode(proposal: MultisigProposal): string {
+    const json = JSON.stringify(proposal);
+    return `${this.FILE_HEADER}:${Buffer.from(json, 'utf8').toString('base64')}`;
+  }
+
+  /**
+   * Decode an encoded proposal. Also accepts plain JSON.
+   */
+  static decode(content: string): MultisigProposal {
+    const trimmed = content.trim();
+    let proposal: unknown;
+
+    if (trimmed.startsWith(`${this.FILE_HEADER}:`)) {
+      const base64 = trimmed.substring(this.FILE_HEADER.length + 1);
+      proposal = JSON.parse(Buffer.from(base64, 'base64').toString('utf8'));
+    } else if (trimmed.startsWith('{')) {
+      proposal = JSON.parse(trimmed);
+    } else {
+      throw new Error('Unrecognized proposal format');
+    }
+
+    this.validate(proposal);
+    return proposal;
+  }
+
+  /**
+   * Split a proposal into QR code chunks for animated display
+   */
+  static toQRChunks(proposal: MultisigProposal): string[] {
+    return BackupService.splitBackupForQR(this.encode(proposal));
+  }
+
+  /**
+   * Reassemble a proposal from scanned QR chunks
+   */
+  static async fromQRChunks(chunks: string[]): Promise<MultisigProposal> {
+    return this.decode(await BackupService.combineQRChunks(chunks));
+  }
+
+  static async readFile(file: File): Promise<MultisigProposal> {
+    return this.decode(await file.text());
+  }
+
+  /**
+   * Download a proposal as a file
+   */
+  static downloadFile(proposal: MultisigProposal): void {
+    const signed = this.countSignatures(proposal);
+    const blob = new Blob([this.encode(proposal)], { type: 'text/plain' });
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `avian-multisig-${proposal.txHex.slice(-8)}-${signed}of${proposal.threshold}.txt`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  // DER signature to the 64-byte r || s form secp256k1 verification expects
+  private static decodeDER(der: Buffer): Buffer {
+    if (der[0] !== 0x30 || der[2] !== 0x02) {
+      throw new Error('Invalid DER signature');
+    }
+    const rLength = der[3];
+    const r = der.subarray(4, 4 + rLength);
+    if (der[4 + rLength] !== 0x02) {
+      throw new Error('Invalid DER signature');
+    }
+    const s = der.subarray(6 + rLength, 6 + rLength + der[5 + rLength]);
+
+    const toFixed = (value: Buffer): Buffer => {
+      const trimmed = value.subarray(Math.max(0, value.length - 32));
+      return Buffer.concat([Buffer.alloc(32 - trimmed.length), trimmed]);
+    };
+    return Buffer.concat([toFixed(r), toFixed(s)]);
+  }
+
+  private static validate(proposal: unknown): asserts proposal is MultisigProposal {
+    const candidate = proposal as Partial<MultisigProposal> | null;
+    if (!candidate || candidate.format !== 'avian-multisig-tx') {
+      throw new Error('Not an Avian multisig proposal');
+    }
+    if (candidate.version !== 1) {
+      throw new Error(`Unsupported multisig proposal version: ${candidate.version}`);
+    }
+    if (
+      typeof candidate.txHex !== 'string' ||
+      typeof candidate.redeemScript !== 'string' ||
+      !Array.isArray(candidate.inputs) ||
+      !Array.isArray(candidate.outputs)
+    ) {
+      throw new Error('Multisig proposal is missing required fields');
+    }
+  }
+}
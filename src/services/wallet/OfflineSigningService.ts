@@ -0,0 +1,141 @@
+/**
+ * Offline Signing Service
+ *
+ * Serializes unsigned and signed transactions so they can move between an online
+ * watch-only wallet and an air-gapped signing device, either as a file or as a
+ * sequence of QR codes using the backup QR chunk format.
+ */
+
+import * as bitcoin from 'bitcoinjs-lib';
+import { BackupService } from '@/services/core/BackupService';
+import { walletLogger } from '@/lib/Logger';
+import {
+  OfflineTransactionPayload,
+  SignedTransaction,
+  UnsignedTransaction,
+} from '@/types/offlineSigning';
+
+export class OfflineSigningService {
+  private static readonly FILE_HEADER = 'AVIAN_OFFLINE_TX';
+
+  /**
+   * Encode a payload as a single text string (header + base64 JSON)
+   */
+  static encode(payload: OfflineTransactionPayload): string {
+    const json = JSON.stringify(payload);
+    return `${this.FILE_HEADER}:${Buffer.from(json, 'utf8').toString('base64')}`;
+  }
+
+  /**
+   * Decode an encoded payload. Also accepts plain JSON and, for broadcasting,
+   * a raw signed transaction hex string.
+   */
+  static decode(content: string): OfflineTransactionPayload {
+    const trimmed = content.trim();
+    let payload: unknown;
+
+    if (trimmed.startsWith(`${this.FILE_HEADER}:`)) {
+      const base64 = trimmed.substring(this.FILE_HEADER.length + 1);
+      payload = JSON.parse(Buffer.from(base64, 'base64').toString('utf8'));
+    } else if (trimmed.startsWith('{')) {
+      payload = JSON.parse(trimmed);
+    } else if (/^[0-9a-fA-F]+$/.test(trimmed)) {
+      return this.fromRawHex(trimmed);
+    } else {
+      throw new Error('Unrecognized transaction format');
+    }
+
+    this.validate(payload);
+    return payload;
+  }
+
+  /**
+   * Split a payload into QR code chunks for animated display
+   */
+  static toQRChunks(payload: OfflineTransactionPayload): string[] {
+    return BackupService.splitBackupForQR(this.encode(payload));
+  }
+
+  /**
+   * Reassemble a payload from scanned QR chunks
+   */
+  static async fromQRChunks(chunks: string[]): Promise<OfflineTransactionPayload> {
+    return this.decode(await BackupService.combineQRChunks(chunks));
+  }
+
+  /**
+   * Read a payload from an exported file
+   */
+  static async readFile(file: File): Promise<OfflineTransactionPayload> {
+    return this.decode(await file.text());
+  }
+
+  /**
+   * Download a payload as a file
+   */
+  static downloadFile(payload: OfflineTransactionPayload): void {
+    const kind = payload.format === 'avian-unsigned-tx' ? 'unsigned' : 'signed';
+    const date = new Date().toISOString().split('T')[0];
+    const blob = new Blob([this.encode(payload)], { type: 'text/plain' });
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `avian-${kind}-tx-${date}.txt`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  static isUnsigned(payload: OfflineTransactionPayload): payload is UnsignedTransaction {
+    return payload.format === 'avian-unsigned-tx';
+  }
+
+  static isSigned(payload: OfflineTransactionPayload): payload is SignedTransaction {
+    return payload.format === 'avian-signed-tx';
+  }
+
+  /**
+   * Wrap a raw signed transaction hex so it can be broadcast like an exported one
+   */
+  private static fromRawHex(txHex: string): SignedTransaction {
+    let tx: bitcoin.Transaction;
+    try {
+      tx = bitcoin.Transaction.fromHex(txHex);
+    } catch (error) {
+      walletLogger.warn('Failed to parse raw transaction hex:', error);
+      throw new Error('Invalid transaction hex');
+    }
+
+    return {
+      format: 'avian-signed-tx',
+      version: 1,
+      txid: tx.getId(),
+      txHex,
+      fromAddress: '',
+      outputs: [],
+      fee: 0,
+      signedAt: Date.now(),
+    };
+  }
+
+  private static validate(payload: unknown): asserts payload is OfflineTransactionPayload {
+    const candidate = payload as Partial<OfflineTransactionPayload> | null;
+    if (
+      !candidate ||
+      (candidate.format !== 'avian-unsigned-tx' && candidate.format !== 'avian-signed-tx')
+    ) {
+      throw new Error('Not an Avian offline transaction');
+    }
+    if (candidate.version !== 1) {
+      throw new Error(`Unsupported offline transaction version: ${candidate.version}`);
+    }
+    if (typeof candidate.txHex !== 'string' || !Array.isArray(candidate.outputs)) {
+      throw new Error('Offline transaction is missing required fields');
+    }
+    if (candidate.format === 'avian-unsigned-tx' && !Array.isArray(candidate.inputs)) {
+      throw new Error('Unsigned transaction is missing its inputs');
+    }
+  }
+}
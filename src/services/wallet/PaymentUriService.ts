@@ -0,0 +1,134 @@
+/**
+ * Payment URI Service
+ *
+ * Parses and builds avian: payment URIs following BIP21:
+ *
+ *   avian:<address>[?amount=<AVN>][&label=<text>][&message=<text>]
+ *
+ * Amounts are decimal AVN with at most 8 decimal places. Values are percent-encoded.
+ * Parameters this wallet doesn't know are ignored, unless they start with req-, which
+ * marks them as required: such URIs are rejected rather than paid without them.
+ *
+ * web+avian: URIs, which browsers hand to the app as a protocol handler, are read the same.
+ */
+
+import { BatchPaymentService } from './BatchPaymentService';
+import { PaymentUri } from '@/types/paymentUri';
+import { QRScanResult } from '@/types/addressBook';
+
+const URI_PATTERN = /^(?:web\+)?avian:(?:\/\/)?([^?#]*)(?:\?([^#]*))?(?:#.*)?$/i;
+const KNOWN_PARAMS = ['amount', 'label', 'message'];
+
+export class PaymentUriService {
+  static readonly SCHEME = 'avian';
+
+  /**
+   * Whether text looks like a payment URI, valid or not
+   */
+  static isPaymentUri(text: string): boolean {
+    return /^(?:web\+)?avian:/i.test(text.trim());
+  }
+
+  /**
+   * Read a payment URI, throwing an error that explains why it can't be paid
+   */
+  static parse(text: string): PaymentUri {
+    const match = URI_PATTERN.exec(text.trim());
+    if (!match) {
+      throw new Error('Not an avian: payment link');
+    }
+
+    const address = this.decode(match[1]);
+    if (!BatchPaymentService.isValidAddress(address)) {
+      throw new Error('Payment link has an invalid Avian address');
+    }
+
+    const uri: PaymentUri = { address };
+    const seen = new Set<string>();
+
+    for (const pair of (match[2] || '').split('&')) {
+      if (!pair) continue;
+
+      const separator = pair.indexOf('=');
+      const key = this.decode(separator === -1 ? pair : pair.slice(0, separator));
+      const value = separator === -1 ? '' : this.decode(pair.slice(separator + 1));
+      const name = key.toLowerCase();
+
+      if (seen.has(name)) {
+        throw new Error(`Payment link has more than one ${key}`);
+      }
+      seen.add(name);
+
+      if (name === 'amount') {
+        const amount = BatchPaymentService.parseAmount(value);
+        if (!amount) {
+          throw new Error('Payment link has an invalid amount');
+        }
+        uri.amount = amount;
+      } else if (name === 'label') {
+        uri.label = value;
+      } else if (name === 'message') {
+        uri.message = value;
+      } else if (name.startsWith('req-')) {
+        throw new Error(
+          `Payment link requires "${key.slice(4)}", which this wallet doesn't support`,
+        );
+      } else {
+        uri.params = { ...uri.params, [key]: value };
+      }
+    }
+
+    return uri;
+  }
+
+  /**
+   * Build an avian: URI, e.g. avian:R...?amount=1.5&label=Shop&message=Order%2042
+   */
+  static build(uri: PaymentUri): string {
+    if (!BatchPaymentService.isValidAddress(uri.address)) {
+      throw new Error('Invalid Avian address');
+    }
+
+    const params: string[] = [];
+    if (uri.amount !== undefined) {
+      params.push(`amount=${this.formatAmount(uri.amount)}`);
+    }
+    if (uri.label) params.push(`label=${encodeURIComponent(uri.label)}`);
+    if (uri.message) params.push(`message=${encodeURIComponent(uri.message)}`);
+    Object.entries(uri.params || {})
+      .filter(([key]) => !KNOWN_PARAMS.includes(key.toLowerCase()))
+      .forEach(([key, value]) =>
+        params.push(`${encodeURIComponent(key)}=${encodeURIComponent(value)}`),
+      );
+
+    return `${this.SCHEME}:${uri.address}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+  }
+
+  /**
+   * The form address inputs and SendForm take a scanned payment request in
+   */
+  static toScanResult(uri: PaymentUri): QRScanResult {
+    return {
+      address: uri.address,
+      amount: uri.amount !== undefined ? uri.amount / 100000000 : undefined,
+      label: uri.label,
+      message: uri.message,
+    };
+  }
+
+  // Satoshis as AVN without trailing zeros
+  private static formatAmount(amount: number): string {
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new Error('Amount must be a positive number of satoshis');
+    }
+    return (amount / 100000000).toFixed(8).replace(/\.?0+$/, '');
+  }
+
+  private static decode(value: string): string {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      throw new Error('Payment link is not encoded correctly');
+    }
+  }
+}
@@ -0,0 +1,348 @@
+/**
+ * Scheduled Payment Service
+ *
+ * Stores payment templates that fall due on a cadence and sends them through WalletService.
+ * Nothing runs in the background: the app checks for due payments while it is open and
+ * unlocked, and either asks for approval or signs automatically when the payment is marked
+ * for it and within the user's auto-sign limit.
+ *
+ * A payment that was missed for several periods while the app was closed is paid once and
+ * then scheduled for its next future date. Each occurrence is claimed under a Web Lock
+ * before it is paid or skipped, so two open windows never both act on it.
+ */
+
+import { StorageService } from '@/services/core/StorageService';
+import { PriceService } from '@/services/data/PriceService';
+import { NotificationClientService } from '@/services/notifications/client/NotificationClientService';
+import { BatchPaymentService } from './BatchPaymentService';
+import { WalletService } from './WalletService';
+import { walletLogger } from '@/lib/Logger';
+import {
+  PaymentCadence,
+  ScheduledPayment,
+  ScheduledPaymentRun,
+  ScheduledPaymentSettings,
+} from '@/types/scheduledPayments';
+
+// Outcomes kept for the activity list
+const MAX_RUNS = 200;
+
+export class ScheduledPaymentService {
+  static readonly CADENCES: Array<{ id: PaymentCadence; name: string }> = [
+    { id: 'once', name: 'Once' },
+    { id: 'daily', name: 'Daily' },
+    { id: 'weekly', name: 'Weekly' },
+    { id: 'biweekly', name: 'Every 2 weeks' },
+    { id: 'monthly', name: 'Monthly' },
+  ];
+
+  static async getPayments(walletAddress?: string): Promise<ScheduledPayment[]> {
+    const payments = await StorageService.getScheduledPayments();
+    return walletAddress
+      ? payments.filter((payment) => payment.walletAddress === walletAddress)
+      : payments;
+  }
+
+  /**
+   * Add a payment, or replace the one with the same id
+   */
+  static async savePayment(
+    payment: Omit<ScheduledPayment, 'id' | 'createdAt'> & { id?: string },
+  ): Promise<ScheduledPayment> {
+    if (!payment.name.trim()) {
+      throw new Error('Give the payment a name');
+    }
+    if (!BatchPaymentService.isValidAddress(payment.recipient)) {
+      throw new Error('Invalid Avian address');
+    }
+    if (!(payment.amount > 0)) {
+      throw new Error('Amount must be greater than 0');
+    }
+    if (payment.endDate !== undefined && payment.endDate < payment.nextRun) {
+      throw new Error('The end date must be after the first payment');
+    }
+
+    const payments = await StorageService.getScheduledPayments();
+    const existing = payments.find((saved) => saved.id === payment.id);
+    const saved: ScheduledPayment = {
+      ...payment,
+      name: payment.name.trim(),
+      dayOfMonth: payment.cadence === 'monthly' ? new Date(payment.nextRun).getDate() : undefined,
+      id: existing?.id || crypto.randomUUID(),
+      createdAt: existing?.createdAt || Date.now(),
+    };
+
+    await StorageService.setScheduledPayments([
+      ...payments.filter((other) => other.id !== saved.id),
+      saved,
+    ]);
+    this.notifyChanged();
+    return saved;
+  }
+
+  static async deletePayment(id: string): Promise<void> {
+    const payments = await StorageService.getScheduledPayments();
+    await StorageService.setScheduledPayments(payments.filter((payment) => payment.id !== id));
+    this.notifyChanged();
+  }
+
+  static async setEnabled(id: string, enabled: boolean): Promise<void> {
+    const payments = await StorageService.getScheduledPayments();
+    await StorageService.setScheduledPayments(
+      payments.map((payment) => (payment.id === id ? { ...payment, enabled } : payment)),
+    );
+    this.notifyChanged();
+  }
+
+  /**
+   * Enabled payments from a wallet that are due now
+   */
+  static async getDuePayments(
+    walletAddress: string,
+    now = Date.now(),
+  ): Promise<ScheduledPayment[]> {
+    return (await this.getPayments(walletAddress))
+      .filter((payment) => payment.enabled && payment.nextRun <= now)
+      .sort((a, b) => a.nextRun - b.nextRun);
+  }
+
+  /**
+   * Most recent outcomes first
+   */
+  static async getRuns(walletAddress?: string): Promise<ScheduledPaymentRun[]> {
+    const runs = await StorageService.getScheduledPaymentRuns();
+    return (walletAddress ? runs.filter((run) => run.walletAddress === walletAddress) : runs)
+      .slice()
+      .sort((a, b) => b.runAt - a.runAt);
+  }
+
+  static async getSettings(): Promise<ScheduledPaymentSettings> {
+    return StorageService.getScheduledPaymentSettings();
+  }
+
+  static async saveSettings(settings: ScheduledPaymentSettings): Promise<void> {
+    if (!(settings.autoSignLimit >= 0)) {
+      throw new Error('The auto-sign limit cannot be negative');
+    }
+    await StorageService.setScheduledPaymentSettings(settings);
+    this.notifyChanged();
+  }
+
+  /**
+   * The date a payment falls due after `from`, or null for one-off payments. Monthly
+   * payments fall on `dayOfMonth` when given, otherwise on the day of `from`.
+   */
+  static getNextRun(from: number, cadence: PaymentCadence, dayOfMonth?: number): number | null {
+    const date = new Date(from);
+    switch (cadence) {
+      case 'daily':
+        date.setDate(date.getDate() + 1);
+        break;
+      case 'weekly':
+        date.setDate(date.getDate() + 7);
+        break;
+      case 'biweekly':
+        date.setDate(date.getDate() + 14);
+        break;
+      case 'monthly': {
+        // Stay in the next month when it has fewer days, e.g. Jan 31 -> Feb 28
+        const day = dayOfMonth || date.getDate();
+        date.setDate(1);
+        date.setMonth(date.getMonth() + 1);
+        const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+        date.setDate(Math.min(day, daysInMonth));
+        break;
+      }
+      default:
+        return null;
+    }
+    return date.getTime();
+  }
+
+  /**
+   * The amount to send in satoshis, converting fiat amounts at the current price
+   */
+  static async resolveAmount(payment: ScheduledPayment): Promise<number> {
+    if (payment.amountCurrency === 'AVN') {
+      return Math.round(payment.amount * 100000000);
+    }
+
+    const priceData = await PriceService.getAvnPrice(false, payment.amountCurrency);
+    if (!priceData || !(priceData.price > 0)) {
+      throw new Error(`No ${payment.amountCurrency} price available to convert the amount`);
+    }
+    return Math.round((payment.amount / priceData.price) * 100000000);
+  }
+
+  /**
+   * Whether a payment may be signed without asking
+   */
+  static async canAutoSign(payment: ScheduledPayment, amount: number): Promise<boolean> {
+    if (!payment.autoApprove) return false;
+    const { autoSignLimit } = await this.getSettings();
+    return autoSignLimit > 0 && amount <= autoSignLimit;
+  }
+
+  /**
+   * Send a due payment from the active wallet and schedule the next one. Failures to send
+   * are recorded and leave the payment due. Returns null when the occurrence was already paid
+   * or skipped, e.g. in another window.
+   */
+  static async pay(
+    payment: ScheduledPayment,
+    wallet: WalletService,
+    password?: string,
+  ): Promise<ScheduledPaymentRun | null> {
+    return this.claim(payment, (current) => this.send(current, wallet, password));
+  }
+
+  private static async send(
+    payment: ScheduledPayment,
+    wallet: WalletService,
+    password?: string,
+  ): Promise<ScheduledPaymentRun> {
+    const run: ScheduledPaymentRun = {
+      paymentId: payment.id,
+      walletAddress: payment.walletAddress,
+      name: payment.name,
+      dueAt: payment.nextRun,
+      runAt: Date.now(),
+      outcome: 'failed',
+    };
+
+    try {
+      const activeWallet = await StorageService.getActiveWallet();
+      if (activeWallet?.address !== payment.walletAddress) {
+        throw new Error('The paying wallet is not the active wallet');
+      }
+
+      run.amount = await this.resolveAmount(payment);
+      run.txid = await wallet.sendTransaction(payment.recipient, run.amount, password);
+    } catch (error) {
+      run.error = error instanceof Error ? error.message : 'Unknown error';
+      walletLogger.error(`Scheduled payment "${payment.name}" failed:`, error);
+      await this.recordRun(run);
+      return run;
+    }
+
+    // Broadcast: move on to the next occurrence before anything else can go wrong
+    run.outcome = 'sent';
+    await this.advance(payment);
+    await this.recordRun(run);
+    walletLogger.info(`Scheduled payment "${payment.name}" sent: ${run.txid}`);
+
+    try {
+      await StorageService.updateTransactionNotes(
+        run.txid,
+        { memo: payment.memo || payment.name, category: payment.category },
+        payment.walletAddress,
+      );
+    } catch (error) {
+      walletLogger.warn(`Could not add notes to scheduled payment ${run.txid}:`, error);
+    }
+
+    try {
+      await NotificationClientService.createNotification(
+        payment.walletAddress,
+        'send',
+        'Scheduled payment sent',
+        `${payment.name}: ${(run.amount / 100000000).toFixed(8)} AVN`,
+        { txid: run.txid },
+      );
+    } catch (error) {
+      walletLogger.warn(`Could not notify about scheduled payment ${run.txid}:`, error);
+    }
+
+    return run;
+  }
+
+  /**
+   * Pass on this occurrence and schedule the next one. Does nothing when the occurrence
+   * was already paid or skipped.
+   */
+  static async skip(payment: ScheduledPayment): Promise<void> {
+    await this.claim(payment, async (current) => {
+      await this.recordRun({
+        paymentId: current.id,
+        walletAddress: current.walletAddress,
+        name: current.name,
+        dueAt: current.nextRun,
+        runAt: Date.now(),
+        outcome: 'skipped',
+      });
+      await this.advance(current);
+    });
+  }
+
+  /**
+   * Notify the user that a payment is waiting for approval
+   */
+  static async remind(payment: ScheduledPayment): Promise<void> {
+    const amount =
+      payment.amountCurrency === 'AVN'
+        ? `${payment.amount} AVN`
+        : PriceService.formatFiat(payment.amount, payment.amountCurrency);
+
+    await NotificationClientService.createNotification(
+      payment.walletAddress,
+      'system',
+      'Scheduled payment due',
+      `${payment.name} (${amount}) is waiting for your approval`,
+      { scheduledPaymentId: payment.id },
+    );
+  }
+
+  // Act on an occurrence while holding the payment's lock, after checking that it is still
+  // due: whoever got the lock first has moved nextRun on. Returns null when it was not.
+  private static async claim<T>(
+    payment: ScheduledPayment,
+    action: (current: ScheduledPayment) => Promise<T>,
+  ): Promise<T | null> {
+    const claimed = async (): Promise<T | null> => {
+      const current = (await StorageService.getScheduledPayments()).find(
+        (saved) => saved.id === payment.id,
+      );
+      if (!current || !current.enabled || current.nextRun !== payment.nextRun) {
+        return null;
+      }
+      return action(current);
+    };
+
+    if (typeof navigator === 'undefined' || !navigator.locks) {
+      return claimed();
+    }
+    return navigator.locks.request(`scheduled-payment-${payment.id}`, claimed);
+  }
+
+  // Move to the first date after now, disabling the payment when no dates are left
+  private static async advance(payment: ScheduledPayment): Promise<void> {
+    const now = Date.now();
+    let nextRun: number | null = payment.nextRun;
+    do {
+      nextRun = this.getNextRun(nextRun, payment.cadence, payment.dayOfMonth);
+    } while (nextRun !== null && nextRun <= now);
+
+    const finished = nextRun === null || (!!payment.endDate && nextRun > payment.endDate);
+    const payments = await StorageService.getScheduledPayments();
+    await StorageService.setScheduledPayments(
+      payments.map((saved) =>
+        saved.id === payment.id
+          ? { ...saved, nextRun: nextRun ?? saved.nextRun, enabled: saved.enabled && !finished }
+          : saved,
+      ),
+    );
+    this.notifyChanged();
+  }
+
+  private static async recordRun(run: ScheduledPaymentRun): Promise<void> {
+    const runs = await StorageService.getScheduledPaymentRuns();
+    await StorageService.setScheduledPaymentRuns([...runs, run].slice(-MAX_RUNS));
+    this.notifyChanged();
+  }
+
+  private static notifyChanged(): void {
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('scheduled-payments-updated'));
+    }
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * SPV Service
+ *
+ * Checks what the Electrum server reports about confirmed transactions instead of trusting it.
+ * Recent block headers are downloaded, validated and stored locally, and a confirmed wallet
+ * transaction only counts once its Merkle branch (blockchain.transaction.get_merkle) leads to
+ * the Merkle root of the header at its height.
+ *
+ * Headers are checked for timestamp rules, a well-formed difficulty target and agreement with
+ * headers stored earlier. Proof of work is not checked: Avian hashes headers with X16RT and
+ * MinotaurX, which have no JavaScript implementation bundled with the wallet. A transaction in
+ * one of the synced headers is 'verified'; one in an older header, fetched on its own, is
+ * 'partial'. */
+
+import * as bitcoin from 'bitcoinjs-lib';
+import { ElectrumService } from '@/services/core/ElectrumService';
+import { StorageService } from '@/services/core/StorageService';
+import { walletLogger } from '@/lib/Logger';
+import { BlockHeader, SpvVerificationResult } from '@/types/spv';
+
+export class SpvService {
+  static readonly HEADER_SIZE = 80;
+  static readonly SYNC_WINDOW = 144; // Most recent headers kept in sync with the tip
+  static readonly REORG_DEPTH = 60; // Deepest reorganization Avian nodes accept
+  static readonly MAX_STORED_HEADERS = 2000;
+
+  private static readonly MEDIAN_TIME_SPAN = 11; // Blocks in the median-time-past rule
+  private static readonly MAX_FUTURE_DRIFT = 2 * 60 * 60; // Seconds a header may be ahead of us
+
+  private electrum: ElectrumService;
+  private headers: Map<number, BlockHeader> = new Map();
+  private tipHeight: number = 0;
+  private loading: Promise<void> | null = null;
+
+  constructor(electrumService: ElectrumService) {
+    this.electrum = electrumService;
+  }
+
+  /**
+   * Parse a raw 80-byte header
+   */
+  static parseHeader(hex: string, height: number): BlockHeader {
+    const raw = Buffer.from(hex, 'hex');
+    if (raw.length !== this.HEADER_SIZE) {
+      throw new Error(`Header at height ${height} is ${raw.length} bytes, expected 80`);
+    }
+
+    return {
+      height,
+      version: raw.readInt32LE(0),
+      prevHash: Buffer.from(raw.subarray(4, 36)).reverse().toString('hex'),
+      merkleRoot: Buffer.from(raw.subarray(36, 68)).reverse().toString('hex'),
+      timestamp: raw.readUInt32LE(68),
+      bits: raw.readUInt32LE(72),
+      nonce: raw.readUInt32LE(76),
+      hex,
+    };
+  }
+
+  /**
+   * Expand a compact difficulty target into 32 big-endian bytes.
+   * Returns null for negative, zero or overflowing encodings, which no valid block uses.
+   */
+  static bitsToTarget(bits: number): Buffer | null {
+    const exponent = bits >>> 24;
+    const mantissa = bits & 0x007fffff;
+    const isNegative = (bits & 0x00800000) !== 0;
+    const isOverflow =
+      exponent > 34 || (mantissa > 0xff && exponent > 33) || (mantissa > 0xffff && exponent > 32);
+
+    if (mantissa === 0 || isNegative || isOverflow) {
+      return null;
+    }
+
+    const target = Buffer.alloc(32);
+    for (let i = 0; i < 3; i++) {
+      const position = 32 - exponent + i;
+      if (position >= 0 && position < 32) {
+        target[position] = (mantissa >>> (8 * (2 - i))) & 0xff;
+      }
+    }
+    return target;
+  }
+
+  /**
+   * Fold a transaction's Merkle branch up to the root, all hashes in display byte order
+   */
+  static computeMerkleRoot(txid: string, branch: string[], pos: number): string {
+    let hash = Buffer.from(txid, 'hex').reverse();
+    branch.forEach((sibling, level) => {
+      const siblingHash = Buffer.from(sibling, 'hex').reverse();
+      hash = bitcoin.crypto.hash256(
+        (pos >>> level) & 1
+          ? Buffer.concat([siblingHash, hash])
+          : Buffer.concat([hash, siblingHash]),
+      );
+    });
+    return hash.reverse().toString('hex');
+  }
+
+  /**
+   * Download and validate the most recent headers up to the server's tip.
+   * A header that changes deeper than a reorganization can reach is reported as failed.
+   */
+  async syncHeaders(): Promise<SpvVerificationResult> {
+    try {
+      await this.load();
+
+      const tip = await this.electrum.getTipHeader();
+      const startHeight = Math.max(0, tip.height - SpvService.SYNC_WINDOW + 1);
+      const hex = await this.electrum.getBlockHeaders(startHeight, tip.height - startHeight + 1);
+      const size = SpvService.HEADER_SIZE * 2;
+
+      const received: Map<number, BlockHeader> = new Map();
+      for (let offset = 0; offset + size <= hex.length; offset += size) {
+        const height = startHeight + offset / size;
+        received.set(height, SpvService.parseHeader(hex.substring(offset, offset + size), height));
+      }
+
+      const lookup = (height: number) => received.get(height) || this.headers.get(height);
+      const reorgFloor = this.tipHeight - SpvService.REORG_DEPTH;
+      let forkHeight: number | null = null;
+
+      for (const header of Array.from(received.values())) {
+        const reason = this.validateHeader(header, lookup);
+        if (reason) {
+          return { status: 'failed', reason };
+        }
+
+        const stored = this.headers.get(header.height);
+        if (stored && stored.hex !== header.hex) {
+          if (header.height <= reorgFloor) {
+            const depth = this.tipHeight - header.height;
+            return {
+              status: 'failed',
+              reason: `Server replaced block header ${header.height}, ${depth} blocks deep`,
+            };
+          }
+          forkHeight = forkHeight === null ? header.height : Math.min(forkHeight, header.height);
+        }
+      }
+
+      // A shallow reorganization: drop our headers from the fork point up
+      if (forkHeight !== null) {
+        walletLogger.info(`SPV: chain reorganized at height ${forkHeight}`);
+        for (const height of Array.from(this.headers.keys())) {
+          if (height >= forkHeight) {
+            this.headers.delete(height);
+          }
+        }
+      }
+
+      received.forEach((header, height) => this.headers.set(height, header));
+      this.tipHeight = Math.max(this.tipHeight, tip.height);
+      await this.persist();
+
+      return { status: 'verified' };
+    } catch (error) {
+      walletLogger.warn('SPV: header sync failed:', error);
+      return { status: 'unverified' };
+    }
+  }
+
+  /**
+   * Check that a transaction is committed to the validated header at the given height
+   */
+  async verifyTransaction(txid: string, height: number): Promise<SpvVerificationResult> {
+    try {
+      await this.load();
+
+      // A header outside the synced chain is checked on its own but never stored, as
+      // nothing links it to the headers around it
+      const stored = this.headers.get(height);
+      const header =
+        stored || SpvService.parseHeader(await this.electrum.getBlockHeader(height), height);
+      if (!stored) {
+        const reason = this.validateHeader(header, (h) => this.headers.get(h));
+        if (reason) {
+          return { status: 'failed', reason };
+        }
+      }
+
+      const proof = await this.electrum.getMerkleProof(txid, height);
+      if (proof.blockHeight !== height) {
+        return {
+          status: 'failed',
+          reason: `Merkle proof for ${txid} is for block ${proof.blockHeight}, not ${height}`,
+        };
+      }
+
+      const root = SpvService.computeMerkleRoot(txid, proof.merkle, proof.pos);
+      if (root !== header.merkleRoot) {
+        return {
+          status: 'failed',
+          reason: `Merkle proof for ${txid} does not match block header ${height}`,
+        };
+      }
+
+      if (!stored) {
+        return { status: 'partial', reason: `Block ${height} is older than the synced headers` };
+      }
+      return { status: 'verified' };
+    } catch (error) {
+      walletLogger.warn(`SPV: could not verify transaction ${txid}:`, error);
+      return { status: 'unverified' };
+    }
+  }
+
+  // Reason the header is invalid, or null. Neighbouring headers come from `lookup` when known.
+  private validateHeader(
+    header: BlockHeader,
+    lookup: (height: number) => BlockHeader | undefined,
+  ): string | null {
+    const target = SpvService.bitsToTarget(header.bits);
+    if (!target) {
+      return `Block header ${header.height} has an invalid difficulty target`;
+    }
+
+    if (header.timestamp > Date.now() / 1000 + SpvService.MAX_FUTURE_DRIFT) {
+      return `Block header ${header.height} is timestamped in the future`;
+    }
+
+    const previousTimes: number[] = [];
+    for (let i = 1; i <= SpvService.MEDIAN_TIME_SPAN; i++) {
+      const previous = lookup(header.height - i);
+      if (!previous) break;
+      previousTimes.push(previous.timestamp);
+    }
+    if (previousTimes.length === SpvService.MEDIAN_TIME_SPAN) {
+      const median = previousTimes.sort((a, b) => a - b)[Math.floor(previousTimes.length / 2)];
+      if (header.timestamp <= median) {
+        return `Block header ${header.height} is older than the median of the previous blocks`;
+      }
+    }
+
+    return null;
+  }
+
+  private async load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const stored = await StorageService.getSpvHeaders();
+        for (const [height, hex] of Object.entries(stored)) {
+          try {
+            this.headers.set(Number(height), SpvService.parseHeader(hex, Number(height)));
+          } catch (error) {
+            walletLogger.warn(`SPV: discarding stored header ${height}:`, error);
+          }
+        }
+        this.tipHeight = Math.max(0, ...Array.from(this.headers.keys()));
+      })();
+    }
+    await this.loading;
+  }
+
+  // Keep the sync window and the newest of the other headers, up to MAX_STORED_HEADERS
+  private async persist(): Promise<void> {
+    const heights = Array.from(this.headers.keys()).sort((a, b) => b - a);
+    for (const height of heights.slice(SpvService.MAX_STORED_HEADERS)) {
+      if (height <= this.tipHeight - SpvService.SYNC_WINDOW) {
+        this.headers.delete(height);
+      }
+    }
+
+    const stored: Record<number, string> = {};
+    this.headers.forEach((header, height) => {
+      stored[height] = header.hex;
+    });
+    await StorageService.setSpvHeaders(stored);
+  }
+}
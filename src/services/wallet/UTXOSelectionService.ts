@@ -7,8 +7,13 @@
  * - Privacy enhancement
  * - Dust consolidation
  * - Manual selection
+ *
+ * Fee rates are in satoshis per byte; the fee for each candidate selection is
+ * calculated from the size of the resulting transaction.
  */
 
+import { FeeEstimationService } from './FeeEstimationService';
+
 export interface EnhancedUTXO {
   txid: string;
   vout: number;
@@ -20,6 +25,8 @@ export interface EnhancedUTXO {
   isDust?: boolean;
   scriptPubKey?: string;
   address?: string;
+  derivationPath?: string; // BIP44 path when the UTXO belongs to an HD address
+  isFrozen?: boolean; // Marked "do not spend"; never picked by an automatic strategy
 }
 
 export interface UTXOSelectionResult {
@@ -43,7 +50,7 @@ export enum CoinSelectionStrategy {
 export interface UTXOSelectionOptions {
   strategy?: CoinSelectionStrategy;
   targetAmount: number;
-  feeRate?: number;
+  feeRate?: number; // sat/byte
   includeDust?: boolean;
   maxInputs?: number;
   minConfirmations?: number;
@@ -55,7 +62,8 @@ export interface UTXOSelectionOptions {
 }
 
 export class UTXOSelectionService {
-  private static readonly DEFAULT_FEE_RATE = 10000; // 0.0001 AVN in satoshis
+  private static readonly DEFAULT_FEE_RATE = FeeEstimationService.DEFAULT_FEE_RATE; // sat/byte
+  private static readonly DEFAULT_OUTPUT_COUNT = 2; // Recipient + change
   private static readonly DEFAULT_DUST_THRESHOLD = 1000; // 0.00001 AVN in satoshis
   private static readonly DEFAULT_MAX_INPUTS = 20;
   private static readonly DEFAULT_MIN_CONFIRMATIONS = 6;
@@ -159,6 +167,11 @@ export class UTXOSelectionService {
     },
   ): EnhancedUTXO[] {
     return utxos.filter((utxo) => {
+      // Frozen coins are only spent when the user unfreezes them
+      if (utxo.isFrozen) {
+        return false;
+      }
+
       // Filter dust unless specifically included
       if (!options.includeDust && utxo.isDust) {
         return false;
@@ -228,16 +241,14 @@ export class UTXOSelectionService {
     feeRate: number,
     maxInputs: number,
   ): UTXOSelectionResult | null {
-    const totalRequired = targetAmount + feeRate;
-
     // First try to find exact match or close fit
-    const exactMatch = this.findExactMatch(utxos, totalRequired);
+    const exactMatch = this.findExactMatch(utxos, targetAmount, feeRate);
     if (exactMatch) {
       return exactMatch;
     }
 
     // Try combinations with low change
-    const bestFit = this.findBestFitCombination(utxos, totalRequired, maxInputs);
+    const bestFit = this.findBestFitCombination(utxos, targetAmount, feeRate, maxInputs);
     if (bestFit) {
       return bestFit;
     }
@@ -266,7 +277,11 @@ export class UTXOSelectionService {
 
     // First select enough non-dust to cover the target
     for (const utxo of nonDust) {
-      if (totalInput >= targetAmount + feeRate || remainingInputs <= 0) break;
+      if (
+        totalInput >= targetAmount + this.calculateFee(selected.length, feeRate) ||
+        remainingInputs <= 0
+      )
+        break;
       selected.push(utxo);
       totalInput += utxo.value;
       remainingInputs--;
@@ -276,8 +291,10 @@ export class UTXOSelectionService {
     for (const utxo of dust) {
       if (remainingInputs <= 0) break;
 
-      // Only add dust if the value is greater than the marginal fee cost
-      const marginalFeeCost = Math.floor(feeRate * 0.1); // Estimate 10% fee increase per input
+      // Only add dust if the value is greater than the marginal fee cost of the extra input
+      const marginalFeeCost =
+        this.calculateFee(selected.length + 1, feeRate) -
+        this.calculateFee(selected.length, feeRate);
       if (utxo.value > marginalFeeCost) {
         selected.push(utxo);
         totalInput += utxo.value;
@@ -285,15 +302,16 @@ export class UTXOSelectionService {
       }
     }
 
-    if (totalInput < targetAmount + feeRate) {
+    const fee = this.calculateFee(selected.length, feeRate);
+    if (totalInput < targetAmount + fee) {
       return null;
     }
 
     return {
       selectedUTXOs: selected,
       totalInput,
-      change: totalInput - targetAmount - feeRate,
-      estimatedFee: feeRate,
+      change: totalInput - targetAmount - fee,
+      estimatedFee: fee,
       strategyUsed: CoinSelectionStrategy.CONSOLIDATE_DUST,
       efficiency: targetAmount / totalInput,
     };
@@ -321,7 +339,10 @@ export class UTXOSelectionService {
     const step = Math.max(1, Math.floor(sorted.length / targetInputCount));
 
     for (let i = 0; i < sorted.length && selected.length < targetInputCount; i += step) {
-      if (totalInput >= targetAmount + feeRate && selected.length >= 3) {
+      if (
+        totalInput >= targetAmount + this.calculateFee(selected.length, feeRate) &&
+        selected.length >= 3
+      ) {
         break;
       }
       selected.push(sorted[i]);
@@ -329,7 +350,7 @@ export class UTXOSelectionService {
     }
 
     // If we don't have enough, add more from the remaining
-    if (totalInput < targetAmount + feeRate) {
+    if (totalInput < targetAmount + this.calculateFee(selected.length, feeRate)) {
       for (const utxo of sorted) {
         if (selected.includes(utxo)) continue;
         if (selected.length >= maxInputs) break;
@@ -337,19 +358,20 @@ export class UTXOSelectionService {
         selected.push(utxo);
         totalInput += utxo.value;
 
-        if (totalInput >= targetAmount + feeRate) break;
+        if (totalInput >= targetAmount + this.calculateFee(selected.length, feeRate)) break;
       }
     }
 
-    if (totalInput < targetAmount + feeRate) {
+    const fee = this.calculateFee(selected.length, feeRate);
+    if (totalInput < targetAmount + fee) {
       return null;
     }
 
     return {
       selectedUTXOs: selected,
       totalInput,
-      change: totalInput - targetAmount - feeRate,
-      estimatedFee: feeRate,
+      change: totalInput - targetAmount - fee,
+      estimatedFee: fee,
       strategyUsed: CoinSelectionStrategy.PRIVACY_FOCUSED,
       efficiency: targetAmount / totalInput,
     };
@@ -364,16 +386,17 @@ export class UTXOSelectionService {
     feeRate: number,
   ): UTXOSelectionResult | null {
     const totalInput = selectedUTXOs.reduce((sum, utxo) => sum + utxo.value, 0);
+    const fee = this.calculateFee(selectedUTXOs.length, feeRate);
 
-    if (totalInput < targetAmount + feeRate) {
+    if (totalInput < targetAmount + fee) {
       return null;
     }
 
     return {
       selectedUTXOs,
       totalInput,
-      change: totalInput - targetAmount - feeRate,
-      estimatedFee: feeRate,
+      change: totalInput - targetAmount - fee,
+      estimatedFee: fee,
       strategyUsed: CoinSelectionStrategy.MANUAL,
       efficiency: targetAmount / totalInput,
     };
@@ -391,24 +414,28 @@ export class UTXOSelectionService {
   ): UTXOSelectionResult | null {
     let totalInput = 0;
     const selected: EnhancedUTXO[] = [];
-    const totalRequired = targetAmount + feeRate;
 
     for (const utxo of sortedUTXOs) {
-      if (totalInput >= totalRequired || selected.length >= maxInputs) break;
+      if (
+        totalInput >= targetAmount + this.calculateFee(selected.length, feeRate) ||
+        selected.length >= maxInputs
+      )
+        break;
 
       selected.push(utxo);
       totalInput += utxo.value;
     }
 
-    if (totalInput < totalRequired) {
+    const fee = this.calculateFee(selected.length, feeRate);
+    if (totalInput < targetAmount + fee) {
       return null;
     }
 
     return {
       selectedUTXOs: selected,
       totalInput,
-      change: totalInput - totalRequired,
-      estimatedFee: feeRate,
+      change: totalInput - targetAmount - fee,
+      estimatedFee: fee,
       strategyUsed: strategy,
       efficiency: targetAmount / totalInput,
     };
@@ -419,16 +446,18 @@ export class UTXOSelectionService {
    */
   private static findExactMatch(
     utxos: EnhancedUTXO[],
-    totalRequired: number,
+    targetAmount: number,
+    feeRate: number,
   ): UTXOSelectionResult | null {
-    // Try single UTXO exact match
+    // Try single UTXO exact match (no change output needed)
+    const singleInputFee = this.calculateFee(1, feeRate, 1);
     for (const utxo of utxos) {
-      if (utxo.value === totalRequired) {
+      if (utxo.value === targetAmount + singleInputFee) {
         return {
           selectedUTXOs: [utxo],
           totalInput: utxo.value,
           change: 0,
-          estimatedFee: totalRequired - utxo.value,
+          estimatedFee: singleInputFee,
           strategyUsed: CoinSelectionStrategy.BEST_FIT,
           efficiency: 1.0,
         };
@@ -436,15 +465,16 @@ export class UTXOSelectionService {
     }
 
     // Try two-UTXO combinations for exact match
+    const twoInputFee = this.calculateFee(2, feeRate, 1);
     for (let i = 0; i < utxos.length; i++) {
       for (let j = i + 1; j < utxos.length; j++) {
         const sum = utxos[i].value + utxos[j].value;
-        if (sum === totalRequired) {
+        if (sum === targetAmount + twoInputFee) {
           return {
             selectedUTXOs: [utxos[i], utxos[j]],
             totalInput: sum,
             change: 0,
-            estimatedFee: totalRequired - sum,
+            estimatedFee: twoInputFee,
             strategyUsed: CoinSelectionStrategy.BEST_FIT,
             efficiency: 1.0,
           };
@@ -460,7 +490,8 @@ export class UTXOSelectionService {
    */
   private static findBestFitCombination(
     utxos: EnhancedUTXO[],
-    totalRequired: number,
+    targetAmount: number,
+    feeRate: number,
     maxInputs: number,
   ): UTXOSelectionResult | null {
     // Sort by value descending for better branch and bound performance
@@ -473,13 +504,14 @@ export class UTXOSelectionService {
     const maxCombinationInputs = Math.min(4, maxInputs, sorted.length);
 
     for (let numInputs = 1; numInputs <= maxCombinationInputs; numInputs++) {
-      const result = this.findBestCombination(sorted, totalRequired, numInputs);
+      const fee = this.calculateFee(numInputs, feeRate);
+      const result = this.findBestCombination(sorted, targetAmount, fee, numInputs);
       if (result && result.change < bestChange) {
         bestChange = result.change;
         bestResult = result;
 
         // If we found a very close match, stop searching
-        if (result.change < totalRequired * 0.05) {
+        if (result.change < (targetAmount + result.estimatedFee) * 0.05) {
           // Within 5% of target
           break;
         }
@@ -494,9 +526,11 @@ export class UTXOSelectionService {
    */
   private static findBestCombination(
     utxos: EnhancedUTXO[],
-    totalRequired: number,
+    targetAmount: number,
+    fee: number,
     numInputs: number,
   ): UTXOSelectionResult | null {
+    const totalRequired = targetAmount + fee;
     const combinations = this.generateCombinations(utxos, numInputs);
     let bestResult: UTXOSelectionResult | null = null;
     let bestChange = Infinity;
@@ -512,9 +546,9 @@ export class UTXOSelectionService {
             selectedUTXOs: combination,
             totalInput,
             change,
-            estimatedFee: totalRequired - (totalInput - change),
+            estimatedFee: fee,
             strategyUsed: CoinSelectionStrategy.BEST_FIT,
-            efficiency: (totalRequired - (totalRequired - (totalInput - change))) / totalInput,
+            efficiency: targetAmount / totalInput,
           };
         }
       }
@@ -543,6 +577,17 @@ export class UTXOSelectionService {
     return combinations;
   }
 
+  /**
+   * Calculate the fee for a selection with the given number of inputs
+   */
+  private static calculateFee(
+    inputCount: number,
+    feeRate: number,
+    outputCount: number = this.DEFAULT_OUTPUT_COUNT,
+  ): number {
+    return FeeEstimationService.calculateFee(inputCount, outputCount, feeRate);
+  }
+
   /**
    * Get recommended strategy for a given transaction
    */
@@ -6,19 +6,52 @@
  */
 
 import * as bitcoin from 'bitcoinjs-lib';
-import { ECPairFactory } from 'ecpair';
+import { ECPairFactory, ECPairInterface } from 'ecpair';
 import * as ecc from 'tiny-secp256k1';
 import * as bip39 from 'bip39';
-import { BIP32Factory } from 'bip32';
+import { BIP32Factory, BIP32Interface } from 'bip32';
 import { ElectrumService } from '../core/ElectrumService';
-import { StorageService } from '../core/StorageService';
+import { StorageService, WalletSecretsUpdate } from '../core/StorageService';
 import { walletLogger } from '@/lib/Logger';
 import {
     UTXOSelectionService,
     EnhancedUTXO,
     CoinSelectionStrategy,
-    UTXOSelectionOptions,
 } from './UTXOSelectionService';
+import { FeeEstimationService, FeeEstimates } from './FeeEstimationService';
+import { AddressDiscoveryService, AddressDeriver } from './AddressDiscoveryService';
+import { AssetService } from './AssetService';
+import { MultisigService } from './MultisigService';
+import { SpvService } from './SpvService';
+import { LabelService } from './LabelService';
+import {
+    SignedTransaction,
+    UnsignedTransaction,
+    UnsignedTransactionInput,
+    UnsignedTransactionOutput,
+} from '@/types/offlineSigning';
+import {
+    AddressChain,
+    AddressDiscoveryState,
+    ReceiveAddressInfo,
+    ReceiveAddressState,
+} from '@/types/addressDiscovery';
+import {
+    AssetBalance,
+    AssetIssuePreview,
+    AssetIssueRequest,
+    AssetUTXO,
+} from '@/types/assets';
+import { ElectrumServer, ElectrumServerStatus } from '@/types/electrum';
+import { PaymentRecipient } from '@/types/batchPayment';
+import {
+    MultisigCosigner,
+    MultisigProposal,
+    MultisigProposalOutput,
+    MultisigWalletConfig,
+} from '@/types/multisig';
+import { SpvStatus } from '@/types/spv';
+import { BiometricKeyWrap, EncryptionFormat, EncryptionInfo, KdfParams } from '@/types/security';
 import * as bitcoinMessage from 'bitcoinjs-message';
 import { randomBytes, createHash, createCipheriv, createDecipheriv, createHmac } from 'crypto';
 import { scrypt, ProgressCallback } from 'scrypt-js';
@@ -93,20 +126,49 @@ const IV_LENGTH = 16;
 const SALT_LENGTH = 64;
 const TAG_LENGTH = 16;
 
+// Self-describing format for encrypted secrets, with base64 fields:
+//   $avn$<version>$<kdf>$<params>$<salt>$<nonce>$<ciphertext+tag>
+// The header up to <params> is authenticated as AES-GCM associated data
+const ENVELOPE_PREFIX = '$avn$';
+const ENVELOPE_VERSION = 1;
+const ENVELOPE_SALT_LENGTH = 16;
+const ENVELOPE_NONCE_LENGTH = 12;
+
+// Fixed parameters of the earlier headerless format (salt | iv | tag | ciphertext, as hex)
+const HEADERLESS_KDF_PARAMS: KdfParams = { kdf: 'scrypt', N: 16384, r: 8, p: 1 };
+
+// Used for new secrets until the device has been benchmarked
+export const DEFAULT_KDF_PARAMS: KdfParams = { kdf: 'scrypt', N: 16384, r: 8, p: 1 };
+
+// The benchmark never picks a cost below the default or above 128 MiB of memory,
+// and envelopes asking for more than 256 MiB are refused so a crafted backup can't exhaust memory
+const BENCHMARK_MAX_SCRYPT_N = 131072;
+const MAX_SCRYPT_MEMORY = 256 * 1024 * 1024;
+
 // Initialize ECPair and BIP32 with secp256k1
 const ECPair = ECPairFactory(ecc);
 const bip32 = BIP32Factory(ecc);
 
 const ECIES_PREFIX = Buffer.from('BIE1');
 
+// Change below this value (in satoshis) is added to the fee instead of creating a dust output
+const CHANGE_DUST_LIMIT = 600;
+
+// nSequence that signals opt-in replace-by-fee (BIP125) while leaving locktime enabled
+const RBF_SEQUENCE = 0xfffffffd;
+
 export interface WalletData {
     id?: number;
     name: string;
     address: string;
     privateKey: string;
     mnemonic?: string; // BIP39 mnemonic phrase for backup/recovery
+    bip39Passphrase?: string; // Optional encrypted BIP39 passphrase (25th word)
     coinType?: 921 | 175; // BIP44 coin type for derivation (default: 921 for Avian, 175 for Ravencoin legacy)
     isEncrypted: boolean;
+    isWatchOnly?: boolean; // Address-only wallet that can build but not sign transactions
+    xpub?: string; // Account-level extended public key of an HD watch-only wallet
+    multisig?: MultisigWalletConfig; // Redeem script and cosigner set of a P2SH multisig wallet
     isActive: boolean;
     createdAt: Date;
     lastAccessed: Date;
@@ -132,37 +194,209 @@ export const avianNetwork: bitcoin.Network = {
     wif: 0x80, // WIF version byte (decimal 128)
 };
 
-export async function secureEncrypt(data: string, password: string): Promise<string> {
-    const salt = randomBytes(SALT_LENGTH);
-    const N = 16384,
-        r = 8,
-        p = 1,
-        dkLen = 32;
-    const key = await scryptPromise(Buffer.from(password, 'utf-8'), salt, N, r, p, dkLen);
-    const iv = randomBytes(IV_LENGTH);
-    const cipher = createCipheriv(ALGORITHM, key, iv);
-    const encrypted = Buffer.concat([cipher.update(data, 'utf8'), cipher.final()]);
-    const tag = cipher.getAuthTag();
-    return Buffer.concat([salt, iv, tag, encrypted]).toString('hex');
+interface Envelope {
+    header: string;
+    version: number;
+    params: KdfParams;
+    salt: Buffer;
+    nonce: Buffer;
+    data: Buffer;
+}
+
+// Parameters of this device, as tuned by benchmarkKdf
+let deviceKdfParams: KdfParams | null = null;
+
+function validateKdfParams(params: KdfParams): void {
+    if (params.kdf !== 'scrypt') {
+        throw new Error(`Unsupported key derivation function "${params.kdf}"`);
+    }
+    const { N, r, p } = params;
+    if (![N, r, p].every((value) => Number.isInteger(value) && value > 0)) {
+        throw new Error('Invalid scrypt parameters');
+    }
+    if (N < 2 || (N & (N - 1)) !== 0) {
+        throw new Error('scrypt N must be a power of two');
+    }
+    if (128 * N * r > MAX_SCRYPT_MEMORY || p > 16) {
+        throw new Error('scrypt parameters exceed the supported cost');
+    }
+}
+
+function envelopeHeader(params: KdfParams): string {
+    const values = `N=${params.N},r=${params.r},p=${params.p}`;
+    return `${ENVELOPE_PREFIX}${ENVELOPE_VERSION}$${params.kdf}$${values}`;
+}
+
+function parseEnvelope(encryptedData: string): Envelope {
+    const fields = encryptedData.slice(ENVELOPE_PREFIX.length).split('$');
+    if (fields.length !== 6) {
+        throw new Error('Malformed encryption envelope');
+    }
+
+    const [version, kdf, paramText, salt, nonce, data] = fields;
+    if (Number(version) !== ENVELOPE_VERSION) {
+        throw new Error(`Unsupported encryption envelope version ${version}`);
+    }
+    if (kdf !== 'scrypt') {
+        throw new Error(`Unsupported key derivation function "${kdf}"`);
+    }
+
+    const values: Record<string, number> = {};
+    paramText.split(',').forEach((pair) => {
+        const [name, value] = pair.split('=');
+        values[name] = Number(value);
+    });
+    const params: KdfParams = { kdf, N: values.N, r: values.r, p: values.p };
+    validateKdfParams(params);
+
+    return {
+        header: ENVELOPE_PREFIX + fields.slice(0, 3).join('$'),
+        version: ENVELOPE_VERSION,
+        params,
+        salt: Buffer.from(salt, 'base64'),
+        nonce: Buffer.from(nonce, 'base64'),
+        data: Buffer.from(data, 'base64'),
+    };
+}
+
+function deriveKey(password: string, salt: Buffer, params: KdfParams): Promise<Buffer> {
+    return scryptPromise(Buffer.from(password, 'utf-8'), salt, params.N, params.r, params.p, 32);
+}
+
+/**
+ * The key derivation parameters new secrets are encrypted with on this device.
+ */
+export async function getKdfParams(): Promise<KdfParams> {
+    if (!deviceKdfParams) {
+        try {
+            deviceKdfParams = (await StorageService.getKdfParams()) || DEFAULT_KDF_PARAMS;
+        } catch (error) {
+            walletLogger.warn('Failed to load key derivation parameters, using defaults', error);
+            return DEFAULT_KDF_PARAMS;
+        }
+    }
+    return deviceKdfParams;
+}
+
+export async function setKdfParams(params: KdfParams): Promise<void> {
+    validateKdfParams(params);
+    await StorageService.setKdfParams(params);
+    deviceKdfParams = params;
+}
+
+// e.g. "scrypt N=16384, r=8, p=1"
+export function describeKdfParams(params: KdfParams): string {
+    return `${params.kdf} N=${params.N}, r=${params.r}, p=${params.p}`;
+}
+
+/**
+ * Pick the strongest scrypt cost this device derives a key with in about targetMs.
+ * Times one derivation at the default cost and doubles N from there, as scrypt time grows
+ * linearly with N.
+ */
+export async function benchmarkKdf(targetMs: number = 500): Promise<KdfParams> {
+    const params: KdfParams = { ...DEFAULT_KDF_PARAMS };
+    const started = Date.now();
+    await deriveKey('benchmark', randomBytes(ENVELOPE_SALT_LENGTH), params);
+    const elapsed = Math.max(Date.now() - started, 1);
+
+    while (
+        params.N < BENCHMARK_MAX_SCRYPT_N &&
+        (elapsed * params.N * 2) / DEFAULT_KDF_PARAMS.N <= targetMs
+    ) {
+        params.N *= 2;
+    }
+
+    walletLogger.info(`Key derivation took ${elapsed}ms at N=${DEFAULT_KDF_PARAMS.N}`, params);
+    return params;
+}
+
+/**
+ * Encrypt a secret into a self-describing envelope, with the device's key derivation
+ * parameters unless others are given.
+ */
+export async function secureEncrypt(
+    data: string,
+    password: string,
+    params?: KdfParams,
+): Promise<string> {
+    const kdfParams = params || (await getKdfParams());
+    validateKdfParams(kdfParams);
+
+    const header = envelopeHeader(kdfParams);
+    const salt = randomBytes(ENVELOPE_SALT_LENGTH);
+    const key = await deriveKey(password, salt, kdfParams);
+    const nonce = randomBytes(ENVELOPE_NONCE_LENGTH);
+    const cipher = createCipheriv(ALGORITHM, key, nonce);
+    cipher.setAAD(Buffer.from(header, 'utf8'));
+    const encrypted = Buffer.concat([
+        cipher.update(data, 'utf8'),
+        cipher.final(),
+        cipher.getAuthTag(),
+    ]);
+
+    const fields = [salt, nonce, encrypted].map((field) => field.toString('base64'));
+    return [header].concat(fields).join('$');
+}
+
+async function envelopeDecrypt(envelope: Envelope, password: string): Promise<string> {
+    const key = await deriveKey(password, envelope.salt, envelope.params);
+    const tagStart = envelope.data.length - TAG_LENGTH;
+    const decipher = createDecipheriv(ALGORITHM, key, envelope.nonce);
+    decipher.setAAD(Buffer.from(envelope.header, 'utf8'));
+    decipher.setAuthTag(envelope.data.subarray(tagStart));
+    const decrypted = Buffer.concat([
+        decipher.update(envelope.data.subarray(0, tagStart)),
+        decipher.final(),
+    ]);
+    return decrypted.toString('utf8');
 }
 
-async function secureDecrypt(encryptedHex: string, password: string): Promise<string> {
+async function headerlessDecrypt(encryptedHex: string, password: string): Promise<string> {
     const encryptedData = Buffer.from(encryptedHex, 'hex');
     const salt = encryptedData.subarray(0, SALT_LENGTH);
     const iv = encryptedData.subarray(SALT_LENGTH, SALT_LENGTH + IV_LENGTH);
     const tag = encryptedData.subarray(SALT_LENGTH + IV_LENGTH, SALT_LENGTH + IV_LENGTH + TAG_LENGTH);
     const encrypted = encryptedData.subarray(SALT_LENGTH + IV_LENGTH + TAG_LENGTH);
-    const N = 16384,
-        r = 8,
-        p = 1,
-        dkLen = 32;
-    const key = await scryptPromise(Buffer.from(password, 'utf-8'), salt, N, r, p, dkLen);
+    const key = await deriveKey(password, salt, HEADERLESS_KDF_PARAMS);
     const decipher = createDecipheriv(ALGORITHM, key, iv);
     decipher.setAuthTag(tag);
     const decrypted = Buffer.concat([decipher.update(encrypted), decipher.final()]);
     return decrypted.toString('utf8');
 }
 
+/**
+ * Which format an encrypted secret is stored in, and the key derivation it used when known.
+ * Throws for envelopes this version can't read.
+ */
+export function getEncryptionInfo(encryptedData: string): EncryptionInfo {
+    if (encryptedData.startsWith(ENVELOPE_PREFIX)) {
+        const { version, params } = parseEnvelope(encryptedData);
+        return { format: 'envelope', version, params };
+    }
+    if (
+        /^[0-9a-fA-F]+$/.test(encryptedData) &&
+        encryptedData.length > (SALT_LENGTH + IV_LENGTH + TAG_LENGTH) * 2
+    ) {
+        return { format: 'headerless', params: HEADERLESS_KDF_PARAMS };
+    }
+    return { format: 'cryptojs' };
+}
+
+/**
+ * Whether a secret is in the envelope format with key derivation at least as strong as params
+ */
+export function isEncryptionCurrent(encryptedData: string, params: KdfParams): boolean {
+    const info = getEncryptionInfo(encryptedData);
+    return (
+        info.format === 'envelope' &&
+        info.params?.kdf === params.kdf &&
+        info.params.N >= params.N &&
+        info.params.r >= params.r &&
+        info.params.p >= params.p
+    );
+}
+
 /**
  * Legacy decryption using CryptoJS for backward compatibility
  */
@@ -176,18 +410,34 @@ export function legacyDecrypt(encryptedData: string, password: string): string {
 }
 
 /**
- * Unified decryption function that handles both new (scrypt) and legacy (CryptoJS) formats.
- * @returns An object containing the decrypted data and a flag indicating if legacy format was used.
+ * Unified decryption for the envelope, headerless scrypt and legacy CryptoJS formats.
+ * Envelopes are read by their header; older data is told apart by trying the formats in turn.
+ * @returns The decrypted data, the format it was stored in, and whether that was CryptoJS.
  */
 export async function decryptData(
     encryptedData: string,
     password: string,
-): Promise<{ decrypted: string; wasLegacy: boolean }> {
+): Promise<{ decrypted: string; wasLegacy: boolean; format: EncryptionFormat }> {
+    if (encryptedData.startsWith(ENVELOPE_PREFIX)) {
+        // Unsupported versions and parameters are reported as such rather than as a wrong password
+        const envelope = parseEnvelope(encryptedData);
+        try {
+            const decrypted = await envelopeDecrypt(envelope, password);
+            return { decrypted, wasLegacy: false, format: 'envelope' };
+        } catch (error) {
+            walletLogger.debug('Envelope decryption failed', {
+                error: error instanceof Error ? error.message : 'Unknown error',
+                params: envelope.params,
+            });
+            throw new Error('Invalid password or corrupted data');
+        }
+    }
+
     try {
-        // Attempt to decrypt using the new secure method first.
+        // Attempt the headerless scrypt format first.
         // This will fail on non-hex legacy data, triggering the catch block.
-        const decrypted = await secureDecrypt(encryptedData, password);
-        return { decrypted, wasLegacy: false };
+        const decrypted = await headerlessDecrypt(encryptedData, password);
+        return { decrypted, wasLegacy: false, format: 'headerless' };
     } catch (secureError) {
         // Log more useful information about the secure decryption failure
         walletLogger.debug('Secure decryption failed, attempting legacy method', {
@@ -199,7 +449,7 @@ export async function decryptData(
         try {
             // If secure decrypt fails, fall back to the legacy method.
             const decrypted = legacyDecrypt(encryptedData, password);
-            return { decrypted, wasLegacy: true };
+            return { decrypted, wasLegacy: true, format: 'cryptojs' };
         } catch (legacyError) {
             // If both methods fail, the password is wrong or data is corrupt.
             walletLogger.error('Decryption failed for both secure and legacy methods.', {
@@ -251,9 +501,15 @@ export function recoverPubKey(message: string, signatureB64: string): Uint8Array
 
 export class WalletService {
     protected electrum: ElectrumService;
+    protected feeEstimator: FeeEstimationService;
+    protected spv: SpvService;
+    private spvAlerts: Set<string> = new Set(); // Alerts already raised this session
+    private walletUpdateHandlers = new Map<string, (status: string) => void>(); // By wallet
 
     constructor(electrumService?: ElectrumService) {
         this.electrum = electrumService || new ElectrumService();
+        this.feeEstimator = new FeeEstimationService(this.electrum);
+        this.spv = new SpvService(this.electrum);
     }
 
     async generateWallet(
@@ -372,13 +628,12 @@ export class WalletService {
 
     /**
      * Subscribes to wallet updates via ElectrumX
-     * @param address - The wallet address to monitor
+     * @param address - The wallet address to monitor, along with its HD addresses
      * @param onUpdate - Optional callback when updates occur
      */
     async subscribeToWalletUpdates(address: string, onUpdate?: (data: any) => void): Promise<void> {
         try {
-            // Subscribe to address changes via ElectrumX
-            await this.electrum.subscribeToAddress(address, async (status: string) => {
+            const onStatus = async (status: string) => {
                 // Process transaction history to detect new received transactions
                 try {
                     await this.processTransactionHistory(address);
@@ -390,7 +645,7 @@ export class WalletService {
                 }
 
                 // Trigger balance update when status changes
-                this.getBalance(address, true)
+                this.getWalletBalance(address, true)
                     .then((newBalance) => {
                         // Store updated balance in wallet record
                         StorageService.setWalletBalance(address, newBalance);
@@ -403,17 +658,48 @@ export class WalletService {
                     .catch((error) => {
                         walletLogger.error('Error updating balance after subscription notification:', error);
                     });
-            });
+            };
+
+            // Subscribe to changes of every wallet address via ElectrumX. The initial status
+            // of the main address already refreshes the whole wallet, so skip the others'.
+            this.walletUpdateHandlers.set(address, onStatus);
+            for (const entry of await WalletService.getWalletAddresses(address)) {
+                await this.watchWalletAddress(address, entry.address, entry.address !== address);
+            }
         } catch (error) {
             walletLogger.error('Error subscribing to wallet updates:', error);
             throw error;
         }
     }
 
+    /**
+     * Route status changes of one address to the update handler of the wallet it belongs to
+     */
+    private async watchWalletAddress(
+        walletAddress: string,
+        address: string,
+        skipInitial: boolean = true,
+    ): Promise<void> {
+        const onStatus = this.walletUpdateHandlers.get(walletAddress);
+        if (!onStatus) {
+            return;
+        }
+        await this.electrum.subscribeToAddress(address, (status: string) => {
+            if (skipInitial) {
+                skipInitial = false;
+                return;
+            }
+            onStatus(status);
+        });
+    }
+
     async unsubscribeFromWalletUpdates(address: string): Promise<void> {
         try {
+            this.walletUpdateHandlers.delete(address);
             // Unsubscribe from address updates via ElectrumX
-            await this.electrum.unsubscribeFromAddress(address);
+            for (const entry of await WalletService.getWalletAddresses(address)) {
+                await this.electrum.unsubscribeFromAddress(entry.address);
+            }
 
             // We no longer disable wallet notifications during unsubscribe
             // This ensures notification settings are preserved when switching wallets
@@ -447,8 +733,23 @@ export class WalletService {
                 await this.electrum.connect();
             }
 
-            // Get initial balance
-            const balance = await this.getBalance(address);
+            // Watch-only HD wallets need no password to find their used addresses, so scan
+            // them before the first balance instead of only counting the first address
+            const activeWallet = await this.getActiveWallet();
+            if (
+                activeWallet?.address === address &&
+                activeWallet.xpub &&
+                !(await StorageService.getAddressDiscoveryState(address))
+            ) {
+                try {
+                    await this.discoverHDAddresses();
+                } catch (discoveryError) {
+                    walletLogger.warn('Error discovering xpub wallet addresses:', discoveryError);
+                }
+            }
+
+            // Get initial balance across every address of the wallet
+            const balance = await this.getWalletBalance(address);
 
             // Store balance in wallet record and global preference for compatibility
             await StorageService.setWalletBalance(address, balance);
@@ -524,294 +825,470 @@ export class WalletService {
         }
     }
 
-    async sendTransaction(
+    /**
+     * Get current fee rate estimates (sat/byte) for the slow/normal/fast presets
+     */
+    async getFeeEstimates(forceRefresh: boolean = false): Promise<FeeEstimates> {
+        return this.feeEstimator.getFeeEstimates(forceRefresh);
+    }
+
+    /**
+     * Preview the fee for a payment without signing or broadcasting anything.
+     * Uses the same UTXO selection and transaction sizing as sendTransaction.
+     */
+    async estimateTransactionFee(
         toAddress: string,
         amount: number,
-        password?: string,
         options?: {
+            fromAddress?: string; // Defaults to the active wallet address
             strategy?: CoinSelectionStrategy;
             feeRate?: number;
             maxInputs?: number;
             minConfirmations?: number;
-            changeAddress?: string; // Custom change address for HD wallets
-            subtractFeeFromAmount?: boolean; // Whether to subtract fee from the send amount
+            changeAddress?: string;
+            subtractFeeFromAmount?: boolean;
+            manualUTXOs?: EnhancedUTXO[];
         },
-    ): Promise<string> {
-        try {
-            // Get current wallet data
+    ): Promise<{
+        fee: number;
+        feeRate: number;
+        size: number;
+        inputCount: number;
+        sendAmount: number;
+        change: number;
+    }> {
+        const { amounts, ...estimate } = await this.estimateBatchTransactionFee(
+            [{ address: toAddress, amount }],
+            options,
+        );
+        return { ...estimate, sendAmount: amounts[0] };
+    }
+
+    /**
+     * Preview the fee for a payment to several recipients at once. The fee can only be
+     * subtracted from the amount when there is a single recipient.
+     */
+    async estimateBatchTransactionFee(
+        recipients: PaymentRecipient[],
+        options?: {
+            fromAddress?: string; // Defaults to the active wallet address
+            strategy?: CoinSelectionStrategy;
+            feeRate?: number;
+            maxInputs?: number;
+            minConfirmations?: number;
+            changeAddress?: string;
+            subtractFeeFromAmount?: boolean;
+            manualUTXOs?: EnhancedUTXO[];
+        },
+    ): Promise<{
+        fee: number;
+        feeRate: number;
+        size: number;
+        inputCount: number;
+        amounts: number[];
+        change: number;
+    }> {
+        this.validateRecipients(recipients, options?.subtractFeeFromAmount);
+        const amount = recipients.reduce((sum, recipient) => sum + recipient.amount, 0);
+        const feeRate = options?.feeRate || (await this.feeEstimator.getFeeRate('normal'));
+
+        let fromAddress = options?.fromAddress;
+        if (!fromAddress) {
             const activeWallet = await StorageService.getActiveWallet();
             if (!activeWallet) {
                 throw new Error('No active wallet found');
             }
+            fromAddress = activeWallet.address;
+        }
 
-            let privateKeyWIF = activeWallet.privateKey;
+        const selectedUTXOs =
+            options?.manualUTXOs && options.manualUTXOs.length > 0
+                ? options.manualUTXOs
+                : await this.selectPaymentUTXOs(fromAddress, amount, feeRate, {
+                      ...options,
+                      recipientCount: recipients.length,
+                  });
+
+        const changeAddress =
+            options?.changeAddress && options.changeAddress.trim() !== ''
+                ? options.changeAddress
+                : fromAddress;
+
+        const outputs = this.calculatePaymentOutputs(
+            selectedUTXOs,
+            recipients,
+            changeAddress,
+            feeRate,
+            options?.subtractFeeFromAmount,
+        );
 
-            // Decrypt private key if encrypted
-            if (activeWallet.isEncrypted) {
-                if (!password) {
-                    throw new Error('Password required for encrypted wallet');
-                }
-                try {
-                    const { decrypted } = await decryptData(privateKeyWIF, password);
-                    if (!decrypted) {
-                        throw new Error('Invalid password');
-                    }
-                    privateKeyWIF = decrypted;
-                } catch (error) {
-                    throw new Error('Invalid password');
-                }
-            }
+        return {
+            ...outputs,
+            feeRate,
+            inputCount: selectedUTXOs.length,
+        };
+    }
 
-            // Create key pair from private key
-            const keyPair = ECPair.fromWIF(privateKeyWIF, avianNetwork);
-            const fromAddress = activeWallet.address;
+    /**
+     * Build an unsigned payment without touching any private keys. Works for watch-only
+     * wallets; the result carries everything an offline device needs to sign it.
+     */
+    async buildUnsignedTransaction(
+        toAddress: string,
+        amount: number,
+        options?: {
+            fromAddress?: string; // Defaults to the active wallet address
+            derivationPath?: string; // BIP44 path of fromAddress, recorded for the signer
+            strategy?: CoinSelectionStrategy;
+            feeRate?: number;
+            maxInputs?: number;
+            minConfirmations?: number;
+            changeAddress?: string; // Custom change address for HD wallets
+            subtractFeeFromAmount?: boolean; // Whether to subtract fee from the send amount
+            manualUTXOs?: EnhancedUTXO[]; // Spend exactly these UTXOs instead of selecting
+        },
+    ): Promise<UnsignedTransaction> {
+        return this.buildUnsignedBatchTransaction([{ address: toAddress, amount }], options);
+    }
 
-            // Get UTXOs for the address
-            const rawUTXOs = await this.electrum.getUTXOs(fromAddress);
-            if (rawUTXOs.length === 0) {
-                throw new Error('No unspent transaction outputs found');
-            }
+    /**
+     * Build an unsigned payment to several recipients, with one output each in the order
+     * given. UTXOs are selected once for the total.
+     */
+    async buildUnsignedBatchTransaction(
+        recipients: PaymentRecipient[],
+        options?: {
+            fromAddress?: string; // Defaults to the active wallet address
+            derivationPath?: string; // BIP44 path of fromAddress, recorded for the signer
+            strategy?: CoinSelectionStrategy;
+            feeRate?: number;
+            maxInputs?: number;
+            minConfirmations?: number;
+            changeAddress?: string; // Custom change address for HD wallets
+            subtractFeeFromAmount?: boolean; // Single recipient only
+            manualUTXOs?: EnhancedUTXO[]; // Spend exactly these UTXOs instead of selecting
+        },
+    ): Promise<UnsignedTransaction> {
+        this.validateRecipients(recipients, options?.subtractFeeFromAmount);
+        const amount = recipients.reduce((sum, recipient) => sum + recipient.amount, 0);
 
-            // Enhance UTXOs with additional metadata
-            const currentBlockHeight = await this.electrum.getCurrentBlockHeight();
-            const enhancedUTXOs: EnhancedUTXO[] = rawUTXOs.map((utxo) => ({
-                ...utxo,
-                confirmations: utxo.height ? Math.max(0, currentBlockHeight - utxo.height + 1) : 0,
-                isConfirmed: utxo.height ? currentBlockHeight - utxo.height + 1 >= 1 : false,
-                ageInBlocks: utxo.height ? currentBlockHeight - utxo.height + 1 : 0,
-                address: fromAddress,
-            }));
+        const activeWallet = await StorageService.getActiveWallet();
+        if (!activeWallet) {
+            throw new Error('No active wallet found');
+        }
+
+        const fromAddress = options?.fromAddress || activeWallet.address;
 
-            // Calculate total available amount
-            const totalAvailable = enhancedUTXOs.reduce((sum, utxo) => sum + utxo.value, 0);
+        // Fee rate in sat/byte - use the network estimate unless the caller picked one
+        const feeRate = options?.feeRate || (await this.feeEstimator.getFeeRate('normal'));
 
-            // Define transaction fee and options
-            const feeRate = options?.feeRate || 10000; // 0.0001 AVN = 10000 satoshis
-            const totalRequired = amount + feeRate;
+        let selectedUTXOs = options?.manualUTXOs;
+        if (selectedUTXOs && selectedUTXOs.length > 0) {
+            // Validate that the manual selection covers the payment
+            const totalAvailable = selectedUTXOs.reduce((sum, utxo) => sum + utxo.value, 0);
+            const totalRequired = options?.subtractFeeFromAmount
+                ? amount
+                : amount +
+                  FeeEstimationService.calculateFee(
+                      selectedUTXOs.length,
+                      recipients.length + 1,
+                      feeRate,
+                  );
 
             if (totalAvailable < totalRequired) {
                 throw new Error(
-                    `Insufficient funds. Required: ${totalRequired} satoshis, Available: ${totalAvailable} satoshis`,
+                    `Insufficient funds. Available: ${totalAvailable}, Required: ${totalRequired}`,
                 );
             }
+        } else {
+            selectedUTXOs = await this.selectPaymentUTXOs(fromAddress, amount, feeRate, {
+                ...options,
+                recipientCount: recipients.length,
+            });
+        }
 
-            // Select optimal UTXOs using the selection service
-            const strategyRecommendation = UTXOSelectionService.getRecommendedStrategy(
-                amount,
-                enhancedUTXOs,
-                {
-                    consolidateDust: options?.strategy === CoinSelectionStrategy.CONSOLIDATE_DUST,
-                },
-            );
+        // Determine change address - use custom address if provided, otherwise sender's address
+        const changeAddress =
+            options?.changeAddress && options.changeAddress.trim() !== ''
+                ? options.changeAddress
+                : fromAddress;
+
+        // Calculate final amounts with the fee sized from the transaction being built
+        const { amounts, change, fee, size } = this.calculatePaymentOutputs(
+            selectedUTXOs,
+            recipients,
+            changeAddress,
+            feeRate,
+            options?.subtractFeeFromAmount,
+        );
 
-            // Get wallet's own address for dust consolidation
-            let selfAddress;
-            if (
-                strategyRecommendation.recommendSelfAddress ||
-                options?.strategy === CoinSelectionStrategy.CONSOLIDATE_DUST
-            ) {
-                const wallet = await StorageService.getActiveWallet();
-                if (wallet) {
-                    selfAddress = wallet.address;
-                }
-            }
-
-            const selectionOptions: UTXOSelectionOptions = {
-                strategy: options?.strategy || strategyRecommendation.strategy,
-                targetAmount: amount,
-                feeRate: feeRate,
-                maxInputs: options?.maxInputs || 20,
-                minConfirmations: options?.minConfirmations || 0,
-                allowUnconfirmed: true,
-                includeDust: options?.strategy === CoinSelectionStrategy.CONSOLIDATE_DUST,
-                isAutoConsolidation: options?.strategy === CoinSelectionStrategy.CONSOLIDATE_DUST,
-                selfAddress: selfAddress,
-            };
+        const tx = new bitcoin.Transaction();
+        tx.version = 2;
 
-            const selectionResult = UTXOSelectionService.selectUTXOs(enhancedUTXOs, selectionOptions);
+        // Include each previous transaction so the signer can check input values offline
+        const inputs: UnsignedTransactionInput[] = [];
+        for (const utxo of selectedUTXOs) {
+            tx.addInput(Buffer.from(utxo.txid, 'hex').reverse(), utxo.vout, RBF_SEQUENCE);
 
-            if (!selectionResult) {
-                throw new Error('Unable to select suitable UTXOs for transaction');
+            const prevTxHex = await this.electrum.getTransaction(utxo.txid, false);
+            const prevOut = bitcoin.Transaction.fromHex(prevTxHex).outs[utxo.vout];
+            if (!prevOut) {
+                throw new Error(`Output ${utxo.txid}:${utxo.vout} not found`);
             }
 
-            const { selectedUTXOs, change } = selectionResult;
+            const address = utxo.address || fromAddress;
+            inputs.push({
+                txid: utxo.txid,
+                vout: utxo.vout,
+                value: prevOut.value,
+                address,
+                scriptPubKey: Buffer.from(prevOut.script).toString('hex'),
+                prevTxHex,
+                ...(utxo.derivationPath && { derivationPath: utxo.derivationPath }),
+                ...(options?.derivationPath &&
+                    address === fromAddress && { derivationPath: options.derivationPath }),
+            });
+        }
 
-            // Calculate final amounts based on subtractFeeFromAmount option
-            let finalSendAmount = amount;
-            let finalChange = change;
+        const outputs: UnsignedTransactionOutput[] = recipients.map((recipient, i) => ({
+            address: recipient.address,
+            value: amounts[i],
+            isChange: false,
+        }));
+        if (change > 0) {
+            outputs.push({ address: changeAddress, value: change, isChange: true });
+        }
+        for (const output of outputs) {
+            tx.addOutput(
+                bitcoin.address.toOutputScript(output.address, avianNetwork),
+                output.value,
+            );
+        }
 
-            if (options?.subtractFeeFromAmount) {
-                // Subtract the estimated fee from the send amount
-                const estimatedFee = (feeRate * 250) / 1000; // Rough estimate based on typical transaction size
-                finalSendAmount = Math.max(0, amount - estimatedFee);
-                // Recalculate change with the reduced send amount
-                const totalInput = selectedUTXOs.reduce((sum, utxo) => sum + utxo.value, 0);
-                finalChange = totalInput - finalSendAmount - estimatedFee;
-            }
+        return {
+            format: 'avian-unsigned-tx',
+            version: 1,
+            txHex: tx.toHex(),
+            fromAddress,
+            inputs,
+            outputs,
+            fee,
+            feeRate,
+            size,
+            createdAt: Date.now(),
+        };
+    }
 
-            // Determine change address - use custom address if provided, otherwise sender's address
-            const changeAddress =
-                options?.changeAddress && options.changeAddress.trim() !== ''
-                    ? options.changeAddress
-                    : fromAddress;
+    /**
+     * Check an imported unsigned transaction before anyone approves it: inputs must match
+     * their previous transactions, and the listed outputs and fee must be what txHex pays.
+     * Outputs only count as change when they go to one of this wallet's addresses.
+     * Needs no network access.
+     */
+    async verifyUnsignedTransaction(unsigned: UnsignedTransaction): Promise<UnsignedTransaction> {
+        if (unsigned.format !== 'avian-unsigned-tx') {
+            throw new Error('Not an unsigned Avian transaction');
+        }
 
-            // Build transaction using PSBT
-            const psbt = new bitcoin.Psbt({ network: avianNetwork });
+        const tx = bitcoin.Transaction.fromHex(unsigned.txHex);
+        if (
+            tx.ins.length !== unsigned.inputs.length ||
+            tx.outs.length !== unsigned.outputs.length
+        ) {
+            throw new Error('Transaction details do not match the transaction');
+        }
 
-            // Add inputs from selected UTXOs
-            for (const utxo of selectedUTXOs) {
-                const txHex = await this.electrum.getTransaction(utxo.txid, false);
-                psbt.addInput({
-                    hash: utxo.txid,
-                    index: utxo.vout,
-                    nonWitnessUtxo: Buffer.from(txHex, 'hex'),
-                });
+        let inputTotal = 0;
+        unsigned.inputs.forEach((input, index) => {
+            const prevTx = bitcoin.Transaction.fromHex(input.prevTxHex);
+            const prevOut = prevTx.outs[input.vout];
+            if (
+                prevTx.getId() !== input.txid ||
+                Buffer.from(tx.ins[index].hash).reverse().toString('hex') !== input.txid ||
+                tx.ins[index].index !== input.vout ||
+                !prevOut ||
+                prevOut.value !== input.value ||
+                this.getOutputAddress(prevOut.script) !== input.address
+            ) {
+                throw new Error(`Input ${index} does not match its previous transaction`);
             }
+            inputTotal += input.value;
+        });
 
-            // Add output for recipient
-            psbt.addOutput({
-                address: toAddress,
-                value: finalSendAmount,
-            });
+        const ownAddresses = new Set(
+            (await this.getHDWalletAddresses()).map((entry) => entry.address),
+        );
+        ownAddresses.add(unsigned.fromAddress);
 
-            // Add change output if needed
-            if (finalChange > 0) {
-                psbt.addOutput({
-                    address: changeAddress,
-                    value: finalChange,
-                });
+        let outputTotal = 0;
+        const outputs: UnsignedTransactionOutput[] = [];
+        for (let index = 0; index < tx.outs.length; index++) {
+            const output = unsigned.outputs[index];
+            const address = this.getOutputAddress(tx.outs[index].script);
+            if (address !== output.address || tx.outs[index].value !== output.value) {
+                throw new Error(`Output ${index} does not match the transaction`);
             }
+            outputs.push({
+                address,
+                value: output.value,
+                isChange:
+                    output.isChange &&
+                    (ownAddresses.has(address) || (await this.isOurAddress(address))),
+            });
+            outputTotal += output.value;
+        }
 
-            // Create a compatible signer object with Avian fork ID support
-            // Avian uses SIGHASH_FORKID (0x40) to prevent replay attacks from other Bitcoin forks
-            const SIGHASH_ALL = 0x01;
-            const SIGHASH_FORKID = 0x40;
-            const hashType = SIGHASH_ALL | SIGHASH_FORKID; // 0x41 - required for Avian transactions
-
-            const signer = {
-                publicKey: Buffer.from(keyPair.publicKey),
-                sign: (hash: Buffer) => Buffer.from(keyPair.sign(hash)),
-            };
-
-            try {
-                // First, try the standard approach with sighash type array
-                for (let i = 0; i < selectedUTXOs.length; i++) {
-                    // Pass the hashType in the sighashTypes array to whitelist it
-                    psbt.signInput(i, signer, [hashType]);
-                }
-            } catch (psbtError) {
-                // Create transaction for signing
-                const tx = new bitcoin.Transaction();
-                tx.version = 2;
-                tx.locktime = 0;
-
-                // Add all inputs
-                for (const u of selectedUTXOs) {
-                    tx.addInput(Buffer.from(u.txid, 'hex').reverse(), u.vout);
-                }
+        if (outputTotal > inputTotal) {
+            throw new Error('Transaction spends more than its inputs');
+        }
+        if (inputTotal - outputTotal !== unsigned.fee) {
+            throw new Error('Transaction fee does not match the transaction');
+        }
 
-                // Add all outputs
-                tx.addOutput(bitcoin.address.toOutputScript(toAddress, avianNetwork), finalSendAmount);
-                if (finalChange > 0) {
-                    tx.addOutput(bitcoin.address.toOutputScript(changeAddress, avianNetwork), finalChange);
-                }
+        return { ...unsigned, outputs };
+    }
 
-                // Sign each input manually with fork ID
-                for (let i = 0; i < selectedUTXOs.length; i++) {
-                    const utxo = selectedUTXOs[i];
-                    const prevTxHex = await this.electrum.getTransaction(utxo.txid, false);
-                    const prevTx = bitcoin.Transaction.fromHex(prevTxHex);
+    /**
+     * Sign a transaction built by buildUnsignedTransaction. Needs no network access, so it
+     * can run on an air-gapped device that holds the keys.
+     */
+    async signTransaction(
+        unsigned: UnsignedTransaction,
+        password?: string,
+    ): Promise<SignedTransaction> {
+        if (unsigned.format !== 'avian-unsigned-tx') {
+            throw new Error('Not an unsigned Avian transaction');
+        }
 
-                    // Get the previous output script (scriptPubKey)
-                    const prevOutScript = prevTx.outs[utxo.vout].script;
+        await this.verifyUnsignedTransaction(unsigned);
+        const tx = bitcoin.Transaction.fromHex(unsigned.txHex);
 
-                    // Create the signature hash with fork ID
-                    const signatureHash = tx.hashForSignature(i, prevOutScript, hashType);
+        const resolveSigningKey = await this.createSigningKeyResolver(password);
 
-                    // Sign the hash
-                    const signature = keyPair.sign(signatureHash);
-                    const derSignature = this.encodeDERWithCustomHashType(Buffer.from(signature), hashType);
+        let inputTotal = 0;
+        for (let i = 0; i < tx.ins.length; i++) {
+            const input = unsigned.inputs[i];
 
-                    // Build script sig (P2PKH: <signature> <publicKey>)
-                    const scriptSig = bitcoin.script.compile([derSignature, Buffer.from(keyPair.publicKey)]);
+            // Legacy signatures don't commit to input values, so check them against the
+            // previous transaction instead of trusting the metadata
+            const prevTx = bitcoin.Transaction.fromHex(input.prevTxHex);
+            const spentTxid = Buffer.from(tx.ins[i].hash).reverse().toString('hex');
+            if (prevTx.getId() !== spentTxid || tx.ins[i].index !== input.vout) {
+                throw new Error(`Input ${i} does not match its previous transaction`);
+            }
 
-                    tx.ins[i].script = scriptSig;
-                }
+            const prevOut = prevTx.outs[input.vout];
+            const address = prevOut && this.getOutputAddress(prevOut.script);
+            if (!address) {
+                throw new Error(`Input ${i} does not spend a standard address output`);
+            }
 
-                // Return the manually built transaction
-                const txHex = tx.toHex();
-                const txId = tx.getId();
+            const keyPair = await resolveSigningKey(address, input.derivationPath);
+            if (!keyPair) {
+                throw new Error(`No signing key found for input ${i} (${address})`);
+            }
 
-                // Validate the transaction structure
-                try {
-                    const validateTx = bitcoin.Transaction.fromHex(txHex);
+            this.signP2PKHInput(tx, i, prevOut.script, keyPair);
+            inputTotal += prevOut.value;
+        }
 
-                    // Check each input has a valid script
-                    for (let i = 0; i < validateTx.ins.length; i++) {
-                        const script = validateTx.ins[i].script;
-                        if (script.length === 0) {
-                            throw new Error(`Input ${i} has empty script`);
-                        }
-                    }
-                } catch (validationError) {
-                    walletLogger.error('Transaction validation failed:', validationError);
-                    throw new Error(`Invalid transaction created: ${validationError}`);
-                }
+        const outputTotal = tx.outs.reduce((sum, output) => sum + output.value, 0);
+        if (outputTotal > inputTotal) {
+            throw new Error('Transaction spends more than its inputs');
+        }
 
-                // Broadcast the transaction
-                const broadcastResult = await this.electrum.broadcastTransaction(txHex);
+        // Describe outputs from the transaction itself; only our own addresses count as change
+        const outputs: UnsignedTransactionOutput[] = [];
+        for (let i = 0; i < tx.outs.length; i++) {
+            const address = this.getOutputAddress(tx.outs[i].script) || '';
+            const isChange =
+                !!unsigned.outputs[i]?.isChange &&
+                !!address &&
+                !!(await resolveSigningKey(address));
+            outputs.push({ address, value: tx.outs[i].value, isChange });
+        }
 
-                // Validate broadcast was successful before saving transaction
-                if (!broadcastResult || typeof broadcastResult !== 'string') {
-                    throw new Error('Transaction broadcast failed. Please try again later.');
-                }
+        return {
+            format: 'avian-signed-tx',
+            version: 1,
+            txid: tx.getId(),
+            txHex: tx.toHex(),
+            fromAddress: unsigned.fromAddress,
+            outputs,
+            fee: inputTotal - outputTotal,
+            signedAt: Date.now(),
+        };
+    }
 
-                // Save transaction to local history
-                await StorageService.saveTransaction({
-                    txid: txId,
-                    amount: amount / 100000000, // Convert satoshis to AVN
-                    address: toAddress,
-                    fromAddress: fromAddress,
-                    walletAddress: fromAddress,
-                    type: 'send',
-                    timestamp: new Date(),
-                    confirmations: 0,
-                });
+    /**
+     * Broadcast a signed transaction and record it in the local history
+     */
+    async broadcastTransaction(signed: SignedTransaction): Promise<string> {
+        const tx = bitcoin.Transaction.fromHex(signed.txHex);
 
-                return txId;
+        // Validate the transaction structure
+        for (let i = 0; i < tx.ins.length; i++) {
+            if (!tx.ins[i].script || tx.ins[i].script.length === 0) {
+                throw new Error(`Input ${i} is not signed`);
             }
+        }
 
-            // If PSBT signing succeeded, finalize and extract the transaction
-            psbt.finalizeAllInputs();
-
-            // Extract the raw transaction hex
-            const tx = psbt.extractTransaction();
-            const txHex = tx.toHex();
-            const txId = tx.getId();
+        // Broadcast the transaction
+        const broadcastResult = await this.electrum.broadcastTransaction(signed.txHex);
 
-            // Broadcast the transaction
-            const broadcastResult = await this.electrum.broadcastTransaction(txHex);
+        // Validate broadcast was successful before saving transaction
+        if (!broadcastResult || typeof broadcastResult !== 'string') {
+            throw new Error('Transaction broadcast failed. Please try again later.');
+        }
 
-            // Validate broadcast was successful before saving transaction
-            if (!broadcastResult || typeof broadcastResult !== 'string') {
-                throw new Error('Transaction broadcast failed. Please try again later.');
-            }
+        const txId = tx.getId();
 
-            // Save transaction to local history
+        // Save transaction to local history (raw hex imports carry no payment details).
+        // Like history sync, a batch is recorded as its total under the largest recipient.
+        const payments = signed.outputs.filter((output) => !output.isChange);
+        const recipient = payments.reduce<UnsignedTransactionOutput | undefined>(
+            (largest, output) => (!largest || output.value > largest.value ? output : largest),
+            undefined,
+        );
+        if (signed.fromAddress && recipient) {
+            const total = payments.reduce((sum, output) => sum + output.value, 0);
+            const changeOutput = signed.outputs.findIndex((output) => output.isChange);
             await StorageService.saveTransaction({
                 txid: txId,
-                amount: amount / 100000000, // Convert satoshis to AVN
-                address: toAddress,
-                fromAddress: fromAddress,
-                walletAddress: fromAddress, // Add wallet address for proper multi-wallet support
+                amount: total / 100000000, // Convert satoshis to AVN
+                address: recipient.address,
+                fromAddress: signed.fromAddress,
+                walletAddress: signed.fromAddress,
                 type: 'send',
                 timestamp: new Date(),
                 confirmations: 0,
+                fee: signed.fee / 100000000,
+                ...(changeOutput !== -1 && { changeOutput }),
             });
+        }
 
-            return txId;
-        } catch (error) {
-            walletLogger.error('Error sending transaction:', error);
+        return txId;
+    }
+
+    async sendTransaction(
+        toAddress: string,
+        amount: number,
+        password?: string,
+        options?: {
+            strategy?: CoinSelectionStrategy;
+            feeRate?: number;
+            maxInputs?: number;
+            minConfirmations?: number;
+            changeAddress?: string; // Custom change address for HD wallets
+            subtractFeeFromAmount?: boolean; // Whether to subtract fee from the send amount
+        },
+    ): Promise<string> {
+        try {
+            const unsigned = await this.buildUnsignedTransaction(toAddress, amount, options);
+            const signed = await this.signTransaction(unsigned, password);
+            return await this.broadcastTransaction(signed);
+        } catch (error) {
+            walletLogger.error('Error sending transaction:', error);
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
             throw new Error(`Transaction failed: ${errorMessage}`);
         }
@@ -832,190 +1309,665 @@ export class WalletService {
         },
     ): Promise<string> {
         try {
-            // Get current wallet data
-            const activeWallet = await StorageService.getActiveWallet();
-            if (!activeWallet) {
-                throw new Error('No active wallet found');
-            }
-
             if (!manualUTXOs || manualUTXOs.length === 0) {
                 throw new Error('No UTXOs provided for manual selection');
             }
 
-            // Validate that we have sufficient funds
-            const totalAvailable = manualUTXOs.reduce((sum, utxo) => sum + utxo.value, 0);
-            const feeRate = options?.feeRate || 10000; // Default fee
-            const totalRequired = amount + feeRate;
+            const unsigned = await this.buildUnsignedTransaction(toAddress, amount, {
+                ...options,
+                manualUTXOs,
+            });
+            const signed = await this.signTransaction(unsigned, password);
+            return await this.broadcastTransaction(signed);
+        } catch (error) {
+            walletLogger.error('Error sending transaction with manual UTXOs:', error);
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            throw new Error(`Transaction failed: ${errorMessage}`);
+        }
+    }
 
-            if (totalAvailable < totalRequired) {
+    /**
+     * Pay several recipients in one transaction from the active wallet address
+     */
+    async sendBatchTransaction(
+        recipients: PaymentRecipient[],
+        password?: string,
+        options?: {
+            strategy?: CoinSelectionStrategy;
+            feeRate?: number;
+            maxInputs?: number;
+            minConfirmations?: number;
+            changeAddress?: string;
+        },
+    ): Promise<string> {
+        try {
+            const unsigned = await this.buildUnsignedBatchTransaction(recipients, options);
+            const signed = await this.signTransaction(unsigned, password);
+            return await this.broadcastTransaction(signed);
+        } catch (error) {
+            walletLogger.error('Error sending batch transaction:', error);
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            throw new Error(`Transaction failed: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Select UTXOs to cover a payment at the given fee rate. The active wallet's main address
+     * spends from every address of the wallet; any other address only from itself.
+     */
+    private async selectPaymentUTXOs(
+        fromAddress: string,
+        amount: number,
+        feeRate: number,
+        options?: {
+            strategy?: CoinSelectionStrategy;
+            maxInputs?: number;
+            minConfirmations?: number;
+            subtractFeeFromAmount?: boolean;
+            recipientCount?: number; // Payment outputs besides change, 1 unless batching
+        },
+    ): Promise<EnhancedUTXO[]> {
+        const activeWallet = await StorageService.getActiveWallet();
+        const rawUTXOs: EnhancedUTXO[] =
+            activeWallet && activeWallet.address === fromAddress
+                ? await this.getHDWalletUTXOs()
+                : (await this.electrum.getUTXOs(fromAddress)).map((utxo) => ({
+                      ...utxo,
+                      address: fromAddress,
+                  }));
+        if (rawUTXOs.length === 0) {
+            throw new Error('No unspent transaction outputs found');
+        }
+
+        // Enhance UTXOs with additional metadata
+        const currentBlockHeight = await this.electrum.getCurrentBlockHeight();
+        const enhancedUTXOs: EnhancedUTXO[] = (await LabelService.markFrozen(rawUTXOs)).map(
+            (utxo) => ({
+                ...utxo,
+                confirmations: utxo.height ? Math.max(0, currentBlockHeight - utxo.height + 1) : 0,
+                isConfirmed: utxo.height ? currentBlockHeight - utxo.height + 1 >= 1 : false,
+                ageInBlocks: utxo.height ? currentBlockHeight - utxo.height + 1 : 0,
+            }),
+        );
+
+        // Coin selection sizes fees for one recipient plus change, so the cost of any
+        // further recipient outputs is added to the amount it has to cover
+        const outputCount = (options?.recipientCount || 1) + 1;
+        const extraOutputFee = options?.subtractFeeFromAmount
+            ? 0
+            : FeeEstimationService.calculateFee(1, outputCount, feeRate) -
+              FeeEstimationService.calculateFee(1, 2, feeRate);
+        const targetAmount = amount + extraOutputFee;
+
+        // Calculate total available amount, leaving out frozen coins
+        const totalAvailable = enhancedUTXOs
+            .filter((utxo) => !utxo.isFrozen)
+            .reduce((sum, utxo) => sum + utxo.value, 0);
+        const totalFrozen = enhancedUTXOs
+            .filter((utxo) => utxo.isFrozen)
+            .reduce((sum, utxo) => sum + utxo.value, 0);
+        const totalRequired = options?.subtractFeeFromAmount
+            ? amount
+            : amount + FeeEstimationService.calculateFee(1, outputCount, feeRate);
+
+        if (totalAvailable < totalRequired) {
+            throw new Error(
+                `Insufficient funds. Required: ${totalRequired} satoshis, Available: ${totalAvailable} satoshis` +
+                    (totalFrozen > 0 ? ` (${totalFrozen} satoshis frozen)` : ''),
+            );
+        }
+
+        const isConsolidation = options?.strategy === CoinSelectionStrategy.CONSOLIDATE_DUST;
+        const strategyRecommendation = UTXOSelectionService.getRecommendedStrategy(
+            amount,
+            enhancedUTXOs,
+            { consolidateDust: isConsolidation },
+        );
+
+        const selectionResult = UTXOSelectionService.selectUTXOs(enhancedUTXOs, {
+            strategy: options?.strategy || strategyRecommendation.strategy,
+            targetAmount,
+            // When the fee comes out of the amount, the inputs only need to cover the amount
+            feeRate: options?.subtractFeeFromAmount ? 0 : feeRate,
+            maxInputs: options?.maxInputs || 20,
+            minConfirmations: options?.minConfirmations || 0,
+            allowUnconfirmed: true,
+            includeDust: isConsolidation,
+            isAutoConsolidation: isConsolidation,
+            // Dust consolidation sends back to the wallet's own address
+            selfAddress:
+                strategyRecommendation.recommendSelfAddress || isConsolidation
+                    ? fromAddress
+                    : undefined,
+        });
+
+        if (!selectionResult) {
+            throw new Error('Unable to select suitable UTXOs for transaction');
+        }
+
+        return selectionResult.selectedUTXOs;
+    }
+
+    /**
+     * Check a payment's recipients before any UTXOs are selected
+     */
+    private validateRecipients(
+        recipients: PaymentRecipient[],
+        subtractFeeFromAmount?: boolean,
+    ): void {
+        if (recipients.length === 0) {
+            throw new Error('No recipients given');
+        }
+        if (subtractFeeFromAmount && recipients.length > 1) {
+            throw new Error('The fee can only be subtracted from a single-recipient payment');
+        }
+
+        recipients.forEach((recipient, i) => {
+            try {
+                bitcoin.address.toOutputScript(recipient.address, avianNetwork);
+            } catch {
+                throw new Error(`Recipient ${i + 1} has an invalid address: ${recipient.address}`);
+            }
+            if (!Number.isInteger(recipient.amount) || recipient.amount <= CHANGE_DUST_LIMIT) {
                 throw new Error(
-                    `Insufficient funds. Available: ${totalAvailable}, Required: ${totalRequired}`,
+                    `Recipient ${i + 1} amount must be more than ${CHANGE_DUST_LIMIT} satoshis`,
                 );
             }
+        });
+    }
 
-            let privateKeyWIF = activeWallet.privateKey;
+    /**
+     * Work out the recipient and change values for a payment. The fee is calculated from the
+     * serialized size the transaction will have once signed, and change too small to be
+     * worth an output is left to the fee. A fee subtracted from the amount comes out of the
+     * first recipient's output.
+     */
+    private calculatePaymentOutputs(
+        utxos: EnhancedUTXO[],
+        recipients: PaymentRecipient[],
+        changeAddress: string,
+        feeRate: number,
+        subtractFeeFromAmount?: boolean,
+    ): { amounts: number[]; change: number; fee: number; size: number } {
+        const totalInput = utxos.reduce((sum, utxo) => sum + utxo.value, 0);
+        const amount = recipients.reduce((sum, recipient) => sum + recipient.amount, 0);
+        const recipientScripts = recipients.map((recipient) =>
+            bitcoin.address.toOutputScript(recipient.address, avianNetwork),
+        );
+        const changeScript = bitcoin.address.toOutputScript(changeAddress, avianNetwork);
 
-            // Decrypt private key if encrypted
-            if (activeWallet.isEncrypted) {
-                if (!password) {
-                    throw new Error('Password required for encrypted wallet');
-                }
-                try {
-                    privateKeyWIF = await secureDecrypt(activeWallet.privateKey, password);
-                } catch (error) {
-                    throw new Error('Invalid password');
-                }
+        const measureSize = (withChange: boolean): number => {
+            const tx = new bitcoin.Transaction();
+            tx.version = 2;
+            for (const utxo of utxos) {
+                tx.addInput(Buffer.from(utxo.txid, 'hex').reverse(), utxo.vout);
+            }
+            for (const script of recipientScripts) {
+                tx.addOutput(script, 0);
+            }
+            if (withChange) {
+                tx.addOutput(changeScript, 0);
             }
+            return FeeEstimationService.estimateSignedSize(tx);
+        };
 
-            // Check if we need HD wallet capabilities
-            const hasHdUtxos = manualUTXOs.some(
-                (utxo) => utxo.address && utxo.address !== activeWallet.address,
-            );
-            let hdRoot = null;
-            let mnemonic = null;
+        let size = measureSize(true);
+        let fee = FeeEstimationService.calculateFeeForSize(size, feeRate);
+        let sendAmount = subtractFeeFromAmount ? amount - fee : amount;
+        let change = totalInput - sendAmount - fee;
 
-            if (hasHdUtxos) {
-                // Get mnemonic for HD wallet operations
-                mnemonic = await StorageService.getMnemonic();
-                if (!mnemonic) {
-                    throw new Error(
-                        'HD wallet UTXOs detected but no mnemonic found. Cannot sign from derived addresses.',
-                    );
-                }
+        if (change < CHANGE_DUST_LIMIT) {
+            size = measureSize(false);
+            fee = FeeEstimationService.calculateFeeForSize(size, feeRate);
+            sendAmount = subtractFeeFromAmount ? amount - fee : amount;
+            change = 0;
 
-                // Decrypt mnemonic if needed
-                let decryptedMnemonic = mnemonic;
-                if (activeWallet.isEncrypted && password) {
-                    try {
-                        decryptedMnemonic = await secureDecrypt(mnemonic, password);
-                    } catch (error) {
-                        // If mnemonic decryption fails, try using it as-is (might not be encrypted)
-                        decryptedMnemonic = mnemonic;
-                    }
-                }
+            if (totalInput - sendAmount < fee) {
+                throw new Error(
+                    `Insufficient funds. Required: ${sendAmount + fee} satoshis, Available: ${totalInput} satoshis`,
+                );
+            }
+            // Any leftover below the dust limit goes to the miner
+            fee = totalInput - sendAmount;
+        }
 
-                // Create HD root from mnemonic
-                const seed = await bip39.mnemonicToSeed(decryptedMnemonic);
-                hdRoot = bip32.fromSeed(seed, avianNetwork);
-            }
-
-            // Helper function to get the correct key pair for an address
-            const getKeyPairForAddress = async (address: string): Promise<any> => {
-                if (address === activeWallet.address) {
-                    // Main wallet address - use main private key
-                    return ECPair.fromWIF(privateKeyWIF, avianNetwork);
-                } else if (hdRoot) {
-                    // HD address - derive the correct key
-                    // We need to find which derivation path this address corresponds to
-                    // Use the wallet's stored coin type for derivation
-                    const coinType = activeWallet.coinType || 921;
-                    // Check both receiving (0) and change (1) paths
-                    for (const changePath of [0, 1]) {
-                        for (let addressIndex = 0; addressIndex < 50; addressIndex++) {
-                            // Check up to 50 addresses
-                            const path = `m/44'/${coinType}'/0'/${changePath}/${addressIndex}`;
-                            const child = hdRoot.derivePath(path);
-                            const { address: derivedAddress } = bitcoin.payments.p2pkh({
-                                pubkey: Buffer.from(child.publicKey),
-                                network: avianNetwork,
-                            });
+        if (sendAmount <= CHANGE_DUST_LIMIT) {
+            throw new Error(`Amount is too small to cover the transaction fee of ${fee} satoshis`);
+        }
 
-                            if (derivedAddress === address) {
-                                // Found the matching derivation path
-                                return ECPair.fromPrivateKey(Buffer.from(child.privateKey!), {
-                                    network: avianNetwork,
-                                });
-                            }
-                        }
-                    }
-                    throw new Error(`Could not find derivation path for HD address: ${address}`);
-                } else {
-                    throw new Error(`Cannot sign UTXO from address ${address} - HD wallet not available`);
-                }
-            };
+        // Only the first amount changes when the fee comes out of it
+        const amounts = recipients.map((recipient) => recipient.amount);
+        amounts[0] -= amount - sendAmount;
 
-            // Manual transaction building (skip PSBT since it has sighash issues)
-            const tx = new bitcoin.Transaction();
-            tx.version = 2;
+        return { amounts, change, fee, size };
+    }
 
-            // Add inputs
-            for (const utxo of manualUTXOs) {
-                tx.addInput(Buffer.from(utxo.txid, 'hex').reverse(), utxo.vout);
+    /**
+     * Replace an unconfirmed outgoing transaction with a copy paying a higher fee (BIP125).
+     * The extra fee comes out of the change output recorded when the wallet built the
+     * transaction; the original record is marked as replaced.
+     */
+    async bumpTransactionFee(txid: string, feeRate: number, password?: string): Promise<string> {
+        try {
+            const activeWallet = await StorageService.getActiveWallet();
+            if (!activeWallet) {
+                throw new Error('No active wallet found');
+            }
+
+            const txDetails = await this.electrum.getTransaction(txid, true);
+            if (txDetails?.confirmations > 0) {
+                throw new Error('Transaction is already confirmed');
             }
 
-            // Calculate actual amount and change
-            const actualAmount = options?.subtractFeeFromAmount ? amount - feeRate : amount;
-            const totalInput = manualUTXOs.reduce((sum, utxo) => sum + utxo.value, 0);
-            const change = totalInput - actualAmount - feeRate;
+            const original = bitcoin.Transaction.fromHex(
+                txDetails?.hex || (await this.electrum.getTransaction(txid, false)),
+            );
+            if (!original.ins.some((input) => input.sequence < 0xfffffffe)) {
+                throw new Error('Transaction does not signal replace-by-fee');
+            }
+
+            // Every input must be ours so the replacement can be re-signed
+            const resolveSigningKey = await this.createSigningKeyResolver(password);
+            const prevOutputs = await this.getPreviousOutputs(original);
+            const keyPairs: ECPairInterface[] = [];
+            for (const prevOutput of prevOutputs) {
+                const keyPair = prevOutput.address
+                    ? await resolveSigningKey(prevOutput.address)
+                    : null;
+                if (!keyPair) {
+                    throw new Error('Transaction spends inputs this wallet cannot sign');
+                }
+                keyPairs.push(keyPair);
+            }
 
-            // Add outputs
-            tx.addOutput(bitcoin.address.toOutputScript(toAddress, avianNetwork), actualAmount);
+            const inputTotal = prevOutputs.reduce((sum, prevOutput) => sum + prevOutput.value, 0);
+            const outputTotal = original.outs.reduce((sum, output) => sum + output.value, 0);
+            const originalFee = inputTotal - outputTotal;
 
-            if (change > 0) {
-                const changeAddress = options?.changeAddress || activeWallet.address;
-                tx.addOutput(bitcoin.address.toOutputScript(changeAddress, avianNetwork), change);
+            // Recipients can be our own addresses too, so only the recorded change output pays
+            const originalRecord = await StorageService.getTransaction(txid, 'send');
+            const changeIndex = originalRecord?.changeOutput ?? -1;
+            const changeOutput = original.outs[changeIndex];
+            const changeAddress = changeOutput && this.getOutputAddress(changeOutput.script);
+            if (!changeAddress || !(await resolveSigningKey(changeAddress))) {
+                throw new Error('Transaction has no change output to pay a higher fee from');
             }
+            const changeValue = changeOutput.value;
 
-            // Sign inputs with the correct private keys
-            const SIGHASH_ALL = 0x01;
-            const SIGHASH_FORKID = 0x40;
-            const hashType = SIGHASH_ALL | SIGHASH_FORKID;
+            const buildReplacement = (change: number): bitcoin.Transaction => {
+                const tx = new bitcoin.Transaction();
+                tx.version = original.version;
+                tx.locktime = original.locktime;
+                for (const input of original.ins) {
+                    tx.addInput(input.hash, input.index, RBF_SEQUENCE);
+                }
+                original.outs.forEach((output, index) => {
+                    if (index !== changeIndex) {
+                        tx.addOutput(output.script, output.value);
+                    } else if (change > 0) {
+                        tx.addOutput(output.script, change);
+                    }
+                });
+                return tx;
+            };
 
-            for (let i = 0; i < manualUTXOs.length; i++) {
-                const utxo = manualUTXOs[i];
+            // The replacement must pay the new rate plus the relay fee on top of the old fee
+            const { minimum } = await this.feeEstimator.getFeeEstimates();
+            const requiredFee = (size: number) =>
+                Math.max(
+                    FeeEstimationService.calculateFeeForSize(size, feeRate),
+                    originalFee + FeeEstimationService.calculateFeeForSize(size, minimum),
+                );
 
-                // Get the correct key pair for this UTXO's address
-                if (!utxo.address) {
-                    throw new Error('UTXO is missing address property');
+            let replacement = buildReplacement(changeValue);
+            let newFee = requiredFee(FeeEstimationService.estimateSignedSize(replacement));
+            let newChange = changeValue - (newFee - originalFee);
+
+            if (newChange < CHANGE_DUST_LIMIT) {
+                // Drop the change output and give all of it to the fee
+                replacement = buildReplacement(0);
+                newFee = originalFee + changeValue;
+                newChange = 0;
+                if (newFee < requiredFee(FeeEstimationService.estimateSignedSize(replacement))) {
+                    throw new Error('Change output is too small to cover the higher fee');
                 }
-                const keyPair = await getKeyPairForAddress(utxo.address);
+            } else {
+                replacement = buildReplacement(newChange);
+            }
+
+            prevOutputs.forEach((prevOutput, i) => {
+                this.signP2PKHInput(replacement, i, prevOutput.script, keyPairs[i]);
+            });
+
+            const newTxid = await this.electrum.broadcastTransaction(replacement.toHex());
+            if (!newTxid || typeof newTxid !== 'string') {
+                throw new Error('Transaction broadcast failed. Please try again later.');
+            }
+
+            // Carry the original record over to the replacement
+            const recipientOutput = original.outs.find((_, index) => index !== changeIndex);
+            await StorageService.saveTransaction({
+                txid: newTxid,
+                amount:
+                    originalRecord?.amount ??
+                    (recipientOutput ? recipientOutput.value / 100000000 : 0),
+                address:
+                    originalRecord?.address ||
+                    (recipientOutput && this.getOutputAddress(recipientOutput.script)) ||
+                    '',
+                fromAddress: originalRecord?.fromAddress || activeWallet.address,
+                walletAddress: originalRecord?.walletAddress || activeWallet.address,
+                type: 'send',
+                timestamp: new Date(),
+                confirmations: 0,
+                fee: newFee / 100000000,
+                ...(newChange > 0 && { changeOutput: changeIndex }),
+                replaces: txid,
+                memo: originalRecord?.memo,
+                category: originalRecord?.category,
+            });
+            await StorageService.linkTransactions(txid, { replacedBy: newTxid });
 
-                // Create P2PKH script for this input
-                const prevOutScript = bitcoin.address.toOutputScript(utxo.address, avianNetwork);
+            walletLogger.info(
+                `Replaced ${txid} with ${newTxid}, fee ${originalFee} -> ${newFee} satoshis`,
+            );
 
-                // Calculate signature hash
-                const signatureHash = tx.hashForSignature(i, prevOutScript, hashType);
+            return newTxid;
+        } catch (error) {
+            walletLogger.error('Error bumping transaction fee:', error);
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            throw new Error(`Fee bump failed: ${errorMessage}`);
+        }
+    }
 
-                // Sign the hash
-                const signature = keyPair.sign(signatureHash);
-                const derSignature = this.encodeDERWithCustomHashType(Buffer.from(signature), hashType);
+    /**
+     * Speed up an unconfirmed transaction by spending one of our outputs from it
+     * (child-pays-for-parent).
+     * The child pays enough for the parent and child together to reach the requested fee rate.
+     */
+    async accelerateWithCPFP(txid: string, feeRate: number, password?: string): Promise<string> {
+        try {
+            const activeWallet = await StorageService.getActiveWallet();
+            if (!activeWallet) {
+                throw new Error('No active wallet found');
+            }
 
-                // Build script sig (P2PKH: <signature> <publicKey>)
-                const scriptSig = bitcoin.script.compile([derSignature, Buffer.from(keyPair.publicKey)]);
+            const txDetails = await this.electrum.getTransaction(txid, true);
+            if (txDetails?.confirmations > 0) {
+                throw new Error('Transaction is already confirmed');
+            }
 
-                tx.ins[i].script = scriptSig;
+            const parent = bitcoin.Transaction.fromHex(
+                txDetails?.hex || (await this.electrum.getTransaction(txid, false)),
+            );
+            const prevOutputs = await this.getPreviousOutputs(parent);
+            const parentFee =
+                prevOutputs.reduce((sum, prevOutput) => sum + prevOutput.value, 0) -
+                parent.outs.reduce((sum, output) => sum + output.value, 0);
+
+            // Find the largest output we can still spend, leaving frozen coins alone
+            const resolveSigningKey = await this.createSigningKeyResolver(password);
+            const frozen = await LabelService.getFrozenOutpoints();
+            let spendable: { vout: number; address: string; keyPair: ECPairInterface } | null =
+                null;
+            for (let vout = 0; vout < parent.outs.length; vout++) {
+                const address = this.getOutputAddress(parent.outs[vout].script);
+                if (
+                    !address ||
+                    frozen.has(LabelService.outputRef(txid, vout)) ||
+                    (spendable && parent.outs[spendable.vout].value >= parent.outs[vout].value)
+                ) {
+                    continue;
+                }
+                const keyPair = await resolveSigningKey(address);
+                if (!keyPair) {
+                    continue;
+                }
+                const utxos = await this.electrum.getUTXOs(address);
+                if (utxos.some((utxo) => utxo.txid === txid && utxo.vout === vout)) {
+                    spendable = { vout, address, keyPair };
+                }
+            }
+            if (!spendable) {
+                throw new Error(
+                    'Transaction has no unfrozen, unspent output belonging to this wallet',
+                );
             }
 
-            // Extract transaction
-            const txHex = tx.toHex();
-            const txId = tx.getId();
+            const output = parent.outs[spendable.vout];
+            const buildChild = (value: number): bitcoin.Transaction => {
+                const tx = new bitcoin.Transaction();
+                tx.version = 2;
+                tx.addInput(Buffer.from(txid, 'hex').reverse(), spendable!.vout, RBF_SEQUENCE);
+                tx.addOutput(output.script, value);
+                return tx;
+            };
+
+            const childSize = FeeEstimationService.estimateSignedSize(buildChild(0));
+            const packageFee = FeeEstimationService.calculateFeeForSize(
+                parent.byteLength() + childSize,
+                feeRate,
+            );
+            const childFee = Math.max(
+                packageFee - parentFee,
+                FeeEstimationService.calculateFeeForSize(childSize, feeRate),
+            );
+            const childValue = output.value - childFee;
+            if (childValue < CHANGE_DUST_LIMIT) {
+                throw new Error(
+                    `Output of ${output.value} satoshis is too small to pay a fee of ${childFee} satoshis`,
+                );
+            }
 
-            // Broadcast the transaction
-            const broadcastResult = await this.electrum.broadcastTransaction(txHex);
+            const child = buildChild(childValue);
+            this.signP2PKHInput(child, 0, output.script, spendable.keyPair);
 
-            if (!broadcastResult || typeof broadcastResult !== 'string') {
+            const childTxid = await this.electrum.broadcastTransaction(child.toHex());
+            if (!childTxid || typeof childTxid !== 'string') {
                 throw new Error('Transaction broadcast failed. Please try again later.');
             }
 
-            // Save transaction to local history
+            // The child pays the output back to the same address, so only its fee leaves the wallet
             await StorageService.saveTransaction({
-                txid: txId,
-                amount: actualAmount / 100000000, // Convert satoshis to AVN
-                address: toAddress,
-                fromAddress: activeWallet.address,
-                walletAddress: activeWallet.address,
+                txid: childTxid,
+                amount: 0,
+                address: spendable.address,
+                fromAddress: spendable.address,
+                walletAddress: spendable.address,
                 type: 'send',
                 timestamp: new Date(),
                 confirmations: 0,
+                fee: childFee / 100000000,
+                changeOutput: 0,
             });
+            await StorageService.linkTransactions(txid, { acceleratedBy: childTxid });
+
+            walletLogger.info(
+                `Accelerated ${txid} with child ${childTxid} paying ${childFee} satoshis`,
+            );
 
-            return txId;
+            return childTxid;
         } catch (error) {
-            walletLogger.error('Error sending transaction with manual UTXOs:', error);
+            walletLogger.error('Error accelerating transaction with CPFP:', error);
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            throw new Error(`Transaction failed: ${errorMessage}`);
+            throw new Error(`Acceleration failed: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Build a lookup that returns the key pair for the main wallet address or any HD address
+     * derived from the wallet mnemonic. Returns null for addresses the wallet cannot sign for.
+     */
+    private async createSigningKeyResolver(
+        password?: string,
+    ): Promise<(address: string, derivationPath?: string) => Promise<ECPairInterface | null>> {
+        const activeWallet = await StorageService.getActiveWallet();
+        if (!activeWallet) {
+            throw new Error('No active wallet found');
+        }
+        if (activeWallet.isWatchOnly) {
+            throw new Error(
+                'Watch-only wallets cannot sign. Export the transaction for offline signing.',
+            );
+        }
+        if (activeWallet.isEncrypted && !password) {
+            throw new Error('Password required for encrypted wallet');
+        }
+
+        const decryptIfNeeded = async (value: string): Promise<string> => {
+            if (!activeWallet.isEncrypted) {
+                return value;
+            }
+            try {
+                const { decrypted } = await decryptData(value, password!);
+                return decrypted;
+            } catch (error) {
+                throw new Error('Invalid password');
+            }
+        };
+
+        const privateKeyWIF = await decryptIfNeeded(activeWallet.privateKey);
+        const coinType = activeWallet.coinType || 921;
+        let hdRoot: ReturnType<typeof bip32.fromSeed> | null | undefined;
+        let discovery: AddressDiscoveryState | null | undefined;
+
+        return async (
+            address: string,
+            derivationPath?: string,
+        ): Promise<ECPairInterface | null> => {
+            if (address === activeWallet.address) {
+                return ECPair.fromWIF(privateKeyWIF, avianNetwork);
+            }
+
+            // Only derive the HD root once it is actually needed
+            if (hdRoot === undefined) {
+                hdRoot = null;
+                const storedMnemonic = await StorageService.getMnemonic();
+                if (storedMnemonic) {
+                    const mnemonic = await decryptIfNeeded(storedMnemonic);
+                    const passphrase = activeWallet.bip39Passphrase
+                        ? await decryptIfNeeded(activeWallet.bip39Passphrase)
+                        : undefined;
+                    const seed = await bip39.mnemonicToSeed(mnemonic, passphrase);
+                    hdRoot = bip32.fromSeed(seed, avianNetwork);
+                }
+            }
+            if (!hdRoot) {
+                return null;
+            }
+
+            const keyPairFor = (path: string): ECPairInterface | null => {
+                const child = hdRoot!.derivePath(path);
+                const { address: derivedAddress } = bitcoin.payments.p2pkh({
+                    pubkey: Buffer.from(child.publicKey),
+                    network: avianNetwork,
+                });
+                return derivedAddress === address
+                    ? ECPair.fromPrivateKey(Buffer.from(child.privateKey!), {
+                          network: avianNetwork,
+                      })
+                    : null;
+            };
+
+            // Use the recorded path when there is one, otherwise search the first addresses
+            if (derivationPath) {
+                const keyPair = keyPairFor(derivationPath);
+                if (keyPair) {
+                    return keyPair;
+                }
+            }
+
+            // Then the path found by address discovery
+            if (discovery === undefined) {
+                discovery = await StorageService.getAddressDiscoveryState(activeWallet.address);
+            }
+            const discovered = discovery && AddressDiscoveryService.findAddress(discovery, address);
+            if (discovered) {
+                const keyPair = keyPairFor(discovered.path);
+                if (keyPair) {
+                    return keyPair;
+                }
+            }
+
+            // Finally search each discovered chain up to one gap limit past its highest used index
+            const gapLimit = discovery?.gapLimit || AddressDiscoveryService.DEFAULT_GAP_LIMIT;
+            const accounts = discovery?.accounts.length
+                ? discovery.accounts
+                : [{ account: 0, highestReceiveIndex: -1, highestChangeIndex: -1 }];
+            for (const account of accounts) {
+                const chains: Array<[number, number]> = [
+                    [0, account.highestReceiveIndex],
+                    [1, account.highestChangeIndex],
+                ];
+                for (const [chain, highestUsedIndex] of chains) {
+                    for (let index = 0; index <= highestUsedIndex + gapLimit; index++) {
+                        const path = AddressDiscoveryService.getPath(
+                            coinType,
+                            account.account,
+                            chain as AddressChain,
+                            index,
+                        );
+                        const keyPair = keyPairFor(path);
+                        if (keyPair) {
+                            return keyPair;
+                        }
+                    }
+                }
+            }
+            return null;
+        };
+    }
+
+    /**
+     * Look up the outputs spent by each input of a transaction
+     */
+    private async getPreviousOutputs(
+        tx: bitcoin.Transaction,
+    ): Promise<Array<{ value: number; script: Buffer; address: string | null }>> {
+        const prevOutputs = [];
+        for (const input of tx.ins) {
+            const prevTxid = Buffer.from(input.hash).reverse().toString('hex');
+            const prevTxHex = await this.electrum.getTransaction(prevTxid, false);
+            const prevOut = bitcoin.Transaction.fromHex(prevTxHex).outs[input.index];
+            prevOutputs.push({
+                value: prevOut.value,
+                script: prevOut.script,
+                address: this.getOutputAddress(prevOut.script),
+            });
+        }
+        return prevOutputs;
+    }
+
+    private getOutputAddress(script: Buffer): string | null {
+        try {
+            return bitcoin.address.fromOutputScript(script, avianNetwork);
+        } catch (error) {
+            // Non-standard or data output
+            return null;
         }
     }
+
+    /**
+     * Sign a P2PKH input with SIGHASH_ALL | SIGHASH_FORKID as Avian requires
+     */
+    private signP2PKHInput(
+        tx: bitcoin.Transaction,
+        index: number,
+        prevOutScript: Buffer,
+        keyPair: ECPairInterface,
+    ): void {
+        const hashType = 0x01 | 0x40; // SIGHASH_ALL | SIGHASH_FORKID
+        const signatureHash = tx.hashForSignature(index, prevOutScript, hashType);
+        const derSignature = this.encodeDERWithCustomHashType(
+            Buffer.from(keyPair.sign(signatureHash)),
+            hashType,
+        );
+        tx.ins[index].script = bitcoin.script.compile([
+            derSignature,
+            Buffer.from(keyPair.publicKey),
+        ]);
+    }
+
     async encryptWallet(password: string): Promise<void> {
         try {
             const privateKey = await StorageService.getPrivateKey();
@@ -1089,6 +2041,141 @@ export class WalletService {
         }
     }
 
+    /**
+     * Whether a wallet holds secrets under a password, i.e. is changed by changePassword
+     * with allWallets
+     */
+    static isPasswordProtected(wallet: WalletData): boolean {
+        return !!wallet.isEncrypted && !!wallet.privateKey;
+    }
+
+    /**
+     * Change the password of the active wallet, or of every encrypted wallet at once.
+     *
+     * The private keys, recovery phrases, BIP39 passphrases and biometric-wrapped passwords are
+     * all re-encrypted in memory first and then written in a single storage transaction, so a
+     * wallet is never left unencrypted or half on the old password.
+     * @returns The number of wallets whose password was changed
+     */
+    async changePassword(
+        currentPassword: string,
+        newPassword: string,
+        options?: { allWallets?: boolean },
+    ): Promise<number> {
+        try {
+            const activeWallet = await StorageService.getActiveWallet();
+            if (!activeWallet?.isEncrypted) {
+                throw new Error('Wallet is not encrypted');
+            }
+            if (!newPassword) {
+                throw new Error('New password is required');
+            }
+            if (newPassword === currentPassword) {
+                throw new Error('New password must be different from the current password');
+            }
+
+            const wallets = options?.allWallets
+                ? (await StorageService.getAllWallets()).filter(WalletService.isPasswordProtected)
+                : [activeWallet];
+
+            // Each wallet's wrap is made with its own credential, so removing one wallet's
+            // credential leaves the others' biometric unlock alone. Wallets on the same
+            // credential share a wrap, and a prompt.
+            const keyWraps = new Map<string, BiometricKeyWrap | null>();
+
+            const updates: WalletSecretsUpdate[] = [];
+            for (const wallet of wallets) {
+                const reencrypt = async (encrypted?: string): Promise<string | undefined> => {
+                    if (!encrypted) {
+                        return encrypted;
+                    }
+                    let decrypted: string;
+                    try {
+                        decrypted = (await decryptData(encrypted, currentPassword)).decrypted;
+                    } catch {
+                        decrypted = '';
+                    }
+                    if (!decrypted) {
+                        if (!options?.allWallets) {
+                            throw new Error('Current password is incorrect');
+                        }
+                        throw new Error(
+                            wallet.id === activeWallet.id
+                                ? `Current password is incorrect for wallet "${wallet.name}"`
+                                : `Wallet "${wallet.name}" uses a different password. ` +
+                                  'No passwords were changed.',
+                        );
+                    }
+                    return secureEncrypt(decrypted, newPassword);
+                };
+
+                const privateKey = (await reencrypt(wallet.privateKey))!;
+                const mnemonic = await reencrypt(wallet.mnemonic);
+                const bip39Passphrase = await reencrypt(wallet.bip39Passphrase);
+
+                // Biometric unlock keeps working when the new password is wrapped with its key
+                let encryptedBiometricPassword: string | undefined;
+                let biometricKeyWrap: BiometricKeyWrap | undefined;
+                if (wallet.biometricKeyWrap) {
+                    // Only the authenticator can wrap it, which takes one biometric prompt
+                    const credential = await StorageService.getBiometricCredential(wallet.address);
+                    const credentialKey = credential ? credential.join('-') : '';
+                    if (credential && !keyWraps.has(credentialKey)) {
+                        const { securityService } = await import('../core/SecurityService');
+                        keyWraps.set(
+                            credentialKey,
+                            await securityService.wrapPasswordWithBiometric(
+                                wallet.address,
+                                newPassword,
+                            ),
+                        );
+                    }
+                    biometricKeyWrap = keyWraps.get(credentialKey) || undefined;
+                    if (!biometricKeyWrap) {
+                        walletLogger.warn(
+                            `Biometric unlock for wallet "${wallet.name}" must be set up again`,
+                        );
+                    }
+                } else if (wallet.encryptedBiometricPassword || wallet.biometricsEnabled) {
+                    const credential = await StorageService.getBiometricCredential(wallet.address);
+                    if (credential) {
+                        encryptedBiometricPassword = await secureEncrypt(
+                            newPassword,
+                            credential.join('-'),
+                        );
+                    }
+                }
+
+                updates.push({
+                    id: wallet.id!,
+                    privateKey,
+                    mnemonic,
+                    bip39Passphrase,
+                    encryptedBiometricPassword,
+                    biometricKeyWrap,
+                });
+            }
+
+            await StorageService.updateWalletSecrets(updates);
+
+            // Dynamic import, as SecurityService imports this module
+            const { securityService } = await import('../core/SecurityService');
+            await securityService.logSecurityEvent(
+                'settings_change',
+                updates.length === 1
+                    ? 'Wallet password changed'
+                    : `Password changed for ${updates.length} wallets`,
+                true,
+                activeWallet.address,
+            );
+
+            return updates.length;
+        } catch (error) {
+            walletLogger.error('Error changing wallet password:', error);
+            throw error;
+        }
+    }
+
     async exportPrivateKey(password?: string): Promise<string> {
         try {
             const storedPrivateKey = await StorageService.getPrivateKey();
@@ -1292,6 +2379,26 @@ export class WalletService {
         }
     }
 
+    /**
+     * Use a new server list, e.g. after the user edits it. Reconnects when the current
+     * server was removed.
+     */
+    async setElectrumServers(servers: ElectrumServer[]): Promise<void> {
+        const wasConnected = this.isConnectedToElectrum();
+        this.electrum.setServers(servers);
+        if (wasConnected && !this.isConnectedToElectrum()) {
+            await this.connectToElectrum();
+        }
+    }
+
+    getElectrumServerStatuses(): ElectrumServerStatus[] {
+        return this.electrum.getServerStatuses();
+    }
+
+    async checkElectrumServers(): Promise<ElectrumServerStatus[]> {
+        return await this.electrum.checkServers();
+    }
+
     async testElectrumConnection(): Promise<boolean> {
         try {
             // First check if we're connected
@@ -1884,6 +2991,196 @@ export class WalletService {
         }
     }
 
+    /**
+     * Add a watch-only wallet for an address whose keys live on another device.
+     * Payments are built with buildUnsignedTransaction and signed offline.
+     */
+    async importWatchOnlyWallet(params: {
+        name: string;
+        address: string;
+        makeActive?: boolean;
+    }): Promise<WalletData> {
+        try {
+            try {
+                bitcoin.address.toOutputScript(params.address, avianNetwork);
+            } catch (error) {
+                throw new Error('Invalid Avian address');
+            }
+
+            if (await StorageService.walletExists(params.address)) {
+                throw new Error('Wallet with this address already exists');
+            }
+
+            return await StorageService.createWallet({
+                name: params.name,
+                address: params.address,
+                privateKey: '',
+                isEncrypted: false,
+                isWatchOnly: true,
+                makeActive: params.makeActive,
+            });
+        } catch (error) {
+            walletLogger.error('Error importing watch-only wallet:', error);
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            throw new Error(`Failed to import wallet: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Add a watch-only HD wallet from an account-level extended public key
+     * (m/44'/coinType'/account'). Receive and change addresses are derived from
+     * the xpub; the first receive address becomes the wallet address.
+     */
+    async importXpubWallet(params: {
+        name: string;
+        xpub: string;
+        coinType?: 921 | 175;
+        makeActive?: boolean;
+    }): Promise<WalletData> {
+        try {
+            const account = WalletService.parseAccountXpub(params.xpub);
+            const address = WalletService.getXpubAddress(account, 0, 0);
+
+            if (await StorageService.walletExists(address)) {
+                throw new Error('Wallet with this address already exists');
+            }
+
+            return await StorageService.createWallet({
+                name: params.name,
+                address,
+                privateKey: '',
+                coinType: params.coinType || 921,
+                isEncrypted: false,
+                isWatchOnly: true,
+                xpub: account.toBase58(),
+                makeActive: params.makeActive,
+            });
+        } catch (error) {
+            walletLogger.error('Error importing xpub wallet:', error);
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            throw new Error(`Failed to import wallet: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Add an m-of-n P2SH multisig wallet. Each cosigner contributes the key at 0/0 of its
+     * account xpub. When localWalletAddress names an HD wallet on this device, its xpub is
+     * added as a cosigner and that wallet signs proposals for the multisig wallet.
+     */
+    async createMultisigWallet(params: {
+        name: string;
+        threshold: number;
+        cosigners: MultisigCosigner[];
+        localWalletAddress?: string;
+        password?: string;
+        makeActive?: boolean;
+    }): Promise<WalletData> {
+        try {
+            const cosigners = params.cosigners.map((cosigner) => ({
+                name: cosigner.name.trim(),
+                xpub: cosigner.xpub.trim(),
+            }));
+
+            if (params.localWalletAddress) {
+                const localWallet = await StorageService.getWalletByAddress(
+                    params.localWalletAddress,
+                );
+                if (!localWallet) {
+                    throw new Error('Signing wallet not found');
+                }
+                const account = await this.deriveWalletAccount(localWallet, params.password);
+                cosigners.unshift({ name: localWallet.name, xpub: account.neutered().toBase58() });
+            }
+
+            const xpubs = cosigners.map((cosigner) => cosigner.xpub);
+            if (new Set(xpubs).size !== xpubs.length) {
+                throw new Error('Each cosigner must have a different xpub');
+            }
+
+            const { redeemScript, address } = MultisigService.createRedeemScript(
+                params.threshold,
+                xpubs.map((xpub) => WalletService.getCosignerPublicKey(xpub)),
+                avianNetwork,
+            );
+
+            if (await StorageService.walletExists(address)) {
+                throw new Error('Wallet with this address already exists');
+            }
+
+            const multisig: MultisigWalletConfig = {
+                threshold: params.threshold,
+                cosigners,
+                redeemScript: redeemScript.toString('hex'),
+                ...(params.localWalletAddress && { localWalletAddress: params.localWalletAddress }),
+            };
+
+            return await StorageService.createWallet({
+                name: params.name,
+                address,
+                privateKey: '',
+                isEncrypted: false,
+                isWatchOnly: true,
+                multisig,
+                makeActive: params.makeActive,
+            });
+        } catch (error) {
+            walletLogger.error('Error creating multisig wallet:', error);
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            throw new Error(`Failed to create multisig wallet: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Export the account-level extended public key of the active HD wallet.
+     * The xpub reveals every address of the account but cannot spend from it.
+     */
+    async exportAccountXpub(password?: string): Promise<string> {
+        const wallet = await StorageService.getActiveWallet();
+        if (!wallet) {
+            throw new Error('No active wallet');
+        }
+        if (wallet.xpub) {
+            return wallet.xpub;
+        }
+        if (!wallet.mnemonic) {
+            throw new Error('Only HD wallets created from a recovery phrase have an xpub');
+        }
+
+        return (await this.deriveWalletAccount(wallet, password)).neutered().toBase58();
+    }
+
+    /**
+     * Derive the first BIP44 account node (m/44'/coinType'/0') of a wallet's recovery phrase
+     */
+    private async deriveWalletAccount(
+        wallet: WalletData,
+        password?: string,
+    ): Promise<BIP32Interface> {
+        if (!wallet.mnemonic) {
+            throw new Error(`${wallet.name} has no recovery phrase`);
+        }
+        if (wallet.isEncrypted && !password) {
+            throw new Error('Password required to derive the xpub');
+        }
+
+        let mnemonic = wallet.mnemonic;
+        let passphrase: string | undefined = wallet.bip39Passphrase;
+        if (wallet.isEncrypted && password) {
+            try {
+                mnemonic = (await decryptData(wallet.mnemonic, password)).decrypted;
+                if (wallet.bip39Passphrase) {
+                    passphrase = (await decryptData(wallet.bip39Passphrase, password)).decrypted;
+                }
+            } catch (error) {
+                throw new Error('Invalid password');
+            }
+        }
+
+        const seed = await bip39.mnemonicToSeed(mnemonic, passphrase || '');
+        const root = bip32.fromSeed(seed, avianNetwork);
+        return root.derivePath(`m/44'/${wallet.coinType || 921}'/0'`);
+    }
+
     async getAllWallets(): Promise<WalletData[]> {
         return await StorageService.getAllWallets();
     }
@@ -2000,6 +3297,66 @@ export class WalletService {
         }
     }
 
+    /**
+     * Download and validate recent block headers, alerting if the server contradicts them
+     */
+    private async syncSpvHeaders(address: string): Promise<void> {
+        const result = await this.spv.syncHeaders();
+        if (result.status === 'failed') {
+            await this.raiseSpvAlert(result.reason || 'Block header verification failed', address);
+        }
+    }
+
+    /**
+     * SPV-verify a confirmed history transaction. Verified and partially verified
+     * transactions are only rechecked while a reorganization could still move them.
+     */
+    private async verifyHistoryTransaction(
+        txid: string,
+        height: number,
+        confirmations: number,
+        address: string,
+        previous?: SpvStatus,
+    ): Promise<SpvStatus | undefined> {
+        if (!height || height <= 0) {
+            return undefined; // Unconfirmed, nothing to verify yet
+        }
+        if (
+            (previous === 'verified' || previous === 'partial') &&
+            confirmations > SpvService.REORG_DEPTH
+        ) {
+            return previous;
+        }
+
+        const result = await this.spv.verifyTransaction(txid, height);
+        if (result.status === 'failed' && previous !== 'failed') {
+            const reason = result.reason || `Transaction ${txid} failed verification`;
+            await this.raiseSpvAlert(reason, address);
+        }
+        return result.status;
+    }
+
+    private async raiseSpvAlert(details: string, address: string): Promise<void> {
+        walletLogger.error(`SPV verification failed: ${details}`);
+        if (this.spvAlerts.has(details)) {
+            return;
+        }
+        this.spvAlerts.add(details);
+
+        try {
+            // Dynamic import, as SecurityService imports this module
+            const { securityService } = await import('../core/SecurityService');
+            await securityService.logSecurityEvent(
+                'spv_verification_failed',
+                details,
+                false,
+                address,
+            );
+        } catch (error) {
+            walletLogger.error('Failed to raise SPV security alert:', error);
+        }
+    }
+
     /**
      * Process transaction history for a wallet address
      * @param address - The wallet address
@@ -2013,7 +3370,7 @@ export class WalletService {
     ): Promise<void> {
         try {
             // Get transaction history from ElectrumX
-            const txHistory = await this.electrum.getTransactionHistory(address);
+            const { txHistory, ownAddresses } = await this.getWalletTransactionHistory(address);
 
             if (!txHistory || txHistory.length === 0) {
                 return;
@@ -2033,6 +3390,8 @@ export class WalletService {
             const existingTxMap = new Map(existingTxs.map((tx) => [`${tx.txid}-${tx.type}`, tx]));
             const existingTxIdSet = new Set(existingTxs.map((tx) => tx.txid));
 
+            await this.syncSpvHeaders(address);
+
             // Get the total to process (might include some existing ones that need updating)
             const total = txHistory.length;
             let processedCount = 0;
@@ -2060,7 +3419,11 @@ export class WalletService {
                     }
 
                     // Classify transaction as sent or received
-                    const classification = await this.classifyTransaction(txDetails, address);
+                    const classification = await this.classifyTransaction(
+                        txDetails,
+                        address,
+                        ownAddresses,
+                    );
                     if (!classification) {
                         processedCount++;
                         onProgress?.(processedCount, total, historyTx.tx_hash);
@@ -2073,6 +3436,15 @@ export class WalletService {
                     // Check if we have an existing transaction of this type
                     const existingTx = existingTxMap.get(`${historyTx.tx_hash}-${classification.type}`);
 
+                    // Only SPV-verified transactions are shown as confirmed
+                    const spvStatus = await this.verifyHistoryTransaction(
+                        historyTx.tx_hash,
+                        historyTx.height,
+                        confirmations,
+                        address,
+                        existingTx?.spvStatus,
+                    );
+
                     // Create the transaction object with all required fields
                     const updatedTx = {
                         txid: historyTx.tx_hash,
@@ -2084,6 +3456,7 @@ export class WalletService {
                         timestamp: new Date(txDetails.time ? txDetails.time * 1000 : Date.now()),
                         confirmations: confirmations,
                         blockHeight: historyTx.height || undefined,
+                        spvStatus,
                     };
 
                     // Check if we need to update an existing transaction
@@ -2094,6 +3467,7 @@ export class WalletService {
                             existingTx.address !== updatedTx.address ||
                             existingTx.fromAddress !== updatedTx.fromAddress ||
                             existingTx.confirmations !== updatedTx.confirmations ||
+                            existingTx.spvStatus !== updatedTx.spvStatus ||
                             !existingTx.walletAddress; // Always update if walletAddress is missing
 
                         if (needsUpdate) {
@@ -2312,6 +3686,7 @@ export class WalletService {
     private async classifyTransaction(
         txDetails: any,
         address: string,
+        ownAddresses: Set<string> = new Set([address]), // Every address of the wallet
     ): Promise<{
         type: 'send' | 'receive';
         amount: number;
@@ -2342,7 +3717,7 @@ export class WalletService {
                     // Check if input has an address field directly (some ElectrumX servers provide this)
                     if (input.address) {
                         inputAddresses.push(input.address);
-                        if (input.address === address) {
+                        if (ownAddresses.has(input.address)) {
                             inputFromCurrentAddress = true;
                             hasInputFromUs = true;
                         } else if (await this.isOurAddress(input.address)) {
@@ -2353,7 +3728,7 @@ export class WalletService {
                     else if (input.scriptSig && input.scriptSig.addresses) {
                         for (const inputAddress of input.scriptSig.addresses) {
                             inputAddresses.push(inputAddress);
-                            if (inputAddress === address) {
+                            if (ownAddresses.has(inputAddress)) {
                                 inputFromCurrentAddress = true;
                                 hasInputFromUs = true;
                             } else if (await this.isOurAddress(inputAddress)) {
@@ -2378,7 +3753,7 @@ export class WalletService {
                                 if (prevOutput.scriptPubKey && prevOutput.scriptPubKey.addresses) {
                                     for (const inputAddress of prevOutput.scriptPubKey.addresses) {
                                         inputAddresses.push(inputAddress);
-                                        if (inputAddress === address) {
+                                        if (ownAddresses.has(inputAddress)) {
                                             inputFromCurrentAddress = true;
                                             hasInputFromUs = true;
                                         } else if (await this.isOurAddress(inputAddress)) {
@@ -2420,7 +3795,7 @@ export class WalletService {
                         let isOurOutput = false;
                         let isTargetAddress = false;
                         for (const outputAddr of outputAddresses) {
-                            if (outputAddr === address) {
+                            if (ownAddresses.has(outputAddr)) {
                                 isTargetAddress = true;
                                 isOurOutput = true;
                                 break;
@@ -2693,7 +4068,7 @@ export class WalletService {
             }
 
             // Get transaction history from ElectrumX
-            const txHistory = await this.electrum.getTransactionHistory(address);
+            const { txHistory, ownAddresses } = await this.getWalletTransactionHistory(address);
 
             if (!txHistory || txHistory.length === 0) {
                 return 0;
@@ -2703,6 +4078,8 @@ export class WalletService {
             const existingTxs = await StorageService.getTransactionHistory(address);
             const existingTxMap = new Map(existingTxs.map((tx) => [tx.txid, tx]));
 
+            await this.syncSpvHeaders(address);
+
             let updatedCount = 0;
             let processedCount = 0;
             const total = txHistory.length;
@@ -2721,13 +4098,24 @@ export class WalletService {
                     }
 
                     // Reclassify the transaction
-                    const classification = await this.classifyTransaction(txDetails, address);
+                    const classification = await this.classifyTransaction(
+                        txDetails,
+                        address,
+                        ownAddresses,
+                    );
                     if (!classification) {
                         continue;
                     }
 
                     // Calculate proper confirmations
                     const confirmations = await this.calculateConfirmations(historyTx.height);
+                    const spvStatus = await this.verifyHistoryTransaction(
+                        historyTx.tx_hash,
+                        historyTx.height,
+                        confirmations,
+                        address,
+                        existingTxMap.get(historyTx.tx_hash)?.spvStatus,
+                    );
 
                     // Create the updated transaction object
                     const updatedTx = {
@@ -2740,6 +4128,7 @@ export class WalletService {
                         timestamp: new Date(txDetails.time ? txDetails.time * 1000 : Date.now()),
                         confirmations: confirmations,
                         blockHeight: historyTx.height || undefined,
+                        spvStatus,
                     };
 
                     // Check if this transaction exists and needs updating
@@ -2751,7 +4140,8 @@ export class WalletService {
                             existingTx.type !== updatedTx.type ||
                             existingTx.amount !== updatedTx.amount ||
                             existingTx.address !== updatedTx.address ||
-                            existingTx.fromAddress !== updatedTx.fromAddress;
+                            existingTx.fromAddress !== updatedTx.fromAddress ||
+                            existingTx.spvStatus !== updatedTx.spvStatus;
 
                         if (needsUpdate) {
                             // Update the transaction
@@ -2766,7 +4156,7 @@ export class WalletService {
 
                     // Update balance periodically
                     if ((processedCount % 5 === 0 || processedCount === total - 1) && onBalanceUpdate) {
-                        const currentBalance = await this.getBalance(address);
+                        const currentBalance = await this.getWalletBalance(address);
                         onBalanceUpdate(currentBalance);
                     }
 
@@ -2782,7 +4172,7 @@ export class WalletService {
 
             // Final balance update
             if (onBalanceUpdate) {
-                const finalBalance = await this.getBalance(address);
+                const finalBalance = await this.getWalletBalance(address);
                 onBalanceUpdate(finalBalance);
             }
 
@@ -2827,7 +4217,7 @@ export class WalletService {
             }
 
             // Get transaction history from ElectrumX
-            const txHistory = await this.electrum.getTransactionHistory(address);
+            const { txHistory, ownAddresses } = await this.getWalletTransactionHistory(address);
 
             if (!txHistory || txHistory.length === 0) {
                 return 0;
@@ -2837,6 +4227,8 @@ export class WalletService {
             const existingTxs = await StorageService.getTransactionHistory(address);
             const existingTxMap = new Map(existingTxs.map((tx) => [`${tx.txid}-${tx.type}`, tx]));
 
+            await this.syncSpvHeaders(address);
+
             let processedCount = 0;
             const total = txHistory.length;
 
@@ -2855,7 +4247,11 @@ export class WalletService {
                     }
 
                     // Reclassify the transaction
-                    const classification = await this.classifyTransaction(txDetails, address);
+                    const classification = await this.classifyTransaction(
+                        txDetails,
+                        address,
+                        ownAddresses,
+                    );
                     if (!classification) {
                         processedCount++;
                         onProgress?.(processedCount, total, historyTx.tx_hash);
@@ -2864,6 +4260,13 @@ export class WalletService {
 
                     // Calculate proper confirmations
                     const confirmations = await this.calculateConfirmations(historyTx.height);
+                    const spvStatus = await this.verifyHistoryTransaction(
+                        historyTx.tx_hash,
+                        historyTx.height,
+                        confirmations,
+                        address,
+                        existingTxMap.get(`${historyTx.tx_hash}-${classification.type}`)?.spvStatus,
+                    );
 
                     // Create the updated transaction object
                     const updatedTx = {
@@ -2876,6 +4279,7 @@ export class WalletService {
                         timestamp: new Date(txDetails.time ? txDetails.time * 1000 : Date.now()),
                         confirmations: confirmations,
                         blockHeight: historyTx.height || undefined,
+                        spvStatus,
                     };
 
                     // Check if this transaction exists and needs updating
@@ -2890,6 +4294,7 @@ export class WalletService {
                             existingTx.address !== updatedTx.address ||
                             existingTx.fromAddress !== updatedTx.fromAddress ||
                             existingTx.confirmations !== updatedTx.confirmations ||
+                            existingTx.spvStatus !== updatedTx.spvStatus ||
                             !existingTx.walletAddress; // Always update if walletAddress is missing
 
                         if (needsUpdate) {
@@ -2921,13 +4326,16 @@ export class WalletService {
 
                         if (isSelfTransfer) {
                             // Update the opposite transaction's confirmations to match
-                            const needsOppositeUpdate = existingOppositeTx.confirmations !== confirmations;
+                            const needsOppositeUpdate =
+                                existingOppositeTx.confirmations !== confirmations ||
+                                existingOppositeTx.spvStatus !== spvStatus;
 
                             if (needsOppositeUpdate) {
                                 const oppositeUpdatedTx = {
                                     ...existingOppositeTx,
                                     confirmations: confirmations,
                                     blockHeight: historyTx.height || existingOppositeTx.blockHeight,
+                                    spvStatus,
                                 };
 
                                 await StorageService.saveTransaction(oppositeUpdatedTx);
@@ -2938,7 +4346,7 @@ export class WalletService {
 
                     // Update balance periodically
                     if ((processedCount % 5 === 0 || processedCount === total - 1) && onBalanceUpdate) {
-                        const currentBalance = await this.getBalance(address);
+                        const currentBalance = await this.getWalletBalance(address);
                         onBalanceUpdate(currentBalance);
                     }
 
@@ -2962,7 +4370,7 @@ export class WalletService {
 
             // Final balance update
             if (onBalanceUpdate) {
-                const finalBalance = await this.getBalance(address);
+                const finalBalance = await this.getWalletBalance(address);
                 onBalanceUpdate(finalBalance);
             }
 
@@ -3003,157 +4411,1354 @@ export class WalletService {
                 await electrum.connect();
             }
 
-            // Derive seed from mnemonic with optional passphrase (BIP39 25th word)
-            const seed = await bip39.mnemonicToSeed(mnemonic, passphrase || '');
+            // Derive seed from mnemonic with optional passphrase (BIP39 25th word)
+            const seed = await bip39.mnemonicToSeed(mnemonic, passphrase || '');
+
+            // Create HD wallet root
+            const root = bip32.fromSeed(seed, avianNetwork);
+
+            // Array to store derived addresses with balances
+            const derivedAddresses: Array<{
+                path: string;
+                address: string;
+                balance: number;
+                hasTransactions: boolean;
+            }> = [];
+
+            // Generate addresses based on the selected address type
+            for (let i = 0; i < addressCount; i++) {
+                // Derive path - m/44'/coinType'/accountIndex'/changePath/i
+                // coinType: 921 for Avian, 175 for Ravencoin compatibility
+                const path = `m/44'/${coinType}'/${accountIndex}'/${changePath}/${i}`;
+                const child = root.derivePath(path);
+
+                if (!child.privateKey) {
+                    throw new Error(`Failed to derive private key for path ${path}`);
+                }
+
+                // Create ECPair from derived private key
+                const keyPair = ECPair.fromPrivateKey(child.privateKey, { network: avianNetwork });
+
+                // Get the address based on address type
+                let address: string | undefined;
+
+                if (addressType === 'p2pkh') {
+                    // Standard P2PKH address
+                    const p2pkh = bitcoin.payments.p2pkh({
+                        pubkey: Buffer.from(keyPair.publicKey),
+                        network: avianNetwork,
+                    });
+                    address = p2pkh.address;
+                } else {
+                    // Default to P2PKH if type is not recognized
+                    const p2pkh = bitcoin.payments.p2pkh({
+                        pubkey: Buffer.from(keyPair.publicKey),
+                        network: avianNetwork,
+                    });
+                    address = p2pkh.address;
+                }
+
+                if (!address) {
+                    throw new Error(`Failed to generate address for path ${path}`);
+                }
+
+                // Check balance for the address
+                const balance = await electrum.getBalance(address);
+
+                // Check if the address has any transactions
+                const history = await electrum.getTransactionHistory(address);
+                const hasTransactions = history.length > 0;
+
+                // Add derived address with balance to the array
+                derivedAddresses.push({
+                    path,
+                    address,
+                    balance,
+                    hasTransactions,
+                });
+            }
+
+            return derivedAddresses;
+        } catch (error) {
+            walletLogger.error('Error deriving addresses with balances:', error);
+            throw new Error('Failed to derive addresses with balances');
+        }
+    }
+
+    /**
+     * Parse an account-level extended public key, rejecting private keys and
+     * keys from other depths of the BIP44 tree
+     */
+    static parseAccountXpub(xpub: string): BIP32Interface {
+        let node: BIP32Interface;
+        try {
+            node = bip32.fromBase58(xpub.trim(), avianNetwork);
+        } catch (error) {
+            throw new Error('Invalid extended public key');
+        }
+
+        if (!node.isNeutered()) {
+            throw new Error(
+                'This is an extended private key. Import it as a regular wallet instead.',
+            );
+        }
+        if (node.depth !== 3) {
+            throw new Error("Expected an account-level xpub (m/44'/coinType'/account')");
+        }
+
+        return node;
+    }
+
+    /**
+     * BIP44 account number of an account-level node (its index without the hardened bit)
+     */
+    static getAccountIndex(account: BIP32Interface): number {
+        return account.index >= 0x80000000 ? account.index - 0x80000000 : account.index;
+    }
+
+    /**
+     * Derive the P2PKH address at changePath/index below an account xpub
+     */
+    static getXpubAddress(account: BIP32Interface, changePath: number, index: number): string {
+        const child = account.derive(changePath).derive(index);
+        const { address } = bitcoin.payments.p2pkh({
+            pubkey: Buffer.from(child.publicKey),
+            network: avianNetwork,
+        });
+        if (!address) {
+            throw new Error(`Failed to generate address ${changePath}/${index}`);
+        }
+        return address;
+    }
+
+    /**
+     * Derives addresses below an account xpub and checks their balances.
+     * Paths use the same m/44'/coinType'/account'/change/index form as mnemonic wallets.
+     */
+    static async deriveXpubAddressesWithBalances(
+        xpub: string,
+        addressCount: number = 10,
+        changePath: number = 0,
+        coinType: number = 921,
+    ): Promise<Array<{ path: string; address: string; balance: number; hasTransactions: boolean }>> {
+        const account = WalletService.parseAccountXpub(xpub);
+        const accountIndex = WalletService.getAccountIndex(account);
+
+        try {
+            const electrum = new ElectrumService();
+            if (!electrum.isConnectedToServer()) {
+                await electrum.connect();
+            }
+
+            const derivedAddresses: Array<{
+                path: string;
+                address: string;
+                balance: number;
+                hasTransactions: boolean;
+            }> = [];
+
+            for (let i = 0; i < addressCount; i++) {
+                const address = WalletService.getXpubAddress(account, changePath, i);
+                const balance = await electrum.getBalance(address);
+                const history = await electrum.getTransactionHistory(address);
+
+                derivedAddresses.push({
+                    path: `m/44'/${coinType}'/${accountIndex}'/${changePath}/${i}`,
+                    address,
+                    balance,
+                    hasTransactions: history.length > 0,
+                });
+            }
+
+            return derivedAddresses;
+        } catch (error) {
+            walletLogger.error('Error deriving xpub addresses with balances:', error);
+            throw new Error('Failed to derive addresses with balances');
+        }
+    }
+
+    /**
+     * Derives multiple addresses from the current wallet's mnemonic phrase and checks their balances
+     * Requires wallet password to decrypt the mnemonic
+     */
+    async deriveCurrentWalletAddresses(
+        password: string,
+        accountIndex: number = 0,
+        addressCount: number = 10,
+        addressType: string = 'p2pkh',
+        changePath: number = 0, // 0 for receiving addresses, 1 for change addresses
+    ): Promise<Array<{ path: string; address: string; balance: number; hasTransactions: boolean }>> {
+        try {
+            // Get the current wallet to retrieve its coin type
+            const activeWallet = await StorageService.getActiveWallet();
+            if (!activeWallet) {
+                throw new Error('No active wallet found');
+            }
+
+            // Use the wallet's stored coin type, defaulting to 921 for legacy wallets
+            const coinType = activeWallet.coinType || 921;
+
+            // Watch-only HD wallets derive from their xpub and need no password
+            if (activeWallet.xpub) {
+                return WalletService.deriveXpubAddressesWithBalances(
+                    activeWallet.xpub,
+                    addressCount,
+                    changePath,
+                    coinType,
+                );
+            }
+
+            const storedMnemonic = await StorageService.getMnemonic();
+            if (!storedMnemonic) {
+                throw new Error('No mnemonic stored for this wallet. Address derivation is not available.');
+            }
+
+            const isEncrypted = await StorageService.getIsEncrypted();
+            let decryptedMnemonic: string;
+
+            if (isEncrypted) {
+                try {
+                    const { decrypted } = await decryptData(storedMnemonic, password);
+                    decryptedMnemonic = decrypted;
+                    if (!decryptedMnemonic) {
+                        throw new Error('Failed to decrypt mnemonic');
+                    }
+
+                    // Validate the decrypted mnemonic
+                    if (!bip39.validateMnemonic(decryptedMnemonic)) {
+                        throw new Error('Decrypted mnemonic is invalid');
+                    }
+                } catch (error) {
+                    throw new Error('Invalid password or corrupted mnemonic');
+                }
+            } else {
+                decryptedMnemonic = storedMnemonic;
+            }
+
+            // Decrypt the stored passphrase if it exists
+            let decryptedPassphrase: string | undefined;
+            if (activeWallet.bip39Passphrase && isEncrypted) {
+                try {
+                    const { decrypted } = await decryptData(activeWallet.bip39Passphrase, password);
+                    decryptedPassphrase = decrypted;
+                } catch (error) {
+                    throw new Error('Invalid password or corrupted passphrase');
+                }
+            } else if (activeWallet.bip39Passphrase && !isEncrypted) {
+                // If wallet is not encrypted but has a passphrase, use it directly
+                decryptedPassphrase = activeWallet.bip39Passphrase;
+            }
+
+            // Use the static method to derive addresses
+            return WalletService.deriveAddressesWithBalances(
+                decryptedMnemonic,
+                decryptedPassphrase, // Use the decrypted passphrase from wallet
+                accountIndex,
+                addressCount,
+                addressType,
+                changePath,
+                coinType,
+            );
+        } catch (error) {
+            walletLogger.error('Error deriving addresses from current wallet:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Build an address deriver for the active HD wallet from its mnemonic or xpub.
+     * Mnemonic wallets can derive any account; xpub wallets only their own.
+     */
+    private async createAddressDeriver(password?: string): Promise<{
+        derive: AddressDeriver;
+        coinType: number;
+        accounts?: number[];
+    }> {
+        const activeWallet = await StorageService.getActiveWallet();
+        if (!activeWallet) {
+            throw new Error('No active wallet found');
+        }
+        const coinType = activeWallet.coinType || 921;
+
+        const toAddress = (node: BIP32Interface): string =>
+            bitcoin.payments.p2pkh({ pubkey: Buffer.from(node.publicKey), network: avianNetwork })
+                .address!;
+
+        if (activeWallet.xpub) {
+            const accountNode = WalletService.parseAccountXpub(activeWallet.xpub);
+            const accountIndex = WalletService.getAccountIndex(accountNode);
+            return {
+                derive: (account, chain, index) =>
+                    account === accountIndex
+                        ? toAddress(accountNode.derive(chain).derive(index))
+                        : null,
+                coinType,
+                accounts: [accountIndex],
+            };
+        }
+
+        if (!activeWallet.mnemonic) {
+            throw new Error('Address discovery is only available for HD wallets');
+        }
+        if (activeWallet.isEncrypted && !password) {
+            throw new Error('Password required for encrypted wallet');
+        }
+
+        let mnemonic = activeWallet.mnemonic;
+        let passphrase = activeWallet.bip39Passphrase;
+        if (activeWallet.isEncrypted) {
+            try {
+                mnemonic = (await decryptData(activeWallet.mnemonic, password!)).decrypted;
+                if (activeWallet.bip39Passphrase) {
+                    passphrase = (await decryptData(activeWallet.bip39Passphrase, password!))
+                        .decrypted;
+                }
+            } catch (error) {
+                throw new Error('Invalid password');
+            }
+        }
+
+        const seed = await bip39.mnemonicToSeed(mnemonic, passphrase || '');
+        const root = bip32.fromSeed(seed, avianNetwork);
+        // Account nodes need hardened derivation, so cache their public parts
+        const accountNodes = new Map<number, BIP32Interface>();
+
+        return {
+            derive: (account, chain, index) => {
+                let accountNode = accountNodes.get(account);
+                if (!accountNode) {
+                    accountNode = root.derivePath(`m/44'/${coinType}'/${account}'`).neutered();
+                    accountNodes.set(account, accountNode);
+                }
+                return toAddress(accountNode.derive(chain).derive(index));
+            },
+            coinType,
+        };
+    }
+
+    /**
+     * Discover the used receive and change addresses of the active HD wallet with the
+     * configured gap limit and remember the highest used index of each chain.
+     */
+    async discoverHDAddresses(
+        password?: string,
+        onProgress?: (scanned: number, used: number) => void,
+    ): Promise<AddressDiscoveryState> {
+        const activeWallet = await this.getActiveWallet();
+        if (!activeWallet) {
+            throw new Error('No active wallet found');
+        }
+
+        const { derive, coinType, accounts } = await this.createAddressDeriver(password);
+        const gapLimit = await StorageService.getGapLimit();
+        const state = await new AddressDiscoveryService(this.electrum).discover(derive, {
+            gapLimit,
+            coinType,
+            accounts,
+            onProgress,
+        });
+
+        await StorageService.setAddressDiscoveryState(activeWallet.address, state);
+        return state;
+    }
+
+    /**
+     * Addresses of a wallet: its main address, every discovered HD address and every
+     * receive address handed out, whether or not it has been paid yet
+     */
+    static async getWalletAddresses(
+        walletAddress: string,
+    ): Promise<Array<{ address: string; derivationPath?: string }>> {
+        const state = await StorageService.getAddressDiscoveryState(walletAddress);
+        const discovered = state ? AddressDiscoveryService.getAddresses(state) : [];
+        const addresses: Array<{ address: string; derivationPath?: string }> = discovered.map(
+            (entry) => ({ address: entry.address, derivationPath: entry.path }),
+        );
+
+        const receive = await StorageService.getReceiveAddressState(walletAddress);
+        if (receive?.accountXpub && receive.issued.length > 0) {
+            const wallet = await StorageService.getWalletByAddress(walletAddress);
+            const accountIndex = WalletService.getAccountIndex(
+                WalletService.parseAccountXpub(receive.accountXpub),
+            );
+            receive.issued.forEach((entry) => {
+                if (!addresses.some((known) => known.address === entry.address)) {
+                    addresses.push({
+                        address: entry.address,
+                        derivationPath: AddressDiscoveryService.getPath(
+                            wallet?.coinType || 921,
+                            accountIndex,
+                            0,
+                            entry.index,
+                        ),
+                    });
+                }
+            });
+        }
+
+        if (!addresses.some((entry) => entry.address === walletAddress)) {
+            addresses.unshift({ address: walletAddress });
+        }
+        return addresses;
+    }
+
+    /**
+     * Addresses of the active wallet: the main address plus every discovered HD address
+     */
+    async getHDWalletAddresses(): Promise<Array<{ address: string; derivationPath?: string }>> {
+        const activeWallet = await this.getActiveWallet();
+        if (!activeWallet) {
+            return [];
+        }
+        return WalletService.getWalletAddresses(activeWallet.address);
+    }
+
+    /**
+     * Total balance across all addresses of a wallet
+     */
+    async getWalletBalance(walletAddress: string, forceRefresh: boolean = false): Promise<number> {
+        const addresses = await WalletService.getWalletAddresses(walletAddress);
+        const balances = await Promise.all(
+            addresses.map(({ address }) => this.getBalance(address, forceRefresh)),
+        );
+        return balances.reduce((sum, balance) => sum + balance, 0);
+    }
+
+    /**
+     * Total balance across all addresses of the active wallet
+     */
+    async getHDWalletBalance(forceRefresh: boolean = false): Promise<number> {
+        const activeWallet = await this.getActiveWallet();
+        return activeWallet ? this.getWalletBalance(activeWallet.address, forceRefresh) : 0;
+    }
+
+    /**
+     * Unspent outputs across all addresses of the active wallet, tagged with their address
+     */
+    async getHDWalletUTXOs(): Promise<
+        Array<{
+            txid: string;
+            vout: number;
+            value: number;
+            height?: number;
+            address: string;
+            derivationPath?: string;
+        }>
+    > {
+        const addresses = await this.getHDWalletAddresses();
+        const utxoLists = await Promise.all(
+            addresses.map(async ({ address, derivationPath }) => {
+                const utxos = await this.electrum.getUTXOs(address);
+                return utxos.map((utxo) => ({ ...utxo, address, derivationPath }));
+            }),
+        );
+        return utxoLists.reduce((all, utxos) => all.concat(utxos), []);
+    }
+
+    /**
+     * Value of the frozen coins across all addresses of the active wallet
+     */
+    async getFrozenBalance(): Promise<number> {
+        if ((await LabelService.getFrozenOutpoints()).size === 0) {
+            return 0;
+        }
+        const utxos = await LabelService.markFrozen(await this.getHDWalletUTXOs());
+        return utxos.filter((utxo) => utxo.isFrozen).reduce((sum, utxo) => sum + utxo.value, 0);
+    }
+
+    /**
+     * Wallet history in the shape Electrum returns it, with the addresses that count as the
+     * wallet's own when classifying, so change to an HD address is not taken for a payment
+     */
+    private async getWalletTransactionHistory(walletAddress: string): Promise<{
+        txHistory: Array<{ tx_hash: string; height: number }>;
+        ownAddresses: Set<string>;
+    }> {
+        const addresses = await WalletService.getWalletAddresses(walletAddress);
+        const history = await this.getWalletHistory(walletAddress);
+        return {
+            txHistory: history.map(({ txid, height }) => ({ tx_hash: txid, height })),
+            ownAddresses: new Set(addresses.map((entry) => entry.address)),
+        };
+    }
+
+    /**
+     * Transaction history across all addresses of the active wallet, newest first.
+     * A transaction touching several of our addresses is listed once.
+     */
+    async getHDWalletHistory(): Promise<
+        Array<{ txid: string; height: number; addresses: string[] }>
+    > {
+        const activeWallet = await this.getActiveWallet();
+        return activeWallet ? this.getWalletHistory(activeWallet.address) : [];
+    }
+
+    /**
+     * Transaction history across all addresses of a wallet, newest first.
+     * A transaction touching several of its addresses is listed once.
+     */
+    async getWalletHistory(
+        walletAddress: string,
+    ): Promise<Array<{ txid: string; height: number; addresses: string[] }>> {
+        const addresses = await WalletService.getWalletAddresses(walletAddress);
+        const histories = await Promise.all(
+            addresses.map(({ address }) => this.electrum.getTransactionHistory(address)),
+        );
+
+        const merged = new Map<string, { txid: string; height: number; addresses: string[] }>();
+        histories.forEach((history, position) => {
+            history.forEach((item: { tx_hash: string; height: number }) => {
+                const existing = merged.get(item.tx_hash);
+                if (existing) {
+                    existing.addresses.push(addresses[position].address);
+                } else {
+                    merged.set(item.tx_hash, {
+                        txid: item.tx_hash,
+                        height: item.height,
+                        addresses: [addresses[position].address],
+                    });
+                }
+            });
+        });
+
+        // Unconfirmed transactions (height <= 0) sort first
+        return Array.from(merged.values()).sort((a, b) => {
+            const heightA = a.height > 0 ? a.height : Number.MAX_SAFE_INTEGER;
+            const heightB = b.height > 0 ? b.height : Number.MAX_SAFE_INTEGER;
+            return heightB - heightA;
+        });
+    }
+
+    /**
+     * Asset balances across all addresses of the active wallet
+     */
+    async getAssetBalances(): Promise<AssetBalance[]> {
+        const addresses = await this.getHDWalletAddresses();
+        const balanceLists = await Promise.all(
+            addresses.map(({ address }) => this.electrum.getAssetBalances(address)),
+        );
+
+        const totals = new Map<string, AssetBalance>();
+        balanceLists.forEach((balances) => {
+            balances.forEach((balance) => {
+                const total = totals.get(balance.name);
+                if (total) {
+                    total.confirmed += balance.confirmed;
+                    total.unconfirmed += balance.unconfirmed;
+                } else {
+                    totals.set(balance.name, { ...balance });
+                }
+            });
+        });
+
+        return Array.from(totals.values())
+            .filter((balance) => balance.confirmed + balance.unconfirmed > 0)
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * Unspent asset outputs across all addresses of the active wallet
+     */
+    async getAssetUTXOs(
+        assetName?: string,
+    ): Promise<Array<AssetUTXO & { derivationPath?: string }>> {
+        const addresses = await this.getHDWalletAddresses();
+        const utxoLists = await Promise.all(
+            addresses.map(async ({ address, derivationPath }) => {
+                const utxos = await this.electrum.getAssetUTXOs(address);
+                return utxos.map((utxo) => ({ ...utxo, derivationPath }));
+            }),
+        );
+        return utxoLists
+            .reduce((all, utxos) => all.concat(utxos), [])
+            .filter((utxo) => !assetName || utxo.assetName === assetName);
+    }
+
+    /**
+     * Transfer an asset. Asset outputs carry no AVN, so the fee is paid from separate AVN
+     * inputs; leftover asset units and AVN each go back to the change address.
+     */
+    async sendAsset(
+        toAddress: string,
+        assetName: string,
+        amount: number, // Smallest asset units (1e-8)
+        password?: string,
+        options?: {
+            feeRate?: number;
+            changeAddress?: string;
+        },
+    ): Promise<string> {
+        try {
+            const activeWallet = await StorageService.getActiveWallet();
+            if (!activeWallet) {
+                throw new Error('No active wallet found');
+            }
+            if (!Number.isSafeInteger(amount) || amount <= 0) {
+                throw new Error('Invalid asset amount');
+            }
+
+            const changeAddress = options?.changeAddress?.trim() || activeWallet.address;
+            const feeRate = options?.feeRate || (await this.feeEstimator.getFeeRate('normal'));
+
+            // Largest asset outputs first to keep the input count down
+            const assetUTXOs = (await this.getAssetUTXOs(assetName)).sort(
+                (a, b) => b.assetAmount - a.assetAmount,
+            );
+            const assetInputs: typeof assetUTXOs = [];
+            let assetTotal = 0;
+            for (const utxo of assetUTXOs) {
+                if (assetTotal >= amount) {
+                    break;
+                }
+                assetInputs.push(utxo);
+                assetTotal += utxo.assetAmount;
+            }
+            if (assetTotal < amount) {
+                throw new Error(
+                    `Insufficient ${assetName}. Required: ${AssetService.formatAmount(amount)}, ` +
+                        `Available: ${AssetService.formatAmount(assetTotal)}`,
+                );
+            }
+
+            const assetOutputs = [
+                AssetService.createTransferScript(toAddress, assetName, amount, avianNetwork),
+            ];
+            if (assetTotal > amount) {
+                assetOutputs.push(
+                    AssetService.createTransferScript(
+                        changeAddress,
+                        assetName,
+                        assetTotal - amount,
+                        avianNetwork,
+                    ),
+                );
+            }
+
+            const { tx, inputs, fee } = await this.buildAssetTransaction({
+                assetInputs,
+                assetOutputs,
+                changeAddress,
+                feeRate,
+            });
+            await this.signAssetTransaction(tx, inputs, password);
+
+            const txid = await this.electrum.broadcastTransaction(tx.toHex());
+            if (!txid || typeof txid !== 'string') {
+                throw new Error('Transaction broadcast failed. Please try again later.');
+            }
+
+            await StorageService.saveTransaction({
+                txid: tx.getId(),
+                amount: 0,
+                address: toAddress,
+                fromAddress: activeWallet.address,
+                walletAddress: activeWallet.address,
+                type: 'send',
+                timestamp: new Date(),
+                confirmations: 0,
+                fee: fee / 100000000,
+                asset: assetName,
+                assetAmount: amount / AssetService.ASSET_UNIT,
+            });
+
+            walletLogger.info(
+                `Sent ${AssetService.formatAmount(amount)} ${assetName} in ${tx.getId()}`,
+            );
+
+            return tx.getId();
+        } catch (error) {
+            walletLogger.error('Error sending asset:', error);
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            throw new Error(`Asset transfer failed: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Work out the AVN burned and the network fee of an asset issuance without signing it
+     */
+    async estimateAssetIssue(
+        request: AssetIssueRequest,
+        options?: { feeRate?: number },
+    ): Promise<AssetIssuePreview> {
+        const { preview } = await this.buildAssetIssue(request, options?.feeRate);
+        return preview;
+    }
+
+    /**
+     * Create a root asset, sub-asset or unique asset, or add supply to an existing asset.
+     * The burn fee goes to the chain's burn address for that kind of issuance.
+     */
+    async issueAsset(
+        request: AssetIssueRequest,
+        password?: string,
+        options?: { feeRate?: number },
+    ): Promise<string> {
+        try {
+            const activeWallet = await StorageService.getActiveWallet();
+            if (!activeWallet) {
+                throw new Error('No active wallet found');
+            }
+
+            const { tx, inputs, preview } = await this.buildAssetIssue(request, options?.feeRate);
+            await this.signAssetTransaction(tx, inputs, password);
+
+            const txid = await this.electrum.broadcastTransaction(tx.toHex());
+            if (!txid || typeof txid !== 'string') {
+                throw new Error('Transaction broadcast failed. Please try again later.');
+            }
+
+            await StorageService.saveTransaction({
+                txid: tx.getId(),
+                amount: preview.burnAmount / 100000000,
+                address: preview.burnAddress,
+                fromAddress: activeWallet.address,
+                walletAddress: activeWallet.address,
+                type: 'send',
+                timestamp: new Date(),
+                confirmations: 0,
+                fee: preview.fee / 100000000,
+                asset: request.name,
+                assetAmount: request.amount / AssetService.ASSET_UNIT,
+            });
+
+            walletLogger.info(`Issued ${request.type} asset ${request.name} in ${tx.getId()}`);
+
+            return tx.getId();
+        } catch (error) {
+            walletLogger.error('Error issuing asset:', error);
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            throw new Error(`Asset issuance failed: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Build an issuance transaction: burn, AVN change, then the asset outputs with the new
+     * asset last as consensus requires. Sub-assets, unique assets and reissues spend the
+     * owner token that authorizes them and send it straight back to where it came from.
+     */
+    private async buildAssetIssue(request: AssetIssueRequest, feeRate?: number) {
+        const activeWallet = await StorageService.getActiveWallet();
+        if (!activeWallet) {
+            throw new Error('No active wallet found');
+        }
+
+        const requestError = AssetService.getIssueError(request);
+        if (requestError) {
+            throw new Error(requestError);
+        }
+
+        // Check the name against the chain, not just the naming rules
+        const meta = await this.electrum.getAssetMeta(request.name);
+        if (request.type !== 'reissue' && meta) {
+            throw new Error(`Asset ${request.name} already exists`);
+        }
+        if (request.type === 'reissue') {
+            if (!meta) {
+                throw new Error(`Asset ${request.name} not found`);
+            }
+            if (!meta.reissuable) {
+                throw new Error(`Asset ${request.name} can no longer be reissued`);
+            }
+            if (request.units !== -1 && request.units < meta.units) {
+                throw new Error(`Units cannot be lowered from ${meta.units}`);
+            }
+        }
+
+        const toAddress = request.toAddress?.trim() || activeWallet.address;
+        const burn = AssetService.BURN[request.type];
+        const ownerToken =
+            request.type === 'root'
+                ? undefined
+                : AssetService.getOwnerTokenName(
+                      request.type === 'reissue'
+                          ? request.name
+                          : AssetService.getParentName(request.name),
+                  );
+
+        const assetInputs: Array<AssetUTXO & { derivationPath?: string }> = [];
+        const assetOutputs: Buffer[] = [];
+        if (ownerToken) {
+            const [ownerUTXO] = await this.getAssetUTXOs(ownerToken);
+            if (!ownerUTXO) {
+                throw new Error(`This wallet does not hold the owner token ${ownerToken}`);
+            }
+            assetInputs.push(ownerUTXO);
+            assetOutputs.push(
+                AssetService.createTransferScript(
+                    ownerUTXO.address,
+                    ownerToken,
+                    ownerUTXO.assetAmount,
+                    avianNetwork,
+                ),
+            );
+        }
+        if (request.type === 'root' || request.type === 'sub') {
+            assetOutputs.push(
+                AssetService.createOwnerScript(toAddress, request.name, avianNetwork),
+            );
+        }
+        assetOutputs.push(
+            request.type === 'reissue'
+                ? AssetService.createReissueScript(toAddress, request, avianNetwork)
+                : AssetService.createIssueScript(toAddress, request, avianNetwork),
+        );
+
+        const built = await this.buildAssetTransaction({
+            assetInputs,
+            avnOutputs: [
+                {
+                    script: bitcoin.address.toOutputScript(burn.address, avianNetwork),
+                    value: burn.amount,
+                },
+            ],
+            assetOutputs,
+            changeAddress: activeWallet.address,
+            feeRate: feeRate || (await this.feeEstimator.getFeeRate('normal')),
+        });
+
+        const preview: AssetIssuePreview = {
+            burnAmount: burn.amount,
+            burnAddress: burn.address,
+            fee: built.fee,
+            size: built.size,
+            inputCount: built.inputs.length,
+            ownerToken,
+        };
+        return { ...built, preview };
+    }
+
+    /**
+     * Fund a transaction with asset inputs from AVN held anywhere in the wallet. Outputs are
+     * ordered AVN outputs, AVN change, then the zero-value asset outputs.
+     */
+    private async buildAssetTransaction(params: {
+        assetInputs: Array<AssetUTXO & { derivationPath?: string }>;
+        avnOutputs?: Array<{ script: Buffer; value: number }>;
+        assetOutputs: Buffer[];
+        changeAddress: string;
+        feeRate: number;
+    }): Promise<{
+        tx: bitcoin.Transaction;
+        inputs: Array<{
+            txid: string;
+            vout: number;
+            value: number;
+            derivationPath?: string;
+            assetName?: string;
+            assetAmount?: number;
+        }>;
+        fee: number;
+        size: number;
+    }> {
+        const avnOutputs = params.avnOutputs || [];
+        const avnRequired = avnOutputs.reduce((sum, output) => sum + output.value, 0);
+        const feeUTXOs = (await LabelService.markFrozen(await this.getHDWalletUTXOs()))
+            .filter((utxo) => !utxo.isFrozen)
+            .sort((a, b) => b.value - a.value);
+
+        const buildTx = (feeInputs: typeof feeUTXOs, avnChange: number | null) => {
+            const tx = new bitcoin.Transaction();
+            tx.version = 2;
+            for (const utxo of [...params.assetInputs, ...feeInputs]) {
+                tx.addInput(Buffer.from(utxo.txid, 'hex').reverse(), utxo.vout, RBF_SEQUENCE);
+            }
+            for (const output of avnOutputs) {
+                tx.addOutput(output.script, output.value);
+            }
+            if (avnChange !== null) {
+                tx.addOutput(
+                    bitcoin.address.toOutputScript(params.changeAddress, avianNetwork),
+                    avnChange,
+                );
+            }
+            for (const script of params.assetOutputs) {
+                tx.addOutput(script, 0);
+            }
+            return tx;
+        };
+
+        // Add AVN inputs until they cover the outputs and the fee of the transaction they are in
+        const feeInputs: typeof feeUTXOs = [];
+        let feeTotal = 0;
+        let fee = 0;
+        for (;;) {
+            fee = FeeEstimationService.calculateFeeForSize(
+                FeeEstimationService.estimateSignedSize(buildTx(feeInputs, 0)),
+                params.feeRate,
+            );
+            if (feeTotal >= avnRequired + fee || feeInputs.length === feeUTXOs.length) {
+                break;
+            }
+            const next = feeUTXOs[feeInputs.length];
+            feeInputs.push(next);
+            feeTotal += next.value;
+        }
+        if (feeTotal < avnRequired + fee) {
+            throw new Error(
+                `Insufficient AVN. Required: ${avnRequired + fee} satoshis, ` +
+                    `Available: ${feeTotal} satoshis`,
+            );
+        }
+
+        // Change too small to be worth an output is left to the fee
+        let avnChange: number | null = feeTotal - avnRequired - fee;
+        if (avnChange < CHANGE_DUST_LIMIT) {
+            avnChange = null;
+            fee = feeTotal - avnRequired;
+        }
+        const tx = buildTx(feeInputs, avnChange);
+
+        return {
+            tx,
+            inputs: [...params.assetInputs, ...feeInputs],
+            fee,
+            size: FeeEstimationService.estimateSignedSize(tx),
+        };
+    }
+
+    /**
+     * Sign every input of an asset transaction after checking it against its previous
+     * transaction: asset inputs must hold the expected asset, AVN inputs the expected value.
+     */
+    private async signAssetTransaction(
+        tx: bitcoin.Transaction,
+        inputs: Array<{
+            value: number;
+            derivationPath?: string;
+            assetName?: string;
+            assetAmount?: number;
+        }>,
+        password?: string,
+    ): Promise<void> {
+        const resolveSigningKey = await this.createSigningKeyResolver(password);
+        const prevOutputs = await this.getPreviousOutputs(tx);
+
+        for (let i = 0; i < inputs.length; i++) {
+            const prevOut = prevOutputs[i];
+            let address = prevOut.address;
+            if (inputs[i].assetName) {
+                const asset = AssetService.parseAssetScript(prevOut.script, avianNetwork);
+                if (
+                    !asset ||
+                    asset.name !== inputs[i].assetName ||
+                    asset.amount !== inputs[i].assetAmount
+                ) {
+                    throw new Error(`Input ${i} does not hold the expected ${inputs[i].assetName}`);
+                }
+                address = asset.address;
+            } else if (prevOut.value !== inputs[i].value) {
+                throw new Error(`Input ${i} does not match its previous transaction`);
+            }
+
+            const keyPair =
+                address && (await resolveSigningKey(address, inputs[i].derivationPath));
+            if (!keyPair) {
+                throw new Error(`No signing key found for input ${i} (${address})`);
+            }
+            this.signP2PKHInput(tx, i, prevOut.script, keyPair);
+        }
+    }
+
+    /**
+     * Build an unsigned spend from the active multisig wallet. Change returns to the
+     * multisig address. The proposal carries each previous transaction so cosigners can
+     * check the amounts they sign without a server.
+     */
+    async buildMultisigProposal(
+        toAddress: string,
+        amount: number, // satoshis
+        options?: { feeRate?: number },
+    ): Promise<MultisigProposal> {
+        const activeWallet = await StorageService.getActiveWallet();
+        if (!activeWallet?.multisig) {
+            throw new Error('The active wallet is not a multisig wallet');
+        }
+        try {
+            bitcoin.address.toOutputScript(toAddress, avianNetwork);
+        } catch (error) {
+            throw new Error('Invalid Avian address');
+        }
+        if (!Number.isSafeInteger(amount) || amount <= CHANGE_DUST_LIMIT) {
+            throw new Error('Amount is too small to send');
+        }
+
+        const { threshold, cosigners, redeemScript } = activeWallet.multisig;
+        const feeRate = options?.feeRate || (await this.feeEstimator.getFeeRate('normal'));
+        const inputSize = MultisigService.estimateInputSize(threshold, cosigners.length);
+        const sizeFor = (inputCount: number, outputCount: number) =>
+            10 + inputCount * inputSize + outputCount * 34;
+
+        // Largest outputs first to keep the input count, and the signatures needed, down
+        const unspent = await this.electrum.getUTXOs(activeWallet.address);
+        const utxos = (await LabelService.markFrozen(unspent))
+            .filter((utxo) => !utxo.isFrozen)
+            .sort((a, b) => b.value - a.value);
+        const selected: typeof utxos = [];
+        let total = 0;
+        let fee = 0;
+        for (const utxo of utxos) {
+            fee = FeeEstimationService.calculateFeeForSize(sizeFor(selected.length, 2), feeRate);
+            if (total >= amount + fee) {
+                break;
+            }
+            selected.push(utxo);
+            total += utxo.value;
+        }
+        fee = FeeEstimationService.calculateFeeForSize(sizeFor(selected.length, 2), feeRate);
+        if (total < amount + fee) {
+            throw new Error(
+                `Insufficient funds. Required: ${amount + fee} satoshis, ` +
+                    `Available: ${total} satoshis`,
+            );
+        }
+
+        const outputs: MultisigProposalOutput[] = [
+            { address: toAddress, value: amount, isChange: false },
+        ];
+        const change = total - amount - fee;
+        if (change >= CHANGE_DUST_LIMIT) {
+            outputs.push({ address: activeWallet.address, value: change, isChange: true });
+        } else {
+            // Change too small to be worth an output is left to the fee
+            fee = total - amount;
+        }
 
-            // Create HD wallet root
-            const root = bip32.fromSeed(seed, avianNetwork);
+        const tx = new bitcoin.Transaction();
+        tx.version = 2;
+        for (const utxo of selected) {
+            tx.addInput(Buffer.from(utxo.txid, 'hex').reverse(), utxo.vout, RBF_SEQUENCE);
+        }
+        for (const output of outputs) {
+            tx.addOutput(
+                bitcoin.address.toOutputScript(output.address, avianNetwork),
+                output.value,
+            );
+        }
 
-            // Array to store derived addresses with balances
-            const derivedAddresses: Array<{
-                path: string;
-                address: string;
-                balance: number;
-                hasTransactions: boolean;
-            }> = [];
+        const inputs = [];
+        for (const utxo of selected) {
+            inputs.push({
+                txid: utxo.txid,
+                vout: utxo.vout,
+                value: utxo.value,
+                prevTxHex: await this.electrum.getTransaction(utxo.txid, false),
+                signatures: [],
+            });
+        }
 
-            // Generate addresses based on the selected address type
-            for (let i = 0; i < addressCount; i++) {
-                // Derive path - m/44'/coinType'/accountIndex'/changePath/i
-                // coinType: 921 for Avian, 175 for Ravencoin compatibility
-                const path = `m/44'/${coinType}'/${accountIndex}'/${changePath}/${i}`;
-                const child = root.derivePath(path);
+        return {
+            format: 'avian-multisig-tx',
+            version: 1,
+            txHex: tx.toHex(),
+            address: activeWallet.address,
+            redeemScript,
+            threshold,
+            inputs,
+            outputs,
+            fee,
+            createdAt: Date.now(),
+        };
+    }
 
-                if (!child.privateKey) {
-                    throw new Error(`Failed to derive private key for path ${path}`);
-                }
+    /**
+     * Add this device's signatures to a multisig proposal. The key comes from the active
+     * wallet's recovery phrase or, when a multisig wallet is active, from its signing wallet.
+     * Inputs, outputs and fee are checked against the transaction before anything is signed.
+     */
+    async signMultisigProposal(
+        proposal: MultisigProposal,
+        password?: string,
+    ): Promise<MultisigProposal> {
+        const activeWallet = await StorageService.getActiveWallet();
+        if (!activeWallet) {
+            throw new Error('No active wallet found');
+        }
 
-                // Create ECPair from derived private key
-                const keyPair = ECPair.fromPrivateKey(child.privateKey, { network: avianNetwork });
+        let signer: WalletData | null = activeWallet;
+        if (activeWallet.multisig) {
+            signer = activeWallet.multisig.localWalletAddress
+                ? await StorageService.getWalletByAddress(activeWallet.multisig.localWalletAddress)
+                : null;
+            if (!signer) {
+                throw new Error('This multisig wallet has no signing wallet on this device');
+            }
+        }
 
-                // Get the address based on address type
-                let address: string | undefined;
+        const redeemScript = Buffer.from(proposal.redeemScript, 'hex');
+        const { pubkeys } = MultisigService.parseRedeemScript(redeemScript);
+        const account = await this.deriveWalletAccount(signer, password);
+        const key = account.derive(0).derive(0);
+        const pubkey = Buffer.from(key.publicKey);
+        if (!pubkeys.some((candidate) => candidate.equals(pubkey))) {
+            throw new Error(`${signer.name} is not a cosigner of this multisig wallet`);
+        }
 
-                if (addressType === 'p2pkh') {
-                    // Standard P2PKH address
-                    const p2pkh = bitcoin.payments.p2pkh({
-                        pubkey: Buffer.from(keyPair.publicKey),
-                        network: avianNetwork,
-                    });
-                    address = p2pkh.address;
-                } else {
-                    // Default to P2PKH if type is not recognized
-                    const p2pkh = bitcoin.payments.p2pkh({
-                        pubkey: Buffer.from(keyPair.publicKey),
-                        network: avianNetwork,
-                    });
-                    address = p2pkh.address;
-                }
+        const tx = bitcoin.Transaction.fromHex(proposal.txHex);
+        this.checkMultisigProposal(tx, proposal, redeemScript);
 
-                if (!address) {
-                    throw new Error(`Failed to generate address for path ${path}`);
-                }
+        const keyPair = ECPair.fromPrivateKey(Buffer.from(key.privateKey!), {
+            network: avianNetwork,
+        });
+        const pubkeyHex = pubkey.toString('hex');
 
-                // Check balance for the address
-                const balance = await electrum.getBalance(address);
+        return {
+            ...proposal,
+            inputs: proposal.inputs.map((input, index) => {
+                const signatureHash = MultisigService.getSignatureHash(tx, index, redeemScript);
+                const signature = this.encodeDERWithCustomHashType(
+                    Buffer.from(keyPair.sign(signatureHash)),
+                    MultisigService.HASH_TYPE,
+                );
+                return {
+                    ...input,
+                    signatures: [
+                        ...input.signatures.filter((existing) => existing.pubkey !== pubkeyHex),
+                        { pubkey: pubkeyHex, signature: signature.toString('hex') },
+                    ],
+                };
+            }),
+        };
+    }
 
-                // Check if the address has any transactions
-                const history = await electrum.getTransactionHistory(address);
-                const hasTransactions = history.length > 0;
+    /**
+     * Assemble a fully signed multisig proposal and broadcast it
+     */
+    async finalizeMultisigProposal(proposal: MultisigProposal): Promise<string> {
+        try {
+            const redeemScript = Buffer.from(proposal.redeemScript, 'hex');
+            this.checkMultisigProposal(
+                bitcoin.Transaction.fromHex(proposal.txHex),
+                proposal,
+                redeemScript,
+            );
+            const tx = MultisigService.finalize(proposal);
 
-                // Add derived address with balance to the array
-                derivedAddresses.push({
-                    path,
-                    address,
-                    balance,
-                    hasTransactions,
-                });
+            const txid = await this.electrum.broadcastTransaction(tx.toHex());
+            if (!txid || typeof txid !== 'string') {
+                throw new Error('Transaction broadcast failed. Please try again later.');
             }
 
-            return derivedAddresses;
+            const payment = proposal.outputs.find((output) => !output.isChange);
+            await StorageService.saveTransaction({
+                txid: tx.getId(),
+                amount:
+                    proposal.outputs
+                        .filter((output) => !output.isChange)
+                        .reduce((sum, output) => sum + output.value, 0) / 100000000,
+                address: payment?.address || proposal.address,
+                fromAddress: proposal.address,
+                walletAddress: proposal.address,
+                type: 'send',
+                timestamp: new Date(),
+                confirmations: 0,
+                fee: proposal.fee / 100000000,
+            });
+
+            walletLogger.info(`Broadcast multisig transaction ${tx.getId()}`);
+            return tx.getId();
         } catch (error) {
-            walletLogger.error('Error deriving addresses with balances:', error);
-            throw new Error('Failed to derive addresses with balances');
+            walletLogger.error('Error finalizing multisig transaction:', error);
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            throw new Error(`Multisig transaction failed: ${errorMessage}`);
         }
     }
 
     /**
-     * Derives multiple addresses from the current wallet's mnemonic phrase and checks their balances
-     * Requires wallet password to decrypt the mnemonic
+     * Check that a proposal describes its transaction: every input spends the multisig
+     * address with the stated value, and the listed outputs and fee are what gets signed.
      */
-    async deriveCurrentWalletAddresses(
-        password: string,
-        accountIndex: number = 0,
-        addressCount: number = 10,
-        addressType: string = 'p2pkh',
-        changePath: number = 0, // 0 for receiving addresses, 1 for change addresses
-    ): Promise<Array<{ path: string; address: string; balance: number; hasTransactions: boolean }>> {
-        try {
-            // Get the current wallet to retrieve its coin type
-            const activeWallet = await StorageService.getActiveWallet();
-            if (!activeWallet) {
-                throw new Error('No active wallet found');
-            }
+    private checkMultisigProposal(
+        tx: bitcoin.Transaction,
+        proposal: MultisigProposal,
+        redeemScript: Buffer,
+    ): void {
+        const address = MultisigService.getAddress(redeemScript, avianNetwork);
+        const outputScript = bitcoin.address.toOutputScript(address, avianNetwork);
+        if (address !== proposal.address) {
+            throw new Error('Proposal address does not match its redeem script');
+        }
+        if (
+            tx.ins.length !== proposal.inputs.length ||
+            tx.outs.length !== proposal.outputs.length
+        ) {
+            throw new Error('Proposal does not match its transaction');
+        }
 
-            // Use the wallet's stored coin type, defaulting to 921 for legacy wallets
-            const coinType = activeWallet.coinType || 921;
+        let inputTotal = 0;
+        proposal.inputs.forEach((input, index) => {
+            const prevTx = bitcoin.Transaction.fromHex(input.prevTxHex);
+            const prevOut = prevTx.outs[input.vout];
+            if (
+                prevTx.getId() !== input.txid ||
+                Buffer.from(tx.ins[index].hash).reverse().toString('hex') !== input.txid ||
+                tx.ins[index].index !== input.vout ||
+                !prevOut ||
+                !prevOut.script.equals(outputScript) ||
+                prevOut.value !== input.value
+            ) {
+                throw new Error(`Input ${index} does not match its previous transaction`);
+            }
+            inputTotal += input.value;
+        });
 
-            const storedMnemonic = await StorageService.getMnemonic();
-            if (!storedMnemonic) {
-                throw new Error('No mnemonic stored for this wallet. Address derivation is not available.');
+        let outputTotal = 0;
+        proposal.outputs.forEach((output, index) => {
+            if (
+                this.getOutputAddress(tx.outs[index].script) !== output.address ||
+                tx.outs[index].value !== output.value ||
+                (output.isChange && output.address !== address)
+            ) {
+                throw new Error(`Output ${index} does not match the transaction`);
             }
+            outputTotal += output.value;
+        });
 
-            const isEncrypted = await StorageService.getIsEncrypted();
-            let decryptedMnemonic: string;
+        if (inputTotal - outputTotal !== proposal.fee) {
+            throw new Error('Proposal fee does not match the transaction');
+        }
+    }
 
-            if (isEncrypted) {
-                try {
-                    const { decrypted } = await decryptData(storedMnemonic, password);
-                    decryptedMnemonic = decrypted;
-                    if (!decryptedMnemonic) {
-                        throw new Error('Failed to decrypt mnemonic');
-                    }
+    /**
+     * Public key a cosigner contributes to a multisig wallet: 0/0 below its account xpub
+     */
+    static getCosignerPublicKey(xpub: string): Buffer {
+        return Buffer.from(WalletService.parseAccountXpub(xpub).derive(0).derive(0).publicKey);
+    }
 
-                    // Validate the decrypted mnemonic
-                    if (!bip39.validateMnemonic(decryptedMnemonic)) {
-                        throw new Error('Decrypted mnemonic is invalid');
-                    }
-                } catch (error) {
-                    throw new Error('Invalid password or corrupted mnemonic');
-                }
-            } else {
-                decryptedMnemonic = storedMnemonic;
+    /**
+     * Address to show a payer. HD wallets get the next unused receive address, which is
+     * kept until it receives funds so repeated views do not burn through the gap limit.
+     * Wallets without HD keys, and wallets with a pinned address, always get the same one.
+     *
+     * `reserve` hands out a new address for one payer only, such as a payment request, even
+     * when an address is pinned. It is never shown again, and the primary address is used
+     * instead once the gap limit of unused addresses is reached.
+     */
+    async getReceiveAddress(
+        options: { forceNew?: boolean; reserve?: boolean; password?: string } = {},
+    ): Promise<ReceiveAddressInfo> {
+        const activeWallet = await StorageService.getActiveWallet();
+        if (!activeWallet) {
+            throw new Error('No active wallet found');
+        }
+
+        const primary: ReceiveAddressInfo = {
+            address: activeWallet.address,
+            isPinned: false,
+            isFresh: false,
+        };
+        if (!activeWallet.mnemonic && !activeWallet.xpub) {
+            return primary;
+        }
+
+        const state: ReceiveAddressState = (await StorageService.getReceiveAddressState(
+            activeWallet.address,
+        )) || { issued: [] };
+        if (state.pinnedAddress && !options.reserve) {
+            return { address: state.pinnedAddress, isPinned: true, isFresh: false };
+        }
+        if (!state.accountXpub) {
+            if (activeWallet.isEncrypted && !options.password) {
+                return { ...primary, needsUnlock: true };
             }
+            state.accountXpub = await this.exportAccountXpub(options.password);
+        }
 
-            // Decrypt the stored passphrase if it exists
-            let decryptedPassphrase: string | undefined;
-            if (activeWallet.bip39Passphrase && isEncrypted) {
-                try {
-                    const { decrypted } = await decryptData(activeWallet.bip39Passphrase, password);
-                    decryptedPassphrase = decrypted;
-                } catch (error) {
-                    throw new Error('Invalid password or corrupted passphrase');
-                }
-            } else if (activeWallet.bip39Passphrase && !isEncrypted) {
-                // If wallet is not encrypted but has a passphrase, use it directly
-                decryptedPassphrase = activeWallet.bip39Passphrase;
+        const account = WalletService.parseAccountXpub(state.accountXpub);
+        const accountIndex = WalletService.getAccountIndex(account);
+        const hasHistory = async (address: string) =>
+            (await this.electrum.getTransactionHistory(address)).length > 0;
+
+        // Mark shown addresses that have received funds since
+        for (const entry of state.issued) {
+            if (!entry.used) {
+                entry.used = await hasHistory(entry.address);
             }
+        }
 
-            // Use the static method to derive addresses
-            return WalletService.deriveAddressesWithBalances(
-                decryptedMnemonic,
-                decryptedPassphrase, // Use the decrypted passphrase from wallet
+        const gapLimit = await StorageService.getGapLimit();
+        const unusedCount = state.issued.filter((entry) => !entry.used).length;
+        if (options.reserve && unusedCount >= gapLimit) {
+            await StorageService.setReceiveAddressState(activeWallet.address, state);
+            return primary;
+        }
+        const shown = state.issued.filter((entry) => !entry.reserved);
+        let current = shown[shown.length - 1];
+        let isNew = false;
+
+        if (
+            !current ||
+            current.used ||
+            options.reserve ||
+            (options.forceNew && unusedCount < gapLimit)
+        ) {
+            // Continue after the highest index that was shown or found used by discovery
+            const discovery = await StorageService.getAddressDiscoveryState(activeWallet.address);
+            const discovered = discovery?.accounts.find((entry) => entry.account === accountIndex);
+            let index =
+                Math.max(
+                    discovered ? discovered.highestReceiveIndex : -1,
+                    ...state.issued.map((entry) => entry.index),
+                ) + 1;
+
+            // Skip addresses that were already used elsewhere, e.g. by another wallet app
+            let address = WalletService.getXpubAddress(account, 0, index);
+            while (await hasHistory(address)) {
+                index++;
+                address = WalletService.getXpubAddress(account, 0, index);
+            }
+
+            current = { index, address, issuedAt: Date.now(), used: false };
+            isNew = true;
+            if (options.reserve) {
+                current.reserved = true;
+            }
+            state.issued.push(current);
+        }
+
+        await StorageService.setReceiveAddressState(activeWallet.address, state);
+        if (isNew) {
+            // Payments to the new address update the balance like any other wallet address
+            try {
+                await this.watchWalletAddress(activeWallet.address, current.address);
+            } catch (error) {
+                walletLogger.warn('Failed to subscribe to new receive address:', error);
+            }
+        }
+        return {
+            address: current.address,
+            path: AddressDiscoveryService.getPath(
+                activeWallet.coinType || 921,
                 accountIndex,
-                addressCount,
-                addressType,
-                changePath,
-                coinType,
-            );
-        } catch (error) {
-            walletLogger.error('Error deriving addresses from current wallet:', error);
-            throw error;
+                0,
+                current.index,
+            ),
+            index: current.index,
+            isPinned: false,
+            isFresh: true,
+        };
+    }
+
+    /**
+     * Pin a reusable receive address for the active wallet, or unpin it with null
+     */
+    async setPinnedReceiveAddress(address: string | null): Promise<void> {
+        const activeWallet = await StorageService.getActiveWallet();
+        if (!activeWallet) {
+            throw new Error('No active wallet found');
+        }
+
+        const state = (await StorageService.getReceiveAddressState(activeWallet.address)) || {
+            issued: [],
+        };
+        if (address) {
+            state.pinnedAddress = address;
+        } else {
+            delete state.pinnedAddress;
         }
+        await StorageService.setReceiveAddressState(activeWallet.address, state);
     }
+
     /**
      * Sign a message with the private key of the given wallet address
      * @param privateKeyWIF - The WIF private key to sign the message with (may be encrypted)
@@ -3507,8 +6112,19 @@ export class WalletService {
                 decryptedMnemonic = storedMnemonic;
             }
 
+            // Decrypt the stored passphrase so the path matches the displayed addresses
+            let decryptedPassphrase: string | undefined = activeWallet.bip39Passphrase;
+            if (activeWallet.bip39Passphrase && activeWallet.isEncrypted) {
+                try {
+                    const { decrypted } = await decryptData(activeWallet.bip39Passphrase, password);
+                    decryptedPassphrase = decrypted;
+                } catch (error) {
+                    throw new Error('Invalid password or corrupted passphrase');
+                }
+            }
+
             // Derive the private key for the specified path
-            const seed = await bip39.mnemonicToSeed(decryptedMnemonic);
+            const seed = await bip39.mnemonicToSeed(decryptedMnemonic, decryptedPassphrase);
             const root = bip32.fromSeed(seed, avianNetwork);
 
             // Remove 'm/' prefix if present in the path
@@ -3536,162 +6152,18 @@ export class WalletService {
                 throw new Error('Failed to generate address from derived key');
             }
 
-            // Get UTXOs for the derived address
-            const rawUTXOs = await this.electrum.getUTXOs(fromAddress);
-            if (rawUTXOs.length === 0) {
-                throw new Error('No unspent transaction outputs found for this derived address');
-            }
-
-            // Enhance UTXOs with additional metadata
-            const currentBlockHeight = await this.electrum.getCurrentBlockHeight();
-            const enhancedUTXOs: EnhancedUTXO[] = rawUTXOs.map((utxo) => ({
-                ...utxo,
-                confirmations: utxo.height ? Math.max(0, currentBlockHeight - utxo.height + 1) : 0,
-                isConfirmed: utxo.height ? currentBlockHeight - utxo.height + 1 >= 1 : false,
-                ageInBlocks: utxo.height ? currentBlockHeight - utxo.height + 1 : 0,
-                address: fromAddress,
-            }));
-
-            // Calculate total available amount
-            const totalAvailable = enhancedUTXOs.reduce((sum, utxo) => sum + utxo.value, 0);
-
-            // Define transaction fee and options
-            const feeRate = options?.feeRate || 10000; // Default to 10000 satoshis per KB
-            const maxInputs = options?.maxInputs || 650; // Default: stay under ~100KB for standard txs
-            const minConfirmations =
-                options?.minConfirmations !== undefined ? options?.minConfirmations : 6;
-            const strategy = options?.strategy || CoinSelectionStrategy.BEST_FIT;
-
-            // Get selected UTXOs based on the chosen strategy
-            const selectionOptions: UTXOSelectionOptions = {
-                strategy: strategy,
-                targetAmount: amount,
-                feeRate: feeRate,
-                maxInputs: maxInputs,
-                minConfirmations: minConfirmations,
-                allowUnconfirmed: true,
-                includeDust: false,
-            };
-
-            const selectionResult = UTXOSelectionService.selectUTXOs(enhancedUTXOs, selectionOptions);
-
-            if (!selectionResult) {
-                throw new Error('Unable to select suitable UTXOs for transaction');
-            }
-
-            const { selectedUTXOs, change: changeAmount } = selectionResult;
-
-            // Calculate final amounts based on subtractFeeFromAmount option
-            let finalSendAmount = amount;
-            let finalChangeAmount = changeAmount;
-
-            if (options?.subtractFeeFromAmount) {
-                // Subtract the estimated fee from the send amount
-                const estimatedFee = (feeRate * 250) / 1000; // Rough estimate based on typical transaction size
-                finalSendAmount = Math.max(0, amount - estimatedFee);
-                // Recalculate change with the reduced send amount
-                const totalInput = selectedUTXOs.reduce((sum, utxo) => sum + utxo.value, 0);
-                finalChangeAmount = totalInput - finalSendAmount - estimatedFee;
-            }
-
-            // Determine change address - use custom address if provided, otherwise sender's address
-            const changeAddress =
-                options?.changeAddress && options.changeAddress.trim() !== ''
-                    ? options.changeAddress
-                    : fromAddress;
-
-            // Create transaction
-            const tx = new bitcoin.Transaction();
-
-            // Add inputs from selected UTXOs
-            for (const utxo of selectedUTXOs) {
-                tx.addInput(Buffer.from(utxo.txid, 'hex').reverse(), utxo.vout);
-            }
-
-            // Add output for recipient
-            tx.addOutput(bitcoin.address.toOutputScript(toAddress, avianNetwork), finalSendAmount);
-
-            // Add change output if needed
-            if (finalChangeAmount > 600) {
-                // Only create change outputs above dust limit
-                tx.addOutput(
-                    bitcoin.address.toOutputScript(changeAddress, avianNetwork),
-                    finalChangeAmount,
-                );
-            }
-
-            // Sign the transaction inputs
-            for (let i = 0; i < tx.ins.length; i++) {
-                try {
-                    // Get the previous transaction to use the correct scriptPubKey
-                    const utxo = selectedUTXOs[i];
-                    const prevTxHex = await this.electrum.getTransaction(utxo.txid, false);
-                    const prevTx = bitcoin.Transaction.fromHex(prevTxHex);
-                    const prevOutScript = prevTx.outs[utxo.vout].script;
-
-                    // Define hashType consistent with the sendTransaction method
-                    const SIGHASH_ALL = 0x01;
-                    const SIGHASH_FORKID = 0x40;
-                    const hashType = SIGHASH_ALL | SIGHASH_FORKID; // 0x41 for Avian
-
-                    // Create the signature hash using hashForSignature instead of hashForWitnessV0
-                    // This is the correct method for P2PKH addresses
-                    const signatureHash = tx.hashForSignature(i, prevOutScript, hashType);
-
-                    // Sign the hash
-                    const signature = keyPair.sign(signatureHash);
-
-                    // Encode signature in DER format with custom hashtype
-                    const signatureWithHashType = this.encodeDERWithCustomHashType(
-                        Buffer.from(signature),
-                        hashType,
-                    );
-
-                    // Build scriptSig manually (matches what's used in sendTransaction)
-                    const scriptSig = bitcoin.script.compile([
-                        signatureWithHashType,
-                        Buffer.from(keyPair.publicKey),
-                    ]);
-
-                    // Set the input script
-                    tx.ins[i].script = scriptSig;
-                } catch (error: any) {
-                    walletLogger.error(`Error signing input ${i}:`, error);
-                    throw new Error(`Failed to sign input ${i}: ${error.message || 'Unknown error'}`);
-                }
-            }
-
-            // Validate the transaction before broadcasting
-            for (let i = 0; i < tx.ins.length; i++) {
-                if (!tx.ins[i].script || tx.ins[i].script.length === 0) {
-                    throw new Error(`Input ${i} has empty script after signing!`);
-                }
-            }
-
-            // Broadcast the transaction
-            const serializedTx = tx.toHex();
-            const txId = await this.electrum.broadcastTransaction(serializedTx);
-
-            if (!txId) {
-                throw new Error('Failed to broadcast transaction');
-            }
-
-            // Track this as a sent transaction in our history
-            const txData = {
-                txid: txId,
-                amount: amount / 100000000, // Convert to AVN
-                address: toAddress,
-                fromAddress: fromAddress,
-                walletAddress: fromAddress, // Use the derived address
-                type: 'send' as 'send', // Explicitly typed as 'send'
-                timestamp: new Date(),
-                confirmations: 0,
-            };
-
-            // Save transaction to history
-            await StorageService.saveTransaction(txData);
-
-            return txId;
+            // Build, sign and broadcast from the derived address only
+            const unsigned = await this.buildUnsignedTransaction(toAddress, amount, {
+                ...options,
+                fromAddress,
+                derivationPath,
+                strategy: options?.strategy || CoinSelectionStrategy.BEST_FIT,
+                maxInputs: options?.maxInputs || 650, // Default: stay under ~100KB for standard txs
+                minConfirmations:
+                    options?.minConfirmations !== undefined ? options?.minConfirmations : 6,
+            });
+            const signed = await this.signTransaction(unsigned, password);
+            return await this.broadcastTransaction(signed);
         } catch (error) {
             walletLogger.error('Error sending transaction from derived address:', error);
             throw error;
@@ -710,6 +710,21 @@ export class WatchAddressService {
     }
   }
 
+  /**
+   * Get the stored watched addresses of a wallet without refreshing their balances
+   */
+  static async getStoredWatchAddresses(userWalletAddress: string): Promise<WatchAddress[]> {
+    if (!isBrowser()) {
+      return [];
+    }
+    try {
+      return await this.getWatchedAddressesStore(userWalletAddress);
+    } catch (error) {
+      watchAddressLogger.error('Failed to read watched addresses:', error);
+      return [];
+    }
+  }
+
   /**
    * Get all watched addresses across all wallets
    * This method aggregates watched addresses from all wallets into a single list
@@ -6,4 +6,15 @@
 // Re-export all wallet services
 export { WalletService } from './WalletService';
 export { UTXOSelectionService } from './UTXOSelectionService';
+export { FeeEstimationService } from './FeeEstimationService';
+export { OfflineSigningService } from './OfflineSigningService';
+export { AddressDiscoveryService } from './AddressDiscoveryService';
+export { AssetService } from './AssetService';
+export { MultisigService } from './MultisigService';
+export { SpvService } from './SpvService';
+export { LabelService } from './LabelService';
+export { BatchPaymentService } from './BatchPaymentService';
+export { ScheduledPaymentService } from './ScheduledPaymentService';
+export { InvoiceService } from './InvoiceService';
+export { PaymentUriService } from './PaymentUriService';
 export { WatchAddressService } from './WatchAddressService';
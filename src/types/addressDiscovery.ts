@@ -0,0 +1,48 @@
+// BIP44 gap-limit address discovery types
+
+export type AddressChain = 0 | 1; // 0 = receive (external), 1 = change (internal)
+
+export interface DiscoveredAddress {
+  path: string; // m/44'/coinType'/account'/chain/index
+  address: string;
+  account: number;
+  chain: AddressChain;
+  index: number;
+}
+
+export interface DiscoveredAccount {
+  account: number;
+  highestReceiveIndex: number; // Highest used receive index, -1 when none are used
+  highestChangeIndex: number; // Highest used change index, -1 when none are used
+  addresses: DiscoveredAddress[]; // Used addresses only
+}
+
+export interface AddressDiscoveryState {
+  gapLimit: number;
+  coinType: number;
+  accounts: DiscoveredAccount[];
+  discoveredAt: number;
+}
+
+export interface IssuedReceiveAddress {
+  index: number;
+  address: string;
+  issuedAt: number;
+  used: boolean; // Set once the address has any transaction history
+  reserved?: boolean; // Handed out for a single payment request, never shown again
+}
+
+export interface ReceiveAddressState {
+  accountXpub?: string; // Cached so new receive addresses can be derived without a password
+  issued: IssuedReceiveAddress[];
+  pinnedAddress?: string;
+}
+
+export interface ReceiveAddressInfo {
+  address: string;
+  path?: string;
+  index?: number;
+  isPinned: boolean;
+  isFresh: boolean; // True for a derived per-payment address, false for the primary address
+  needsUnlock?: boolean; // Encrypted wallet that needs the password once to derive addresses
+}
@@ -0,0 +1,55 @@
+// Avian asset types
+
+// Operation encoded in an asset script: transfer, new issue, reissue or owner token
+export type AssetScriptType = 'transfer' | 'issue' | 'reissue' | 'owner';
+
+export interface AssetScriptData {
+  type: AssetScriptType;
+  name: string;
+  amount: number; // Smallest asset units (1e-8); owner tokens always carry 1e8
+  address: string | null; // Holder of the output, null for unrecognized destination scripts
+}
+
+export interface AssetBalance {
+  name: string;
+  confirmed: number; // Smallest asset units (1e-8)
+  unconfirmed: number;
+}
+
+export interface AssetMeta {
+  name: string;
+  supply: number; // Smallest asset units (1e-8) in circulation
+  units: number; // Decimal places
+  reissuable: boolean;
+}
+
+export interface AssetUTXO {
+  txid: string;
+  vout: number;
+  value: number; // AVN satoshis carried by the output, normally 0
+  height?: number;
+  assetName: string;
+  assetAmount: number; // Smallest asset units (1e-8)
+  address: string;
+}
+
+// Kind of asset creation: a new root asset, PARENT/CHILD, PARENT#TAG, or more of an existing one
+export type AssetIssueType = 'root' | 'sub' | 'unique' | 'reissue';
+
+export interface AssetIssueRequest {
+  type: AssetIssueType;
+  name: string; // Full name, e.g. ROOT, PARENT/CHILD or PARENT#TAG
+  amount: number; // Smallest asset units (1e-8); for reissue, the amount added
+  units: number; // Decimal places 0-8; for reissue, -1 keeps the current setting
+  reissuable: boolean;
+  toAddress?: string; // Receives the asset and owner token, defaults to the wallet address
+}
+
+export interface AssetIssuePreview {
+  burnAmount: number; // satoshis
+  burnAddress: string;
+  fee: number; // satoshis
+  size: number; // Estimated signed size in bytes
+  inputCount: number;
+  ownerToken?: string; // Owner token the transaction spends and returns to the wallet
+}
@@ -1,3 +1,6 @@
+import { MultisigWalletConfig } from './multisig';
+import { Invoice } from './invoices';
+
 export interface WalletBackup {
   version: string;
   timestamp: number;
@@ -8,6 +11,7 @@ export interface WalletBackup {
   transactions?: BackupTransaction[];
   auditLog?: BackupSecurityAudit[];
   watchedAddresses?: BackupWatchedAddress[];
+  invoices?: Invoice[];
 }
 
 // Define transaction structure for backup
@@ -20,6 +24,9 @@ export interface BackupTransaction {
   timestamp: number;
   confirmations: number;
   blockHeight?: number;
+  walletAddress?: string;
+  memo?: string;
+  category?: string;
 }
 
 // Define security audit entry for backup
@@ -39,6 +46,9 @@ export interface BackupWallet {
   privateKey: string;
   mnemonic?: string;
   isEncrypted: boolean;
+  isWatchOnly?: boolean;
+  xpub?: string;
+  multisig?: MultisigWalletConfig;
   isActive: boolean;
   createdAt: number;
   lastAccessed?: number;
@@ -108,6 +118,7 @@ export interface RestoreOptions {
   includeTransactions?: boolean;
   includeSecurityAudit?: boolean;
   includeWatchedAddresses?: boolean;
+  includeInvoices?: boolean;
   overwriteExisting: boolean;
   password?: string;
 }
@@ -121,6 +132,7 @@ export interface BackupValidationResult {
   transactionsCount?: number;
   auditLogCount?: number;
   watchedAddressesCount?: number;
+  invoicesCount?: number;
   errors: string[];
   warnings: string[];
 }
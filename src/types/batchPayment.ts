@@ -0,0 +1,25 @@
+// Batch (multi-recipient) payment types
+
+export interface PaymentRecipient {
+  address: string;
+  amount: number; // satoshis
+}
+
+export interface BatchRecipient extends PaymentRecipient {
+  label?: string; // Saved as the label of the recipient's output once sent
+}
+
+export interface BatchParseResult {
+  recipients: BatchRecipient[];
+  errors: string[]; // One message per rejected line
+}
+
+export interface BatchPaymentPreview {
+  recipients: BatchRecipient[];
+  total: number; // satoshis paid to recipients
+  fee: number; // satoshis
+  feeRate: number; // sat/byte
+  size: number; // Estimated signed size in bytes
+  inputCount: number;
+  change: number; // satoshis
+}
@@ -0,0 +1,43 @@
+// Electrum server and transport types
+
+export interface ElectrumServer {
+  host: string;
+  port: number;
+  protocol: 'wss' | 'ws' | 'tcp' | 'tls';
+  region?: string;
+}
+
+// Callbacks a transport reports incoming data and disconnects to
+export interface ElectrumTransportHandlers {
+  onMessage: (data: string) => void; // One JSON-RPC message
+  onClose: (code: number, reason: string) => void; // 1000 for a normal, requested close
+}
+
+// Connection that carries Electrum JSON-RPC messages to and from a server
+export interface ElectrumTransport {
+  connect(handlers: ElectrumTransportHandlers): Promise<void>;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+export type ElectrumTransportFactory = (server: ElectrumServer) => ElectrumTransport;
+
+// What ElectrumService has learned about a server from connecting to and probing it
+export interface ElectrumServerHealth {
+  latency: number | null; // Round trip of the last version handshake in ms
+  failures: number; // Consecutive failed connections or probes
+  height: number | null; // Chain tip the server last reported
+  heightLag: number | null; // Blocks behind the highest tip seen on any server
+  serverVersion: string | null; // Server software, e.g. ElectrumX 1.16.0
+  protocolVersion: string | null; // Negotiated Electrum protocol version
+  lastChecked: number | null; // Timestamp of the last connection attempt or probe
+  lastError?: string;
+}
+
+export interface ElectrumServerStatus {
+  server: ElectrumServer;
+  url: string;
+  health: ElectrumServerHealth;
+  score: number; // Lower is healthier
+  isCurrent: boolean;
+}
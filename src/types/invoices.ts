@@ -0,0 +1,33 @@
+// Payment request (invoice) types
+
+export type InvoiceStatus = 'pending' | 'paid' | 'underpaid' | 'overpaid' | 'expired';
+
+export interface InvoicePayment {
+  txid: string;
+  amount: number; // satoshis paid to the invoice address
+  height: number; // Block height; 0 or less while unconfirmed
+}
+
+export interface Invoice {
+  id: string;
+  walletAddress: string; // Wallet the request was made for
+  address: string; // Address the payer sends to
+  addressPath?: string; // Derivation path when the address is a fresh HD address
+  amount: number; // satoshis requested
+  label?: string;
+  message?: string;
+  createdAt: number;
+  expiresAt?: number; // ms timestamp; never expires when not set
+  status: InvoiceStatus;
+  received: number; // satoshis received so far
+  payments: InvoicePayment[];
+  knownTxids: string[]; // Address history from before the request, never counted towards it
+  paidAt?: number;
+}
+
+export interface InvoiceRequest {
+  amount: number; // satoshis
+  label?: string;
+  message?: string;
+  expiresIn?: number; // ms from now; never expires when not set
+}
@@ -0,0 +1,22 @@
+// Wallet label types (BIP329)
+
+// Kinds of records a label can be attached to
+export type LabelType = 'tx' | 'addr' | 'pubkey' | 'input' | 'output' | 'xpub';
+
+/**
+ * One BIP329 label record. `ref` is a txid for 'tx', an address for 'addr', and
+ * `txid:index` for 'input' and 'output'.
+ */
+export interface WalletLabel {
+  type: LabelType;
+  ref: string;
+  label?: string;
+  origin?: string; // Descriptor of the wallet the label came from
+  spendable?: boolean; // Outputs only; false keeps the coin out of coin selection
+}
+
+export interface LabelImportResult {
+  imported: number;
+  hidden: number; // Stored, but a wallet name, address book name or memo is shown instead
+  skipped: number; // Lines that were not valid BIP329 records
+}
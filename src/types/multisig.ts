@@ -0,0 +1,46 @@
+// P2SH m-of-n multisig types
+
+export interface MultisigCosigner {
+  name: string;
+  xpub: string; // Account-level extended public key (m/44'/coin'/account')
+}
+
+export interface MultisigWalletConfig {
+  threshold: number; // Signatures required (m)
+  cosigners: MultisigCosigner[]; // All n key holders, including this device's
+  redeemScript: string; // hex; public keys at 0/0 of each xpub, sorted (BIP67)
+  localWalletAddress?: string; // Wallet on this device whose recovery phrase backs a cosigner
+}
+
+export interface MultisigSignature {
+  pubkey: string; // hex
+  signature: string; // hex DER signature with its hash type byte
+}
+
+export interface MultisigProposalInput {
+  txid: string;
+  vout: number;
+  value: number; // satoshis
+  prevTxHex: string; // Full previous transaction so each signer can verify the input value
+  signatures: MultisigSignature[];
+}
+
+export interface MultisigProposalOutput {
+  address: string;
+  value: number; // satoshis
+  isChange: boolean;
+}
+
+// Spend proposal passed between cosigners until enough of them have signed
+export interface MultisigProposal {
+  format: 'avian-multisig-tx';
+  version: 1;
+  txHex: string; // Transaction with empty scriptSigs
+  address: string; // Multisig address being spent from
+  redeemScript: string; // hex
+  threshold: number;
+  inputs: MultisigProposalInput[];
+  outputs: MultisigProposalOutput[];
+  fee: number; // satoshis
+  createdAt: number;
+}
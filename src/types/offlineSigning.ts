@@ -0,0 +1,43 @@
+// Offline (air-gapped) signing types
+
+export interface UnsignedTransactionInput {
+  txid: string;
+  vout: number;
+  value: number; // satoshis
+  address: string;
+  scriptPubKey: string; // hex
+  prevTxHex: string; // Full previous transaction so the signer can verify the input value offline
+  derivationPath?: string; // BIP44 path when the input belongs to an HD address
+}
+
+export interface UnsignedTransactionOutput {
+  address: string;
+  value: number; // satoshis
+  isChange: boolean;
+}
+
+export interface UnsignedTransaction {
+  format: 'avian-unsigned-tx';
+  version: 1;
+  txHex: string; // Transaction with empty scriptSigs
+  fromAddress: string; // Wallet address the payment is recorded under
+  inputs: UnsignedTransactionInput[];
+  outputs: UnsignedTransactionOutput[];
+  fee: number; // satoshis
+  feeRate: number; // sat/byte
+  size: number; // Estimated signed size in bytes
+  createdAt: number;
+}
+
+export interface SignedTransaction {
+  format: 'avian-signed-tx';
+  version: 1;
+  txid: string;
+  txHex: string;
+  fromAddress: string;
+  outputs: UnsignedTransactionOutput[];
+  fee: number; // satoshis
+  signedAt: number;
+}
+
+export type OfflineTransactionPayload = UnsignedTransaction | SignedTransaction;
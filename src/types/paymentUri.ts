@@ -0,0 +1,9 @@
+// avian: payment URI types (BIP21 style)
+
+export interface PaymentUri {
+  address: string;
+  amount?: number; // satoshis
+  label?: string;
+  message?: string;
+  params?: Record<string, string>; // Other optional parameters, kept as given
+}
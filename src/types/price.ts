@@ -0,0 +1,31 @@
+// Fiat price types
+
+// ISO 4217 code of a fiat currency the price provider quotes AVN in
+export type FiatCurrency =
+  | 'USD'
+  | 'EUR'
+  | 'GBP'
+  | 'CAD'
+  | 'AUD'
+  | 'JPY'
+  | 'CHF'
+  | 'CNY'
+  | 'KRW'
+  | 'INR'
+  | 'BRL';
+
+export interface PriceQuote {
+  price: number; // Price of 1 AVN in the quoted currency
+  change24h: number; // Percent
+}
+
+// Daily AVN prices keyed by UTC date (YYYY-MM-DD)
+export type DailyPrices = Record<string, number>;
+
+// Source of AVN prices. The app uses CoinGecko; FixturePriceProvider stands in for tests.
+export interface PriceProvider {
+  readonly name: string;
+  getPrice(currency: FiatCurrency): Promise<PriceQuote>;
+  // Daily prices for every UTC day from `from` to `to` the source has data for
+  getDailyPrices(currency: FiatCurrency, from: Date, to: Date): Promise<DailyPrices>;
+}
@@ -0,0 +1,41 @@
+// Scheduled and recurring payment types
+
+import { FiatCurrency } from './price';
+
+export type PaymentCadence = 'once' | 'daily' | 'weekly' | 'biweekly' | 'monthly';
+
+export interface ScheduledPayment {
+  id: string;
+  walletAddress: string; // Wallet the payment is sent from
+  name: string;
+  recipient: string;
+  amount: number; // In amountCurrency: AVN, or a fiat amount converted when due
+  amountCurrency: 'AVN' | FiatCurrency;
+  cadence: PaymentCadence;
+  nextRun: number; // ms timestamp the next payment is due
+  dayOfMonth?: number; // Monthly payments fall on this day, or the month's last day if shorter
+  endDate?: number; // ms timestamp; no payments are due after it
+  memo?: string;
+  category?: string;
+  autoApprove: boolean; // Sign without asking when within the auto-sign limit
+  enabled: boolean;
+  createdAt: number;
+}
+
+export type ScheduledPaymentOutcome = 'sent' | 'failed' | 'skipped';
+
+export interface ScheduledPaymentRun {
+  paymentId: string;
+  walletAddress: string;
+  name: string;
+  dueAt: number;
+  runAt: number;
+  outcome: ScheduledPaymentOutcome;
+  amount?: number; // satoshis sent or attempted
+  txid?: string;
+  error?: string;
+}
+
+export interface ScheduledPaymentSettings {
+  autoSignLimit: number; // Largest payment in satoshis signed without asking; 0 always asks
+}
@@ -15,6 +15,20 @@ export interface BiometricAuthResult {
   walletPassword?: string; // The stored wallet password for unlocking
 }
 
+// The wallet password wrapped with a key from the authenticator's WebAuthn PRF extension.
+// Only the authenticator can produce that key, so the stored record can't be opened on its own.
+export interface BiometricKeyWrap {
+  method: 'webauthn-prf';
+  salt: number[]; // PRF input
+  nonce: number[]; // AES-GCM nonce
+  wrappedPassword: number[]; // Ciphertext and tag
+  createdAt: number;
+}
+
+// How a wallet's biometric unlock keeps its password: 'prf' wraps it with the authenticator's
+// secret; 'credential' is the fallback for authenticators without PRF, keyed by the credential ID
+export type BiometricProtection = 'prf' | 'credential' | 'none';
+
 export interface TermsAcceptance {
   accepted: boolean;
   version: string;
@@ -47,7 +61,8 @@ export type SecurityAction =
   | 'wallet_create'
   | 'wallet_import'
   | 'settings_change'
-  | 'auto_lock_triggered';
+  | 'auto_lock_triggered'
+  | 'spv_verification_failed';
 
 export interface AutoLockSettings {
   enabled: boolean;
@@ -77,3 +92,36 @@ export interface SecurityState {
   biometricAvailable: boolean;
   requiresPasswordUnlock: boolean;
 }
+
+// Key derivation for encrypted secrets. The envelope names the function and its parameters,
+// so stronger settings or another function (e.g. Argon2id) can be added as a new member here
+export interface ScryptKdfParams {
+  kdf: 'scrypt';
+  N: number; // CPU/memory cost, a power of two
+  r: number; // Block size
+  p: number; // Parallelization
+}
+
+export type KdfParams = ScryptKdfParams;
+
+export type KdfId = KdfParams['kdf'];
+
+// 'envelope' is the current self-describing format; 'headerless' is the earlier
+// salt|iv|tag|ciphertext hex with fixed scrypt parameters; 'cryptojs' is the original CryptoJS AES
+export type EncryptionFormat = 'envelope' | 'headerless' | 'cryptojs';
+
+export interface EncryptionInfo {
+  format: EncryptionFormat;
+  version?: number; // Envelope version
+  params?: KdfParams; // Key derivation used, when known
+}
+
+export type WalletSecretKind = 'privateKey' | 'mnemonic' | 'bip39Passphrase' | 'biometricPassword';
+
+// A stored secret that will be re-encrypted on the wallet's next unlock
+export interface OutdatedSecret {
+  walletName: string;
+  walletAddress: string;
+  secret: WalletSecretKind;
+  info: EncryptionInfo;
+}
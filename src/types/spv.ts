@@ -0,0 +1,31 @@
+// SPV (simplified payment verification) types
+
+// Parsed 80-byte block header. Hashes are hex in display (reversed) byte order.
+export interface BlockHeader {
+  height: number;
+  version: number;
+  prevHash: string;
+  merkleRoot: string;
+  timestamp: number; // Unix seconds
+  bits: number; // Compact difficulty target
+  nonce: number;
+  hex: string; // Raw serialized header
+}
+
+// Merkle branch from blockchain.transaction.get_merkle
+export interface MerkleProof {
+  blockHeight: number;
+  merkle: string[]; // Sibling hashes from the leaf up, display byte order
+  pos: number; // Index of the transaction in the block
+}
+
+// verified: the transaction's Merkle proof matches one of the synced, validated headers
+// partial: the Merkle proof matches an older header that was fetched and validated on its own
+// unverified: not checked yet, or the server could not be reached
+// failed: the server's proof or headers contradict each other
+export type SpvStatus = 'verified' | 'partial' | 'unverified' | 'failed';
+
+export interface SpvVerificationResult {
+  status: SpvStatus;
+  reason?: string; // Why verification failed
+}
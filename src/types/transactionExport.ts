@@ -0,0 +1,29 @@
+// Transaction history export types
+
+// csv/json carry every field; koinly and cointracking use those services' CSV import layouts
+export type TransactionExportFormat = 'csv' | 'json' | 'koinly' | 'cointracking';
+
+export interface TransactionExportOptions {
+  format: TransactionExportFormat;
+  walletAddresses?: string[]; // Wallets to include; all wallets when omitted
+  from?: Date; // Inclusive
+  to?: Date; // Inclusive
+}
+
+// One exported transaction, seen from the wallet it belongs to
+export interface TransactionExportRow {
+  txid: string;
+  date: string; // ISO 8601, UTC
+  direction: 'send' | 'receive';
+  amount: number; // In `currency` units
+  currency: string; // AVN, or the asset name for asset transfers
+  fee: number | null; // AVN, only known for transactions this wallet built
+  counterparty: string; // Recipient for sends, sender for receives
+  label: string; // Address book or wallet name of the counterparty
+  memo: string;
+  category: string; // Category id, see DEFAULT_TRANSACTION_CATEGORIES
+  blockHeight: number | null;
+  wallet: string; // Address of the wallet the transaction belongs to
+  fiatValue: number | null; // Value of `amount` at the AVN price on the transaction's day
+  fiatCurrency: string;
+}
@@ -0,0 +1,32 @@
+// Transaction history filter types
+
+// pending: unconfirmed; confirming: under 6 confirmations or awaiting SPV verification;
+// confirmed: 6+ confirmations and verified; failed: SPV verification failed
+export type TransactionStatusFilter = 'pending' | 'confirming' | 'confirmed' | 'failed';
+
+// Every field is optional; set fields must all match
+export interface TransactionFilters {
+  type?: 'send' | 'receive';
+  from?: string; // UTC day, YYYY-MM-DD, inclusive
+  to?: string; // UTC day, YYYY-MM-DD, inclusive
+  minAmount?: number; // AVN
+  maxAmount?: number; // AVN
+  counterparty?: string; // Part of the counterparty address or its address book name
+  status?: TransactionStatusFilter;
+  memo?: string; // Text in the memo or imported label
+  txidPrefix?: string;
+  category?: string; // TransactionCategory id
+  text?: string; // Free text matched against all of the above
+}
+
+export interface TransactionFilterPreset {
+  id: string;
+  name: string;
+  filters: TransactionFilters;
+}
+
+export interface TransactionQueryResult<T> {
+  transactions: T[]; // The requested page, newest first
+  total: number; // Matches of the requested type across all pages
+  counts: { all: number; send: number; receive: number }; // Matches regardless of type
+}
@@ -0,0 +1,25 @@
+// Transaction memo and category types
+
+export interface TransactionCategory {
+  id: string;
+  name: string;
+}
+
+export const DEFAULT_TRANSACTION_CATEGORIES: TransactionCategory[] = [
+  { id: 'payroll', name: 'Payroll' },
+  { id: 'exchange', name: 'Exchange' },
+  { id: 'refund', name: 'Refund' },
+  { id: 'purchase', name: 'Purchase' },
+  { id: 'income', name: 'Income' },
+  { id: 'transfer', name: 'Own transfer' },
+  { id: 'donation', name: 'Donation' },
+  { id: 'other', name: 'Other' },
+];
+
+export const MAX_MEMO_LENGTH = 500;
+
+// User-editable fields of a stored transaction
+export interface TransactionNotes {
+  memo?: string;
+  category?: string; // TransactionCategory id
+}